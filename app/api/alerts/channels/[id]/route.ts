@@ -0,0 +1,136 @@
+/**
+ * Individual Alert Channel API Route
+ * PATCH - Update name, kind, config or enabled flag
+ * DELETE - Remove channel
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { validateChannelInput } from '@/lib/alerts/channels'
+
+export const dynamic = 'force-dynamic'
+
+interface ChannelParams {
+  params: Promise<{ id: string }>
+}
+
+const UPDATABLE_FIELDS = ['name', 'kind', 'config', 'enabled'] as const
+
+// PATCH - Update channel
+export async function PATCH(
+  request: NextRequest,
+  { params }: ChannelParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const updates = await request.json()
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('alert_channels')
+      .select('kind')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (fetchError) {
+      console.error('Error fetching alert channel:', fetchError)
+      return NextResponse.json(
+        { error: 'Failed to fetch alert channel', message: fetchError.message },
+        { status: 500 }
+      )
+    }
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert channel not found' }, { status: 404 })
+    }
+
+    const validationError = validateChannelInput(updates, existing.kind)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const updateData: Record<string, unknown> = {}
+    for (const field of UPDATABLE_FIELDS) {
+      if (updates[field] !== undefined) {
+        updateData[field] = field === 'name' ? updates.name.trim() : updates[field]
+      }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No valid fields to update' },
+        { status: 400 }
+      )
+    }
+
+    updateData.updated_at = new Date().toISOString()
+
+    const { data: channel, error } = await supabase
+      .from('alert_channels')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating alert channel:', error)
+      return NextResponse.json(
+        { error: 'Failed to update alert channel', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ channel })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove channel
+export async function DELETE(
+  request: NextRequest,
+  { params }: ChannelParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase
+      .from('alert_channels')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting alert channel:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete alert channel', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Alert Channel Test API Route
+ * POST - Deliver a sample alert to one channel, enabled or not
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { deliverAlert, type AlertChannel } from '@/lib/alerts/channels'
+
+export const dynamic = 'force-dynamic'
+
+interface ChannelParams {
+  params: Promise<{ id: string }>
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: ChannelParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: channel, error } = await supabase
+      .from('alert_channels')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching alert channel:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch alert channel', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!channel) {
+      return NextResponse.json({ error: 'Alert channel not found' }, { status: 404 })
+    }
+
+    const delivery = await deliverAlert(channel as AlertChannel, {
+      id: 'test',
+      ruleId: 'test',
+      ruleName: 'Test alert',
+      title: 'Test alert from T-Insight',
+      message: `If you can read this, the "${channel.name}" channel is set up correctly.`,
+      severity: 'info',
+      firedAt: new Date().toISOString(),
+      payload: { test: true },
+    })
+
+    return NextResponse.json(
+      { delivery },
+      { status: delivery.status === 'failed' ? 502 : 200 }
+    )
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Alert Channels API Route
+ * POST - Create an alert channel
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { validateChannelInput } from '@/lib/alerts/channels'
+
+export const dynamic = 'force-dynamic'
+
+// POST - Create channel
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    const validationError = validateChannelInput(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { data: channel, error } = await supabase
+      .from('alert_channels')
+      .insert({
+        name: body.name.trim(),
+        kind: body.kind,
+        config: body.config,
+        enabled: body.enabled ?? true,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating alert channel:', error)
+      return NextResponse.json(
+        { error: 'Failed to create alert channel', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ channel }, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
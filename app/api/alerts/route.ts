@@ -0,0 +1,61 @@
+/**
+ * Alerts API Route
+ * GET - Alert rules (with a readable description), channels, recent alerts,
+ *       product area names and each channel kind's delivery mode
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CHANNEL_KIND_LABELS, getDeliveryMode, type ChannelKind } from '@/lib/alerts/channels'
+import { describeRule, type AlertRule } from '@/lib/alerts/rules'
+
+export const dynamic = 'force-dynamic'
+
+const RECENT_EVENT_LIMIT = 50
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const [rulesResult, channelsResult, eventsResult, areasResult] = await Promise.all([
+      supabase.from('alert_rules').select('*').order('created_at'),
+      supabase.from('alert_channels').select('*').order('created_at'),
+      supabase
+        .from('alert_events')
+        .select('*, rule:alert_rules(name)')
+        .order('fired_at', { ascending: false })
+        .limit(RECENT_EVENT_LIMIT),
+      supabase.from('product_areas').select('name').order('name'),
+    ])
+
+    const error = rulesResult.error || channelsResult.error || eventsResult.error || areasResult.error
+    if (error) {
+      console.error('Error fetching alerts:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch alerts', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    const deliveryModes = Object.fromEntries(
+      (Object.keys(CHANNEL_KIND_LABELS) as ChannelKind[]).map((kind) => [kind, getDeliveryMode(kind)])
+    )
+
+    return NextResponse.json({
+      rules: ((rulesResult.data || []) as AlertRule[]).map((rule) => ({
+        ...rule,
+        description: describeRule(rule.kind, rule.params),
+      })),
+      channels: channelsResult.data || [],
+      events: eventsResult.data || [],
+      productAreas: (areasResult.data || []).map((area) => area.name),
+      deliveryModes,
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Individual Alert Rule API Route
+ * PATCH - Update name, params, channels, cooldown or enabled flag
+ * DELETE - Remove rule and its alert history
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { validateRuleInput } from '@/lib/alerts/rules'
+
+export const dynamic = 'force-dynamic'
+
+interface RuleParams {
+  params: Promise<{ id: string }>
+}
+
+const UPDATABLE_FIELDS = ['name', 'kind', 'params', 'channel_ids', 'cooldown_minutes', 'enabled'] as const
+
+// PATCH - Update rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: RuleParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const updates = await request.json()
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('alert_rules')
+      .select('kind')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (fetchError) {
+      console.error('Error fetching alert rule:', fetchError)
+      return NextResponse.json(
+        { error: 'Failed to fetch alert rule', message: fetchError.message },
+        { status: 500 }
+      )
+    }
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    const validationError = validateRuleInput(updates, existing.kind)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const updateData: Record<string, unknown> = {}
+    for (const field of UPDATABLE_FIELDS) {
+      if (updates[field] !== undefined) {
+        updateData[field] = field === 'name' ? updates.name.trim() : updates[field]
+      }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No valid fields to update' },
+        { status: 400 }
+      )
+    }
+
+    // A changed condition starts its duration over
+    if (updateData.params !== undefined || updateData.kind !== undefined || updateData.enabled === false) {
+      updateData.condition_since = null
+    }
+    updateData.updated_at = new Date().toISOString()
+
+    const { data: rule, error } = await supabase
+      .from('alert_rules')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating alert rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to update alert rule', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: RuleParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { error } = await supabase
+      .from('alert_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting alert rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete alert rule', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
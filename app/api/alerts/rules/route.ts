@@ -0,0 +1,52 @@
+/**
+ * Alert Rules API Route
+ * POST - Create an alert rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { validateRuleInput } from '@/lib/alerts/rules'
+
+export const dynamic = 'force-dynamic'
+
+// POST - Create rule
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const body = await request.json()
+
+    const validationError = validateRuleInput(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const { data: rule, error } = await supabase
+      .from('alert_rules')
+      .insert({
+        name: body.name.trim(),
+        kind: body.kind,
+        params: body.params,
+        channel_ids: body.channel_ids ?? [],
+        cooldown_minutes: body.cooldown_minutes ?? 60,
+        enabled: body.enabled ?? true,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating alert rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to create alert rule', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
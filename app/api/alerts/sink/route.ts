@@ -0,0 +1,76 @@
+/**
+ * Local Alert Sink API Route
+ * Point a webhook or Slack channel at /api/alerts/sink?kind=webhook|slack to
+ * capture its deliveries locally; channels in sink mode land here too.
+ * Only served in development and tests, or with ALERT_SINK_ENABLED=true.
+ *
+ * GET - Captured deliveries, newest first (?kind= to filter)
+ * POST - Capture a webhook or Slack delivery
+ * DELETE - Clear captured deliveries
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { clearSinkDeliveries, isSinkEnabled, listSinkDeliveries, recordSinkDelivery } from '@/lib/alerts/sink'
+import type { ChannelKind } from '@/lib/alerts/channels'
+
+export const dynamic = 'force-dynamic'
+
+const HTTP_KINDS: ChannelKind[] = ['webhook', 'slack']
+
+function sinkUnavailable(): NextResponse | null {
+  return isSinkEnabled()
+    ? null
+    : NextResponse.json(
+        { error: 'The alert sink is only available in development (or with ALERT_SINK_ENABLED=true)' },
+        { status: 404 }
+      )
+}
+
+function parseKind(request: NextRequest): ChannelKind | null {
+  const kind = request.nextUrl.searchParams.get('kind')
+  return kind === 'webhook' || kind === 'slack' || kind === 'email' ? kind : null
+}
+
+// GET - Captured deliveries
+export async function GET(request: NextRequest) {
+  const unavailable = sinkUnavailable()
+  if (unavailable) return unavailable
+
+  return NextResponse.json({ deliveries: listSinkDeliveries(parseKind(request) || undefined) })
+}
+
+// POST - Capture a delivery
+export async function POST(request: NextRequest) {
+  const unavailable = sinkUnavailable()
+  if (unavailable) return unavailable
+
+  const kind = parseKind(request) || 'webhook'
+
+  if (!HTTP_KINDS.includes(kind)) {
+    return NextResponse.json(
+      { error: `kind must be one of: ${HTTP_KINDS.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const delivery = recordSinkDelivery({ kind, target: request.nextUrl.pathname, body })
+
+    // Slack's incoming webhooks answer with a plain "ok"
+    return kind === 'slack'
+      ? new NextResponse('ok')
+      : NextResponse.json({ received: true, receivedAt: delivery.receivedAt })
+  } catch {
+    return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 })
+  }
+}
+
+// DELETE - Clear captured deliveries
+export async function DELETE() {
+  const unavailable = sinkUnavailable()
+  if (unavailable) return unavailable
+
+  clearSinkDeliveries()
+  return NextResponse.json({ success: true })
+}
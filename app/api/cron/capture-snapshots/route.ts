@@ -1,17 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { getIssueKey } from '@/lib/processing/subtopics'
+import { startRun, type RunRecorder } from '@/lib/processing/pipeline-runs'
+import { getCredibilityWeight, loadCredibilityWeights } from '@/lib/processing/credibility'
+import { BASELINE_WEEKS, hourOfWeek } from '@/lib/processing/anomaly-detection'
+import { evaluateAlerts, type AlertEvaluationSummary } from '@/lib/alerts/engine'
+import { captureCHISnapshots, type CHICaptureSummary } from '@/lib/utils/chi-history'
 
 export const dynamic = 'force-dynamic'
 
 /**
  * Cron endpoint to capture intensity snapshots
  * Should be called every 15-30 minutes to build historical trend data
+ * Each run is recorded in pipeline_runs (job 'snapshots')
+ * Snapshots carry raw and credibility-weighted intensity for early warning,
+ * over the last 24 hours and the last hour (the anomaly detector's input)
+ * CHI for the current and previous hour is stored in chi_snapshots and rolled
+ * up into days and weeks (stage 'chi')
+ * Alert rules are evaluated once the snapshots are stored (job 'alerts')
+ *
+ * Query params:
+ * - chi_hours: hours of CHI to recompute, for backfills (default 2, max 840)
  *
  * Usage:
  * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
  *   http://localhost:3000/api/cron/capture-snapshots
  */
 export async function GET(request: NextRequest) {
+  let run: RunRecorder | undefined
+
   try {
     // Verify cron secret
     const authHeader = request.headers.get('authorization')
@@ -28,48 +46,75 @@ export async function GET(request: NextRequest) {
     }
 
     const supabase = await createClient()
+    run = await startRun(createServiceClient(), 'snapshots')
+    const snapshotStart = Date.now()
 
     // Get signals from the last 24 hours to calculate current intensity
     // Changed from 1 hour to 24 hours to ensure we capture data even with infrequent signals
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+    const capturedAt = new Date()
+    const twentyFourHoursAgo = new Date(capturedAt.getTime() - 24 * 60 * 60 * 1000).toISOString()
+    const oneHourAgo = capturedAt.getTime() - 60 * 60 * 1000
 
     const { data: recentSignals, error: signalsError } = await supabase
       .from('signals')
       .select(`
         topic,
+        subtopic,
         intensity,
-        product_area_id
+        source,
+        content_type,
+        product_area_id,
+        detected_at,
+        product_areas (name)
       `)
       .gte('detected_at', twentyFourHoursAgo)
 
     if (signalsError) {
       console.error('Error fetching signals:', signalsError)
+      await run.finish('failed', { error: signalsError })
       return NextResponse.json({ success: false, error: signalsError.message }, { status: 500 })
     }
 
-    // Group by topic and product area
+    const credibility = await loadCredibilityWeights(supabase)
+
+    // Group by canonical sub-topic and product area
     const issueMap = new Map<string, {
       topic: string
       productAreaId: string
       totalIntensity: number
+      weightedIntensity: number
       signalCount: number
+      hourlyIntensity: number
+      hourlyWeightedIntensity: number
+      hourlySignalCount: number
     }>()
 
     for (const signal of recentSignals || []) {
-      const key = `${signal.topic}::${signal.product_area_id}`
+      const issueKey = getIssueKey(signal, (signal.product_areas as { name?: string } | null)?.name)
+      const key = `${issueKey}::${signal.product_area_id}`
       const existing = issueMap.get(key)
+      const weighted = (signal.intensity || 0) * getCredibilityWeight(signal, credibility)
+      const inLastHour = new Date(signal.detected_at).getTime() > oneHourAgo
+      const issue = existing || {
+        topic: issueKey,
+        productAreaId: signal.product_area_id || '',
+        totalIntensity: 0,
+        weightedIntensity: 0,
+        signalCount: 0,
+        hourlyIntensity: 0,
+        hourlyWeightedIntensity: 0,
+        hourlySignalCount: 0,
+      }
 
-      if (existing) {
-        existing.totalIntensity += signal.intensity || 0
-        existing.signalCount += 1
-      } else {
-        issueMap.set(key, {
-          topic: signal.topic,
-          productAreaId: signal.product_area_id || '',
-          totalIntensity: signal.intensity || 0,
-          signalCount: 1,
-        })
+      issue.totalIntensity += signal.intensity || 0
+      issue.weightedIntensity += weighted
+      issue.signalCount += 1
+      if (inLastHour) {
+        issue.hourlyIntensity += signal.intensity || 0
+        issue.hourlyWeightedIntensity += weighted
+        issue.hourlySignalCount += 1
       }
+      issueMap.set(key, issue)
     }
 
     // Insert snapshots for each issue
@@ -77,8 +122,13 @@ export async function GET(request: NextRequest) {
       topic: issue.topic,
       product_area_id: issue.productAreaId,
       intensity: issue.totalIntensity,
+      weighted_intensity: Math.round(issue.weightedIntensity * 100) / 100,
       signal_count: issue.signalCount,
-      snapshot_at: new Date().toISOString(),
+      hourly_intensity: issue.hourlyIntensity,
+      hourly_weighted_intensity: Math.round(issue.hourlyWeightedIntensity * 100) / 100,
+      hourly_signal_count: issue.hourlySignalCount,
+      hour_of_week: hourOfWeek(capturedAt),
+      snapshot_at: capturedAt.toISOString(),
     }))
 
     if (snapshots.length > 0) {
@@ -88,29 +138,68 @@ export async function GET(request: NextRequest) {
 
       if (insertError) {
         console.error('Error inserting snapshots:', insertError)
+        run.stage('snapshot', { itemsIn: recentSignals?.length || 0, durationMs: Date.now() - snapshotStart, errors: 1 })
+        await run.finish('failed', { error: insertError })
         return NextResponse.json({ success: false, error: insertError.message }, { status: 500 })
       }
     }
 
-    // Clean up old snapshots (keep only last 7 days)
-    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+    // Clean up old snapshots (keep the weeks the hour-of-week baseline needs)
+    const retentionStart = new Date(capturedAt.getTime() - BASELINE_WEEKS * 7 * 24 * 60 * 60 * 1000).toISOString()
     const { error: deleteError } = await supabase
       .from('signal_intensity_snapshots')
       .delete()
-      .lt('snapshot_at', sevenDaysAgo)
+      .lt('snapshot_at', retentionStart)
 
     if (deleteError) {
       console.error('Error cleaning old snapshots:', deleteError)
       // Don't fail the request, just log the error
     }
 
+    run.stage('snapshot', {
+      itemsIn: recentSignals?.length || 0,
+      itemsOut: snapshots.length,
+      durationMs: Date.now() - snapshotStart,
+      errors: deleteError ? 1 : 0,
+    })
+
+    // CHI history; a failure here is recorded without failing the intensity capture
+    const chiStart = Date.now()
+    const chiHours = Math.min(840, Math.max(2, Number(request.nextUrl.searchParams.get('chi_hours')) || 2))
+    let chi: CHICaptureSummary | null = null
+    let chiError: unknown
+    try {
+      chi = await captureCHISnapshots(createServiceClient(), { hours: chiHours }, capturedAt)
+      run.stage('chi', { itemsIn: chi.signals, itemsOut: chi.hourly + chi.daily + chi.weekly, durationMs: Date.now() - chiStart })
+    } catch (error) {
+      console.error('Error capturing CHI snapshots:', error)
+      chiError = error
+      run.stage('chi', { durationMs: Date.now() - chiStart, errors: 1 })
+    }
+
+    await run.finish(deleteError || chiError ? 'partial' : 'succeeded', {
+      summary: { snapshotsCaptured: snapshots.length, chi },
+      error: deleteError || chiError || undefined,
+    })
+
+    // Alerts read the snapshots just stored; a failure here doesn't fail the capture
+    let alerts: AlertEvaluationSummary | null = null
+    try {
+      alerts = await evaluateAlerts(createServiceClient())
+    } catch (error) {
+      console.error('Error evaluating alert rules:', error)
+    }
+
     return NextResponse.json({
       success: true,
       snapshotsCaptured: snapshots.length,
+      chi,
+      alerts,
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
     console.error('Error capturing snapshots:', error)
+    await run?.finish('failed', { error })
     return NextResponse.json(
       {
         success: false,
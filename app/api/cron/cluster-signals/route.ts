@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { createServiceClient } from '@/lib/supabase/service'
+import { clusterSignals } from '@/lib/processing/clustering'
+import { redactPii } from '@/lib/processing/redaction'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Upper bound on signals clustered per run (most recent first)
+ */
+const MAX_SIGNALS = 2000
+
+/**
+ * Cron endpoint to cluster recent signals into emergent themes
+ * Should be called every 1-2 hours; each run stores a fresh set of clusters
+ *
+ * Query params:
+ * - hours: rolling window size (default 24, max 168)
+ *
+ * Usage:
+ * curl -H "Authorization: Bearer YOUR_CRON_SECRET" \
+ *   http://localhost:3000/api/cron/cluster-signals?hours=24
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret) {
+      console.error('CRON_SECRET not configured')
+      return NextResponse.json({ success: false, error: 'Server configuration error' }, { status: 500 })
+    }
+
+    if (authHeader !== `Bearer ${cronSecret}`) {
+      console.error('Invalid authorization header')
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hours = Math.min(168, Math.max(1, Number(request.nextUrl.searchParams.get('hours')) || 24))
+    const windowEnd = new Date()
+    const windowStart = new Date(windowEnd.getTime() - hours * 60 * 60 * 1000)
+
+    const supabase = createServiceClient()
+
+    const { data: signals, error: signalsError } = await supabase
+      .from('signals')
+      .select('id, sentiment, product_area_id, subtopic, meta')
+      .gte('detected_at', windowStart.toISOString())
+      .order('detected_at', { ascending: false })
+      .limit(MAX_SIGNALS)
+
+    if (signalsError) {
+      console.error('Error fetching signals:', signalsError)
+      return NextResponse.json({ success: false, error: signalsError.message }, { status: 500 })
+    }
+
+    const clusters = clusterSignals(
+      (signals || []).map(signal => ({
+        id: signal.id,
+        text: typeof signal.meta?.original_text === 'string' ? redactPii(signal.meta.original_text).text : '',
+        sentiment: signal.sentiment,
+        product_area_id: signal.product_area_id,
+        subtopic: signal.subtopic,
+      }))
+    )
+
+    const runId = randomUUID()
+    const rows = clusters.map(cluster => ({
+      run_id: runId,
+      window_start: windowStart.toISOString(),
+      window_end: windowEnd.toISOString(),
+      label: cluster.label,
+      top_terms: cluster.topTerms,
+      representative_quotes: cluster.representativeQuotes,
+      signal_ids: cluster.signalIds,
+      size: cluster.size,
+      avg_sentiment: cluster.avgSentiment,
+      cohesion: cluster.cohesion,
+      novelty: cluster.novelty,
+    }))
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase
+        .from('signal_clusters')
+        .insert(rows)
+
+      if (insertError) {
+        console.error('Error inserting clusters:', insertError)
+        return NextResponse.json({ success: false, error: insertError.message }, { status: 500 })
+      }
+    }
+
+    // Clean up old runs (keep only last 7 days)
+    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+    const { error: deleteError } = await supabase
+      .from('signal_clusters')
+      .delete()
+      .lt('created_at', sevenDaysAgo)
+
+    if (deleteError) {
+      console.error('Error cleaning old clusters:', deleteError)
+      // Don't fail the request, just log the error
+    }
+
+    return NextResponse.json({
+      success: true,
+      runId,
+      signalsClustered: signals?.length || 0,
+      clustersFound: clusters.length,
+      novelClusters: clusters.filter(cluster => cluster.novelty >= 0.5).length,
+      timestamp: windowEnd.toISOString(),
+    })
+  } catch (error) {
+    console.error('Error clustering signals:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { listSourceAdapters } from '@/lib/scraper/registry';
 
 /**
  * Cron Orchestrator (POST endpoint) - OPTIMIZED VERSION
@@ -12,15 +13,7 @@ import { NextRequest, NextResponse } from 'next/server';
  * - NEW: Parallel = 3-5 seconds
  */
 
-const SCRAPER_ENDPOINTS = [
-  '/api/scrape/reddit',
-  '/api/scrape/news',
-  '/api/scrape/istheservicedown',
-  '/api/scrape/outage-report',
-  '/api/scrape/downdetector',
-  '/api/scrape/community',
-  '/api/scrape/customer-feedback',
-];
+const SCRAPER_ENDPOINTS = listSourceAdapters().map(adapter => adapter.endpoint);
 
 interface ScraperResult {
   source: string;
@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { listSourceAdapters } from '@/lib/scraper/registry';
+import { createServiceClient } from '@/lib/supabase/service';
+import { loadScrapeBackoffs, recordFailure, resolveFailure } from '@/lib/processing/failures';
+import { startRun, type RunRecorder } from '@/lib/processing/pipeline-runs';
 
 /**
  * Cron Orchestrator (POST endpoint)
@@ -8,26 +12,27 @@ import { NextRequest, NextResponse } from 'next/server';
  * Called by: Supabase pg_cron via net.http_post()
  *
  * Performance: ~3-5 seconds (parallel) vs ~14 seconds (sequential)
+ *
+ * Failed scrapes are recorded in pipeline_failures; a failing source is
+ * skipped until its backoff expires, and after repeated failures waits for
+ * an operator to replay it on /pipeline/health
+ *
+ * Each run is recorded in pipeline_runs (job 'ingest', stage 'scrape')
  */
 
-const SCRAPER_ENDPOINTS = [
-  '/api/scrape/reddit',
-  '/api/scrape/news',
-  '/api/scrape/istheservicedown',
-  '/api/scrape/outage-report',
-  '/api/scrape/downdetector',
-  '/api/scrape/community',
-  '/api/scrape/customer-feedback',
-];
+const SCRAPER_ADAPTERS = listSourceAdapters();
 
 interface ScraperResult {
   source: string;
-  status: 'success' | 'error';
+  status: 'success' | 'error' | 'backoff';
   count?: number;
   error?: string;
+  retry_at?: string | null; // Backoff only: null when dead-lettered
 }
 
 export async function POST(request: NextRequest) {
+  let run: RunRecorder | undefined;
+
   try {
     const authHeader = request.headers.get('authorization');
     const cronSecret = process.env.CRON_SECRET;
@@ -48,13 +53,28 @@ export async function POST(request: NextRequest) {
     }
 
     const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+    const supabase = createServiceClient();
+    run = await startRun(supabase, 'ingest');
+    const scrapeStart = Date.now();
+    const backoffs = await loadScrapeBackoffs(supabase);
 
     const results: Record<string, ScraperResult> = {};
     let totalCount = 0;
 
-    const scraperPromises = SCRAPER_ENDPOINTS.map(async (endpoint) => {
+    const scraperPromises = SCRAPER_ADAPTERS.map(async ({ id, endpoint }) => {
       const sourceName = endpoint.split('/').pop() || 'unknown';
 
+      if (backoffs.has(id)) {
+        return {
+          sourceName,
+          result: {
+            source: id,
+            status: 'backoff' as const,
+            retry_at: backoffs.get(id),
+          },
+        };
+      }
+
       try {
         const response = await fetch(`${baseUrl}${endpoint}`, {
           method: 'GET',
@@ -75,6 +95,8 @@ export async function POST(request: NextRequest) {
             data.comments_count ||
             1;
 
+          await resolveFailure(supabase, 'scrape', id);
+
           return {
             sourceName,
             result: {
@@ -84,6 +106,8 @@ export async function POST(request: NextRequest) {
             },
           };
         } else {
+          await recordFailure(supabase, { stage: 'scrape', source: id, error: data.error || `HTTP ${response.status}` });
+
           return {
             sourceName,
             result: {
@@ -94,6 +118,8 @@ export async function POST(request: NextRequest) {
           };
         }
       } catch (error) {
+        await recordFailure(supabase, { stage: 'scrape', source: id, error });
+
         return {
           sourceName,
           result: {
@@ -114,18 +140,34 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const summary = {
+      success_count: Object.values(results).filter(r => r.status === 'success').length,
+      error_count: Object.values(results).filter(r => r.status === 'error').length,
+      backoff_count: Object.values(results).filter(r => r.status === 'backoff').length,
+    };
+
+    run.stage('scrape', {
+      itemsIn: SCRAPER_ADAPTERS.length,
+      itemsOut: summary.success_count,
+      durationMs: Date.now() - scrapeStart,
+      drops: { error: summary.error_count, backoff: summary.backoff_count },
+      errors: summary.error_count,
+    });
+    await run.finish(
+      summary.error_count === 0 ? 'succeeded' : summary.success_count > 0 ? 'partial' : 'failed',
+      { summary: { ...summary, total_items: totalCount } }
+    );
+
     return NextResponse.json({
       success: true,
       timestamp: new Date().toISOString(),
       sources: results,
       total_items: totalCount,
-      summary: {
-        success_count: Object.values(results).filter(r => r.status === 'success').length,
-        error_count: Object.values(results).filter(r => r.status === 'error').length,
-      },
+      summary,
     });
   } catch (error) {
     console.error('Cron orchestrator error:', error);
+    await run?.finish('failed', { error });
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,144 @@
+/**
+ * CHI History API
+ *
+ * GET /api/dashboard/chi-history
+ * Returns stored CHI (chi_snapshots) for a range, with the same range's
+ * weighted average and, by default, the preceding period for comparison
+ *
+ * Query params:
+ * - product_area_id: a product area; omitted or "overall" for overall CHI
+ * - from / to: ISO timestamps (to defaults to now), widened to whole periods
+ * - days: range length when from is omitted (default 7)
+ * - granularity: hourly, daily or weekly (default picked from the range length)
+ * - compare: previous (default; the same length immediately before), week
+ *   (the same range a week earlier) or none. Both ranges are whole periods,
+ *   so previous ends exactly where the range starts
+ *
+ * A range spanning more than MAX_CHI_POINTS periods is rejected with 400
+ * - synthetic=exclude: CHI without synthetic signals
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  MAX_CHI_POINTS,
+  alignRange,
+  countPeriods,
+  loadCHIHistory,
+  pickGranularity,
+  type CHIGranularity,
+} from '@/lib/utils/chi-history';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_DAYS = 7;
+const GRANULARITIES: CHIGranularity[] = ['hourly', 'daily', 'weekly'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (value === null) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const productAreaParam = searchParams.get('product_area_id');
+    const productAreaId = productAreaParam && productAreaParam !== 'overall' ? productAreaParam : null;
+    const compare = searchParams.get('compare') || 'previous';
+    const scope = searchParams.get('synthetic') === 'exclude' ? 'live' : 'all';
+
+    const toParam = parseDate(searchParams.get('to'));
+    const fromParam = parseDate(searchParams.get('from'));
+    if (toParam === null || fromParam === null) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be ISO timestamps' },
+        { status: 400 }
+      );
+    }
+
+    const to = toParam || new Date();
+    const days = Math.max(1, Number(searchParams.get('days')) || DEFAULT_DAYS);
+    const from = fromParam || new Date(to.getTime() - days * DAY_MS);
+
+    if (from >= to) {
+      return NextResponse.json(
+        { success: false, error: 'from must be before to' },
+        { status: 400 }
+      );
+    }
+
+    const granularityParam = searchParams.get('granularity') as CHIGranularity | null;
+    if (granularityParam && !GRANULARITIES.includes(granularityParam)) {
+      return NextResponse.json(
+        { success: false, error: `granularity must be one of: ${GRANULARITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!['previous', 'week', 'none'].includes(compare)) {
+      return NextResponse.json(
+        { success: false, error: 'compare must be one of: previous, week, none' },
+        { status: 400 }
+      );
+    }
+
+    const granularity = granularityParam || pickGranularity(from, to);
+    if (countPeriods(from, to, granularity) > MAX_CHI_POINTS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Range spans more than ${MAX_CHI_POINTS} ${granularity} periods; use a shorter range or a coarser granularity`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Whole periods, half-open, so the comparison range ends where this one starts
+    const range = alignRange(from, to, granularity);
+    const shiftMs = compare === 'week' ? 7 * DAY_MS : range.to.getTime() - range.from.getTime();
+    const previousRange = compare === 'none'
+      ? null
+      : { from: new Date(range.from.getTime() - shiftMs), to: new Date(range.to.getTime() - shiftMs) };
+
+    const supabase = await createClient();
+    const [current, previous] = await Promise.all([
+      loadCHIHistory(supabase, { productAreaId, granularity, ...range, scope }),
+      previousRange ? loadCHIHistory(supabase, { productAreaId, granularity, ...previousRange, scope }) : null,
+    ]);
+
+    const delta = previous && current.summary.chi !== null && previous.summary.chi !== null
+      ? Math.round((current.summary.chi - previous.summary.chi) * 10) / 10
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      productAreaId,
+      granularity,
+      scope,
+      range: current.range,
+      points: current.points,
+      summary: current.summary,
+      comparison: previous && previousRange
+        ? {
+            mode: compare,
+            range: previous.range,
+            points: previous.points,
+            summary: previous.summary,
+            delta,
+          }
+        : null,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error loading CHI history:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
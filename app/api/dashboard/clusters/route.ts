@@ -0,0 +1,82 @@
+/**
+ * Signal Clusters API
+ *
+ * GET /api/dashboard/clusters
+ * Returns the themes found by the most recent cron/cluster-signals run
+ *
+ * Query params:
+ * - novel=true: only clusters mostly made of signals no keyword rule matched
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * Novelty share at or above which a cluster counts as a new, unmapped theme
+ */
+const NOVEL_THRESHOLD = 0.5;
+
+export async function GET(request: NextRequest) {
+  try {
+    const novelOnly = request.nextUrl.searchParams.get('novel') === 'true';
+    const supabase = createServiceClient();
+
+    const { data: latest, error: latestError } = await supabase
+      .from('signal_clusters')
+      .select('run_id, window_start, window_end, created_at')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      console.error('Error fetching latest cluster run:', latestError);
+      return NextResponse.json(
+        { error: 'Failed to fetch clusters', details: latestError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!latest) {
+      return NextResponse.json({ run: null, clusters: [] });
+    }
+
+    let query = supabase
+      .from('signal_clusters')
+      .select('id, label, top_terms, representative_quotes, signal_ids, size, avg_sentiment, cohesion, novelty')
+      .eq('run_id', latest.run_id)
+      .order('size', { ascending: false });
+
+    if (novelOnly) {
+      query = query.gte('novelty', NOVEL_THRESHOLD);
+    }
+
+    const { data: clusters, error } = await query;
+
+    if (error) {
+      console.error('Error fetching clusters:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch clusters', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      run: {
+        id: latest.run_id,
+        windowStart: latest.window_start,
+        windowEnd: latest.window_end,
+        createdAt: latest.created_at,
+      },
+      clusters: clusters || [],
+    });
+  } catch (error) {
+    console.error('Error in clusters API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
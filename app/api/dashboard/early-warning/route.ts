@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getIssueKey } from '@/lib/processing/subtopics'
+import { getIssueLabel } from '@/lib/utils/dashboard-data'
+import { getCredibilityWeight, loadCredibilityWeights } from '@/lib/processing/credibility'
+import { loadRegionalIncidents, type RegionalIncident } from '@/lib/processing/regional-incidents'
+import {
+  capturedHours,
+  detectAnomaly,
+  loadSnapshotHistory,
+  toHourlySamples,
+  type AnomalyResult,
+  type SnapshotRow,
+} from '@/lib/processing/anomaly-detection'
 
 export const dynamic = 'force-dynamic'
 
@@ -8,26 +20,61 @@ interface VelocityData {
   productAreaId: string
   productAreaName: string
   color: string
-  currentIntensity: number
-  velocity: number
+  currentIntensity: number // Credibility-weighted
+  rawIntensity: number
+  velocity: number // Credibility-weighted
+  rawVelocity: number
   projectedIntensity: number
   timeToSpreadHours: number
   affectedUsers: number
   confidence: number
+  detection: 'anomaly' | 'velocity'
+  anomaly: AnomalyResult | null // Last hour against the hour-of-week baseline
 }
 
+type IntensitySnapshot = Pick<SnapshotRow, 'intensity' | 'weighted_intensity' | 'snapshot_at'>
+
+/**
+ * Change in intensity per hour between the oldest and newest snapshot
+ * Returns null when there are fewer than two snapshots or no time between them
+ */
+function snapshotVelocity(snapshots: IntensitySnapshot[], value: (snapshot: IntensitySnapshot) => number): number | null {
+  if (snapshots.length < 2) return null
+
+  const oldestSnapshot = snapshots[0]
+  const newestSnapshot = snapshots[snapshots.length - 1]
+  const timeDiffHours = (new Date(newestSnapshot.snapshot_at).getTime() - new Date(oldestSnapshot.snapshot_at).getTime()) / (1000 * 60 * 60)
+
+  if (timeDiffHours <= 0) return null
+
+  return (value(newestSnapshot) - value(oldestSnapshot)) / timeDiffHours
+}
+
+/**
+ * GET /api/dashboard/early-warning
+ * Returns the issues rising above their usual level for this hour of the
+ * week and regional Network incidents. Issues without enough snapshot
+ * history are judged by velocity instead.
+ *
+ * Query params:
+ * - synthetic=exclude: leave out signals from replayed fixtures and sample data
+ */
 export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient()
+    const excludeSynthetic = request.nextUrl.searchParams.get('synthetic') === 'exclude'
 
     // Get current emerging issues (from signals in last 6 hours)
     const sixHoursAgo = new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString()
 
-    const { data: recentSignals, error: signalsError } = await supabase
+    let signalsQuery = supabase
       .from('signals')
       .select(`
         topic,
+        subtopic,
         intensity,
+        source,
+        content_type,
         product_area_id,
         detected_at,
         product_areas (
@@ -39,39 +86,60 @@ export async function GET(request: NextRequest) {
       .gte('detected_at', sixHoursAgo)
       .order('detected_at', { ascending: false })
 
+    if (excludeSynthetic) {
+      signalsQuery = signalsQuery.eq('synthetic', false)
+    }
+
+    const { data: recentSignals, error: signalsError } = await signalsQuery
+
     if (signalsError) {
       console.error('Error fetching signals:', signalsError)
       return NextResponse.json({ success: false, error: signalsError.message }, { status: 500 })
     }
 
-    // Group by topic and product area
+    // Group by canonical sub-topic and product area
+    // Keys match the topic column written by cron/capture-snapshots
     const issueMap = new Map<string, {
       topic: string
       productAreaId: string
       productAreaName: string
       color: string
       totalIntensity: number
+      weightedIntensity: number
+      hourlyWeightedIntensity: number
       signalCount: number
       latestTimestamp: Date
     }>()
 
+    // Velocity and intensity are weighted by source credibility; raw figures are returned alongside
+    const credibility = await loadCredibilityWeights(supabase)
+    const oneHourAgo = Date.now() - 60 * 60 * 1000
+
     for (const signal of recentSignals || []) {
-      const key = `${signal.topic}::${signal.product_area_id}`
+      const productAreaName = (signal.product_areas as any)?.name || 'Unknown'
+      const issueKey = getIssueKey(signal, productAreaName)
+      const key = `${issueKey}::${signal.product_area_id}`
       const existing = issueMap.get(key)
+      const weighted = (signal.intensity || 0) * getCredibilityWeight(signal, credibility)
+      const hourlyWeighted = new Date(signal.detected_at).getTime() > oneHourAgo ? weighted : 0
 
       if (existing) {
         existing.totalIntensity += signal.intensity || 0
+        existing.weightedIntensity += weighted
+        existing.hourlyWeightedIntensity += hourlyWeighted
         existing.signalCount += 1
         if (new Date(signal.detected_at) > existing.latestTimestamp) {
           existing.latestTimestamp = new Date(signal.detected_at)
         }
       } else {
         issueMap.set(key, {
-          topic: signal.topic,
+          topic: getIssueLabel(issueKey, signal.topic || 'Unknown'),
           productAreaId: signal.product_area_id || '',
-          productAreaName: (signal.product_areas as any)?.name || 'Unknown',
+          productAreaName,
           color: (signal.product_areas as any)?.color || '#E8258E',
           totalIntensity: signal.intensity || 0,
+          weightedIntensity: weighted,
+          hourlyWeightedIntensity: hourlyWeighted,
           signalCount: 1,
           latestTimestamp: new Date(signal.detected_at),
         })
@@ -81,116 +149,131 @@ export async function GET(request: NextRequest) {
     // Calculate velocity for each issue
     const risingIssues: VelocityData[] = []
 
-    // OPTIMIZATION: Fetch all snapshots in a single query instead of N queries
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
-    const { data: allSnapshots, error: snapshotsError } = await supabase
-      .from('signal_intensity_snapshots')
-      .select('topic, product_area_id, intensity, snapshot_at, signal_count')
-      .gte('snapshot_at', twentyFourHoursAgo)
-      .order('snapshot_at', { ascending: true })
-
-    if (snapshotsError) {
-      console.error('Error fetching snapshots:', snapshotsError)
-      // Continue without snapshot data
-    }
-
-    // Group snapshots by topic::product_area_id for quick lookup
-    const snapshotsByIssue = new Map<string, typeof allSnapshots>()
-    if (allSnapshots) {
-      for (const snapshot of allSnapshots) {
-        const key = `${snapshot.topic}::${snapshot.product_area_id}`
-        if (!snapshotsByIssue.has(key)) {
-          snapshotsByIssue.set(key, [])
-        }
-        snapshotsByIssue.get(key)!.push(snapshot)
+    // Snapshots for every issue in one paged load: the last 24 hours plus this hour of week in earlier weeks
+    // Snapshots total live and synthetic signals together, so live-only views estimate from signals
+    let snapshotsByIssue = new Map<string, SnapshotRow[]>()
+    if (!excludeSynthetic) {
+      try {
+        snapshotsByIssue = await loadSnapshotHistory(supabase)
+      } catch (error) {
+        console.error('Error fetching snapshots:', error)
+        // Continue without snapshot data
       }
     }
 
+    const twentyFourHoursAgo = Date.now() - 24 * 60 * 60 * 1000
+    const captured = capturedHours(snapshotsByIssue)
+
     for (const [key, issue] of issueMap.entries()) {
-      // Get snapshots for this specific issue from the pre-fetched data
-      const snapshots = snapshotsByIssue.get(key) || []
+      const history = snapshotsByIssue.get(key) || []
+      const snapshots = history.filter((s) => new Date(s.snapshot_at).getTime() >= twentyFourHoursAgo)
+      const anomaly = history.length > 0 ? detectAnomaly(toHourlySamples(history, captured), issue.hourlyWeightedIntensity) : null
+      const hasBaseline = anomaly !== null && anomaly.baseline !== 'none'
 
       // Calculate velocity (signals per hour)
       let velocity = 0
-      let projectedIntensity = issue.totalIntensity
+      let rawVelocity = 0
+      let projectedIntensity = issue.weightedIntensity
       let confidence = 0.5 // Default confidence
       let timeToSpreadHours = 0
 
-      if (snapshots && snapshots.length >= 2) {
-        // We have historical data - calculate real velocity
-        const oldestSnapshot = snapshots[0]
-        const newestSnapshot = snapshots[snapshots.length - 1]
+      const rawSnapshotVelocity = snapshotVelocity(snapshots, (s) => s.intensity)
 
-        const timeDiffHours = (new Date(newestSnapshot.snapshot_at).getTime() - new Date(oldestSnapshot.snapshot_at).getTime()) / (1000 * 60 * 60)
+      if (rawSnapshotVelocity !== null) {
+        // We have historical data - calculate real velocity
+        rawVelocity = rawSnapshotVelocity
 
-        if (timeDiffHours > 0) {
-          // Velocity = change in intensity per hour
-          const intensityChange = newestSnapshot.intensity - oldestSnapshot.intensity
-          velocity = intensityChange / timeDiffHours
+        // Snapshots from before weighting only have raw intensity; scale by the issue's current weighting
+        const weightedSnapshots = snapshots.filter((s) => s.weighted_intensity !== null)
+        const weightedSnapshotVelocity = snapshotVelocity(weightedSnapshots, (s) => Number(s.weighted_intensity))
+        velocity = weightedSnapshotVelocity !== null
+          ? weightedSnapshotVelocity
+          : rawVelocity * (issue.totalIntensity > 0 ? issue.weightedIntensity / issue.totalIntensity : 1)
 
-          // Higher confidence if we have more data points
-          confidence = Math.min(0.9, 0.5 + (snapshots.length / 20))
+        // Higher confidence if we have more data points
+        confidence = Math.min(0.9, 0.5 + (snapshots.length / 20))
 
-          // Project intensity 2 hours ahead based on velocity
-          projectedIntensity = Math.max(issue.totalIntensity, issue.totalIntensity + (velocity * 2))
+        // Project intensity 2 hours ahead based on velocity
+        projectedIntensity = Math.max(issue.weightedIntensity, issue.weightedIntensity + (velocity * 2))
 
-          // Calculate time to reach critical threshold (e.g., intensity > 100)
-          const criticalThreshold = 100
-          if (velocity > 0 && issue.totalIntensity < criticalThreshold) {
-            timeToSpreadHours = (criticalThreshold - issue.totalIntensity) / velocity
-          } else {
-            timeToSpreadHours = 0 // Already critical or declining
-          }
+        // Calculate time to reach critical threshold (e.g., intensity > 100)
+        const criticalThreshold = 100
+        if (velocity > 0 && issue.weightedIntensity < criticalThreshold) {
+          timeToSpreadHours = (criticalThreshold - issue.weightedIntensity) / velocity
+        } else {
+          timeToSpreadHours = 0 // Already critical or declining
         }
       } else if (issue.signalCount > 1) {
         // No snapshots yet, but we have multiple signals in the last 6 hours
         // Estimate velocity based on recent activity
         const hoursSinceFirstSignal = (Date.now() - issue.latestTimestamp.getTime()) / (1000 * 60 * 60)
         if (hoursSinceFirstSignal > 0.25) { // At least 15 minutes of data
-          velocity = issue.totalIntensity / Math.max(hoursSinceFirstSignal, 1)
-          projectedIntensity = issue.totalIntensity + (velocity * 2)
+          velocity = issue.weightedIntensity / Math.max(hoursSinceFirstSignal, 1)
+          rawVelocity = issue.totalIntensity / Math.max(hoursSinceFirstSignal, 1)
+          projectedIntensity = issue.weightedIntensity + (velocity * 2)
           confidence = 0.3 // Lower confidence for new issues
 
           const criticalThreshold = 100
-          if (velocity > 0 && issue.totalIntensity < criticalThreshold) {
-            timeToSpreadHours = (criticalThreshold - issue.totalIntensity) / velocity
+          if (velocity > 0 && issue.weightedIntensity < criticalThreshold) {
+            timeToSpreadHours = (criticalThreshold - issue.weightedIntensity) / velocity
           }
         }
       }
 
-      // Only include issues that are growing (velocity > threshold)
-      // Lowered threshold from 5 to 1 to make it more sensitive
-      if (velocity > 2) { // More than 1 signal/hour growth
+      // With a baseline, only issues above their usual level for this hour count
+      // Without one, fall back to growth (velocity > threshold)
+      const isRising = hasBaseline ? anomaly.isAnomaly : velocity > 2
+      if (hasBaseline) {
+        confidence = anomaly.confidence
+      }
+
+      if (isRising) {
         // Estimate affected users (could be based on intensity and product area data)
         // For now, use intensity * average users per signal (estimate: 50-200 users per signal)
         const avgUsersPerSignal = 100
-        const affectedUsers = Math.round(issue.totalIntensity * avgUsersPerSignal)
+        const affectedUsers = Math.round(issue.weightedIntensity * avgUsersPerSignal)
 
         risingIssues.push({
           topic: issue.topic,
           productAreaId: issue.productAreaId,
           productAreaName: issue.productAreaName,
           color: issue.color,
-          currentIntensity: Math.round(issue.totalIntensity),
+          currentIntensity: Math.round(issue.weightedIntensity),
+          rawIntensity: Math.round(issue.totalIntensity),
           velocity: Math.round(velocity * 10) / 10, // Round to 1 decimal
+          rawVelocity: Math.round(rawVelocity * 10) / 10,
           projectedIntensity: Math.round(projectedIntensity),
           timeToSpreadHours: Math.round(timeToSpreadHours * 10) / 10,
           affectedUsers,
           confidence: Math.round(confidence * 100) / 100,
+          detection: hasBaseline ? 'anomaly' : 'velocity',
+          anomaly: hasBaseline ? anomaly : null,
         })
       }
     }
 
-    // Sort by velocity (descending) - most rapidly growing issues first
-    risingIssues.sort((a, b) => b.velocity - a.velocity)
+    // Anomalies first, furthest above their baseline first; then the most rapidly growing issues
+    risingIssues.sort((a, b) =>
+      (b.anomaly?.zScore ?? -Infinity) - (a.anomaly?.zScore ?? -Infinity) || b.velocity - a.velocity
+    )
 
     // Return top 5 rising issues
     const topRisingIssues = risingIssues.slice(0, 5)
 
+    // Geographic clusters are an addition; a failure here shouldn't hide rising issues
+    let regionalIncidents: RegionalIncident[] = []
+    try {
+      regionalIncidents = await loadRegionalIncidents(supabase, { excludeSynthetic })
+    } catch (error) {
+      console.error('Error detecting regional incidents:', error)
+    }
+
     return NextResponse.json({
       success: true,
       risingIssues: topRisingIssues,
       totalRising: risingIssues.length,
+      regionalIncidents,
+      excludeSynthetic,
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
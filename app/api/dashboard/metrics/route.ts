@@ -1,12 +1,14 @@
 /**
  * Dashboard Metrics API
  *
- * GET /api/dashboard/metrics
+ * GET /api/dashboard/metrics?language=en|es&synthetic=exclude
  * Returns all dashboard data in a single response for optimal performance
+ * Optional `language` limits every metric to signals in that language
+ * `synthetic=exclude` leaves out signals from replayed fixtures and sample data
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { calculateCHI, getCHITrend } from '@/lib/utils/chi';
+import { calculateCHI, estimateCHI, getCHITrend } from '@/lib/utils/chi';
 import {
   getProductAreaMetrics,
   getEmergingIssues,
@@ -24,6 +26,7 @@ import {
   getIssueVelocityByProductArea,
   getSentimentDistribution,
 } from '@/lib/utils/realtime-data';
+import { SUPPORTED_LANGUAGES } from '@/lib/processing/language';
 
 export const dynamic = 'force-dynamic'; // Always fetch fresh data
 export const revalidate = 0; // Disable caching
@@ -33,9 +36,14 @@ export async function GET(request: NextRequest) {
     // Use 24-hour window to show existing data (configurable)
     const timeWindowHours = 24;
 
+    const languageParam = request.nextUrl.searchParams.get('language');
+    const language = languageParam && languageParam in SUPPORTED_LANGUAGES ? languageParam : null;
+    const excludeSynthetic = request.nextUrl.searchParams.get('synthetic') === 'exclude';
+
     // Fetch all dashboard data in parallel for better performance
     const [
-      overallCHI,
+      overallEstimate,
+      rawCHI,
       chiTrend,
       productAreas,
       emergingIssues,
@@ -49,34 +57,41 @@ export async function GET(request: NextRequest) {
       issueVelocity,
       sentimentDistribution,
     ] = await Promise.all([
-      calculateCHI(timeWindowHours * 60), // Overall CHI from time window
-      getCHITrend(timeWindowHours * 60), // CHI trend vs previous period
-      getProductAreaMetrics(timeWindowHours),
-      getEmergingIssues(10, timeWindowHours), // Top 10 emerging issues
-      getSentimentTimeline('24h'),
-      getSourceBreakdown(),
-      getSignalTrend(1), // Signal count trend (last hour)
-      getNewIssuesCount(1), // New issues in last hour
+      estimateCHI(timeWindowHours * 60, undefined, true, language, 'weighted', excludeSynthetic), // Overall CHI from time window, with its interval
+      calculateCHI(timeWindowHours * 60, undefined, true, language, 'raw', excludeSynthetic), // Same, without credibility weighting
+      getCHITrend(timeWindowHours * 60, undefined, language, 'weighted', excludeSynthetic), // CHI trend vs previous period
+      getProductAreaMetrics(timeWindowHours, language, excludeSynthetic),
+      getEmergingIssues(10, timeWindowHours, language, excludeSynthetic), // Top 10 emerging issues
+      getSentimentTimeline('24h', language, excludeSynthetic),
+      getSourceBreakdown(language, excludeSynthetic),
+      getSignalTrend(1, language, excludeSynthetic), // Signal count trend (last hour)
+      getNewIssuesCount(1, language, excludeSynthetic), // New issues in last hour
       getAverageResponseTime(), // Response time metrics
       getPositiveTrendsCount(), // Count of improving product areas
-      getRealtimeSignals(20), // Recent signals for activity feed
-      getIssueVelocityByProductArea(), // Issue velocity by product area
-      getSentimentDistribution(null), // Sentiment distribution (all signals)
+      getRealtimeSignals(20, language, excludeSynthetic), // Recent signals for activity feed
+      getIssueVelocityByProductArea(language, excludeSynthetic), // Issue velocity by product area
+      getSentimentDistribution(null, language, excludeSynthetic), // Sentiment distribution (all signals)
     ]);
 
     // Calculate previous CHI score for display
-    const currentCHI = overallCHI || 50;
+    const currentCHI = overallEstimate?.score || 50;
     const previousCHI = currentCHI - chiTrend;
 
     // Return all data including advanced metrics and realtime data
     return NextResponse.json({
       overallCHI: currentCHI,
+      rawCHI: rawCHI || 50,
+      chiInterval: overallEstimate ? { low: overallEstimate.low, high: overallEstimate.high } : null,
+      chiSignalCount: overallEstimate?.signalCount ?? 0,
+      chiInsufficientData: overallEstimate?.insufficientData ?? true,
       chiTrend,
       previousCHI,
       productAreas,
       emergingIssues,
       sentimentTimeline,
       sourceData,
+      language,
+      excludeSynthetic,
       advancedMetrics: {
         signalTrend: {
           current: signalTrend.current,
@@ -112,6 +127,10 @@ export async function GET(request: NextRequest) {
         error: 'Failed to fetch dashboard metrics',
         message: error instanceof Error ? error.message : 'Unknown error',
         overallCHI: 50,
+        rawCHI: 50,
+        chiInterval: null,
+        chiSignalCount: 0,
+        chiInsufficientData: true,
         chiTrend: 0,
         previousCHI: 50,
         productAreas: [],
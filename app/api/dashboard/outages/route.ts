@@ -1,6 +1,10 @@
-import { NextResponse } from 'next/server';
-import { generateDownDetectorData } from '@/lib/scraper/downdetector';
-import { generateOutageReportData } from '@/lib/scraper/outagereport';
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { findCity } from '@/lib/processing/geocoder';
+import type { DownDetectorReport } from '@/lib/scraper/downdetector';
+import type { OutageReportData } from '@/lib/scraper/outage-report';
+
+export const dynamic = 'force-dynamic';
 
 export interface OutagePoint {
   city: string;
@@ -14,40 +18,104 @@ export interface OutagePoint {
   details: string;
 }
 
+interface LatestPayload<TPayload> {
+  payload: TPayload;
+  fetched_at: string;
+  synthetic: boolean;
+}
+
+const WINDOW_HOURS = 24;
+const SEVERITY_LEVELS = { low: 1, medium: 2, high: 3, critical: 4 };
+
+function getSeverity(reportCount: number): OutagePoint['severity'] {
+  if (reportCount >= 150) return 'critical';
+  if (reportCount >= 80) return 'high';
+  if (reportCount >= 30) return 'medium';
+  return 'low';
+}
+
+/**
+ * Most recent snapshot of a source within the window
+ * Read from source_snapshots rather than raw_events: a scrape with no new
+ * comments stores no raw event but still refreshes the locations and status
+ */
+async function loadLatestPayload<TPayload>(
+  source: string,
+  excludeSynthetic: boolean
+): Promise<LatestPayload<TPayload> | null> {
+  const supabase = createServiceClient();
+  const since = new Date(Date.now() - WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+
+  let query = supabase
+    .from('source_snapshots')
+    .select('payload, fetched_at, synthetic')
+    .eq('source', source)
+    .gte('fetched_at', since)
+    .order('fetched_at', { ascending: false })
+    .limit(1);
+
+  if (excludeSynthetic) {
+    query = query.eq('synthetic', false);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error(`Error loading latest ${source} payload:`, error);
+    return null;
+  }
+
+  const row = data?.[0];
+  return row ? { payload: row.payload as TPayload, fetched_at: row.fetched_at, synthetic: Boolean(row.synthetic) } : null;
+}
+
 /**
  * GET /api/dashboard/outages
- * Returns combined outage data from DownDetector and Outage.Report
- * for geographic visualization
+ * Returns the most reported locations from the latest DownDetector and
+ * Outage.report scrapes for geographic visualization
+ *
+ * Query params:
+ * - synthetic=exclude: skip scrapes replayed from fixtures
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Generate data from both sources
-    const downDetectorData = generateDownDetectorData();
-    const outageReportData = generateOutageReportData();
+    const excludeSynthetic = request.nextUrl.searchParams.get('synthetic') === 'exclude';
+
+    const [downDetector, outageReport] = await Promise.all([
+      loadLatestPayload<Partial<DownDetectorReport>>('downdetector', excludeSynthetic),
+      loadLatestPayload<Partial<OutageReportData>>('outage-report', excludeSynthetic),
+    ]);
 
     // Combine and transform data for mapping
     const outagePoints: OutagePoint[] = [];
+    const topProblem = downDetector?.payload.problem_types?.[0]?.type || 'Mobile network';
 
     // Add DownDetector locations
-    downDetectorData.report_data.outage_locations.forEach(location => {
+    for (const location of downDetector?.payload.outage_locations || []) {
+      const coords = findCity(location.city, location.state);
+      if (!coords) continue;
+
       outagePoints.push({
         city: location.city,
-        state: location.state,
-        lat: location.lat,
-        lng: location.lng,
+        state: coords.state,
+        lat: coords.lat,
+        lng: coords.lng,
         reportCount: location.reportCount,
-        severity: location.severity,
-        problemType: location.problemType,
+        severity: getSeverity(location.reportCount),
+        problemType: topProblem,
         source: 'DownDetector',
-        details: `${location.reportCount} reports - ${location.problemType}`,
+        details: `${location.reportCount} reports - ${topProblem}`,
       });
-    });
+    }
 
     // Add Outage.Report locations
-    outageReportData.report_data.outage_locations.forEach(location => {
+    for (const location of outageReport?.payload.outage_locations || []) {
+      const coords = findCity(location.city, location.state);
+      if (!coords) continue;
+
       // Check if city already exists from DownDetector
       const existing = outagePoints.find(
-        p => p.city === location.city && p.state === location.state
+        p => p.lat === coords.lat && p.lng === coords.lng
       );
 
       if (existing) {
@@ -57,25 +125,30 @@ export async function GET() {
         existing.details = `${existing.reportCount} total reports - Multiple issues`;
 
         // Update severity to highest
-        const severityLevels = { low: 1, medium: 2, high: 3, critical: 4 };
-        if (severityLevels[location.severity] > severityLevels[existing.severity]) {
-          existing.severity = location.severity;
+        const severity = getSeverity(existing.reportCount);
+        if (SEVERITY_LEVELS[severity] > SEVERITY_LEVELS[existing.severity]) {
+          existing.severity = severity;
         }
       } else {
+        const problems = (outageReport?.payload.events || [])
+          .filter(event => event.location?.toLowerCase().startsWith(location.city.toLowerCase()) && event.event_type)
+          .map(event => event.event_type as string);
+        const problemType = problems[0] || 'Mobile network';
+
         // Add as new location
         outagePoints.push({
           city: location.city,
-          state: location.state,
-          lat: location.lat,
-          lng: location.lng,
+          state: coords.state,
+          lat: coords.lat,
+          lng: coords.lng,
           reportCount: location.reportCount,
-          severity: location.severity,
-          problemType: location.problemType,
+          severity: getSeverity(location.reportCount),
+          problemType,
           source: 'Outage.Report',
-          details: `${location.reportCount} reports - ${location.affectedServices.join(', ')} (${location.duration})`,
+          details: `${location.reportCount} reports - ${[...new Set(problems)].join(', ') || problemType}`,
         });
       }
-    });
+    }
 
     // Calculate summary statistics
     const summary = {
@@ -94,24 +167,29 @@ export async function GET() {
       summary,
       sources: {
         downdetector: {
-          total_reports: downDetectorData.report_data.total_reports,
-          status: downDetectorData.report_data.status,
-          locations: downDetectorData.report_data.outage_locations.length,
+          total_reports: downDetector?.payload.total_reports || 0,
+          status: downDetector?.payload.status || 'unknown',
+          locations: downDetector?.payload.outage_locations?.length || 0,
+          fetched_at: downDetector?.fetched_at || null,
+          synthetic: downDetector?.synthetic ?? false,
         },
         outagereport: {
-          total_reports: outageReportData.report_data.total_reports,
-          status: outageReportData.report_data.status,
-          locations: outageReportData.report_data.outage_locations.length,
+          total_reports: (outageReport?.payload.outage_locations || []).reduce((sum, l) => sum + l.reportCount, 0),
+          status: outageReport?.payload.current_status || 'unknown',
+          locations: outageReport?.payload.outage_locations?.length || 0,
+          fetched_at: outageReport?.fetched_at || null,
+          synthetic: outageReport?.synthetic ?? false,
         },
       },
+      excludeSynthetic,
       fetched_at: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error generating outage data:', error);
+    console.error('Error loading outage data:', error);
     return NextResponse.json(
       {
         success: false,
-        error: 'Failed to generate outage data',
+        error: 'Failed to load outage data',
         message: error instanceof Error ? error.message : 'Unknown error',
       },
       { status: 500 }
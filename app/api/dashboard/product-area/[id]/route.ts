@@ -3,73 +3,30 @@
  *
  * GET /api/dashboard/product-area/[id]
  * Returns detailed metrics for a specific product area
+ *
+ * Query params:
+ * - synthetic=exclude: leave out signals from replayed fixtures and sample data
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/service';
-import { calculateCHI } from '@/lib/utils/chi';
+import { CHI_SIGNAL_COLUMNS, calculateCHI, chiFromSums, estimateCHI, sumCHISentiment, type CHIInterval } from '@/lib/utils/chi';
+import { getIssueLabel } from '@/lib/utils/dashboard-data';
+import { getIssueKey } from '@/lib/processing/subtopics';
+import { getAreaSentiment, type AspectSentiment } from '@/lib/processing/sentiment';
+import { loadCredibilityWeights } from '@/lib/processing/credibility';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-/**
- * Normalize topic text to proper title case with special handling
- */
-function normalizeTopicText(topic: string): string {
-  // Special case mappings
-  const specialCases: Record<string, string> = {
-    'tmobile': 'T-Mobile',
-    't-mobile': 'T-Mobile',
-    '5g': '5G',
-    'lte': 'LTE',
-    'wifi': 'WiFi',
-    'wi-fi': 'Wi-Fi',
-    'app': 'App',
-    'api': 'API',
-    'sms': 'SMS',
-    'mms': 'MMS',
-    'sim': 'SIM',
-    'esim': 'eSIM',
-    'voip': 'VoIP',
-    'vpn': 'VPN',
-    'tv': 'TV',
-    'hbo': 'HBO',
-    'netflix': 'Netflix',
-    'iphone': 'iPhone',
-    'ipad': 'iPad',
-    'android': 'Android',
-    'ios': 'iOS',
-    'ok': 'OK',
-  };
-
-  // Split on spaces and convert to title case
-  const words = topic.toLowerCase().split(' ');
-
-  const normalizedWords = words.map(word => {
-    // Check if word is in special cases (exact match)
-    if (specialCases[word]) {
-      return specialCases[word];
-    }
-
-    // Check if word contains a special case (e.g., "t-mobile's")
-    for (const [key, value] of Object.entries(specialCases)) {
-      if (word.startsWith(key)) {
-        return word.replace(key, value);
-      }
-    }
-
-    // Standard title case: capitalize first letter
-    return word.charAt(0).toUpperCase() + word.slice(1);
-  });
-
-  return normalizedWords.join(' ');
-}
-
 interface ProductAreaDetailData {
   id: string;
   name: string;
   color: string;
   chi: number;
+  rawChi: number; // CHI without source credibility weighting
+  chiInterval: CHIInterval | null; // 95% credible interval around chi; null with no data
+  insufficientData: boolean; // Too few signals for chi to mean much
   trend: number;
   signalCount: number;
   resolvedCount: number;
@@ -84,15 +41,34 @@ interface ProductAreaDetailData {
     sentiment: number;
     sourceCount: number;
   }>;
+  aspects: Array<{
+    aspect: string;
+    sentiment: number;
+    mentions: number;
+    inArea: boolean; // Aspect rolls up to this product area
+  }>;
 }
 
+type AreaSignal = {
+  sentiment: number;
+  intensity: number;
+  aspects: AspectSentiment[] | null;
+  source: string;
+  content_type: string | null;
+  product_area_id: string | null;
+  sentiment_confidence: number | null;
+  topic_confidence: number | null;
+};
+
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id: productAreaId } = await params;
     const supabase = createServiceClient();
+    const excludeSynthetic = request.nextUrl.searchParams.get('synthetic') === 'exclude';
+    const syntheticFilter = excludeSynthetic ? { synthetic: false } : {};
 
     // Fetch product area info
     const { data: productArea, error: paError } = await supabase
@@ -113,7 +89,10 @@ export async function GET(
     const timeAgo = new Date(Date.now() - timeWindowHours * 60 * 60 * 1000).toISOString();
 
     // Calculate CHI and trend
-    const chi = (await calculateCHI(timeWindowHours * 60, productAreaId)) || 50;
+    const estimate = await estimateCHI(timeWindowHours * 60, productAreaId, true, null, 'weighted', excludeSynthetic);
+    const chi = estimate?.score || 50;
+    const rawChi = (await calculateCHI(timeWindowHours * 60, productAreaId, true, null, 'raw', excludeSynthetic)) || 50;
+    const credibility = await loadCredibilityWeights(supabase);
 
     // Get trend (compare to previous window)
     const previousWindowStart = new Date(Date.now() - timeWindowHours * 2 * 60 * 60 * 1000).toISOString();
@@ -121,35 +100,54 @@ export async function GET(
 
     const { data: currentSignals } = await supabase
       .from('signals')
-      .select('sentiment, intensity')
-      .eq('product_area_id', productAreaId)
+      .select(CHI_SIGNAL_COLUMNS)
+      .contains('product_area_ids', [productAreaId])
+      .match(syntheticFilter)
       .gte('detected_at', timeAgo);
 
     const { data: previousSignals } = await supabase
       .from('signals')
-      .select('sentiment, intensity')
-      .eq('product_area_id', productAreaId)
+      .select(CHI_SIGNAL_COLUMNS)
+      .contains('product_area_ids', [productAreaId])
+      .match(syntheticFilter)
       .gte('detected_at', previousWindowStart)
       .lt('detected_at', previousWindowEnd);
 
-    // Calculate trend
+    // Calculate trend, weighted by source credibility and confidence like the CHI itself
     let trend = 0;
     if (currentSignals && previousSignals && previousSignals.length > 0) {
-      const calcCHI = (signals: Array<{ sentiment: number; intensity: number }>) => {
-        const total = signals.reduce((sum, s) => sum + (s.sentiment * s.intensity), 0);
-        const totalInt = signals.reduce((sum, s) => sum + s.intensity, 0);
-        return totalInt > 0 ? Math.round(((total / totalInt + 1) / 2) * 100) : 50;
-      };
-      const currentCHI = calcCHI(currentSignals);
-      const previousCHI = calcCHI(previousSignals);
+      const calcCHI = (signals: AreaSignal[]) =>
+        Math.round(chiFromSums(sumCHISentiment(signals, { id: productAreaId, name: productArea.name }, credibility)) ?? 50);
+      const currentCHI = calcCHI(currentSignals as AreaSignal[]);
+      const previousCHI = calcCHI(previousSignals as AreaSignal[]);
       trend = currentCHI - previousCHI;
     }
 
+    // Aspect breakdown, e.g. Network → speed +0.4, coverage -0.3
+    const aspectMap = new Map<string, { scores: number[]; inArea: boolean }>();
+    for (const signal of (currentSignals || []) as AreaSignal[]) {
+      for (const aspect of signal.aspects || []) {
+        const entry = aspectMap.get(aspect.aspect) || { scores: [], inArea: aspect.productArea === productArea.name };
+        entry.scores.push(aspect.score);
+        aspectMap.set(aspect.aspect, entry);
+      }
+    }
+
+    const aspects = Array.from(aspectMap.entries())
+      .map(([aspect, entry]) => ({
+        aspect,
+        sentiment: entry.scores.reduce((sum, s) => sum + s, 0) / entry.scores.length,
+        mentions: entry.scores.length,
+        inArea: entry.inArea,
+      }))
+      .sort((a, b) => Number(b.inArea) - Number(a.inArea) || b.mentions - a.mentions);
+
     // Count total signals
     const { count: signalCount } = await supabase
       .from('signals')
       .select('*', { count: 'exact', head: true })
-      .eq('product_area_id', productAreaId)
+      .contains('product_area_ids', [productAreaId])
+      .match(syntheticFilter)
       .gte('detected_at', timeAgo);
 
     // Count "resolved" signals (signals that improved sentiment)
@@ -157,7 +155,8 @@ export async function GET(
     const { data: allSignals } = await supabase
       .from('signals')
       .select('topic, sentiment, detected_at')
-      .eq('product_area_id', productAreaId)
+      .contains('product_area_ids', [productAreaId])
+      .match(syntheticFilter)
       .gte('detected_at', timeAgo)
       .order('detected_at', { ascending: true });
 
@@ -192,8 +191,9 @@ export async function GET(
     // Get 24-hour sentiment timeline for this product area
     const { data: timelineSignals } = await supabase
       .from('signals')
-      .select('detected_at, sentiment')
-      .eq('product_area_id', productAreaId)
+      .select('detected_at, sentiment, aspects')
+      .contains('product_area_ids', [productAreaId])
+      .match(syntheticFilter)
       .gte('detected_at', timeAgo)
       .order('detected_at', { ascending: true });
 
@@ -207,7 +207,7 @@ export async function GET(
         if (!hourlyData.has(hourKey)) {
           hourlyData.set(hourKey, []);
         }
-        hourlyData.get(hourKey)!.push(signal.sentiment);
+        hourlyData.get(hourKey)!.push(getAreaSentiment(signal.aspects, productArea.name, signal.sentiment));
       }
     }
 
@@ -232,12 +232,13 @@ export async function GET(
     // Get top issues for this product area
     const { data: issueSignals } = await supabase
       .from('signals')
-      .select('id, topic, intensity, sentiment, source')
-      .eq('product_area_id', productAreaId)
+      .select('id, topic, subtopic, intensity, sentiment, aspects, source')
+      .contains('product_area_ids', [productAreaId])
+      .match(syntheticFilter)
       .gte('detected_at', timeAgo)
       .order('intensity', { ascending: false });
 
-    // Group by topic
+    // Group by canonical sub-topic
     const issueMap = new Map<string, {
       topics: Set<string>;
       totalIntensity: number;
@@ -248,11 +249,11 @@ export async function GET(
     if (issueSignals) {
       for (const signal of issueSignals) {
         const topic = signal.topic || 'Unknown';
-        const key = topic.toLowerCase().trim();
+        const key = getIssueKey(signal, productArea.name);
 
         if (!issueMap.has(key)) {
           issueMap.set(key, {
-            topics: new Set([topic]),
+            topics: new Set(),
             totalIntensity: 0,
             sentiments: [],
             sources: new Set(),
@@ -260,8 +261,9 @@ export async function GET(
         }
 
         const issue = issueMap.get(key)!;
+        issue.topics.add(topic);
         issue.totalIntensity += signal.intensity || 1;
-        issue.sentiments.push(signal.sentiment || 0);
+        issue.sentiments.push(getAreaSentiment(signal.aspects, productArea.name, signal.sentiment || 0));
         issue.sources.add(signal.source);
       }
     }
@@ -270,7 +272,7 @@ export async function GET(
     const topIssues = Array.from(issueMap.entries())
       .map(([key, issue]) => ({
         id: key,
-        topic: normalizeTopicText(Array.from(issue.topics)[0]),
+        topic: getIssueLabel(key, Array.from(issue.topics)[0]),
         intensity: issue.totalIntensity,
         sentiment: issue.sentiments.reduce((sum, s) => sum + s, 0) / issue.sentiments.length,
         sourceCount: issue.sources.size,
@@ -291,11 +293,15 @@ export async function GET(
       name: productArea.name,
       color: colorMap[productArea.name] || '#6B7280',
       chi: Math.round(chi),
+      rawChi: Math.round(rawChi),
+      chiInterval: estimate ? { low: estimate.low, high: estimate.high } : null,
+      insufficientData: estimate?.insufficientData ?? true,
       trend: Math.round(trend),
       signalCount: signalCount || 0,
       resolvedCount,
       sentimentTimeline,
       topIssues,
+      aspects,
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,51 @@
+/**
+ * Regional Incidents API
+ *
+ * GET /api/dashboard/regional-incidents
+ * Returns clusters of negative Network signals that are close in space and
+ * time (see lib/processing/regional-incidents.ts)
+ *
+ * Query params:
+ * - hours: lookback the sliding windows cover (default 24, max 72)
+ * - synthetic=exclude: leave out signals from replayed fixtures and sample data
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { loadRegionalIncidents } from '@/lib/processing/regional-incidents';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_LOOKBACK_HOURS = 24;
+const MAX_LOOKBACK_HOURS = 72;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const hoursParam = parseInt(searchParams.get('hours') || String(DEFAULT_LOOKBACK_HOURS), 10);
+    const lookbackHours = Math.min(Math.max(hoursParam || DEFAULT_LOOKBACK_HOURS, 3), MAX_LOOKBACK_HOURS);
+    const excludeSynthetic = searchParams.get('synthetic') === 'exclude';
+
+    const supabase = await createClient();
+    const incidents = await loadRegionalIncidents(supabase, { lookbackHours, excludeSynthetic });
+
+    return NextResponse.json({
+      success: true,
+      incidents,
+      lookbackHours,
+      excludeSynthetic,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error detecting regional incidents:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        incidents: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,13 @@
 /**
  * Sentiment Timeline API
  *
- * GET /api/dashboard/sentiment-timeline?range=24h|7d|30d
+ * GET /api/dashboard/sentiment-timeline?range=24h|7d|30d&language=en|es&synthetic=exclude
  * Returns sentiment timeline data for the specified time range
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSentimentTimeline } from '@/lib/utils/dashboard-data';
+import { SUPPORTED_LANGUAGES } from '@/lib/processing/language';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -15,6 +16,9 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const range = searchParams.get('range') || '24h';
+    const languageParam = searchParams.get('language');
+    const language = languageParam && languageParam in SUPPORTED_LANGUAGES ? languageParam : null;
+    const excludeSynthetic = searchParams.get('synthetic') === 'exclude';
 
     // Validate range
     if (!['24h', '7d', '30d'].includes(range)) {
@@ -29,7 +33,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch sentiment timeline data
-    const timeline = await getSentimentTimeline(range as '24h' | '7d' | '30d');
+    const timeline = await getSentimentTimeline(range as '24h' | '7d' | '30d', language, excludeSynthetic);
 
     return NextResponse.json({
       success: true,
@@ -1,34 +1,51 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { aggregateSignalLocations, loadLocatedSignals } from '@/lib/utils/signal-locations'
 
-export async function GET() {
-  try {
-    const supabase = await createClient()
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_WINDOW_HOURS = 24 * 7
+const MAX_WINDOW_HOURS = 24 * 30
+const DEFAULT_MIN_CONFIDENCE = 0.4
 
-    // Fetch all feedback with location data
-    const { data, error } = await supabase
-      .from('feedback')
-      .select('city, lat, lng, sentiment, intensity')
-      .not('lat', 'is', null)
-      .not('lng', 'is', null)
+/**
+ * GET /api/geo/feedback
+ * Geocoded signals aggregated into one heatmap point per location
+ *
+ * Query params:
+ * - hours: window (default 168, max 720)
+ * - minConfidence: lowest geocoding confidence to include (default 0.4)
+ * - synthetic=exclude: leave out signals from replayed fixtures and sample data
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const hoursParam = parseInt(searchParams.get('hours') || String(DEFAULT_WINDOW_HOURS), 10)
+    const hours = Math.min(Math.max(hoursParam || DEFAULT_WINDOW_HOURS, 1), MAX_WINDOW_HOURS)
+    const confidenceParam = parseFloat(searchParams.get('minConfidence') || String(DEFAULT_MIN_CONFIDENCE))
+    const minConfidence = Number.isNaN(confidenceParam) ? DEFAULT_MIN_CONFIDENCE : Math.min(Math.max(confidenceParam, 0), 1)
+    const excludeSynthetic = searchParams.get('synthetic') === 'exclude'
 
-    if (error) {
-      console.error('Error fetching feedback:', error)
-      // Return empty array if table doesn't exist yet (for development)
-      return NextResponse.json({
-        feedback: [],
-      })
-    }
+    const supabase = await createClient()
+    const signals = await loadLocatedSignals(supabase, { hours, minConfidence, excludeSynthetic })
+    const feedback = aggregateSignalLocations(signals)
 
     return NextResponse.json({
-      feedback: data || [],
+      feedback,
+      summary: {
+        signals: signals.length,
+        locations: feedback.length,
+        hours,
+        minConfidence,
+      },
+      excludeSynthetic,
     })
   } catch (error) {
-    console.error('Error in feedback API:', error)
+    console.error('Error in geo feedback API:', error)
     // Return empty array on error to prevent breaking the page
     return NextResponse.json({
       feedback: [],
+      error: error instanceof Error ? error.message : 'Failed to load signal locations',
     })
   }
 }
-
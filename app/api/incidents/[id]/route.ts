@@ -0,0 +1,186 @@
+/**
+ * Individual Incident API Route
+ * GET - Incident with its linked signals (newest first) and promoted opportunity
+ * PATCH - Set status or title; manual changes are added to the timeline
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { redactSignalText } from '@/lib/processing/redaction'
+import {
+  INCIDENT_STATUSES,
+  statusTimestampField,
+  writeIncident,
+  type IncidentStatus,
+  type IncidentTimelineEntry,
+} from '@/lib/processing/incidents'
+
+export const dynamic = 'force-dynamic'
+
+interface IncidentParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Linked signals returned with an incident; the most recently linked are kept
+ */
+const SIGNAL_LIMIT = 200
+
+// GET - Fetch incident with signals
+export async function GET(
+  request: NextRequest,
+  { params }: IncidentParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: incident, error } = await supabase
+      .from('incidents')
+      .select(`
+        *,
+        product_area:product_areas(id, name, color),
+        opportunity:opportunity_cards(id, title, status)
+      `)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching incident:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch incident', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!incident) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 })
+    }
+
+    const signalIds = (incident.signal_ids as string[]).slice(-SIGNAL_LIMIT)
+    const { data: rows, error: signalsError } = signalIds.length > 0
+      ? await supabase
+        .from('signals')
+        .select('id, source, topic, sentiment, detected_at, meta, geo')
+        .in('id', signalIds)
+        .order('detected_at', { ascending: false })
+      : { data: [], error: null }
+
+    if (signalsError) {
+      console.error('Error fetching incident signals:', signalsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch signals', message: signalsError.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      incident,
+      signals: (rows || []).map(redactSignalText),
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Update status or title
+export async function PATCH(
+  request: NextRequest,
+  { params }: IncidentParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const updates = await request.json()
+
+    if (updates.status !== undefined && !INCIDENT_STATUSES.includes(updates.status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${INCIDENT_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (updates.title !== undefined && (typeof updates.title !== 'string' || !updates.title.trim())) {
+      return NextResponse.json({ error: 'title must not be empty' }, { status: 400 })
+    }
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    // Built from the latest row, so a pipeline pass in between is not overwritten
+    let unchanged = false
+    const { incident: updated, error } = await writeIncident(supabase, id, (incident) => {
+      const now = new Date().toISOString()
+      const updateData: Record<string, unknown> = {}
+      const timeline: IncidentTimelineEntry[] = []
+
+      if (updates.title !== undefined && updates.title.trim() !== incident.title) {
+        updateData.title = updates.title.trim()
+      }
+
+      const status = updates.status as IncidentStatus | undefined
+      if (status && status !== incident.status) {
+        updateData.status = status
+        const field = statusTimestampField(status)
+        if (field && (status === 'resolved' || !incident[field])) {
+          updateData[field] = now
+        }
+        if (incident.status === 'resolved') {
+          updateData.resolved_at = null
+        }
+        timeline.push({
+          at: now,
+          type: 'status',
+          status,
+          message: `Marked ${status}`,
+          by: user?.email,
+        })
+      }
+
+      unchanged = Object.keys(updateData).length === 0
+      if (unchanged) return null
+
+      updateData.timeline = [...incident.timeline, ...timeline]
+      return updateData
+    })
+
+    // 23505: reopening while another incident for the same region is open
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { error: 'Another incident is already open for this region' },
+        { status: 409 }
+      )
+    }
+
+    if (error) {
+      console.error('Error updating incident:', error)
+      return NextResponse.json(
+        { error: 'Failed to update incident', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Incident not found' }, { status: 404 })
+    }
+
+    if (unchanged) {
+      return NextResponse.json(
+        { error: 'No changes to apply' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ incident: updated })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
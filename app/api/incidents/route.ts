@@ -0,0 +1,61 @@
+/**
+ * Incidents API Route
+ * GET - Outage incidents, newest first
+ *
+ * Query params:
+ * - status: open (not resolved), all (default) or one status
+ * - synthetic: exclude to leave out incidents built only from synthetic signals
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { INCIDENT_STATUSES, type IncidentStatus } from '@/lib/processing/incidents'
+
+export const dynamic = 'force-dynamic'
+
+const INCIDENT_LIMIT = 100
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const status = request.nextUrl.searchParams.get('status') || 'all'
+
+    let query = supabase
+      .from('incidents')
+      .select(`
+        id, title, status, severity, started_at, last_signal_at, confirmed_at, mitigating_at, resolved_at,
+        signal_count, sources, affected_regions, opportunity_id, synthetic,
+        product_area:product_areas(id, name, color)
+      `)
+      .order('started_at', { ascending: false })
+      .limit(INCIDENT_LIMIT)
+
+    if (status === 'open') {
+      query = query.neq('status', 'resolved')
+    } else if (INCIDENT_STATUSES.includes(status as IncidentStatus)) {
+      query = query.eq('status', status)
+    }
+
+    if (request.nextUrl.searchParams.get('synthetic') === 'exclude') {
+      query = query.eq('synthetic', false)
+    }
+
+    const { data: incidents, error } = await query
+
+    if (error) {
+      console.error('Error fetching incidents:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch incidents', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ incidents: incidents || [] })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { redactPii } from '@/lib/processing/redaction';
 
 export const dynamic = 'force-dynamic';
 
@@ -64,7 +65,7 @@ export async function POST(request: NextRequest) {
     const prompt = `You are a customer intelligence analyst for T-Mobile. Analyze the following customer issue and provide actionable insights.
 
 Issue Details:
-- Topic: ${issueData.topic}
+- Topic: ${redactPii(issueData.topic).text}
 - Product Area: ${issueData.productArea}
 - Intensity Score: ${issueData.intensity} (higher = more signals/mentions)
 - Sentiment: ${issueData.sentiment.toFixed(2)} (range: -1 to +1, negative = bad, positive = good)
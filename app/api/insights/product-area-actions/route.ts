@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { redactPii } from '@/lib/processing/redaction';
 
 export async function POST(request: NextRequest) {
   try {
@@ -41,7 +42,7 @@ export async function POST(request: NextRequest) {
     // Build context about top issues
     const issuesContext = topIssues && topIssues.length > 0
       ? topIssues.slice(0, 5).map((issue: any, idx: number) => 
-          `${idx + 1}. ${issue.topic} (Intensity: ${issue.intensity}, Sentiment: ${issue.sentiment.toFixed(2)})`
+          `${idx + 1}. ${redactPii(issue.topic).text} (Intensity: ${issue.intensity}, Sentiment: ${issue.sentiment.toFixed(2)})`
         ).join('\n')
       : 'No specific issues identified yet';
 
@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { redactSignalText } from '@/lib/processing/redaction'
 
 export const dynamic = 'force-dynamic'
 
@@ -77,6 +78,7 @@ export async function POST(
     // Prepare Gemini prompt
     const insights = opportunity.meta?.insights || {}
     const signalQuotes = (signals || [])
+      .map(redactSignalText)
       .map((s) => `- [${s.source}] "${s.meta?.text || s.topic}" (Sentiment: ${s.sentiment.toFixed(2)})`)
       .join('\n')
 
@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { redactSignalText } from '@/lib/processing/redaction'
 import { differenceInDays } from 'date-fns'
 
 export const dynamic = 'force-dynamic'
@@ -118,6 +119,7 @@ export async function POST(
 
     // Prepare customer quotes (top 5 most representative)
     const customerQuotes = (signals || [])
+      .map(redactSignalText)
       .filter((s) => s.meta?.text && s.meta.text.length > 20)
       .slice(0, 5)
       .map((s) => `"${s.meta.text}" - ${s.source} (Sentiment: ${s.sentiment.toFixed(2)})`)
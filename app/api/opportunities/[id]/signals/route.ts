@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { redactSignalText } from '@/lib/processing/redaction'
 
 export const dynamic = 'force-dynamic'
 
@@ -51,7 +52,7 @@ export async function GET(
     }
 
     // Fetch signals
-    const { data: signals, error: signalsError } = await supabase
+    const { data: rows, error: signalsError } = await supabase
       .from('signals')
       .select(`
         *,
@@ -68,6 +69,9 @@ export async function GET(
       )
     }
 
+    // Signals stored before redaction was added still hold verbatim text
+    const signals = (rows || []).map(redactSignalText)
+
     // Calculate summary statistics
     const totalSignals = signals?.length || 0
     const averageSentiment = totalSignals > 0
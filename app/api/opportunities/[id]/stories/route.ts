@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import { redactSignalText } from '@/lib/processing/redaction'
 
 export const dynamic = 'force-dynamic'
 
@@ -71,6 +72,7 @@ export async function POST(
 
     // Prepare Gemini prompt
     const signalQuotes = (signals || [])
+      .map(redactSignalText)
       .map((s, index) => `Signal ${index + 1} [ID: ${s.id}]:\n- Source: ${s.source}\n- Text: "${s.meta?.text || s.topic}"\n- Sentiment: ${s.sentiment.toFixed(2)}`)
       .join('\n\n')
 
@@ -7,11 +7,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { calculateFullRICE, determineSeverity } from '@/lib/utils/rice'
+import { loadCredibilityWeights } from '@/lib/processing/credibility'
+import { getIssueKey, getSubTopic } from '@/lib/processing/subtopics'
+import { claimIncidentPromotion, releaseIncidentPromotion, writeIncident } from '@/lib/processing/incidents'
 
 export const dynamic = 'force-dynamic'
 
 interface CreateOpportunityRequest {
-  issueId?: string // ID of emerging issue (if from dashboard)
+  issueId?: string // ID of emerging issue (if from dashboard); a sub-topic ID for canonical issues
   title: string
   description?: string
   productAreaId: string
@@ -28,8 +31,14 @@ interface CreateOpportunityRequest {
   }
   effort?: number // Optional, defaults to 5
   confidence?: number // Optional, defaults to 0.7
+  incidentId?: string // Incident being promoted; its most recently linked signals become the evidence
 }
 
+/**
+ * Signals taken from a promoted incident
+ */
+const INCIDENT_SIGNAL_LIMIT = 100
+
 // Utility to check if a string is a valid UUID
 function isValidUUID(str: string): boolean {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
@@ -123,8 +132,11 @@ export async function GET(request: NextRequest) {
 
 // POST - Create new opportunity
 export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  // Incident claimed for promotion; released unless a card was created for it
+  let claimedIncidentId: string | null = null
+
   try {
-    const supabase = await createClient()
     const body: CreateOpportunityRequest = await request.json()
 
     // Validate required fields
@@ -138,18 +150,65 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // A promoted incident supplies its own signals and is linked to the new card
+    let incident: { id: string; signal_ids: string[]; opportunity_id: string | null } | null = null
+    if (body.incidentId) {
+      const { data, error: incidentError } = await supabase
+        .from('incidents')
+        .select('id, signal_ids, opportunity_id')
+        .eq('id', body.incidentId)
+        .maybeSingle()
+
+      if (incidentError || !data) {
+        return NextResponse.json(
+          { error: 'Incident not found', message: incidentError?.message },
+          { status: 404 }
+        )
+      }
+
+      if (data.opportunity_id) {
+        return NextResponse.json(
+          { error: 'Incident already promoted', message: 'This incident already has an opportunity card' },
+          { status: 409 }
+        )
+      }
+
+      // Claimed before the card is created, so a concurrent promotion can't create a second one
+      const { claimed, error: claimError } = await claimIncidentPromotion(supabase, data.id)
+      if (claimError) {
+        console.error('Error claiming incident for promotion:', claimError)
+        return NextResponse.json(
+          { error: 'Failed to promote incident', message: claimError.message },
+          { status: 500 }
+        )
+      }
+      if (!claimed) {
+        return NextResponse.json(
+          { error: 'Incident already promoted', message: 'This incident is already being promoted' },
+          { status: 409 }
+        )
+      }
+
+      claimedIncidentId = data.id
+      incident = data
+    }
+
     // Determine how to fetch signals
     let signalIds: string[] = []
     let signals: any[] = []
+    const requestedSignalIds = incident ? incident.signal_ids.slice(-INCIDENT_SIGNAL_LIMIT) : body.signalIds
+
+    // Emerging issues keyed by canonical sub-topic aggregate many topic phrasings
+    const subTopic = getSubTopic(body.issueId)
 
     // Check if we have valid signal IDs
-    const hasValidSignalIds = body.signalIds &&
-      body.signalIds.length > 0 &&
-      body.signalIds.every(id => isValidUUID(id))
+    const hasValidSignalIds = requestedSignalIds &&
+      requestedSignalIds.length > 0 &&
+      requestedSignalIds.every(id => isValidUUID(id))
 
     if (hasValidSignalIds) {
       // Use provided signal IDs
-      signalIds = body.signalIds!
+      signalIds = requestedSignalIds!
       const { data, error: signalsError } = await supabase
         .from('signals')
         .select('*')
@@ -163,6 +222,27 @@ export async function POST(request: NextRequest) {
         )
       }
       signals = data || []
+    } else if (subTopic) {
+      // Query recent signals in the product area and keep those in the sub-topic
+      const { data, error: signalsError } = await supabase
+        .from('signals')
+        .select('*')
+        .eq('product_area_id', body.productAreaId)
+        .order('detected_at', { ascending: false })
+        .limit(500)
+
+      if (signalsError) {
+        console.error('Error fetching signals by sub-topic:', signalsError)
+        return NextResponse.json(
+          { error: 'Failed to fetch signals', message: signalsError.message },
+          { status: 500 }
+        )
+      }
+
+      signals = (data || [])
+        .filter(signal => getIssueKey(signal, subTopic.productArea) === subTopic.id)
+        .slice(0, 100) // Limit to most recent 100 signals
+      signalIds = signals.map(s => s.id)
     } else {
       // Query signals by topic and product area
       const topic = body.topic || body.title
@@ -205,7 +285,8 @@ export async function POST(request: NextRequest) {
     // Calculate RICE components
     const effort = body.effort || 5
     const confidence = body.confidence || 0.7
-    const riceResult = calculateFullRICE(signals || [], productArea.name, effort, confidence)
+    const credibility = await loadCredibilityWeights(supabase)
+    const riceResult = calculateFullRICE(signals || [], productArea.name, effort, confidence, credibility)
 
     // Determine severity
     const averageSentiment = signals && signals.length > 0
@@ -230,7 +311,10 @@ export async function POST(request: NextRequest) {
         meta: {
           insights: body.insights || null,
           issue_id: body.issueId || null,
-          created_from: 'dashboard',
+          subtopic: subTopic?.id || null,
+          incident_id: incident?.id || null,
+          created_from: incident ? 'incident' : 'dashboard',
+          raw_reach: riceResult.rawReach, // Reach before credibility weighting
         },
       })
       .select(`
@@ -247,6 +331,29 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (incident) {
+      // The claim now stands for the card; if linking fails, it still blocks a second promotion until the lease runs out
+      claimedIncidentId = null
+
+      const { error: linkError } = await writeIncident(supabase, incident.id, (current) =>
+        current.opportunity_id
+          ? null
+          : {
+            opportunity_id: opportunity.id,
+            promotion_claimed_at: null,
+            timeline: [
+              ...current.timeline,
+              { at: new Date().toISOString(), type: 'promoted', message: `Promoted to opportunity "${opportunity.title}"` },
+            ],
+          }
+      )
+
+      if (linkError) {
+        // The card exists either way; the incident page just won't link to it
+        console.error('Error linking incident to opportunity:', linkError)
+      }
+    }
+
     return NextResponse.json({
       success: true,
       opportunity: {
@@ -263,5 +370,9 @@ export async function POST(request: NextRequest) {
       },
       { status: 500 }
     )
+  } finally {
+    if (claimedIncidentId) {
+      await releaseIncidentPromotion(supabase, claimedIncidentId)
+    }
   }
 }
@@ -1,11 +1,13 @@
 /**
  * Close-the-Loop Monitoring API
  * Monitors opportunities marked as "done" to track sentiment recovery
+ * Each POST is recorded in pipeline_runs (job 'close_loop')
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/service'
 import { calculateRecoveryStatus } from '@/lib/utils/close-loop'
+import { startRun } from '@/lib/processing/pipeline-runs'
 
 export const dynamic = 'force-dynamic'
 
@@ -144,8 +146,11 @@ async function processOpportunity(
  * Monitor opportunities marked "done" in last 72 hours
  */
 export async function POST(request: NextRequest) {
+  const supabase = createServiceClient()
+  const run = await startRun(supabase, 'close_loop')
+
   try {
-    const supabase = createServiceClient()
+    const monitorStart = Date.now()
 
     // Calculate 72 hours ago
     const seventyTwoHoursAgo = new Date()
@@ -165,6 +170,7 @@ export async function POST(request: NextRequest) {
 
     if (queryError) {
       console.error('Error querying opportunities:', queryError)
+      await run.finish('failed', { error: queryError })
       return NextResponse.json(
         { error: 'Failed to query opportunities', details: queryError.message },
         { status: 500 }
@@ -172,6 +178,8 @@ export async function POST(request: NextRequest) {
     }
 
     if (!opportunities || opportunities.length === 0) {
+      run.stage('monitor', { durationMs: Date.now() - monitorStart })
+      await run.finish('succeeded', { summary: { monitored: 0 } })
       return NextResponse.json({
         success: true,
         message: 'No opportunities to monitor',
@@ -204,6 +212,18 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const failedCount = opportunities.length - successCount
+    run.stage('monitor', {
+      itemsIn: opportunities.length,
+      itemsOut: successCount,
+      durationMs: Date.now() - monitorStart,
+      drops: { error: failedCount },
+      errors: failedCount,
+    })
+    await run.finish(failedCount > 0 ? 'partial' : 'succeeded', {
+      summary: { monitored: successCount, total: opportunities.length, statusBreakdown },
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Close-loop monitoring complete',
@@ -213,6 +233,7 @@ export async function POST(request: NextRequest) {
     })
   } catch (error) {
     console.error('Error in close-loop processing:', error)
+    await run.finish('failed', { error })
     return NextResponse.json(
       {
         error: 'Internal server error',
@@ -0,0 +1,125 @@
+/**
+ * Pipeline Failure Actions API
+ * POST - Replay a failed scrape or raw event now, or discard it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { processRawEvents } from '@/lib/processing/batch-processor';
+import {
+  describeError,
+  discardFailure,
+  recordFailure,
+  resolveFailure,
+  type PipelineFailure,
+} from '@/lib/processing/failures';
+import { getSourceAdapter } from '@/lib/scraper/registry';
+import { storeSourceFetch } from '@/lib/scraper/store';
+
+export const dynamic = 'force-dynamic';
+
+interface FailureParams {
+  params: Promise<{ id: string }>;
+}
+
+interface FailureActionRequest {
+  action?: 'replay' | 'discard';
+}
+
+/**
+ * Run the failed stage once, outside the backoff schedule
+ * Success resolves the failure; another error counts as one more attempt
+ */
+async function replayFailure(
+  supabase: ReturnType<typeof createServiceClient>,
+  failure: PipelineFailure
+): Promise<{ success: boolean; details: Record<string, unknown> }> {
+  if (failure.stage === 'process') {
+    const { data: event, error } = await supabase
+      .from('raw_events')
+      .select('id, source, fetched_at, raw_payload, synthetic')
+      .eq('id', failure.raw_event_id)
+      .single();
+
+    if (error || !event) {
+      throw error || new Error('Raw event not found');
+    }
+
+    // processRawEvents resolves or re-records the failure itself
+    const result = await processRawEvents([event], supabase);
+    return {
+      success: result.eventsFailed === 0,
+      details: {
+        signalsCreated: result.signalsCreated,
+        signalsMerged: result.signalsMerged,
+        duplicatesSkipped: result.duplicatesSkipped,
+        itemsRejected: result.itemsRejected,
+      },
+    };
+  }
+
+  const adapter = getSourceAdapter(failure.source);
+  if (!adapter) {
+    throw new Error(`Unknown source: ${failure.source}`);
+  }
+
+  try {
+    const result = await adapter.fetch();
+    const storedId = await storeSourceFetch(adapter, result);
+    await resolveFailure(supabase, 'scrape', failure.source);
+    return { success: true, details: { itemCount: result.itemCount, storedId } };
+  } catch (error) {
+    await recordFailure(supabase, { stage: 'scrape', source: failure.source, error });
+    return { success: false, details: { error: describeError(error) } };
+  }
+}
+
+export async function POST(request: NextRequest, { params }: FailureParams) {
+  try {
+    const { id } = await params;
+    const body: FailureActionRequest = await request.json().catch(() => ({}));
+
+    if (body.action !== 'replay' && body.action !== 'discard') {
+      return NextResponse.json(
+        { error: 'Invalid action', details: 'action must be "replay" or "discard"' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceClient();
+
+    const { data: failure, error } = await supabase
+      .from('pipeline_failures')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !failure) {
+      return NextResponse.json(
+        { error: 'Failure not found', details: error?.message },
+        { status: 404 }
+      );
+    }
+
+    if (failure.status === 'resolved' || failure.status === 'discarded') {
+      return NextResponse.json(
+        { error: 'Failure is already closed', details: `status is ${failure.status}` },
+        { status: 409 }
+      );
+    }
+
+    if (body.action === 'discard') {
+      await discardFailure(supabase, failure);
+      return NextResponse.json({ success: true, action: 'discard' });
+    }
+
+    const replay = await replayFailure(supabase, failure);
+    return NextResponse.json({ ...replay, action: 'replay' });
+  } catch (error) {
+    console.error('Error in process/failures/[id] route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: describeError(error) },
+      { status: 500 }
+    );
+  }
+}
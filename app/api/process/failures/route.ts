@@ -0,0 +1,97 @@
+/**
+ * Pipeline Failures API
+ * Dead-lettered and retrying scrapes and raw events, plus the unprocessed
+ * backlog, for the pipeline health page
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { MAX_ATTEMPTS, type FailureStatus } from '@/lib/processing/failures';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Unprocessed events older than this are reported as stuck
+ */
+const STUCK_AFTER_MS = 30 * 60 * 1000;
+
+const STATUSES: FailureStatus[] = ['pending', 'dead', 'resolved', 'discarded'];
+
+/**
+ * GET /api/process/failures
+ *
+ * Query params:
+ * - status: pending | dead | resolved | discarded (default: pending and dead)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status') as FailureStatus | null;
+
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status', details: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceClient();
+    const stuckBefore = new Date(Date.now() - STUCK_AFTER_MS).toISOString();
+
+    const [failuresResult, backlogResult, stuckResult, ...countResults] = await Promise.all([
+      supabase
+        .from('pipeline_failures')
+        .select('*')
+        .in('status', status ? [status] : ['pending', 'dead'])
+        .order('last_failed_at', { ascending: false })
+        .limit(200),
+      supabase
+        .from('raw_events')
+        .select('*', { count: 'exact', head: true })
+        .eq('processed', false),
+      supabase
+        .from('raw_events')
+        .select('id, source, created_at, claimed_at, retry_after')
+        .eq('processed', false)
+        .lt('created_at', stuckBefore)
+        .order('created_at', { ascending: true })
+        .limit(50),
+      ...STATUSES.map(value =>
+        supabase
+          .from('pipeline_failures')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', value)
+      ),
+    ]);
+
+    const queryError = failuresResult.error || backlogResult.error || stuckResult.error
+      || countResults.find(result => result.error)?.error;
+    if (queryError) {
+      console.error('Error fetching pipeline failures:', queryError);
+      return NextResponse.json(
+        { error: 'Failed to fetch pipeline failures', details: queryError.message },
+        { status: 500 }
+      );
+    }
+
+    const counts = Object.fromEntries(
+      STATUSES.map((value, index) => [value, countResults[index].count || 0])
+    ) as Record<FailureStatus, number>;
+
+    return NextResponse.json({
+      failures: failuresResult.data || [],
+      counts,
+      maxAttempts: MAX_ATTEMPTS,
+      backlog: {
+        unprocessed: backlogResult.count || 0,
+        stuck: stuckResult.data || [],
+        stuckAfterMinutes: STUCK_AFTER_MS / 60000,
+      },
+    });
+  } catch (error) {
+    console.error('Error in process/failures route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
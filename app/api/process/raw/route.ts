@@ -1,413 +1,125 @@
 /**
  * Raw Event Processing API
  * Processes unprocessed raw_events into signals with sentiment and topic analysis
+ * Events are claimed with a lease, so overlapping cron runs never process the same event
+ * Each run is recorded in pipeline_runs with per-stage counts and timings
+ * Every run ends by updating outage incidents from the latest signals
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/service';
-import { analyzeSentiment } from '@/lib/processing/sentiment';
-import { detectTopic } from '@/lib/processing/topic-detector';
-import { findExistingDuplicate, mergeSignals, type Signal } from '@/lib/processing/deduplicator';
+import { PIPELINE_VERSION } from '@/lib/processing/pipeline';
+import { claimRawEvents, processRawEvents } from '@/lib/processing/batch-processor';
+import { startRun, type RunRecorder } from '@/lib/processing/pipeline-runs';
+import { updateIncidents, type IncidentUpdateSummary } from '@/lib/processing/incidents';
+import type { SupabaseClient } from '@supabase/supabase-js';
 
 /**
- * Extract text content from raw event based on source type
+ * Max events claimed per run; a run that exhausts its time budget returns
+ * the rest to the queue and reports eventsRemaining
  */
-function extractTextFromEvent(rawPayload: any, source: string): string {
-  try {
-    switch (source) {
-      case 'reddit':
-        if (Array.isArray(rawPayload)) {
-          return rawPayload
-            .map((post: any) => `${post.title} ${post.selftext || ''}`.trim())
-            .join('\n\n');
-        }
-        return '';
-
-      case 'downdetector':
-        if (rawPayload?.user_comments) {
-          return rawPayload.user_comments
-            .map((comment: any) => comment.text)
-            .join('\n\n');
-        }
-        return '';
-
-      case 'outage-report':
-        const descriptions = rawPayload?.events
-          ?.map((event: any) => event.description || '')
-          .join('\n\n') || '';
-        const mentions = rawPayload?.social_mentions?.join('\n\n') || '';
-        return `${descriptions}\n\n${mentions}`.trim();
-
-      case 'tmobile-community':
-        if (Array.isArray(rawPayload)) {
-          return rawPayload
-            .map((discussion: any) => `${discussion.title} ${discussion.excerpt}`.trim())
-            .join('\n\n');
-        }
-        return '';
-
-      case 'customer-feedback':
-        if (Array.isArray(rawPayload.comments)) {
-          return rawPayload.comments
-            .map((comment: any) => comment.comment)
-            .join('\n\n');
-        }
-        return '';
-
-      case 'google-news':
-        if (Array.isArray(rawPayload)) {
-          return rawPayload
-            .map((article: any) => `${article.title} ${article.description || ''}`.trim())
-            .join('\n\n');
-        }
-        return '';
-
-      case 'istheservicedown':
-        const statusMsg = rawPayload?.status_message || '';
-        const socialMentions = rawPayload?.social_mentions
-          ?.map((mention: any) => mention.text)
-          .join('\n\n') || '';
-        return `${statusMsg}\n\n${socialMentions}`.trim();
-
-      default:
-        console.warn(`Unknown source type: ${source}`);
-        return '';
-    }
-  } catch (error) {
-    console.error(`Error extracting text from ${source}:`, error);
-    return '';
-  }
-}
-
-/**
- * Extract geographic data from raw event if available
- */
-function extractGeoData(rawPayload: any, source: string): any {
-  try {
-    if (source === 'customer-feedback' && Array.isArray(rawPayload.comments)) {
-      const locations = rawPayload.comments
-        .filter((c: any) => c.city && c.state)
-        .map((c: any) => ({ city: c.city, state: c.state }));
-
-      if (locations.length > 0) {
-        return { locations };
-      }
-    }
-
-    if (source === 'downdetector' && rawPayload?.user_comments) {
-      const locations = rawPayload.user_comments
-        .filter((c: any) => c.location)
-        .map((c: any) => c.location);
-
-      if (locations.length > 0) {
-        return { locations };
-      }
-    }
-
-    return null;
-  } catch (error) {
-    return null;
-  }
-}
-
-/**
- * Map product area name to database ID
- */
-async function mapProductAreaToId(
-  productAreaName: string,
-  supabase: any
-): Promise<string | null> {
-  try {
-    const { data, error } = await supabase
-      .from('product_areas')
-      .select('id')
-      .eq('name', productAreaName)
-      .single();
-
-    if (error || !data) {
-      console.warn(`Product area not found: ${productAreaName}`);
-      return null;
-    }
-
-    return data.id;
-  } catch (error) {
-    console.error('Error mapping product area:', error);
-    return null;
-  }
-}
+const MAX_EVENTS_PER_RUN = 500;
 
 /**
- * Extract individual items from raw event for multi-signal sources
- * Most sources should create one signal per item (post, article, event, comment)
+ * Stop starting new batches after this long, well inside the platform timeout
  */
-function extractIndividualItems(rawPayload: any, source: string): Array<{ text: string; geo?: any }> {
-  try {
-    switch (source) {
-      case 'reddit':
-        if (Array.isArray(rawPayload)) {
-          return rawPayload.map((post: any) => ({
-            text: `${post.title} ${post.selftext || ''}`.trim(),
-            geo: undefined,
-          }));
-        }
-        return [];
-
-      case 'google-news':
-        if (Array.isArray(rawPayload)) {
-          return rawPayload.map((article: any) => ({
-            text: `${article.title} ${article.description || ''}`.trim(),
-            geo: undefined,
-          }));
-        }
-        return [];
-
-      case 'tmobile-community':
-        if (Array.isArray(rawPayload)) {
-          return rawPayload.map((discussion: any) => ({
-            text: `${discussion.title} ${discussion.excerpt}`.trim(),
-            geo: undefined,
-          }));
-        }
-        return [];
-
-      case 'outage-report':
-        if (rawPayload?.events && Array.isArray(rawPayload.events)) {
-          return rawPayload.events.map((event: any) => ({
-            text: event.description || '',
-            geo: undefined,
-          }));
-        }
-        return [];
-
-      case 'downdetector':
-        if (rawPayload?.user_comments && Array.isArray(rawPayload.user_comments)) {
-          return rawPayload.user_comments.map((comment: any) => ({
-            text: comment.text || '',
-            geo: comment.location ? { location: comment.location } : undefined,
-          }));
-        }
-        return [];
-
-      case 'customer-feedback':
-        if (Array.isArray(rawPayload.comments)) {
-          return rawPayload.comments.map((comment: any) => ({
-            text: comment.comment,
-            geo: comment.city && comment.state ? { city: comment.city, state: comment.state } : undefined,
-          }));
-        }
-        return [];
-
-      case 'istheservicedown':
-        const statusMsg = rawPayload?.status_message || '';
-        const socialMentions = rawPayload?.social_mentions
-          ?.map((mention: any) => mention.text)
-          .join('\n\n') || '';
-        const text = `${statusMsg}\n\n${socialMentions}`.trim();
-        return text ? [{ text, geo: undefined }] : [];
-
-      default:
-        console.warn(`Unknown source type: ${source}`);
-        return [];
-    }
-  } catch (error) {
-    console.error(`Error extracting items from ${source}:`, error);
-    return [];
-  }
-}
+const TIME_BUDGET_MS = 45 * 1000;
 
 /**
- * Process a single text item into a signal
+ * Open, extend or advance incidents after a run
+ * Failures are recorded on the run's incidents stage without failing processing
  */
-async function processSingleItem(
-  text: string,
-  geo: any,
-  event: any,
-  supabase: any
-): Promise<boolean> {
-  try {
-    const sentimentResult = analyzeSentiment(text);
-
-    const topicResult = detectTopic(text);
-
-    const productAreaId = await mapProductAreaToId(topicResult.productArea, supabase);
-
-    const thirtyMinsAgo = new Date(Date.now() - 30 * 60 * 1000).toISOString();
-
-    let recentSignals: any[] = [];
-    if (productAreaId) {
-      const { data, error: queryError } = await supabase
-        .from('signals')
-        .select('*')
-        .eq('product_area_id', productAreaId)
-        .gte('detected_at', thirtyMinsAgo);
-
-      if (queryError) {
-        console.error('Error querying recent signals:', queryError);
-      } else {
-        recentSignals = data || [];
-      }
-    }
-
-    const newSignal: Signal = {
-      topic: topicResult.topic,
-      keywords: topicResult.keywords,
-      sentiment: sentimentResult.score,
-      detected_at: event.fetched_at || new Date().toISOString(),
-      source: event.source,
-      product_area: topicResult.productArea,
-      meta: {
-        original_text: text.substring(0, 1000),
-        confidence: topicResult.confidence,
-        sentiment_confidence: sentimentResult.confidence,
-        raw_event_id: event.id,
-        keywords: topicResult.keywords,
-      },
-    };
-
-    const existingDuplicate = recentSignals.length > 0
-      ? findExistingDuplicate(newSignal, recentSignals)
-      : null;
+async function trackIncidents(supabase: SupabaseClient, run: RunRecorder): Promise<IncidentUpdateSummary | null> {
+  const start = Date.now();
 
-    if (existingDuplicate) {
-      const mergedSignal = mergeSignals(existingDuplicate, newSignal);
-
-      const { error: updateError } = await supabase
-        .from('signals')
-        .update({
-          sentiment: mergedSignal.sentiment,
-          intensity: (existingDuplicate.meta?.duplicate_count || 1) + 1,
-          meta: mergedSignal.meta,
-        })
-        .eq('id', existingDuplicate.id);
-
-      if (updateError) {
-        console.error('Error updating signal:', updateError);
-        return false;
-      }
-
-      return true;
-    } else {
-      const { error: insertError } = await supabase
-        .from('signals')
-        .insert({
-          source: event.source,
-          detected_at: newSignal.detected_at,
-          sentiment: sentimentResult.score,
-          topic: topicResult.topic,
-          intensity: 1,
-          product_area_id: productAreaId,
-          geo,
-          meta: newSignal.meta,
-        });
-
-      if (insertError) {
-        console.error('Error inserting signal:', insertError);
-        return false;
-      }
-
-      return true;
-    }
-  } catch (error) {
-    console.error('Error processing single item:', error);
-    return false;
-  }
-}
-
-/**
- * Process a single raw event into signal(s)
- * Can create multiple signals for sources like customer-feedback
- */
-async function processEvent(
-  event: any,
-  supabase: any
-): Promise<{ success: boolean; signalsCreated: number }> {
   try {
-    const items = extractIndividualItems(event.raw_payload, event.source);
-
-    if (items.length === 0) {
-      console.log(`No items extracted from event ${event.id} (source: ${event.source})`);
-      return { success: true, signalsCreated: 0 };
-    }
-
-    let signalsCreated = 0;
-    for (const item of items) {
-      const success = await processSingleItem(item.text, item.geo, event, supabase);
-      if (success) signalsCreated++;
-    }
-
-    return { success: true, signalsCreated };
+    const incidents = await updateIncidents(supabase);
+    run.stage('incidents', {
+      itemsIn: incidents.signalsLoaded,
+      itemsOut: incidents.signalsLinked,
+      durationMs: Date.now() - start,
+    });
+    return incidents;
   } catch (error) {
-    console.error('Error processing event:', error);
-    return { success: false, signalsCreated: 0 };
+    console.error('Error updating incidents:', error);
+    run.stage('incidents', { durationMs: Date.now() - start, errors: 1 });
+    return null;
   }
 }
 
 /**
  * POST /api/process/raw
- * Process unprocessed raw events into signals
+ * Process unprocessed raw events into signals, in checkpointed batches
  */
 export async function POST(request: NextRequest) {
-  try {
-    const supabase = createServiceClient();
-
-    const { data: unprocessedEvents, error: queryError } = await supabase
-      .from('raw_events')
-      .select('*')
-      .eq('processed', false)
-      .order('created_at', { ascending: true })
-      .limit(100);
-
-    if (queryError) {
-      console.error('Error querying raw events:', queryError);
-      return NextResponse.json(
-        { error: 'Failed to query raw events', details: queryError.message },
-        { status: 500 }
-      );
-    }
+  const supabase = createServiceClient();
+  const run = await startRun(supabase, 'process');
 
-    if (!unprocessedEvents || unprocessedEvents.length === 0) {
+  try {
+    const claimStart = Date.now();
+    const events = await claimRawEvents(supabase, MAX_EVENTS_PER_RUN);
+    const claimMs = Date.now() - claimStart;
+
+    if (events.length === 0) {
+      run.stage('claim', { durationMs: claimMs });
+      const incidents = await trackIncidents(supabase, run);
+      await run.finish(incidents ? 'succeeded' : 'partial', { summary: { processed: 0, incidents } });
       return NextResponse.json({
         message: 'No unprocessed events found',
         processed: 0,
         signalsCreated: 0,
+        incidents,
       });
     }
 
-    console.log(`Processing ${unprocessedEvents.length} unprocessed events...`);
-
-    let totalSignalsCreated = 0;
-    let successCount = 0;
-    const processedEventIds: string[] = [];
+    console.log(`Processing ${events.length} unprocessed events...`);
 
-    for (const event of unprocessedEvents) {
-      const result = await processEvent(event, supabase);
+    const result = await processRawEvents(events, supabase, { timeBudgetMs: TIME_BUDGET_MS });
 
-      if (result.success) {
-        successCount++;
-        totalSignalsCreated += result.signalsCreated;
-        processedEventIds.push(event.id);
-      }
-    }
-
-    if (processedEventIds.length > 0) {
-      const { error: updateError } = await supabase
-        .from('raw_events')
-        .update({ processed: true })
-        .in('id', processedEventIds);
-
-      if (updateError) {
-        console.error('Error marking events as processed:', updateError);
-      }
+    run.stage('claim', {
+      itemsIn: events.length,
+      itemsOut: result.eventsProcessed,
+      durationMs: claimMs,
+      drops: { failed: result.eventsFailed, deferred: result.eventsRemaining },
+      errors: result.eventsFailed,
+    });
+    for (const [stage, metrics] of Object.entries(result.stages)) {
+      run.stage(stage, metrics);
     }
+    const incidents = await trackIncidents(supabase, run);
+    await run.finish(result.eventsFailed > 0 || !incidents ? 'partial' : 'succeeded', {
+      summary: {
+        processed: result.eventsProcessed,
+        failed: result.eventsFailed,
+        remaining: result.eventsRemaining,
+        signalsCreated: result.signalsCreated,
+        signalsMerged: result.signalsMerged,
+        duplicatesSkipped: result.duplicatesSkipped,
+        itemsRejected: result.itemsRejected,
+        batches: result.batches,
+        pipelineVersion: PIPELINE_VERSION,
+        incidents,
+      },
+    });
 
     return NextResponse.json({
-      message: 'Processing complete',
-      processed: successCount,
-      signalsCreated: totalSignalsCreated,
-      total: unprocessedEvents.length,
+      message: result.timedOut ? 'Time budget reached, remaining events released for the next run' : 'Processing complete',
+      processed: result.eventsProcessed,
+      failed: result.eventsFailed,
+      remaining: result.eventsRemaining,
+      signalsCreated: result.signalsCreated,
+      signalsMerged: result.signalsMerged,
+      duplicatesSkipped: result.duplicatesSkipped,
+      itemsRejected: result.itemsRejected,
+      batches: result.batches,
+      checkpoint: result.checkpoint,
+      total: events.length,
+      pipelineVersion: PIPELINE_VERSION,
+      incidents,
     });
   } catch (error) {
     console.error('Error in process/raw route:', error);
+    await run.finish('failed', { error });
     return NextResponse.json(
       { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
@@ -0,0 +1,76 @@
+/**
+ * Rejected Items API
+ * Items the quality gate dropped before analysis, with the reasons that
+ * sank them, so the heuristics in lib/processing/quality-gate.ts can be tuned
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import type { QualityReason } from '@/lib/processing/quality-gate';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/process/rejected
+ *
+ * Query params:
+ * - reason: only items rejected for this reason code (e.g. promotional)
+ * - source: only items from this source
+ * - limit: max items (default 100, max 500)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const reason = searchParams.get('reason');
+    const source = searchParams.get('source');
+    const limit = Math.min(parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT, MAX_LIMIT);
+
+    const supabase = createServiceClient();
+
+    let query = supabase
+      .from('rejected_items')
+      .select('id, raw_event_id, source, text, url, score, reasons, pipeline_version, rejected_at', { count: 'exact' })
+      .order('rejected_at', { ascending: false })
+      .limit(limit);
+
+    if (reason) query = query.contains('reasons', [{ code: reason }]);
+    if (source) query = query.eq('source', source);
+
+    const { data: items, count, error } = await query;
+
+    if (error) {
+      console.error('Error fetching rejected items:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch rejected items', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    // How often each reason contributed, across the returned items
+    const reasonCounts: Record<string, number> = {};
+    const sourceCounts: Record<string, number> = {};
+    for (const item of items || []) {
+      for (const itemReason of (item.reasons || []) as QualityReason[]) {
+        reasonCounts[itemReason.code] = (reasonCounts[itemReason.code] || 0) + 1;
+      }
+      sourceCounts[item.source] = (sourceCounts[item.source] || 0) + 1;
+    }
+
+    return NextResponse.json({
+      items: items || [],
+      total: count || 0,
+      reasonCounts,
+      sourceCounts,
+      filters: { reason, source, limit },
+    });
+  } catch (error) {
+    console.error('Error in process/rejected route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
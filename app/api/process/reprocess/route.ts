@@ -0,0 +1,91 @@
+/**
+ * Reprocessing / Backfill API
+ * Re-runs sentiment, topic detection and dedup over a date range of raw_events
+ *
+ * POST body:
+ * - from / to: ISO timestamps on raw_events.fetched_at (default: last 7 days)
+ * - source: optional raw_events.source filter
+ * - dryRun: defaults to true; pass false to replace the existing signals
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>` or a signed-in session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { reprocessRawEvents } from '@/lib/processing/reprocess';
+
+export const dynamic = 'force-dynamic';
+
+interface ReprocessRequest {
+  from?: string;
+  to?: string;
+  source?: string;
+  dryRun?: boolean;
+}
+
+function isValidDate(value: string): boolean {
+  return !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Callers must present the cron secret or be signed in
+ */
+async function isAuthorized(request: NextRequest): Promise<boolean> {
+  const cronSecret = process.env.CRON_SECRET;
+  if (cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`) {
+    return true;
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return !!user;
+}
+
+/**
+ * POST /api/process/reprocess
+ * Diff (dry run) or backfill signals for raw events in a date range
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await isAuthorized(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: ReprocessRequest = await request.json().catch(() => ({}));
+
+    const to = body.to || new Date().toISOString();
+    const from = body.from || new Date(new Date(to).getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    if (!isValidDate(from) || !isValidDate(to)) {
+      return NextResponse.json(
+        { error: 'Invalid date range', details: '`from` and `to` must be ISO timestamps' },
+        { status: 400 }
+      );
+    }
+
+    if (new Date(from) > new Date(to)) {
+      return NextResponse.json(
+        { error: 'Invalid date range', details: '`from` must be before `to`' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceClient();
+
+    const report = await reprocessRawEvents(supabase, {
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      source: body.source,
+      dryRun: body.dryRun !== false,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error in process/reprocess route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Pipeline Runs API
+ * Recent ingest, process, snapshot and close-loop runs, summarized into
+ * per-job and per-stage throughput, latency and failure rates for /pipeline
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { describeError } from '@/lib/processing/failures';
+import { loadRecentRuns, summarizeRuns } from '@/lib/processing/pipeline-runs';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_WINDOW_HOURS = 24;
+const MAX_WINDOW_HOURS = 24 * 7;
+const RECENT_RUNS = 20;
+
+/**
+ * GET /api/process/runs
+ *
+ * Query params:
+ * - hours: summary window (default 24, max 168)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const hoursParam = parseInt(request.nextUrl.searchParams.get('hours') || String(DEFAULT_WINDOW_HOURS), 10);
+    const windowHours = Math.min(Math.max(hoursParam || DEFAULT_WINDOW_HOURS, 1), MAX_WINDOW_HOURS);
+
+    const supabase = createServiceClient();
+    const runs = await loadRecentRuns(supabase, windowHours);
+
+    return NextResponse.json({
+      ...summarizeRuns(runs, windowHours),
+      recentRuns: runs.slice(0, RECENT_RUNS),
+    });
+  } catch (error) {
+    console.error('Error in process/runs route:', error);
+    return NextResponse.json(
+      { error: 'Failed to load pipeline runs', details: describeError(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Sentiment Evaluation API
+ * Scores the labeled telecom corpus and reports accuracy for each scoped
+ * sentiment rule (negation, intensifiers, contrast, emoji, sarcasm)
+ */
+
+import { NextResponse } from 'next/server';
+import { evaluateSentimentCorpus } from '@/lib/processing/sentiment-corpus';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/process/sentiment-eval
+ * Overall, baseline (no rules) and per-rule ablation accuracy, plus misses
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(evaluateSentimentCorpus());
+  } catch (error) {
+    console.error('Error in process/sentiment-eval route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
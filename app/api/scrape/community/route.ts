@@ -1,39 +1,26 @@
 import { NextResponse } from 'next/server';
-import { createServiceClient } from '@/lib/supabase/service';
-import { generateCommunityData } from '@/lib/scraper/community';
+import { storeSourceFetch } from '@/lib/scraper/store';
+import { communityAdapter } from '@/lib/scraper/community';
 
 export async function GET() {
   try {
-    const result = generateCommunityData();
+    const result = await communityAdapter.fetch();
 
-    const supabase = createServiceClient();
-
-    const { data, error } = await supabase
-      .from('raw_events')
-      .insert({
-        source: result.source,
-        fetched_at: result.fetched_at,
-        raw_payload: result.discussions,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Supabase error:', error);
-      throw error;
-    }
+    // Store unseen items, then advance the cursor
+    const storedId = await storeSourceFetch(communityAdapter, result);
 
     return NextResponse.json({
       success: true,
-      source: 'tmobile-community',
-      note: 'SAMPLE DATA - T-Mobile Community requires OAuth',
-      discussions_count: result.discussions.length,
-      categories: [...new Set(result.discussions.map(d => d.category))],
+      source: communityAdapter.id,
+      synthetic: result.synthetic,
+      discussions_count: result.itemCount,
+      categories: [...new Set(result.payload.map(d => d.category))],
       fetched_at: result.fetched_at,
-      stored_id: data.id,
+      cursor: result.cursor,
+      stored_id: storedId,
     });
   } catch (error) {
-    console.error('T-Mobile Community mock generator error:', error);
+    console.error('T-Mobile Community scraper error:', error);
     return NextResponse.json(
       {
         success: false,
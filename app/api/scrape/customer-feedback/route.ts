@@ -10,46 +10,33 @@
  */
 
 import { NextResponse } from 'next/server';
-import { createServiceClient } from '@/lib/supabase/service';
-import { scrapeCustomerFeedback } from '@/lib/scraper/customer-feedback';
+import { storeSourceFetch } from '@/lib/scraper/store';
+import { customerFeedbackAdapter } from '@/lib/scraper/customer-feedback';
 
 export async function GET() {
   try {
     console.log('Starting customer feedback scraper...');
 
-    const result = await scrapeCustomerFeedback();
+    const result = await customerFeedbackAdapter.fetch();
 
-    console.log(`Retrieved ${result.comments.length} comments (${result.data_source})`);
+    console.log(`Retrieved ${result.itemCount} comments (${result.payload.data_source})`);
 
-    const supabase = createServiceClient();
+    // Store unseen items, then advance the cursor
+    const storedId = await storeSourceFetch(customerFeedbackAdapter, result);
 
-    const { data, error } = await supabase
-      .from('raw_events')
-      .insert({
-        source: result.source,
-        fetched_at: result.fetched_at,
-        raw_payload: {
-          comments: result.comments,
-          data_source: result.data_source,
-        },
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Supabase error:', error);
-      throw error;
-    }
-
-    console.log(`Stored customer feedback with ID: ${data.id}`);
+    console.log(storedId
+      ? `Stored customer feedback with ID: ${storedId}`
+      : 'No new customer feedback since last run');
 
     return NextResponse.json({
       success: true,
-      source: 'customer-feedback',
-      comments_count: result.comments.length,
-      data_source: result.data_source,
+      source: customerFeedbackAdapter.id,
+      comments_count: result.itemCount,
+      data_source: result.payload.data_source,
+      synthetic: result.synthetic,
       fetched_at: result.fetched_at,
-      stored_id: data.id,
+      cursor: result.cursor,
+      stored_id: storedId,
     });
 
   } catch (error) {
@@ -1,42 +1,28 @@
 import { NextResponse } from 'next/server';
-import { createServiceClient } from '@/lib/supabase/service';
-import { generateDownDetectorData } from '@/lib/scraper/downdetector';
+import { storeSourceFetch } from '@/lib/scraper/store';
+import { downDetectorAdapter } from '@/lib/scraper/downdetector';
 
 export async function GET() {
   try {
-    // Generate mock DownDetector data
-    const result = generateDownDetectorData();
+    const result = await downDetectorAdapter.fetch();
 
-    // Store in Supabase (using service role to bypass RLS)
-    const supabase = createServiceClient();
-
-    const { data, error } = await supabase
-      .from('raw_events')
-      .insert({
-        source: result.source,
-        fetched_at: result.fetched_at,
-        raw_payload: result.report_data,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Supabase error:', error);
-      throw error;
-    }
+    // Store unseen items, then advance the cursor
+    const storedId = await storeSourceFetch(downDetectorAdapter, result);
 
     return NextResponse.json({
       success: true,
-      source: 'downdetector',
-      note: 'SAMPLE DATA - DownDetector blocks scraping',
-      total_reports: result.report_data.total_reports,
-      status: result.report_data.status,
-      comments_count: result.report_data.user_comments.length,
+      source: downDetectorAdapter.id,
+      synthetic: result.synthetic,
+      total_reports: result.payload.total_reports,
+      status: result.payload.status,
+      comments_count: result.payload.user_comments.length,
+      locations_count: result.payload.outage_locations.length,
       fetched_at: result.fetched_at,
-      stored_id: data.id,
+      cursor: result.cursor,
+      stored_id: storedId,
     });
   } catch (error) {
-    console.error('DownDetector mock generator error:', error);
+    console.error('DownDetector scraper error:', error);
     return NextResponse.json(
       {
         success: false,
@@ -1,35 +1,22 @@
 import { NextResponse } from 'next/server';
-import { createServiceClient } from '@/lib/supabase/service';
-import { scrapeNews } from '@/lib/scraper/news';
+import { storeSourceFetch } from '@/lib/scraper/store';
+import { newsAdapter, SEARCH_QUERIES } from '@/lib/scraper/news';
 
 export async function GET() {
   try {
-    const result = await scrapeNews();
+    const result = await newsAdapter.fetch();
 
-    const supabase = createServiceClient();
-
-    const { data, error } = await supabase
-      .from('raw_events')
-      .insert({
-        source: result.source,
-        fetched_at: result.fetched_at,
-        raw_payload: result.articles,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Supabase error:', error);
-      throw error;
-    }
+    // Store unseen items, then advance the cursor
+    const storedId = await storeSourceFetch(newsAdapter, result);
 
     return NextResponse.json({
       success: true,
-      source: 'google-news',
-      articles_count: result.articles.length,
-      queries: ['T-Mobile outage', 'T-Mobile network down', 'T-Mobile billing issue'],
+      source: newsAdapter.id,
+      articles_count: result.itemCount,
+      queries: SEARCH_QUERIES,
       fetched_at: result.fetched_at,
-      stored_id: data.id,
+      cursor: result.cursor,
+      stored_id: storedId,
     });
   } catch (error) {
     console.error('News scraper error:', error);
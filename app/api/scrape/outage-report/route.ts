@@ -1,42 +1,28 @@
 import { NextResponse } from 'next/server';
-import { createServiceClient } from '@/lib/supabase/service';
-import { generateOutageReportData } from '@/lib/scraper/outage-report';
+import { storeSourceFetch } from '@/lib/scraper/store';
+import { outageReportAdapter } from '@/lib/scraper/outage-report';
 
 export async function GET() {
   try {
-    // Generate mock Outage.report data
-    const result = generateOutageReportData();
+    const result = await outageReportAdapter.fetch();
 
-    // Store in Supabase (using service role to bypass RLS)
-    const supabase = createServiceClient();
-
-    const { data, error } = await supabase
-      .from('raw_events')
-      .insert({
-        source: result.source,
-        fetched_at: result.fetched_at,
-        raw_payload: result.outage_data,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Supabase error:', error);
-      throw error;
-    }
+    // Store unseen items, then advance the cursor
+    const storedId = await storeSourceFetch(outageReportAdapter, result);
 
     return NextResponse.json({
       success: true,
-      source: 'outage-report',
-      note: 'SAMPLE DATA - Event API not publicly accessible',
-      status: result.outage_data.current_status,
-      events_count: result.outage_data.events.length,
-      social_mentions_count: result.outage_data.social_mentions.length,
+      source: outageReportAdapter.id,
+      synthetic: result.synthetic,
+      status: result.payload.current_status,
+      events_count: result.itemCount,
+      social_mentions_count: result.payload.social_mentions.length,
+      locations_count: result.payload.outage_locations.length,
       fetched_at: result.fetched_at,
-      stored_id: data.id,
+      cursor: result.cursor,
+      stored_id: storedId,
     });
   } catch (error) {
-    console.error('Outage.report mock generator error:', error);
+    console.error('Outage.report scraper error:', error);
     return NextResponse.json(
       {
         success: false,
@@ -1,35 +1,22 @@
 import { NextResponse } from 'next/server';
-import { createServiceClient } from '@/lib/supabase/service';
-import { scrapeReddit } from '@/lib/scraper/reddit';
+import { storeSourceFetch } from '@/lib/scraper/store';
+import { redditAdapter } from '@/lib/scraper/reddit';
 
 export async function GET() {
   try {
-    const result = await scrapeReddit();
+    const result = await redditAdapter.fetch();
 
-    const supabase = createServiceClient();
-
-    const { data, error } = await supabase
-      .from('raw_events')
-      .insert({
-        source: result.source,
-        fetched_at: result.fetched_at,
-        raw_payload: result.posts,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Supabase error:', error);
-      throw error;
-    }
+    // Store unseen items, then advance the cursor
+    const storedId = await storeSourceFetch(redditAdapter, result);
 
     return NextResponse.json({
       success: true,
-      source: 'reddit',
-      posts_count: result.posts.length,
+      source: redditAdapter.id,
+      posts_count: result.itemCount,
       subreddits: ['r/tmobile', 'r/tmobileisp'],
       fetched_at: result.fetched_at,
-      stored_id: data.id,
+      cursor: result.cursor,
+      stored_id: storedId,
     });
   } catch (error) {
     console.error('Reddit scraper error:', error);
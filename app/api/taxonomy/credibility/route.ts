@@ -0,0 +1,97 @@
+/**
+ * Source Credibility API Route
+ * GET - Current source and content-type weights
+ * PUT - Set one weight
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  CONTENT_TYPE_LABELS,
+  clearCredibilityWeightsCache,
+  loadCredibilityWeights,
+} from '@/lib/processing/credibility'
+
+export const dynamic = 'force-dynamic'
+
+interface UpdateWeightRequest {
+  kind: 'source' | 'content_type'
+  key: string
+  weight: number
+}
+
+// GET - Weights, configured over the defaults
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const weights = await loadCredibilityWeights(supabase, false)
+
+    return NextResponse.json({ ...weights, contentTypeLabels: CONTENT_TYPE_LABELS })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Upsert one weight
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const body: UpdateWeightRequest = await request.json()
+
+    const key = body.key?.trim()
+
+    if ((body.kind !== 'source' && body.kind !== 'content_type') || !key) {
+      return NextResponse.json(
+        { error: "Missing required fields: kind ('source' or 'content_type'), key" },
+        { status: 400 }
+      )
+    }
+
+    if (body.kind === 'content_type' && !(key in CONTENT_TYPE_LABELS)) {
+      return NextResponse.json(
+        { error: `content_type must be one of: ${Object.keys(CONTENT_TYPE_LABELS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (typeof body.weight !== 'number' || body.weight < 0 || body.weight > 2) {
+      return NextResponse.json(
+        { error: 'weight must be a number between 0 and 2' },
+        { status: 400 }
+      )
+    }
+
+    const { data: weight, error } = await supabase
+      .from('credibility_weights')
+      .upsert({
+        kind: body.kind,
+        key,
+        weight: body.weight,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating credibility weight:', error)
+      return NextResponse.json(
+        { error: 'Failed to update credibility weight', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    clearCredibilityWeightsCache()
+
+    return NextResponse.json({ weight })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Taxonomy Preview API Route
+ * POST - Classify sample text against the current (uncached) rules
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { loadProductAreaRules } from '@/lib/processing/product-area-rules'
+import { detectTopic } from '@/lib/processing/topic-detector'
+import { detectLanguage } from '@/lib/processing/language'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { text } = await request.json().catch(() => ({ text: '' }))
+
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required field: text' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+    const rules = await loadProductAreaRules(supabase, false)
+    const { language } = detectLanguage(text)
+    const result = detectTopic(text, rules, language)
+
+    return NextResponse.json({
+      language,
+      productArea: result.productArea,
+      productAreas: result.productAreas,
+      topic: result.topic,
+      keywords: result.keywords,
+      rulesEvaluated: rules.length,
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Individual Taxonomy Rule API Route
+ * PATCH - Update pattern, weight, negative flag or language
+ * DELETE - Remove rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { clearProductAreaRulesCache } from '@/lib/processing/product-area-rules'
+import { SUPPORTED_LANGUAGES } from '@/lib/processing/language'
+
+export const dynamic = 'force-dynamic'
+
+interface RuleParams {
+  params: Promise<{ id: string }>
+}
+
+// PATCH - Update rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: RuleParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const updates = await request.json()
+
+    const updateData: Record<string, unknown> = {}
+
+    if (typeof updates.pattern === 'string' && updates.pattern.trim()) {
+      updateData.pattern = updates.pattern.trim().toLowerCase()
+    }
+    if (typeof updates.weight === 'number') {
+      if (updates.weight <= 0 || updates.weight > 10) {
+        return NextResponse.json(
+          { error: 'weight must be a number between 0 and 10' },
+          { status: 400 }
+        )
+      }
+      updateData.weight = updates.weight
+    }
+    if (typeof updates.negative === 'boolean') {
+      updateData.negative = updates.negative
+    }
+    if (typeof updates.language === 'string') {
+      if (!(updates.language in SUPPORTED_LANGUAGES)) {
+        return NextResponse.json(
+          { error: `language must be one of: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updateData.language = updates.language
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: 'No valid fields to update' },
+        { status: 400 }
+      )
+    }
+
+    updateData.updated_at = new Date().toISOString()
+
+    const { data: rule, error } = await supabase
+      .from('product_area_rules')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to update rule', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    clearProductAreaRulesCache()
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remove rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: RuleParams
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { error } = await supabase
+      .from('product_area_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error deleting rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete rule', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    clearProductAreaRulesCache()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Product Area Taxonomy API Route
+ * GET - List product areas with their classification rules
+ * POST - Add a keyword/phrase rule to a product area
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { clearProductAreaRulesCache } from '@/lib/processing/product-area-rules'
+import { SUPPORTED_LANGUAGES } from '@/lib/processing/language'
+
+export const dynamic = 'force-dynamic'
+
+interface CreateRuleRequest {
+  product_area_id: string
+  pattern: string
+  weight?: number
+  negative?: boolean
+  language?: string
+}
+
+// GET - Product areas with rules
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: productAreas, error } = await supabase
+      .from('product_areas')
+      .select(`
+        id,
+        name,
+        color,
+        rules:product_area_rules(id, pattern, weight, negative, language, updated_at)
+      `)
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching product area rules:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch product area rules', message: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ productAreas: productAreas || [] })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Create rule
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const body: CreateRuleRequest = await request.json()
+
+    const pattern = body.pattern?.trim().toLowerCase()
+
+    if (!body.product_area_id || !pattern) {
+      return NextResponse.json(
+        { error: 'Missing required fields: product_area_id, pattern' },
+        { status: 400 }
+      )
+    }
+
+    const weight = body.weight ?? 1
+    if (typeof weight !== 'number' || weight <= 0 || weight > 10) {
+      return NextResponse.json(
+        { error: 'weight must be a number between 0 and 10' },
+        { status: 400 }
+      )
+    }
+
+    const language = body.language ?? 'en'
+    if (!(language in SUPPORTED_LANGUAGES)) {
+      return NextResponse.json(
+        { error: `language must be one of: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: rule, error } = await supabase
+      .from('product_area_rules')
+      .insert({
+        product_area_id: body.product_area_id,
+        pattern,
+        weight,
+        negative: body.negative ?? false,
+        language,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to create rule', message: error.message },
+        { status: error.code === '23505' ? 409 : 500 }
+      )
+    }
+
+    clearProductAreaRulesCache()
+
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error', message: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -5,8 +5,8 @@ import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
 import { GeoMapEnhancedWrapper } from '@/components/dashboard/geo-map-enhanced-wrapper'
 import { Navbar } from '@/components/layout/navbar'
+import { Button } from '@/components/ui/button'
 import { formatDistanceToNow } from 'date-fns'
-import { InsertSampleDataButton } from '@/components/dashboard/insert-sample-data-button'
 
 interface FeedbackData {
   city: string;
@@ -14,6 +14,8 @@ interface FeedbackData {
   lng: number;
   sentiment: number;
   intensity: number;
+  signalCount: number;
+  confidence: number;
 }
 
 type MapView = 'feedback' | 'outage';
@@ -28,6 +30,7 @@ export default function GeoPage() {
   const [feedback, setFeedback] = useState<FeedbackData[]>([])
   const [loading, setLoading] = useState(true)
   const [mapView, setMapView] = useState<MapView>('feedback')
+  const [excludeSynthetic, setExcludeSynthetic] = useState(false) // "Live only": hide replayed fixtures and sample data
   const lastUpdated = new Date()
 
   useEffect(() => {
@@ -41,18 +44,22 @@ export default function GeoPage() {
       }
 
       setUser(user)
+    }
 
-      // Fetch feedback data
+    checkUser()
+  }, [router])
+
+  // Fetch geocoded signal locations, again whenever the data filter changes
+  useEffect(() => {
+    if (!user) return
+
+    const fetchFeedback = async () => {
       try {
-        const { data, error } = await supabase
-          .from('feedback')
-          .select('city, lat, lng, sentiment, intensity')
-          .not('lat', 'is', null)
-          .not('lng', 'is', null)
-          .limit(1000)
-
-        if (!error && data) {
-          setFeedback(data)
+        const response = await fetch(`/api/geo/feedback${excludeSynthetic ? '?synthetic=exclude' : ''}`)
+        const data = await response.json()
+
+        if (response.ok && Array.isArray(data.feedback)) {
+          setFeedback(data.feedback)
         }
       } catch (error) {
         console.error('Error fetching feedback:', error)
@@ -61,8 +68,8 @@ export default function GeoPage() {
       }
     }
 
-    checkUser()
-  }, [router])
+    fetchFeedback()
+  }, [user, excludeSynthetic])
 
   if (loading || !user) {
     return (
@@ -86,7 +93,7 @@ export default function GeoPage() {
     if (mapView === 'outage') {
       return 'Real-time outage reports from DownDetector and Outage.Report across the United States'
     }
-    return 'Visualize customer feedback and issues by location across the United States'
+    return 'Customer signals from the last 7 days, placed by the locations they report or mention'
   }
 
   return (
@@ -107,9 +114,26 @@ export default function GeoPage() {
                 {getHeaderDescription()}
               </p>
             </div>
-            {feedback.length === 0 && mapView === 'feedback' && (
-              <InsertSampleDataButton />
-            )}
+            <div className="flex flex-col items-end gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs-label">Data</span>
+                {([[false, 'All'], [true, 'Live only']] as const).map(([liveOnly, label]) => (
+                  <Button
+                    key={label}
+                    size="sm"
+                    variant={excludeSynthetic === liveOnly ? 'default' : 'outline'}
+                    onClick={() => setExcludeSynthetic(liveOnly)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {feedback.length === 0 && mapView === 'feedback' && (
+                <p className="text-sm text-tmobile-gray-500 max-w-xs text-right">
+                  No located signals yet. Signals are placed once the pipeline geocodes them.
+                </p>
+              )}
+            </div>
           </div>
 
           {/* Map Container */}
@@ -117,6 +141,7 @@ export default function GeoPage() {
             <GeoMapEnhancedWrapper
               feedback={feedback}
               onViewChange={setMapView}
+              excludeSynthetic={excludeSynthetic}
             />
             <div className="text-sm text-tmobile-gray-500 mt-4 text-right">
               Updated {formatDistanceToNow(lastUpdated, { addSuffix: true })}
@@ -126,15 +151,15 @@ export default function GeoPage() {
           {/* Stats */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="bg-white rounded-xl border border-tmobile-gray-200 p-6 shadow-sm">
-              <div className="text-sm text-tmobile-gray-600 mb-1">Total Feedback Points</div>
-              <div className="text-3xl font-bold text-[#E8258E]">{feedback.length}</div>
-            </div>
-            <div className="bg-white rounded-xl border border-tmobile-gray-200 p-6 shadow-sm">
-              <div className="text-sm text-tmobile-gray-600 mb-1">Unique Cities</div>
+              <div className="text-sm text-tmobile-gray-600 mb-1">Located Signals</div>
               <div className="text-3xl font-bold text-[#E8258E]">
-                {new Set(feedback.map((f: FeedbackData) => f.city)).size}
+                {feedback.reduce((sum: number, f: FeedbackData) => sum + f.signalCount, 0)}
               </div>
             </div>
+            <div className="bg-white rounded-xl border border-tmobile-gray-200 p-6 shadow-sm">
+              <div className="text-sm text-tmobile-gray-600 mb-1">Locations</div>
+              <div className="text-3xl font-bold text-[#E8258E]">{feedback.length}</div>
+            </div>
             <div className="bg-white rounded-xl border border-tmobile-gray-200 p-6 shadow-sm">
               <div className="text-sm text-tmobile-gray-600 mb-1">Avg. Intensity</div>
               <div className="text-3xl font-bold text-[#E8258E]">
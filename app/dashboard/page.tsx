@@ -2,9 +2,17 @@ import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import { DashboardContent } from '@/components/dashboard/dashboard-content'
 import { Navbar } from '@/components/layout/navbar'
+import { SUPPORTED_LANGUAGES } from '@/lib/processing/language'
 
-export default async function DashboardPage() {
+interface DashboardPageProps {
+  searchParams: Promise<{ language?: string; synthetic?: string }>
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
   const supabase = await createClient()
+  const { language: languageParam, synthetic } = await searchParams
+  const language = languageParam && languageParam in SUPPORTED_LANGUAGES ? languageParam : null
+  const excludeSynthetic = synthetic === 'exclude'
 
   const {
     data: { user },
@@ -17,6 +25,10 @@ export default async function DashboardPage() {
   // Fetch real dashboard data from API
   let dashboardData = {
     overallCHI: 50,
+    rawCHI: 50,
+    chiInterval: null,
+    chiSignalCount: 0,
+    chiInsufficientData: true,
     chiTrend: 0,
     previousCHI: 50,
     productAreas: [],
@@ -52,11 +64,22 @@ export default async function DashboardPage() {
     totalRising: 0,
   }
 
+  let chiHistory = {
+    points: [],
+    delta: null,
+  }
+
   try {
     const baseUrl = process.env.NEXT_PUBLIC_SITE_URL
 
+    // Filters shared by every dashboard endpoint
+    const filterParams = new URLSearchParams()
+    if (language) filterParams.set('language', language)
+    if (excludeSynthetic) filterParams.set('synthetic', 'exclude')
+    const filterQuery = filterParams.size > 0 ? `?${filterParams}` : ''
+
     // Fetch dashboard metrics
-    const metricsResponse = await fetch(`${baseUrl}/api/dashboard/metrics`, {
+    const metricsResponse = await fetch(`${baseUrl}/api/dashboard/metrics${filterQuery}`, {
       cache: 'no-store',
       headers: {
         'Content-Type': 'application/json',
@@ -70,7 +93,7 @@ export default async function DashboardPage() {
     }
 
     // Fetch outage data
-    const outageResponse = await fetch(`${baseUrl}/api/dashboard/outages`, {
+    const outageResponse = await fetch(`${baseUrl}/api/dashboard/outages${filterQuery}`, {
       cache: 'no-store',
       headers: {
         'Content-Type': 'application/json',
@@ -87,7 +110,7 @@ export default async function DashboardPage() {
     }
 
     // Fetch early warning data
-    const earlyWarningResponse = await fetch(`${baseUrl}/api/dashboard/early-warning`, {
+    const earlyWarningResponse = await fetch(`${baseUrl}/api/dashboard/early-warning${filterQuery}`, {
       cache: 'no-store',
       headers: {
         'Content-Type': 'application/json',
@@ -102,6 +125,25 @@ export default async function DashboardPage() {
     } else {
       console.error('Failed to fetch early warning data:', earlyWarningResponse.statusText)
     }
+
+    // Fetch stored CHI for the last 7 days vs the 7 before
+    const chiHistoryParams = new URLSearchParams({ days: '7', granularity: 'daily' })
+    if (excludeSynthetic) chiHistoryParams.set('synthetic', 'exclude')
+    const chiHistoryResponse = await fetch(`${baseUrl}/api/dashboard/chi-history?${chiHistoryParams}`, {
+      cache: 'no-store',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+
+    if (chiHistoryResponse.ok) {
+      const chiHistoryJson = await chiHistoryResponse.json()
+      if (chiHistoryJson.success) {
+        chiHistory = { points: chiHistoryJson.points, delta: chiHistoryJson.comparison?.delta ?? null }
+      }
+    } else {
+      console.error('Failed to fetch CHI history:', chiHistoryResponse.statusText)
+    }
   } catch (error) {
     console.error('Error fetching dashboard data:', error)
     // Will use default values if fetch fails
@@ -109,6 +151,7 @@ export default async function DashboardPage() {
 
   // Extract data with fallbacks
   const overallCHI = dashboardData.overallCHI || 50
+  const rawCHI = dashboardData.rawCHI || overallCHI
   const chiTrend = dashboardData.chiTrend || 0
   const previousCHI = dashboardData.previousCHI || 50
   const productAreas = dashboardData.productAreas || []
@@ -135,9 +178,17 @@ export default async function DashboardPage() {
       {/* Main Content */}
       <main className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <DashboardContent
+          key={`${language || 'all'}:${excludeSynthetic ? 'live' : 'all'}`}
+          language={language}
+          excludeSynthetic={excludeSynthetic}
           overallCHI={overallCHI}
+          rawCHI={rawCHI}
+          chiInterval={dashboardData.chiInterval}
+          chiSignalCount={dashboardData.chiSignalCount}
+          chiInsufficientData={dashboardData.chiInsufficientData}
           chiTrend={chiTrend}
           previousCHI={previousCHI}
+          chiHistory={chiHistory}
           productAreas={productAreas}
           emergingIssues={emergingIssues}
           sentimentData={sentimentData}
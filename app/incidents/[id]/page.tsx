@@ -0,0 +1,298 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { Navbar } from '@/components/layout/navbar'
+import {
+  SEVERITY_STYLES,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  describeRegions,
+  type IncidentSummary,
+} from '@/components/incidents/incident-card'
+import { IncidentTimeline } from '@/components/incidents/incident-timeline'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { ArrowLeft, ExternalLink, Lightbulb } from 'lucide-react'
+import type { IncidentStatus, IncidentTimelineEntry } from '@/lib/processing/incidents'
+import type { GeocodeResult } from '@/lib/processing/geocoder'
+import { toast } from 'sonner'
+
+interface IncidentDetail extends IncidentSummary {
+  timeline: IncidentTimelineEntry[]
+  product_area: { id: string; name: string; color: string } | null
+  opportunity: { id: string; title: string; status: string } | null
+}
+
+interface IncidentSignal {
+  id: string
+  source: string
+  topic: string | null
+  sentiment: number
+  detected_at: string
+  meta: { text?: string; url?: string } | null
+  geo: { resolved?: GeocodeResult | null } | null
+}
+
+const STATUS_ORDER = Object.keys(STATUS_LABELS) as IncidentStatus[]
+
+function describePlace(signal: IncidentSignal): string | null {
+  const resolved = signal.geo?.resolved
+  if (!resolved) return null
+  return resolved.city ? `${resolved.city}, ${resolved.state}` : resolved.state
+}
+
+export default function IncidentPage() {
+  const { id } = useParams<{ id: string }>()
+  const [userEmail, setUserEmail] = useState<string>('')
+  const [incident, setIncident] = useState<IncidentDetail | null>(null)
+  const [signals, setSignals] = useState<IncidentSignal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      const { createClient } = await import('@/lib/supabase/client')
+      const supabase = createClient()
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (user?.email) {
+        setUserEmail(user.email)
+      }
+    }
+    fetchUser()
+  }, [])
+
+  const fetchIncident = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/incidents/${id}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to fetch incident')
+      }
+
+      setIncident(data.incident)
+      setSignals(data.signals || [])
+    } catch (err) {
+      console.error('Error fetching incident:', err)
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to fetch incident',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    fetchIncident()
+  }, [fetchIncident])
+
+  const setStatus = async (status: IncidentStatus) => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/incidents/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to update incident')
+      }
+
+      toast.success(`Marked ${STATUS_LABELS[status].toLowerCase()}`)
+      await fetchIncident()
+    } catch (err) {
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to update incident',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const promote = async () => {
+    if (!incident?.product_area) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/opportunities', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          incidentId: incident.id,
+          title: incident.title,
+          description: `${incident.signal_count} negative ${incident.product_area.name} signals from ${incident.sources.join(', ')} ` +
+            `since ${new Date(incident.started_at).toLocaleString()}. Affected: ${describeRegions(incident.affected_regions, 5)}.`,
+          productAreaId: incident.product_area.id,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to create opportunity')
+      }
+
+      toast.success('Opportunity created', { description: data.opportunity.title })
+      await fetchIncident()
+    } catch (err) {
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to create opportunity',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-tmobile-magenta/3 to-purple-50">
+      <Navbar userEmail={userEmail} />
+
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/incidents" className="inline-flex items-center gap-1 text-sm text-tmobile-gray-600 hover:text-[#E8258E] mb-4">
+          <ArrowLeft className="h-4 w-4" />
+          All incidents
+        </Link>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <LoadingSpinner size="xl" variant="gradient" message="Loading incident..." />
+          </div>
+        ) : !incident ? (
+          <p className="text-center text-tmobile-gray-600 py-20">Incident not found</p>
+        ) : (
+          <>
+            <div className="mb-6">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <Badge variant="outline" className={STATUS_STYLES[incident.status]}>{STATUS_LABELS[incident.status]}</Badge>
+                <Badge className={SEVERITY_STYLES[incident.severity]}>{incident.severity}</Badge>
+                {incident.synthetic && <Badge variant="outline">Synthetic</Badge>}
+              </div>
+              <h1 className="text-page-title text-[#E8258E] mb-2">{incident.title}</h1>
+              <p className="text-section-subtitle">
+                Started {formatDistanceToNow(new Date(incident.started_at), { addSuffix: true })} · last signal{' '}
+                {formatDistanceToNow(new Date(incident.last_signal_at), { addSuffix: true })} · {incident.signal_count} signals from{' '}
+                {incident.sources.join(', ')}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mb-8">
+              <span className="text-sm text-tmobile-gray-600 mr-1">Set status:</span>
+              {STATUS_ORDER.map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={incident.status === status ? 'default' : 'outline'}
+                  disabled={saving || incident.status === status}
+                  onClick={() => setStatus(status)}
+                >
+                  {STATUS_LABELS[status]}
+                </Button>
+              ))}
+            </div>
+
+            <div className="grid lg:grid-cols-[1fr_360px] gap-6 items-start">
+              <div className="space-y-6">
+                <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+                  <h2 className="text-lg font-bold text-gray-900 mb-4">Timeline</h2>
+                  <IncidentTimeline entries={incident.timeline} />
+                </Card>
+
+                <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+                  <h2 className="text-lg font-bold text-gray-900 mb-1">Linked signals</h2>
+                  <p className="text-sm text-tmobile-gray-600 mb-4">
+                    {signals.length < incident.signal_count
+                      ? `Latest ${signals.length} of ${incident.signal_count}`
+                      : `${signals.length} signals`}
+                  </p>
+                  <div className="space-y-2">
+                    {signals.map((signal) => (
+                      <div key={signal.id} className="rounded-lg border border-tmobile-gray-200 bg-white px-3 py-2">
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-tmobile-gray-500">
+                          <Badge variant="secondary">{signal.source}</Badge>
+                          {describePlace(signal) && <span>{describePlace(signal)}</span>}
+                          <span>{formatDistanceToNow(new Date(signal.detected_at), { addSuffix: true })}</span>
+                          <span className="ml-auto">{signal.sentiment.toFixed(2)}</span>
+                        </div>
+                        {signal.meta?.text && (
+                          <p className="text-sm text-tmobile-gray-700 mt-1 line-clamp-3">{signal.meta.text}</p>
+                        )}
+                        {signal.meta?.url && (
+                          <a
+                            href={signal.meta.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-xs text-[#E8258E] hover:text-[#D01A7A] font-medium inline-flex items-center gap-1 mt-1"
+                          >
+                            View Source
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              </div>
+
+              <div className="space-y-6">
+                <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+                  <h2 className="text-lg font-bold text-gray-900 mb-1">Opportunity</h2>
+                  {incident.opportunity ? (
+                    <>
+                      <p className="text-sm text-tmobile-gray-600 mb-3">Promoted to an opportunity card.</p>
+                      <Link
+                        href="/pm/opportunities"
+                        className="text-sm font-semibold text-[#E8258E] hover:text-[#D01A7A] inline-flex items-center gap-1"
+                      >
+                        {incident.opportunity.title}
+                        <ExternalLink className="h-3.5 w-3.5" />
+                      </Link>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm text-tmobile-gray-600 mb-3">
+                        Create an opportunity card with this incident&apos;s signals as evidence.
+                      </p>
+                      <Button onClick={promote} disabled={saving || !incident.product_area}>
+                        <Lightbulb className="h-4 w-4 mr-1" />
+                        Promote to opportunity
+                      </Button>
+                    </>
+                  )}
+                </Card>
+
+                <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+                  <h2 className="text-lg font-bold text-gray-900 mb-3">Affected regions</h2>
+                  {incident.affected_regions.length === 0 ? (
+                    <p className="text-sm text-tmobile-gray-600">None of the linked signals could be located.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {incident.affected_regions.map((region) => (
+                        <div key={region.state} className="text-sm">
+                          <div className="flex justify-between">
+                            <span className="font-semibold">{region.state}</span>
+                            <span className="text-tmobile-gray-600">{region.signalCount} signals</span>
+                          </div>
+                          {region.places.length > 0 && (
+                            <p className="text-xs text-tmobile-gray-500">{region.places.join(', ')}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Card>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
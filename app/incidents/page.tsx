@@ -0,0 +1,104 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Navbar } from '@/components/layout/navbar'
+import { IncidentCard, STATUS_LABELS, type IncidentSummary } from '@/components/incidents/incident-card'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import type { IncidentStatus } from '@/lib/processing/incidents'
+import { toast } from 'sonner'
+
+type StatusFilter = 'open' | 'all' | IncidentStatus
+
+export default function IncidentsPage() {
+  const [userEmail, setUserEmail] = useState<string>('')
+  const [incidents, setIncidents] = useState<IncidentSummary[]>([])
+  const [status, setStatus] = useState<StatusFilter>('open')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      const { createClient } = await import('@/lib/supabase/client')
+      const supabase = createClient()
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (user?.email) {
+        setUserEmail(user.email)
+      }
+    }
+    fetchUser()
+  }, [])
+
+  const fetchIncidents = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/incidents?status=${status}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to fetch incidents')
+      }
+
+      setIncidents(data.incidents || [])
+    } catch (err) {
+      console.error('Error fetching incidents:', err)
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to fetch incidents',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchIncidents()
+  }, [fetchIncidents])
+
+  const filters: StatusFilter[] = ['open', 'all', 'suspected', 'confirmed', 'mitigating', 'resolved']
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-tmobile-magenta/3 to-purple-50">
+      <Navbar userEmail={userEmail} />
+
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-page-title text-[#E8258E] mb-2">Incidents</h1>
+          <p className="text-section-subtitle">
+            Outages opened automatically when negative Network signals arrive together from several sources.
+            New reports are linked as they come in, and each incident moves from suspected to resolved.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {filters.map((value) => (
+            <button
+              key={value}
+              onClick={() => setStatus(value)}
+              className={`rounded-full border px-3 py-1 text-sm font-semibold transition-colors ${
+                status === value
+                  ? 'border-[#E8258E] bg-[#E8258E] text-white'
+                  : 'border-tmobile-gray-200 bg-white text-tmobile-gray-600 hover:border-[#E8258E]'
+              }`}
+            >
+              {value === 'open' ? 'Open' : value === 'all' ? 'All' : STATUS_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <LoadingSpinner size="xl" variant="gradient" message="Loading incidents..." />
+          </div>
+        ) : incidents.length === 0 ? (
+          <p className="text-center text-tmobile-gray-600 py-20">No incidents</p>
+        ) : (
+          <div className="space-y-4">
+            {incidents.map((incident) => (
+              <IncidentCard key={incident.id} incident={incident} />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Navbar } from '@/components/layout/navbar'
+import {
+  FailureCard,
+  STATUS_LABELS,
+  StuckEventList,
+  type PipelineFailure,
+  type StuckEvent,
+} from '@/components/pipeline/pipeline-failures'
+import { Card } from '@/components/ui/card'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { toast } from 'sonner'
+
+type StatusFilter = PipelineFailure['status'] | null
+
+export default function PipelineHealthPage() {
+  const [userEmail, setUserEmail] = useState<string>('')
+  const [failures, setFailures] = useState<PipelineFailure[]>([])
+  const [counts, setCounts] = useState<Record<string, number>>({})
+  const [maxAttempts, setMaxAttempts] = useState(5)
+  const [unprocessed, setUnprocessed] = useState(0)
+  const [stuck, setStuck] = useState<StuckEvent[]>([])
+  const [stuckAfterMinutes, setStuckAfterMinutes] = useState(30)
+  const [status, setStatus] = useState<StatusFilter>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      const { createClient } = await import('@/lib/supabase/client')
+      const supabase = createClient()
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (user?.email) {
+        setUserEmail(user.email)
+      }
+    }
+    fetchUser()
+  }, [])
+
+  const fetchFailures = useCallback(async () => {
+    try {
+      const params = new URLSearchParams()
+      if (status) params.set('status', status)
+
+      const response = await fetch(`/api/process/failures?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to fetch pipeline failures')
+      }
+
+      setFailures(data.failures || [])
+      setCounts(data.counts || {})
+      setMaxAttempts(data.maxAttempts || 5)
+      setUnprocessed(data.backlog?.unprocessed || 0)
+      setStuck(data.backlog?.stuck || [])
+      setStuckAfterMinutes(data.backlog?.stuckAfterMinutes || 30)
+    } catch (err) {
+      console.error('Error fetching pipeline failures:', err)
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to fetch pipeline failures',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchFailures()
+  }, [fetchFailures])
+
+  const runAction = async (failure: PipelineFailure, action: 'replay' | 'discard') => {
+    setBusyId(failure.id)
+    try {
+      const response = await fetch(`/api/process/failures/${failure.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Failed to ${action} failure`)
+      }
+
+      if (action === 'discard') {
+        toast.success('Discarded', { description: `${failure.source} ${failure.stage} failure dropped` })
+      } else if (data.success) {
+        toast.success('Replayed', { description: `${failure.source} ${failure.stage} succeeded` })
+      } else {
+        toast.error('Replay failed', {
+          description: data.details?.error || 'The attempt failed again and was rescheduled',
+        })
+      }
+
+      await fetchFailures()
+    } catch (err) {
+      console.error(`Error running ${action}:`, err)
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : `Failed to ${action} failure`,
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const filters: StatusFilter[] = [null, 'pending', 'dead', 'resolved', 'discarded']
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-tmobile-magenta/3 to-purple-50">
+      <Navbar userEmail={userEmail} />
+
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-page-title text-[#E8258E] mb-2">Pipeline Health</h1>
+          <p className="text-section-subtitle">
+            Scrapes and raw events that failed. Each one is retried with exponential backoff and dead-lettered after{' '}
+            {maxAttempts} attempts; replay it once the cause is fixed, or discard it.
+          </p>
+        </div>
+
+        <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+          <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-4">
+            <p className="text-sm text-tmobile-gray-600">Unprocessed events</p>
+            <p className="text-2xl font-bold text-gray-900">{unprocessed}</p>
+          </Card>
+          {(['pending', 'dead', 'resolved', 'discarded'] as const).map((value) => (
+            <Card
+              key={value}
+              className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-4"
+            >
+              <p className="text-sm text-tmobile-gray-600">{STATUS_LABELS[value]}</p>
+              <p className={`text-2xl font-bold ${value === 'dead' && counts[value] ? 'text-red-600' : 'text-gray-900'}`}>
+                {counts[value] || 0}
+              </p>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6 mb-8">
+          <h2 className="text-lg font-bold text-gray-900 mb-3">Stuck events</h2>
+          <StuckEventList events={stuck} stuckAfterMinutes={stuckAfterMinutes} />
+        </Card>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {filters.map((value) => (
+            <button
+              key={value || 'open'}
+              onClick={() => setStatus(value)}
+              className={`rounded-full border px-3 py-1 text-sm font-semibold transition-colors ${
+                status === value
+                  ? 'border-[#E8258E] bg-[#E8258E] text-white'
+                  : 'border-tmobile-gray-200 bg-white text-tmobile-gray-600 hover:border-[#E8258E]'
+              }`}
+            >
+              {value ? STATUS_LABELS[value] : 'Open'}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <LoadingSpinner size="xl" variant="gradient" message="Loading pipeline failures..." />
+          </div>
+        ) : failures.length === 0 ? (
+          <p className="text-center text-tmobile-gray-600 py-20">No failures</p>
+        ) : (
+          <div className="space-y-4">
+            {failures.map((failure) => (
+              <FailureCard
+                key={failure.id}
+                failure={failure}
+                maxAttempts={maxAttempts}
+                busy={busyId === failure.id}
+                onReplay={(item) => runAction(item, 'replay')}
+                onDiscard={(item) => runAction(item, 'discard')}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -4,12 +4,18 @@ import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { Navbar } from '@/components/layout/navbar'
 import { WorkflowDiagrams } from '@/components/workflow/workflow-diagrams'
+import { PipelineMetricsPanel } from '@/components/workflow/pipeline-metrics'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import type { PipelineMetrics, PipelineRun } from '@/lib/processing/pipeline-runs'
 import { ArrowRight, BarChart3, Lightbulb, LineChart, CheckCircle2 } from 'lucide-react'
 
 export default function PipelinePage() {
   const [userEmail, setUserEmail] = useState<string>('')
+  const [metrics, setMetrics] = useState<PipelineMetrics | null>(null)
+  const [recentRuns, setRecentRuns] = useState<PipelineRun[]>([])
+  const [metricsLoading, setMetricsLoading] = useState(true)
 
   useEffect(() => {
     const fetchUser = async () => {
@@ -25,6 +31,31 @@ export default function PipelinePage() {
     fetchUser()
   }, [])
 
+  useEffect(() => {
+    const fetchMetrics = async () => {
+      try {
+        const response = await fetch('/api/process/runs?hours=24')
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.details || data.error || 'Failed to fetch pipeline runs')
+        }
+
+        setMetrics({ windowHours: data.windowHours, jobs: data.jobs })
+        setRecentRuns(data.recentRuns || [])
+      } catch (err) {
+        // The page still works as documentation without live metrics
+        console.error('Error fetching pipeline runs:', err)
+      } finally {
+        setMetricsLoading(false)
+      }
+    }
+
+    fetchMetrics()
+    const interval = setInterval(fetchMetrics, 60000)
+    return () => clearInterval(interval)
+  }, [])
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-white via-tmobile-magenta/3 to-purple-50">
       <Navbar userEmail={userEmail} />
@@ -89,10 +120,29 @@ export default function PipelinePage() {
           </Card>
         </div>
 
+        {/* Live Run Metrics */}
+        <div className="mb-12">
+          <div className="flex flex-wrap items-baseline justify-between gap-4 mb-6">
+            <h2 className="text-3xl font-bold text-tmobile-black">Live Pipeline</h2>
+            <Link href="/pipeline/health" className="text-sm font-semibold text-[#E8258E] hover:underline">
+              Failures and stuck events →
+            </Link>
+          </div>
+          {metricsLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" variant="gradient" message="Loading pipeline runs..." />
+            </div>
+          ) : metrics ? (
+            <PipelineMetricsPanel metrics={metrics} recentRuns={recentRuns} />
+          ) : (
+            <p className="text-tmobile-gray-600">Run metrics are unavailable right now.</p>
+          )}
+        </div>
+
         {/* Interactive Diagrams */}
         <div className="mb-12">
           <h2 className="text-3xl font-bold text-tmobile-black mb-6">Workflow Visualizations</h2>
-          <WorkflowDiagrams />
+          <WorkflowDiagrams defaultDiagram="pipeline" metrics={metrics} />
         </div>
 
         {/* Key Features */}
@@ -152,6 +202,15 @@ export default function PipelinePage() {
                   <ArrowRight className="ml-2 h-5 w-5" />
                 </Button>
               </Link>
+              <Link href="/pipeline/health">
+                <Button
+                  variant="outline"
+                  className="border-2 border-[#7C3E93] text-[#7C3E93] hover:bg-[#7C3E93]/10 px-8 py-6 text-lg"
+                >
+                  Pipeline Health
+                  <ArrowRight className="ml-2 h-5 w-5" />
+                </Button>
+              </Link>
             </div>
           </Card>
         </div>
@@ -0,0 +1,175 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Navbar } from '@/components/layout/navbar'
+import { AlertRules, type AlertRuleInput, type AlertRuleRow } from '@/components/alerts/alert-rules'
+import { AlertChannels, type AlertChannelInput } from '@/components/alerts/alert-channels'
+import { AlertHistory, type AlertEventRow } from '@/components/alerts/alert-history'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import type { AlertChannel, ChannelKind, DeliveryMode } from '@/lib/alerts/channels'
+import { toast } from 'sonner'
+
+export default function AlertsPage() {
+  const [userEmail, setUserEmail] = useState<string>('')
+  const [rules, setRules] = useState<AlertRuleRow[]>([])
+  const [channels, setChannels] = useState<AlertChannel[]>([])
+  const [events, setEvents] = useState<AlertEventRow[]>([])
+  const [productAreas, setProductAreas] = useState<string[]>([])
+  const [deliveryModes, setDeliveryModes] = useState<Record<ChannelKind, DeliveryMode>>({
+    webhook: 'live',
+    slack: 'live',
+    email: 'live',
+  })
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      const { createClient } = await import('@/lib/supabase/client')
+      const supabase = createClient()
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (user?.email) {
+        setUserEmail(user.email)
+      }
+    }
+    fetchUser()
+    fetchAlerts()
+  }, [])
+
+  const fetchAlerts = async () => {
+    try {
+      const response = await fetch('/api/alerts')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch alerts')
+      }
+
+      setRules(data.rules || [])
+      setChannels(data.channels || [])
+      setEvents(data.events || [])
+      setProductAreas(data.productAreas || [])
+      if (data.deliveryModes) setDeliveryModes(data.deliveryModes)
+    } catch (err) {
+      console.error('Error fetching alerts:', err)
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to fetch alerts',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const request = async (url: string, init: RequestInit, successMessage: string) => {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Request failed')
+      }
+
+      toast.success(successMessage)
+      await fetchAlerts()
+    } catch (err) {
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Request failed',
+      })
+    }
+  }
+
+  const handleCreateRule = (rule: AlertRuleInput) =>
+    request('/api/alerts/rules', {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    }, 'Rule added')
+
+  const handleUpdateRule = (ruleId: string, updates: Partial<AlertRuleInput & { enabled: boolean }>) =>
+    request(`/api/alerts/rules/${ruleId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    }, 'Rule updated')
+
+  const handleDeleteRule = (ruleId: string) =>
+    request(`/api/alerts/rules/${ruleId}`, { method: 'DELETE' }, 'Rule deleted')
+
+  const handleCreateChannel = (channel: AlertChannelInput) =>
+    request('/api/alerts/channels', {
+      method: 'POST',
+      body: JSON.stringify(channel),
+    }, 'Channel added')
+
+  const handleUpdateChannel = (channelId: string, updates: Partial<AlertChannelInput & { enabled: boolean }>) =>
+    request(`/api/alerts/channels/${channelId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    }, 'Channel updated')
+
+  const handleDeleteChannel = (channelId: string) =>
+    request(`/api/alerts/channels/${channelId}`, { method: 'DELETE' }, 'Channel deleted')
+
+  const handleTestChannel = async (channelId: string) => {
+    try {
+      const response = await fetch(`/api/alerts/channels/${channelId}/test`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.delivery?.error || data.message || data.error || 'Test failed')
+      }
+
+      toast.success(data.delivery.status === 'sink' ? 'Test alert captured by the local sink' : 'Test alert sent')
+    } catch (err) {
+      toast.error('Test failed', {
+        description: err instanceof Error ? err.message : 'Test failed',
+      })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-tmobile-magenta/3 to-purple-50">
+      <Navbar userEmail={userEmail} />
+
+      <main className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-page-title text-[#E8258E] mb-2">Alerts</h1>
+          <p className="text-section-subtitle">
+            Rules that watch CHI, topic intensity and close-the-loop outcomes, and the channels they notify.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <LoadingSpinner size="xl" variant="gradient" message="Loading alerts..." />
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-[1fr_420px] gap-6 items-start">
+            <div className="space-y-6">
+              <AlertRules
+                rules={rules}
+                channels={channels}
+                productAreas={productAreas}
+                onCreate={handleCreateRule}
+                onUpdate={handleUpdateRule}
+                onDelete={handleDeleteRule}
+              />
+              <AlertHistory events={events} />
+            </div>
+
+            <AlertChannels
+              channels={channels}
+              deliveryModes={deliveryModes}
+              onCreate={handleCreateChannel}
+              onUpdate={handleUpdateChannel}
+              onDelete={handleDeleteChannel}
+              onTest={handleTestChannel}
+            />
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Navbar } from '@/components/layout/navbar'
+import { ReasonFilter, RejectedItemCard, type RejectedItem } from '@/components/quality/rejected-items'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { toast } from 'sonner'
+
+export default function QualityPage() {
+  const [userEmail, setUserEmail] = useState<string>('')
+  const [items, setItems] = useState<RejectedItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [reasonCounts, setReasonCounts] = useState<Record<string, number>>({})
+  const [reason, setReason] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      const { createClient } = await import('@/lib/supabase/client')
+      const supabase = createClient()
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (user?.email) {
+        setUserEmail(user.email)
+      }
+    }
+    fetchUser()
+  }, [])
+
+  const fetchRejected = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: '200' })
+      if (reason) params.set('reason', reason)
+
+      const response = await fetch(`/api/process/rejected?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to fetch rejected items')
+      }
+
+      setItems(data.items || [])
+      setTotal(data.total || 0)
+      // Keep the full reason list visible while a single reason is selected
+      if (!reason) setReasonCounts(data.reasonCounts || {})
+    } catch (err) {
+      console.error('Error fetching rejected items:', err)
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to fetch rejected items',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [reason])
+
+  useEffect(() => {
+    fetchRejected()
+  }, [fetchRejected])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-tmobile-magenta/3 to-purple-50">
+      <Navbar userEmail={userEmail} />
+
+      <main className="max-w-[1200px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-page-title text-[#E8258E] mb-2">Rejected Items</h1>
+          <p className="text-section-subtitle">
+            Posts the quality gate dropped as spam, bots, promotions or news copy, with the penalties that sank each one.
+            Items that score between the thresholds are kept as signals with reduced intensity.
+          </p>
+        </div>
+
+        <div className="mb-6">
+          <ReasonFilter reasonCounts={reasonCounts} selected={reason} onSelect={setReason} />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <LoadingSpinner size="xl" variant="gradient" message="Loading rejected items..." />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-center text-tmobile-gray-600 py-20">No rejected items</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-tmobile-gray-600">
+              Showing {items.length} of {total} rejected item{total === 1 ? '' : 's'}
+            </p>
+            {items.map((item) => (
+              <RejectedItemCard key={item.id} item={item} />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
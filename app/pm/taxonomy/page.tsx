@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Navbar } from '@/components/layout/navbar'
+import { ClassificationPreview } from '@/components/taxonomy/classification-preview'
+import { CredibilityWeights } from '@/components/taxonomy/credibility-weights'
+import { RuleEditor, type TaxonomyArea, type TaxonomyRule } from '@/components/taxonomy/rule-editor'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { toast } from 'sonner'
+
+export default function TaxonomyPage() {
+  const [userEmail, setUserEmail] = useState<string>('')
+  const [areas, setAreas] = useState<TaxonomyArea[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      const { createClient } = await import('@/lib/supabase/client')
+      const supabase = createClient()
+      const {
+        data: { user },
+      } = await supabase.auth.getUser()
+      if (user?.email) {
+        setUserEmail(user.email)
+      }
+    }
+    fetchUser()
+    fetchRules()
+  }, [])
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/taxonomy/rules')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to fetch rules')
+      }
+
+      setAreas(data.productAreas || [])
+    } catch (err) {
+      console.error('Error fetching rules:', err)
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to fetch rules',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const request = async (url: string, init: RequestInit, successMessage: string) => {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Request failed')
+      }
+
+      toast.success(successMessage)
+      await fetchRules()
+    } catch (err) {
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Request failed',
+      })
+    }
+  }
+
+  const handleCreate = (areaId: string, rule: Omit<TaxonomyRule, 'id'>) =>
+    request('/api/taxonomy/rules', {
+      method: 'POST',
+      body: JSON.stringify({ product_area_id: areaId, ...rule }),
+    }, 'Rule added')
+
+  const handleUpdate = (ruleId: string, updates: Partial<Omit<TaxonomyRule, 'id'>>) =>
+    request(`/api/taxonomy/rules/${ruleId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    }, 'Rule updated')
+
+  const handleDelete = (ruleId: string) =>
+    request(`/api/taxonomy/rules/${ruleId}`, { method: 'DELETE' }, 'Rule deleted')
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white via-tmobile-magenta/3 to-purple-50">
+      <Navbar userEmail={userEmail} />
+
+      <main className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-page-title text-[#E8258E] mb-2">Product Area Taxonomy</h1>
+          <p className="text-section-subtitle">
+            Keyword and phrase rules that classify signals into product areas. A signal counts toward every area that qualifies.
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-[1fr_420px] gap-6 items-start">
+          <div className="space-y-4">
+            {loading ? (
+              <div className="flex justify-center py-20">
+                <LoadingSpinner size="xl" variant="gradient" message="Loading rules..." />
+              </div>
+            ) : (
+              areas.map((area) => (
+                <RuleEditor
+                  key={area.id}
+                  area={area}
+                  onCreate={handleCreate}
+                  onUpdate={handleUpdate}
+                  onDelete={handleDelete}
+                />
+              ))
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <ClassificationPreview />
+            <CredibilityWeights />
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { Plus, Send, Trash2 } from 'lucide-react'
+import type {
+  AlertChannel,
+  ChannelConfig,
+  ChannelKind,
+  DeliveryMode,
+  EmailChannelConfig,
+  WebhookChannelConfig,
+} from '@/lib/alerts/channels'
+
+export interface AlertChannelInput {
+  name: string
+  kind: ChannelKind
+  config: ChannelConfig
+}
+
+interface AlertChannelsProps {
+  channels: AlertChannel[]
+  deliveryModes: Record<ChannelKind, DeliveryMode>
+  onCreate: (channel: AlertChannelInput) => Promise<void>
+  onUpdate: (channelId: string, updates: Partial<AlertChannelInput & { enabled: boolean }>) => Promise<void>
+  onDelete: (channelId: string) => Promise<void>
+  onTest: (channelId: string) => Promise<void>
+}
+
+const KIND_LABELS: Record<ChannelKind, string> = {
+  webhook: 'Webhook',
+  slack: 'Slack',
+  email: 'Email',
+}
+
+const TARGET_PLACEHOLDERS: Record<ChannelKind, string> = {
+  webhook: 'https://example.com/hooks/alerts',
+  slack: 'https://hooks.slack.com/services/…',
+  email: 'oncall@example.com, pm@example.com',
+}
+
+function describeTarget(channel: AlertChannel): string {
+  return channel.kind === 'email'
+    ? (channel.config as EmailChannelConfig).to.join(', ')
+    : (channel.config as WebhookChannelConfig).url
+}
+
+export function AlertChannels({ channels, deliveryModes, onCreate, onUpdate, onDelete, onTest }: AlertChannelsProps) {
+  const [name, setName] = useState('')
+  const [kind, setKind] = useState<ChannelKind>('slack')
+  const [target, setTarget] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleAdd = async () => {
+    if (!name.trim() || !target.trim()) return
+    setSaving(true)
+    try {
+      const config = kind === 'email'
+        ? { to: target.split(',').map((address) => address.trim()).filter(Boolean) }
+        : { url: target.trim() }
+      await onCreate({ name: name.trim(), kind, config })
+      setName('')
+      setTarget('')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+      <h3 className="font-bold text-lg mb-1">Channels</h3>
+      <p className="text-sm text-tmobile-gray-600 mb-4">
+        Webhooks get the alert as JSON, Slack gets an incoming-webhook message, email goes out over SMTP.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {channels.length === 0 && (
+          <p className="text-sm text-tmobile-gray-600">No channels yet. Alerts are still recorded below.</p>
+        )}
+        {channels.map((channel) => (
+          <div
+            key={channel.id}
+            className="flex flex-wrap items-center gap-2 rounded-lg border border-tmobile-gray-200 bg-white px-3 py-2"
+          >
+            <div className="flex-1 min-w-[180px]">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-sm">{channel.name}</span>
+                <Badge variant="secondary">{KIND_LABELS[channel.kind]}</Badge>
+                {deliveryModes[channel.kind] === 'sink' && (
+                  <Badge variant="outline" title="Deliveries are captured by the local sink, not sent">Sink</Badge>
+                )}
+                {!channel.enabled && <Badge variant="outline">Disabled</Badge>}
+              </div>
+              <p className="text-xs text-tmobile-gray-600 break-all">{describeTarget(channel)}</p>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onTest(channel.id)}>
+              <Send className="h-3.5 w-3.5 mr-1" />
+              Test
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onUpdate(channel.id, { enabled: !channel.enabled })}
+            >
+              {channel.enabled ? 'Disable' : 'Enable'}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2"
+              aria-label={`Delete ${channel.name}`}
+              onClick={() => onDelete(channel.id)}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 border-t border-tmobile-gray-200 pt-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Channel name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="max-w-[180px]"
+          />
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ChannelKind)}
+            aria-label="Channel type"
+            className="h-9 rounded-md border border-tmobile-gray-200 bg-white px-2 text-sm"
+          >
+            {Object.entries(KIND_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder={TARGET_PLACEHOLDERS[kind]}
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            aria-label={kind === 'email' ? 'Recipients' : 'Webhook URL'}
+          />
+          <Button size="sm" onClick={handleAdd} disabled={saving || !name.trim() || !target.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        <p className="text-xs text-tmobile-gray-500">
+          For local testing, point a webhook or Slack channel at http://localhost:3000/api/alerts/sink?kind=webhook
+          (or ?kind=slack), or set ALERT_DELIVERY_MODE=sink.
+        </p>
+      </div>
+    </Card>
+  )
+}
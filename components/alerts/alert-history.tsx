@@ -0,0 +1,72 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import type { AlertEvent } from '@/lib/alerts/engine'
+import type { AlertSeverity } from '@/lib/alerts/rules'
+import type { DeliveryResult } from '@/lib/alerts/channels'
+
+export type AlertEventRow = AlertEvent & { rule: { name: string } | null }
+
+interface AlertHistoryProps {
+  events: AlertEventRow[]
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: 'bg-red-100 text-red-700 border-red-200',
+  warning: 'bg-amber-100 text-amber-700 border-amber-200',
+  info: 'bg-blue-100 text-blue-700 border-blue-200',
+}
+
+const DELIVERY_STYLES: Record<DeliveryResult['status'], string> = {
+  sent: 'text-green-700',
+  sink: 'text-tmobile-gray-600',
+  failed: 'text-red-700',
+}
+
+export function AlertHistory({ events }: AlertHistoryProps) {
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+      <h3 className="font-bold text-lg mb-1">Recent Alerts</h3>
+      <p className="text-sm text-tmobile-gray-600 mb-4">
+        Every fired alert and what happened on each of its channels.
+      </p>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-tmobile-gray-600">No alerts have fired yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {events.map((event) => (
+            <div key={event.id} className="rounded-lg border border-tmobile-gray-200 bg-white px-3 py-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className={SEVERITY_STYLES[event.severity]}>{event.severity}</Badge>
+                <span className="font-semibold text-sm flex-1 min-w-[200px]">{event.title}</span>
+                <span className="text-xs text-tmobile-gray-500">
+                  {formatDistanceToNow(new Date(event.fired_at), { addSuffix: true })}
+                </span>
+              </div>
+              <p className="text-xs text-tmobile-gray-600 mt-1">{event.message}</p>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-xs">
+                <span className="text-tmobile-gray-500">{event.rule?.name || 'Deleted rule'}</span>
+                {event.deliveries.length === 0 ? (
+                  <span className="text-tmobile-gray-500">Recorded only</span>
+                ) : (
+                  event.deliveries.map((delivery) => (
+                    <span
+                      key={delivery.channelId}
+                      className={DELIVERY_STYLES[delivery.status]}
+                      title={delivery.error}
+                    >
+                      {delivery.channelName}: {delivery.status}
+                    </span>
+                  ))
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
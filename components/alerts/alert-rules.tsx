@@ -0,0 +1,227 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { Plus, Trash2 } from 'lucide-react'
+import type { AlertRule, AlertRuleKind, AlertRuleParams } from '@/lib/alerts/rules'
+import type { AlertChannel } from '@/lib/alerts/channels'
+
+export type AlertRuleRow = AlertRule & { description: string }
+
+export interface AlertRuleInput {
+  name: string
+  kind: AlertRuleKind
+  params: AlertRuleParams
+  channel_ids: string[]
+  cooldown_minutes: number
+}
+
+interface AlertRulesProps {
+  rules: AlertRuleRow[]
+  channels: AlertChannel[]
+  productAreas: string[]
+  onCreate: (rule: AlertRuleInput) => Promise<void>
+  onUpdate: (ruleId: string, updates: Partial<AlertRuleInput & { enabled: boolean }>) => Promise<void>
+  onDelete: (ruleId: string) => Promise<void>
+}
+
+const KIND_LABELS: Record<AlertRuleKind, string> = {
+  chi_below: 'CHI below threshold',
+  intensity_vs_baseline: 'Topic intensity above baseline',
+  closed_loop_status: 'Close-the-loop status',
+}
+
+const SELECT_CLASS = 'h-9 rounded-md border border-tmobile-gray-200 bg-white px-2 text-sm'
+
+export function AlertRules({ rules, channels, productAreas, onCreate, onUpdate, onDelete }: AlertRulesProps) {
+  const [name, setName] = useState('')
+  const [kind, setKind] = useState<AlertRuleKind>('chi_below')
+  const [productArea, setProductArea] = useState('')
+  const [threshold, setThreshold] = useState('40')
+  const [forMinutes, setForMinutes] = useState('30')
+  const [increasePercent, setIncreasePercent] = useState('200')
+  const [status, setStatus] = useState('not-recovered')
+  const [channelIds, setChannelIds] = useState<string[]>([])
+  const [cooldown, setCooldown] = useState('60')
+  const [saving, setSaving] = useState(false)
+
+  const channelNames = new Map(channels.map((channel) => [channel.id, channel.name]))
+
+  const buildParams = (): AlertRuleParams => {
+    switch (kind) {
+      case 'chi_below':
+        return { productArea: productArea || null, threshold: Number(threshold), forMinutes: Number(forMinutes) }
+      case 'intensity_vs_baseline':
+        return { productArea: productArea || null, increasePercent: Number(increasePercent) }
+      case 'closed_loop_status':
+        return { status: status as 'recovered' | 'monitoring' | 'not-recovered' }
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!name.trim()) return
+    setSaving(true)
+    try {
+      await onCreate({
+        name: name.trim(),
+        kind,
+        params: buildParams(),
+        channel_ids: channelIds,
+        cooldown_minutes: Number(cooldown) || 0,
+      })
+      setName('')
+      setChannelIds([])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleChannel = (channelId: string) =>
+    setChannelIds((current) =>
+      current.includes(channelId) ? current.filter((id) => id !== channelId) : [...current, channelId]
+    )
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+      <h3 className="font-bold text-lg mb-1">Rules</h3>
+      <p className="text-sm text-tmobile-gray-600 mb-4">
+        Checked after every snapshot capture. An alert with the same subject is not sent again until its cooldown ends.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {rules.length === 0 && (
+          <p className="text-sm text-tmobile-gray-600">No alert rules yet.</p>
+        )}
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex flex-wrap items-center gap-3 rounded-lg border border-tmobile-gray-200 bg-white px-3 py-2"
+          >
+            <div className="flex-1 min-w-[200px]">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-sm">{rule.name}</span>
+                {!rule.enabled && <Badge variant="outline">Paused</Badge>}
+                {rule.condition_since && <Badge variant="destructive">Condition holding</Badge>}
+              </div>
+              <p className="text-xs text-tmobile-gray-600">
+                {rule.description} · cooldown {rule.cooldown_minutes} min
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {rule.channel_ids.length === 0 ? (
+                <span className="text-xs text-tmobile-gray-500">No channels (recorded only)</span>
+              ) : (
+                rule.channel_ids.map((channelId) => (
+                  <Badge key={channelId} variant="secondary">{channelNames.get(channelId) || 'Deleted channel'}</Badge>
+                ))
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onUpdate(rule.id, { enabled: !rule.enabled })}
+            >
+              {rule.enabled ? 'Pause' : 'Resume'}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2"
+              aria-label={`Delete ${rule.name}`}
+              onClick={() => onDelete(rule.id)}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3 border-t border-tmobile-gray-200 pt-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="Rule name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="max-w-xs"
+          />
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AlertRuleKind)}
+            aria-label="Rule type"
+            className={SELECT_CLASS}
+          >
+            {Object.entries(KIND_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm text-tmobile-gray-600">
+          {kind !== 'closed_loop_status' && (
+            <select
+              value={productArea}
+              onChange={(e) => setProductArea(e.target.value)}
+              aria-label="Product area"
+              className={SELECT_CLASS}
+            >
+              <option value="">{kind === 'chi_below' ? 'Overall' : 'Any product area'}</option>
+              {productAreas.map((area) => (
+                <option key={area} value={area}>{area}</option>
+              ))}
+            </select>
+          )}
+          {kind === 'chi_below' && (
+            <>
+              <span>CHI below</span>
+              <Input type="number" min={0} max={100} value={threshold} onChange={(e) => setThreshold(e.target.value)} aria-label="CHI threshold" className="w-20" />
+              <span>for</span>
+              <Input type="number" min={0} max={1440} value={forMinutes} onChange={(e) => setForMinutes(e.target.value)} aria-label="Minutes" className="w-20" />
+              <span>min</span>
+            </>
+          )}
+          {kind === 'intensity_vs_baseline' && (
+            <>
+              <span>intensity up</span>
+              <Input type="number" min={1} value={increasePercent} onChange={(e) => setIncreasePercent(e.target.value)} aria-label="Increase percent" className="w-24" />
+              <span>% vs baseline</span>
+            </>
+          )}
+          {kind === 'closed_loop_status' && (
+            <>
+              <span>Opportunity status becomes</span>
+              <select value={status} onChange={(e) => setStatus(e.target.value)} aria-label="Status" className={SELECT_CLASS}>
+                <option value="not-recovered">Not recovered</option>
+                <option value="recovered">Recovered</option>
+                <option value="monitoring">Monitoring</option>
+              </select>
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm text-tmobile-gray-600">
+          {channels.map((channel) => (
+            <label key={channel.id} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={channelIds.includes(channel.id)}
+                onChange={() => toggleChannel(channel.id)}
+              />
+              {channel.name}
+            </label>
+          ))}
+          <span>Cooldown</span>
+          <Input type="number" min={0} value={cooldown} onChange={(e) => setCooldown(e.target.value)} aria-label="Cooldown minutes" className="w-20" />
+          <span>min</span>
+          <Button size="sm" onClick={handleAdd} disabled={saving || !name.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add rule
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
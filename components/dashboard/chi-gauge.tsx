@@ -1,7 +1,9 @@
 'use client'
 
-import { RadialBarChart, RadialBar, PolarAngleAxis } from 'recharts'
+import { RadialBarChart, RadialBar, PolarAngleAxis, LineChart, Line, YAxis, Tooltip } from 'recharts'
 import { TrendingUp, TrendingDown, Minus, ArrowUp, ArrowDown } from 'lucide-react'
+import type { CHIHistoryPoint } from '@/lib/utils/chi-history'
+import type { CHIInterval } from '@/lib/utils/chi'
 
 interface CHIGaugeProps {
   score: number
@@ -10,6 +12,19 @@ interface CHIGaugeProps {
   trend?: number // Change from previous period
   previousScore?: number
   showTrend?: boolean
+  rawScore?: number // Score without source credibility weighting
+  history?: CHIHistoryPoint[] // Stored CHI, oldest first, drawn as a sparkline
+  historyDelta?: number | null // History range vs the comparison period
+  historyLabel?: string // e.g. "vs previous 7 days"
+  interval?: CHIInterval | null // 95% credible interval around score
+  insufficientData?: boolean // Too few signals: the score is not shown
+  signalCount?: number // Signals behind the score, shown with insufficient data
+}
+
+const INSUFFICIENT_COLOR = '#9CA3AF'
+
+function formatPeriod(periodStart: string): string {
+  return new Date(periodStart).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric' })
 }
 
 export function CHIGauge({
@@ -19,6 +34,13 @@ export function CHIGauge({
   trend,
   previousScore,
   showTrend = true,
+  rawScore,
+  history,
+  historyDelta,
+  historyLabel = 'vs previous period',
+  interval,
+  insufficientData = false,
+  signalCount,
 }: CHIGaugeProps) {
   // Clamp score between 0 and 100
   const clampedScore = Math.max(0, Math.min(100, score))
@@ -30,7 +52,7 @@ export function CHIGauge({
     return '#00A19C' // Teal - Good
   }
 
-  const color = getColor(clampedScore)
+  const color = insufficientData ? INSUFFICIENT_COLOR : getColor(clampedScore)
 
   // Size configurations
   const sizeConfig = {
@@ -44,7 +66,7 @@ export function CHIGauge({
   const data = [
     {
       name: 'CHI',
-      value: clampedScore,
+      value: insufficientData ? 0 : clampedScore,
       fill: color,
     },
   ]
@@ -80,8 +102,13 @@ export function CHIGauge({
         {/* Center score display */}
         <div className="absolute inset-0 flex flex-col items-center justify-center">
           <div className={`font-bold ${config.fontSize}`} style={{ color }}>
-            {Math.round(clampedScore)}
+            {insufficientData ? '—' : Math.round(clampedScore)}
           </div>
+          {interval && !insufficientData && size === 'sm' && (
+            <div className="text-[10px] text-tmobile-gray-600" title="95% credible interval">
+              {interval.low}–{interval.high}
+            </div>
+          )}
           {showLabel && size !== 'sm' && (
             <div className="text-sm text-tmobile-gray-600 font-medium mt-1">
               CHI Score
@@ -100,11 +127,73 @@ export function CHIGauge({
               color: color,
             }}
           >
-            {clampedScore < 40 ? 'Critical' : clampedScore < 70 ? 'Warning' : 'Good'}
+            {insufficientData ? 'Insufficient data' : clampedScore < 40 ? 'Critical' : clampedScore < 70 ? 'Warning' : 'Good'}
           </span>
         </div>
       )}
 
+      {insufficientData && size !== 'sm' && (
+        <div className="mt-2 text-xs text-tmobile-gray-600 text-center">
+          {signalCount !== undefined ? `Only ${signalCount} signal${signalCount === 1 ? '' : 's'}` : 'Too few signals'} for a reliable score
+        </div>
+      )}
+
+      {/* Credible interval: shaded range on a 0-100 track, score marked */}
+      {interval && !insufficientData && size !== 'sm' && (
+        <div className={`mt-2 ${size === 'lg' ? 'w-[200px]' : 'w-[160px]'}`} title="95% credible interval">
+          <div className="relative h-1.5 rounded-full bg-gray-200">
+            <div
+              className="absolute inset-y-0 rounded-full"
+              style={{ left: `${interval.low}%`, width: `${Math.max(1, interval.high - interval.low)}%`, backgroundColor: `${color}66` }}
+            />
+            <div
+              className="absolute top-1/2 h-3 w-0.5 -translate-y-1/2"
+              style={{ left: `${clampedScore}%`, backgroundColor: color }}
+            />
+          </div>
+          <div className="mt-1 text-xs text-tmobile-gray-600 text-center">
+            95% interval {interval.low}–{interval.high}
+          </div>
+        </div>
+      )}
+
+      {/* Unweighted score */}
+      {rawScore !== undefined && !insufficientData && size !== 'sm' && (
+        <div className="mt-2 text-xs text-tmobile-gray-600" title="CHI with every signal counted equally, regardless of source credibility">
+          Unweighted {Math.round(rawScore)}
+        </div>
+      )}
+
+      {/* Stored history sparkline and period-over-period delta */}
+      {history && history.some((point) => point.chi !== null) && size !== 'sm' && (
+        <div className="mt-3 flex flex-col items-center">
+          <LineChart
+            width={size === 'lg' ? 200 : 160}
+            height={size === 'lg' ? 40 : 32}
+            data={history}
+            margin={{ top: 4, right: 2, bottom: 4, left: 2 }}
+          >
+            <YAxis hide domain={[0, 100]} />
+            <Tooltip
+              formatter={(value) => [Math.round(Number(value)), 'CHI']}
+              labelFormatter={(_, payload) => (payload?.[0] ? formatPeriod(payload[0].payload.periodStart) : '')}
+              contentStyle={{ fontSize: 12 }}
+            />
+            <Line type="monotone" dataKey="chi" stroke={color} strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+          </LineChart>
+          {historyDelta !== undefined && historyDelta !== null && (
+            <div
+              className={`text-xs font-semibold ${
+                historyDelta > 0 ? 'text-green-600' : historyDelta < 0 ? 'text-red-600' : 'text-gray-500'
+              }`}
+            >
+              {historyDelta > 0 ? '+' : ''}{historyDelta.toFixed(1)} pts{' '}
+              <span className="font-normal text-tmobile-gray-600">{historyLabel}</span>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Trend Indicator */}
       {showTrend && trend !== undefined && size === 'lg' && (
         <div className="mt-4 flex items-center justify-center gap-4">
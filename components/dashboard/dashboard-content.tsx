@@ -25,14 +25,23 @@ import { toast } from 'sonner'
 import { Save, ExternalLink } from 'lucide-react'
 import { formatMinutes } from '@/lib/utils/advanced-metrics'
 import { formatSmart, formatChange } from '@/lib/utils/number-format'
+import { SUPPORTED_LANGUAGES } from '@/lib/processing/language'
+import type { RegionalIncident } from '@/lib/processing/regional-incidents'
+import type { AnomalyResult } from '@/lib/processing/anomaly-detection'
+import type { CHIHistoryPoint } from '@/lib/utils/chi-history'
+import type { CHIInterval } from '@/lib/utils/chi'
 
 interface ProductArea {
   id: string
   name: string
   color: string
   chi: number
+  rawChi?: number
+  chiInterval?: CHIInterval | null
+  insufficientData?: boolean
   trend: number
   signalCount: number
+  weightedSignalCount?: number
 }
 
 interface Issue {
@@ -89,13 +98,18 @@ interface EarlyWarningData {
     productAreaName: string
     color: string
     currentIntensity: number
+    rawIntensity?: number
     velocity: number
+    rawVelocity?: number
     projectedIntensity: number
     timeToSpreadHours: number
     affectedUsers: number
     confidence: number
+    detection?: 'anomaly' | 'velocity'
+    anomaly?: AnomalyResult | null
   }>
   totalRising: number
+  regionalIncidents?: RegionalIncident[]
 }
 
 interface AdvancedMetrics {
@@ -142,10 +156,20 @@ interface RealtimeData {
   }
 }
 
+interface CHIHistoryData {
+  points: CHIHistoryPoint[]
+  delta: number | null // Last 7 days vs the 7 before
+}
+
 interface DashboardContentProps {
   overallCHI: number
+  rawCHI?: number
+  chiInterval?: CHIInterval | null // 95% credible interval around overallCHI
+  chiSignalCount?: number
+  chiInsufficientData?: boolean
   chiTrend: number
   previousCHI: number
+  chiHistory?: CHIHistoryData
   productAreas: ProductArea[]
   emergingIssues: Issue[]
   sentimentData: DataPoint[]
@@ -154,12 +178,31 @@ interface DashboardContentProps {
   realtimeData: RealtimeData
   outageData?: OutageData
   earlyWarningData?: EarlyWarningData
+  language?: string | null // Signal language filter; null shows every language
+  excludeSynthetic?: boolean // Hide signals from replayed fixtures and sample data
+}
+
+/**
+ * Dashboard URL keeping the language and synthetic data filters
+ */
+function dashboardHref(language: string | null, excludeSynthetic: boolean): string {
+  const params = new URLSearchParams()
+  if (language) params.set('language', language)
+  if (excludeSynthetic) params.set('synthetic', 'exclude')
+  return params.size > 0 ? `/dashboard?${params}` : '/dashboard'
 }
 
 export function DashboardContent({
+  language = null,
+  excludeSynthetic = false,
   overallCHI,
+  rawCHI,
+  chiInterval,
+  chiSignalCount,
+  chiInsufficientData = false,
   chiTrend,
   previousCHI,
+  chiHistory,
   productAreas,
   emergingIssues,
   sentimentData,
@@ -197,7 +240,8 @@ export function DashboardContent({
       setIsLoadingEarlyWarning(true)
       try {
         const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || window.location.origin
-        const response = await fetch(`${baseUrl}/api/dashboard/early-warning`, {
+        const syntheticQuery = excludeSynthetic ? '?synthetic=exclude' : ''
+        const response = await fetch(`${baseUrl}/api/dashboard/early-warning${syntheticQuery}`, {
           cache: 'no-store',
           headers: {
             'Content-Type': 'application/json',
@@ -220,7 +264,7 @@ export function DashboardContent({
     }
 
     fetchEarlyWarningData()
-  }, [])
+  }, [excludeSynthetic])
 
   // Fetch sentiment data when time range changes
   useEffect(() => {
@@ -233,7 +277,9 @@ export function DashboardContent({
     const fetchSentimentData = async () => {
       try {
         const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || window.location.origin
-        const response = await fetch(`${baseUrl}/api/dashboard/sentiment-timeline?range=${sentimentTimeRange}`, {
+        const languageQuery = language ? `&language=${language}` : ''
+        const syntheticQuery = excludeSynthetic ? '&synthetic=exclude' : ''
+        const response = await fetch(`${baseUrl}/api/dashboard/sentiment-timeline?range=${sentimentTimeRange}${languageQuery}${syntheticQuery}`, {
           cache: 'no-store',
           headers: {
             'Content-Type': 'application/json',
@@ -261,7 +307,7 @@ export function DashboardContent({
     }
 
     fetchSentimentData()
-  }, [sentimentTimeRange, originalSentimentData])
+  }, [sentimentTimeRange, originalSentimentData, language, excludeSynthetic])
 
   const handleProductAreaClick = (areaName: string) => {
     const area = productAreas.find((a) => a.name === areaName)
@@ -418,12 +464,15 @@ export function DashboardContent({
     productArea: issue.productAreaName,
     color: issue.color,
     velocity: issue.velocity,
+    rawVelocity: issue.rawVelocity,
     currentIntensity: issue.currentIntensity,
+    rawIntensity: issue.rawIntensity,
     projectedIntensity: issue.projectedIntensity,
     timeToSpread: issue.timeToSpreadHours > 0
       ? `${Math.round(issue.timeToSpreadHours * 10) / 10} hours`
       : 'Already critical',
     affectedUsers: issue.affectedUsers,
+    anomaly: issue.anomaly,
   }))
 
   // Use real realtime signals from API
@@ -445,6 +494,32 @@ export function DashboardContent({
 
       {/* Dashboard Content */}
       <div className="space-y-6">
+        {/* Language and Data Filters */}
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-xs-label">Data</span>
+          {([[false, 'All'], [true, 'Live only']] as const).map(([liveOnly, label]) => (
+            <Button
+              key={label}
+              size="sm"
+              variant={excludeSynthetic === liveOnly ? 'default' : 'outline'}
+              onClick={() => router.push(dashboardHref(language, liveOnly))}
+            >
+              {label}
+            </Button>
+          ))}
+          <span className="text-xs-label ml-4">Language</span>
+          {[['', 'All'], ...Object.entries(SUPPORTED_LANGUAGES)].map(([code, label]) => (
+            <Button
+              key={code || 'all'}
+              size="sm"
+              variant={(language || '') === code ? 'default' : 'outline'}
+              onClick={() => router.push(dashboardHref(code || null, excludeSynthetic))}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
         {/* Hero Section - CHI with Key Metrics */}
       <section className="relative overflow-hidden bg-gradient-to-br from-white via-white to-tmobile-magenta/5 border-0 rounded-2xl shadow-2xl">
         <div className="absolute inset-0 bg-gradient-to-br from-tmobile-magenta/5 via-transparent to-purple-500/5" />
@@ -462,6 +537,13 @@ export function DashboardContent({
               size="lg"
               trend={chiTrend}
               previousScore={previousCHI}
+              rawScore={rawCHI}
+              interval={chiInterval}
+              insufficientData={chiInsufficientData}
+              signalCount={chiSignalCount}
+              history={chiHistory?.points}
+              historyDelta={chiHistory?.delta}
+              historyLabel="vs previous 7 days"
             />
           </div>
 
@@ -622,7 +704,11 @@ export function DashboardContent({
 
       {/* Critical Alerts Row */}
       <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <EarlyWarningSystem risingIssues={risingIssues} isLoading={isLoadingEarlyWarning} />
+        <EarlyWarningSystem
+          risingIssues={risingIssues}
+          regionalIncidents={earlyWarningDataState?.regionalIncidents}
+          isLoading={isLoadingEarlyWarning}
+        />
         <TopPerformers productAreas={productAreas} />
       </section>
 
@@ -645,6 +731,10 @@ export function DashboardContent({
               chi={area.chi}
               trend={area.trend}
               signalCount={area.signalCount}
+              rawChi={area.rawChi}
+              weightedSignalCount={area.weightedSignalCount}
+              chiInterval={area.chiInterval}
+              insufficientData={area.insufficientData}
               onClick={() => handleProductAreaClick(area.name)}
             />
           ))}
@@ -690,6 +780,7 @@ export function DashboardContent({
         productArea={selectedProductArea}
         isOpen={!!selectedProductArea}
         onClose={() => setSelectedProductArea(null)}
+        excludeSynthetic={excludeSynthetic}
       />
 
       {/* Insights Dialog */}
@@ -1,25 +1,79 @@
 'use client'
 
-import { AlertTriangle, TrendingUp, Clock, Users } from 'lucide-react'
+import { AlertTriangle, TrendingUp, Clock, Users, MapPin } from 'lucide-react'
+import type { RegionalIncident } from '@/lib/processing/regional-incidents'
+import type { AnomalyResult } from '@/lib/processing/anomaly-detection'
 
 interface RisingIssue {
   id: string
   topic: string
   productArea: string
   color: string
-  velocity: number // signals per hour
+  velocity: number // signals per hour, weighted by source credibility
+  rawVelocity?: number
   currentIntensity: number
+  rawIntensity?: number
   projectedIntensity: number
   timeToSpread: string // e.g., "2 hours"
   affectedUsers: number
+  anomaly?: AnomalyResult | null // Last hour against its hour-of-week baseline
 }
 
 interface EarlyWarningSystemProps {
   risingIssues?: RisingIssue[]
+  regionalIncidents?: RegionalIncident[]
   isLoading?: boolean
 }
 
-export function EarlyWarningSystem({ risingIssues = [], isLoading = false }: EarlyWarningSystemProps) {
+const INCIDENT_SEVERITY_STYLES: Record<RegionalIncident['severity'], { border: string; badge: string }> = {
+  critical: { border: 'border-red-500 bg-red-50', badge: 'bg-red-100 text-red-700' },
+  high: { border: 'border-orange-500 bg-orange-50', badge: 'bg-orange-100 text-orange-700' },
+  medium: { border: 'border-yellow-500 bg-yellow-50', badge: 'bg-yellow-100 text-yellow-700' },
+  low: { border: 'border-blue-500 bg-blue-50', badge: 'bg-blue-100 text-blue-700' },
+}
+
+const BASELINE_LABELS: Record<AnomalyResult['baseline'], string> = {
+  hour_of_week: 'usual for this hour of the week',
+  recent: 'last 24 hours',
+  none: 'no baseline',
+}
+
+/**
+ * Expected range as a shaded band with the observed value marked
+ */
+function AnomalyBand({ anomaly }: { anomaly: AnomalyResult }) {
+  const scaleMax = Math.max(anomaly.expectedRange.high, anomaly.observed) * 1.1 || 1
+  const position = (value: number) => `${Math.min((value / scaleMax) * 100, 100)}%`
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between text-xs text-tmobile-gray-600 mb-1">
+        <span title={BASELINE_LABELS[anomaly.baseline]}>
+          Expected {anomaly.expectedRange.low}–{anomaly.expectedRange.high}/hr
+        </span>
+        <span>
+          Now <span className="font-semibold text-red-600">{anomaly.observed}</span>
+          <span className="text-tmobile-gray-500"> (z {anomaly.zScore}, p {anomaly.pValue < 0.0001 ? '<0.0001' : anomaly.pValue})</span>
+        </span>
+      </div>
+      <div className="relative h-2 bg-gray-200 rounded-full">
+        <div
+          className="absolute inset-y-0 bg-green-300 rounded-full"
+          style={{ left: position(anomaly.expectedRange.low), right: `calc(100% - ${position(anomaly.expectedRange.high)})` }}
+        />
+        <div
+          className="absolute -top-1 h-4 w-1 bg-red-600 rounded-full"
+          style={{ left: position(anomaly.observed) }}
+        />
+      </div>
+    </div>
+  )
+}
+
+const formatStarted = (startedAt: string) =>
+  new Date(startedAt).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+
+export function EarlyWarningSystem({ risingIssues = [], regionalIncidents = [], isLoading = false }: EarlyWarningSystemProps) {
   // Normalize topic to title case
   const toTitleCase = (str: string) => {
     return str
@@ -43,6 +97,8 @@ export function EarlyWarningSystem({ risingIssues = [], isLoading = false }: Ear
     return { text: 'Low', color: 'text-blue-700', bg: 'bg-blue-100' }
   }
 
+  const totalWarnings = risingIssues.length + regionalIncidents.length
+
   return (
     <div className="relative overflow-hidden bg-white/95 backdrop-blur-sm border border-tmobile-gray-200 rounded-2xl shadow-xl">
       {/* Header */}
@@ -72,7 +128,7 @@ export function EarlyWarningSystem({ risingIssues = [], isLoading = false }: Ear
             <p className="text-sm font-medium text-orange-800">Analyzing Trends...</p>
             <p className="text-xs text-orange-600 mt-1">Detecting rapidly escalating issues</p>
           </div>
-        ) : risingIssues.length === 0 ? (
+        ) : totalWarnings === 0 ? (
           <div className="text-center py-8">
             <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-green-100 mb-3">
               <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -80,10 +136,77 @@ export function EarlyWarningSystem({ risingIssues = [], isLoading = false }: Ear
               </svg>
             </div>
             <p className="text-sm font-medium text-green-800">All Clear</p>
-            <p className="text-xs text-green-600 mt-1">No rapidly escalating issues detected</p>
+            <p className="text-xs text-green-600 mt-1">No issues above their usual levels</p>
           </div>
         ) : (
           <div className="space-y-4">
+            {regionalIncidents.map((incident) => {
+              const styles = INCIDENT_SEVERITY_STYLES[incident.severity]
+              return (
+                <div
+                  key={incident.id}
+                  className={`relative border-l-4 ${styles.border} rounded-lg p-4 hover:shadow-md transition-shadow`}
+                >
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <MapPin className="h-3 w-3 text-red-500" />
+                        <h4 className="font-semibold text-tmobile-black text-sm">
+                          Regional Network Incident
+                        </h4>
+                      </div>
+                      <p className="text-xs text-tmobile-gray-600">
+                        {incident.affectedMetros.map((metro) => metro.name).join(' · ')}
+                      </p>
+                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold capitalize ${styles.badge}`}>
+                      {incident.severity}
+                    </span>
+                  </div>
+
+                  <div className="grid grid-cols-4 gap-3">
+                    <div className="text-center">
+                      <div className="flex items-center justify-center gap-1 mb-1">
+                        <TrendingUp className="h-3 w-3 text-red-500" />
+                        <span className="text-xs text-tmobile-gray-600">Growth</span>
+                      </div>
+                      <p className="text-sm font-bold text-tmobile-black">
+                        {incident.growthRate >= 0 ? '+' : ''}{incident.growthRate}/hr
+                      </p>
+                    </div>
+
+                    <div className="text-center">
+                      <div className="flex items-center justify-center gap-1 mb-1">
+                        <span className="text-xs text-tmobile-gray-600">Signals</span>
+                      </div>
+                      <p className="text-sm font-bold text-tmobile-black">
+                        {incident.signalCount}
+                      </p>
+                    </div>
+
+                    <div className="text-center">
+                      <div className="flex items-center justify-center gap-1 mb-1">
+                        <Clock className="h-3 w-3 text-yellow-500" />
+                        <span className="text-xs text-tmobile-gray-600">Started</span>
+                      </div>
+                      <p className="text-sm font-bold text-tmobile-black">
+                        {formatStarted(incident.startedAt)}
+                      </p>
+                    </div>
+
+                    <div className="text-center">
+                      <div className="flex items-center justify-center gap-1 mb-1">
+                        <span className="text-xs text-tmobile-gray-600">Radius</span>
+                      </div>
+                      <p className="text-sm font-bold text-tmobile-black">
+                        {incident.radiusKm} km
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+
             {risingIssues.map((issue) => {
               const severity = getSeverityLabel(issue.velocity)
               return (
@@ -122,6 +245,11 @@ export function EarlyWarningSystem({ risingIssues = [], isLoading = false }: Ear
                       <p className="text-sm font-bold text-tmobile-black">
                         +{issue.velocity}/hr
                       </p>
+                      {issue.rawVelocity !== undefined && (
+                        <p className="text-[10px] text-tmobile-gray-500" title="Velocity with every signal counted equally">
+                          raw +{issue.rawVelocity}/hr
+                        </p>
+                      )}
                     </div>
 
                     <div className="text-center">
@@ -154,12 +282,17 @@ export function EarlyWarningSystem({ risingIssues = [], isLoading = false }: Ear
                     </div>
                   </div>
 
+                  {issue.anomaly && <AnomalyBand anomaly={issue.anomaly} />}
+
                   {/* Progress Bar */}
                   <div className="mt-3">
                     <div className="flex items-center justify-between text-xs text-tmobile-gray-600 mb-1">
                       <span>Intensity Growth</span>
                       <span>
                         {issue.currentIntensity} → {issue.projectedIntensity}
+                        {issue.rawIntensity !== undefined && (
+                          <span className="text-tmobile-gray-500"> (raw {issue.rawIntensity})</span>
+                        )}
                       </span>
                     </div>
                     <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
@@ -179,10 +312,13 @@ export function EarlyWarningSystem({ risingIssues = [], isLoading = false }: Ear
       </div>
 
       {/* Footer */}
-      {risingIssues.length > 0 && (
+      {totalWarnings > 0 && (
         <div className="border-t border-tmobile-gray-200 px-6 py-3 bg-gradient-to-r from-orange-50 to-white">
           <p className="text-xs text-orange-700 font-medium">
-            ⚠️ {risingIssues.length} issue{risingIssues.length > 1 ? 's' : ''} detected with rapid growth
+            ⚠️ {risingIssues.length} issue{risingIssues.length !== 1 ? 's' : ''} rising above normal levels
+            {regionalIncidents.length > 0 && (
+              <>, {regionalIncidents.length} regional incident{regionalIncidents.length !== 1 ? 's' : ''}</>
+            )}
           </p>
         </div>
       )}
@@ -6,10 +6,12 @@ import {
   TileLayer,
   useMap,
   CircleMarker,
+  Polygon,
   Popup,
 } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import type { RegionalIncident } from "@/lib/processing/regional-incidents";
 
 if (typeof window !== "undefined") {
   require("leaflet.heat");
@@ -50,6 +52,7 @@ type MapView = "feedback" | "outage";
 interface GeoHeatmapEnhancedProps {
   feedback: FeedbackPoint[];
   onViewChange?: (view: MapView) => void;
+  excludeSynthetic?: boolean; // Hide replayed fixtures and sample data from incidents and outages
 }
 
 // Color mapping for outage severity
@@ -118,6 +121,76 @@ function HeatLayer({ feedback }: { feedback: FeedbackPoint[] }) {
   return null;
 }
 
+function formatIncidentStart(startedAt: string): string {
+  return new Date(startedAt).toLocaleString("en-US", {
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function IncidentPolygons({ incidents }: { incidents: RegionalIncident[] }) {
+  return (
+    <>
+      {incidents.map((incident) => (
+        <Polygon
+          key={incident.id}
+          positions={incident.polygon}
+          pathOptions={{
+            color: SEVERITY_COLORS[incident.severity],
+            fillColor: SEVERITY_COLORS[incident.severity],
+            fillOpacity: 0.15,
+            weight: 2,
+            dashArray: "6 4",
+          }}
+        >
+          <Popup>
+            <div className="p-2 min-w-[220px]">
+              <h3 className="font-bold text-lg mb-1">Regional Network Incident</h3>
+              <div className="space-y-1 text-sm">
+                <div>
+                  <span className="font-medium">Severity:</span>{" "}
+                  <span
+                    className="px-2 py-0.5 rounded text-white text-xs font-medium"
+                    style={{
+                      backgroundColor: SEVERITY_COLORS[incident.severity],
+                    }}
+                  >
+                    {incident.severity.toUpperCase()}
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium">Signals:</span>{" "}
+                  <span className="text-tmobile-magenta font-semibold">
+                    {incident.signalCount}
+                  </span>{" "}
+                  <span className="text-gray-600">
+                    ({incident.growthRate >= 0 ? "+" : ""}
+                    {incident.growthRate}/hr)
+                  </span>
+                </div>
+                <div>
+                  <span className="font-medium">Started:</span>{" "}
+                  {formatIncidentStart(incident.startedAt)}
+                </div>
+                <div>
+                  <span className="font-medium">Radius:</span>{" "}
+                  {incident.radiusKm} km
+                </div>
+                <div className="text-xs text-gray-600 mt-2 pt-2 border-t">
+                  {incident.affectedMetros
+                    .map((metro) => `${metro.name} (${metro.signalCount})`)
+                    .join(", ")}
+                </div>
+              </div>
+            </div>
+          </Popup>
+        </Polygon>
+      ))}
+    </>
+  );
+}
+
 function OutageMarkers({ outages }: { outages: OutagePoint[] }) {
   const map = useMap();
 
@@ -195,9 +268,12 @@ function OutageMarkers({ outages }: { outages: OutagePoint[] }) {
 export function GeoHeatmapEnhanced({
   feedback,
   onViewChange,
+  excludeSynthetic = false,
 }: GeoHeatmapEnhancedProps) {
   const [mapView, setMapView] = useState<MapView>("feedback");
   const [outages, setOutages] = useState<OutagePoint[]>([]);
+  const [outagesFilter, setOutagesFilter] = useState<boolean | null>(null); // excludeSynthetic the outages were loaded with
+  const [incidents, setIncidents] = useState<RegionalIncident[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -218,17 +294,34 @@ export function GeoHeatmapEnhanced({
       point.lng <= 180
   );
 
-  // Fetch outage data when switching to outage view
+  const syntheticQuery = excludeSynthetic ? "?synthetic=exclude" : "";
+
+  // Regional incidents are drawn over both views
+  useEffect(() => {
+    fetch(`/api/dashboard/regional-incidents${syntheticQuery}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) {
+          setIncidents(data.incidents);
+        }
+      })
+      .catch((err) => {
+        console.error("Error fetching regional incidents:", err);
+      });
+  }, [syntheticQuery]);
+
+  // Fetch outage data when switching to outage view or changing the data filter
   useEffect(() => {
-    if (mapView === "outage" && outages.length === 0) {
+    if (mapView === "outage" && outagesFilter !== excludeSynthetic) {
       setLoading(true);
       setError(null);
 
-      fetch("/api/dashboard/outages")
+      fetch(`/api/dashboard/outages${syntheticQuery}`)
         .then((res) => res.json())
         .then((data) => {
           if (data.success) {
             setOutages(data.data);
+            setOutagesFilter(excludeSynthetic);
           } else {
             setError(data.message || "Failed to load outage data");
           }
@@ -241,7 +334,7 @@ export function GeoHeatmapEnhanced({
           setLoading(false);
         });
     }
-  }, [mapView, outages.length]);
+  }, [mapView, outagesFilter, excludeSynthetic, syntheticQuery]);
 
   const hasData =
     (mapView === "feedback" && validFeedback.length > 0) ||
@@ -336,6 +429,7 @@ export function GeoHeatmapEnhanced({
 
             {mapView === "feedback" && <HeatLayer feedback={validFeedback} />}
             {mapView === "outage" && <OutageMarkers outages={outages} />}
+            <IncidentPolygons incidents={incidents} />
           </MapContainer>
         )}
       </div>
@@ -411,6 +505,14 @@ export function GeoHeatmapEnhanced({
               </span>
             </>
           )}
+          {incidents.length > 0 && (
+            <div className="flex items-center gap-1 ml-4">
+              <div className="w-4 h-4 rounded-sm border-2 border-dashed border-red-600 bg-red-600/15"></div>
+              <span className="text-xs text-tmobile-gray-600">
+                Regional incident ({incidents.length})
+              </span>
+            </div>
+          )}
         </div>
       )}
     </div>
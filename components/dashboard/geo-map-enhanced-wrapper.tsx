@@ -14,6 +14,7 @@ interface FeedbackPoint {
 interface GeoMapEnhancedWrapperProps {
   feedback: FeedbackPoint[]
   onViewChange?: (view: 'feedback' | 'outage') => void
+  excludeSynthetic?: boolean // Hide replayed fixtures and sample data from incidents and outages
 }
 
 // Dynamically import GeoHeatmapEnhanced with SSR disabled (Leaflet requires browser APIs)
@@ -31,6 +32,6 @@ const GeoHeatmapEnhanced = dynamic(
   }
 )
 
-export function GeoMapEnhancedWrapper({ feedback, onViewChange }: GeoMapEnhancedWrapperProps) {
-  return <GeoHeatmapEnhanced feedback={feedback} onViewChange={onViewChange} />
+export function GeoMapEnhancedWrapper({ feedback, onViewChange, excludeSynthetic = false }: GeoMapEnhancedWrapperProps) {
+  return <GeoHeatmapEnhanced feedback={feedback} onViewChange={onViewChange} excludeSynthetic={excludeSynthetic} />
 }
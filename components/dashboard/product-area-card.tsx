@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { CHIGauge } from './chi-gauge'
 import { cardVariants, getProductAreaAccent } from '@/lib/utils/card-styles'
 import { cn } from '@/lib/utils'
+import type { CHIInterval } from '@/lib/utils/chi'
 
 interface ProductAreaCardProps {
   name: string
@@ -12,6 +13,10 @@ interface ProductAreaCardProps {
   chi: number
   trend: number // Positive = up, negative = down, 0 = flat
   signalCount: number
+  rawChi?: number // CHI without source credibility weighting
+  weightedSignalCount?: number // Signals scaled by source credibility
+  chiInterval?: CHIInterval | null // 95% credible interval around chi
+  insufficientData?: boolean // Too few signals for chi to mean much
   onClick?: () => void
 }
 
@@ -21,6 +26,10 @@ export function ProductAreaCard({
   chi,
   trend,
   signalCount,
+  rawChi,
+  weightedSignalCount,
+  chiInterval,
+  insufficientData = false,
   onClick,
 }: ProductAreaCardProps) {
   const getTrendIcon = () => {
@@ -75,21 +84,45 @@ export function ProductAreaCard({
       <CardContent className="space-y-4">
         {/* Mini CHI Gauge */}
         <div className="flex justify-center">
-          <CHIGauge score={chi} size="sm" showLabel={false} />
+          <CHIGauge
+            score={chi}
+            size="sm"
+            showLabel={false}
+            interval={chiInterval}
+            insufficientData={insufficientData}
+          />
         </div>
 
         {/* CHI with Trend */}
         <div className="flex items-center justify-between">
           <div>
             <div className="text-sm text-tmobile-gray-600">CHI Score</div>
-            <div className="text-2xl font-bold" style={{ color }}>
-              {Math.round(chi)}
-            </div>
-          </div>
-          <div className={`flex items-center gap-1 ${getTrendColor()}`}>
-            {getTrendIcon()}
-            <span className="text-sm font-semibold">{getTrendText()}</span>
+            {insufficientData ? (
+              <div className="text-sm font-semibold text-tmobile-gray-500" title="Too few signals for a reliable score">
+                Insufficient data
+              </div>
+            ) : (
+              <>
+                <div className="text-2xl font-bold" style={{ color }}>
+                  {Math.round(chi)}
+                </div>
+                {chiInterval && (
+                  <div className="text-xs text-tmobile-gray-500" title="95% credible interval">
+                    95% interval {chiInterval.low}–{chiInterval.high}
+                  </div>
+                )}
+                {rawChi !== undefined && (
+                  <div className="text-xs text-tmobile-gray-500">Unweighted {Math.round(rawChi)}</div>
+                )}
+              </>
+            )}
           </div>
+          {!insufficientData && (
+            <div className={`flex items-center gap-1 ${getTrendColor()}`}>
+              {getTrendIcon()}
+              <span className="text-sm font-semibold">{getTrendText()}</span>
+            </div>
+          )}
         </div>
 
         {/* Signal Count */}
@@ -100,6 +133,12 @@ export function ProductAreaCard({
               {signalCount}
             </span>
           </div>
+          {weightedSignalCount !== undefined && (
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-tmobile-gray-500">Credibility-weighted</span>
+              <span className="text-xs font-semibold text-tmobile-gray-600">{weightedSignalCount}</span>
+            </div>
+          )}
         </div>
 
         {/* Hover effect indicator */}
@@ -12,12 +12,17 @@ import { Badge } from '@/components/ui/badge'
 import { CHIGauge } from './chi-gauge'
 import { SentimentTimeline } from './sentiment-timeline'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { CHIHistoryPoint } from '@/lib/utils/chi-history'
+import type { CHIInterval } from '@/lib/utils/chi'
 
 interface ProductArea {
   id: string
   name: string
   color: string
   chi: number
+  rawChi?: number
+  chiInterval?: CHIInterval | null
+  insufficientData?: boolean
   trend: number
   signalCount: number
 }
@@ -41,12 +46,19 @@ interface ProductAreaDetailData {
     sentiment: number
     sourceCount: number
   }>
+  aspects: Array<{
+    aspect: string
+    sentiment: number
+    mentions: number
+    inArea: boolean
+  }>
 }
 
 interface ProductAreaDetailProps {
   productArea: ProductArea | null
   isOpen: boolean
   onClose: () => void
+  excludeSynthetic?: boolean // Leave out signals from replayed fixtures and sample data
 }
 
 interface RecommendedAction {
@@ -58,18 +70,20 @@ export function ProductAreaDetail({
   productArea,
   isOpen,
   onClose,
+  excludeSynthetic = false,
 }: ProductAreaDetailProps) {
   const [detailData, setDetailData] = useState<ProductAreaDetailData | null>(null)
   const [loading, setLoading] = useState(false)
   const [actions, setActions] = useState<RecommendedAction[]>([])
   const [loadingActions, setLoadingActions] = useState(false)
   const [actionsError, setActionsError] = useState<string | null>(null)
+  const [chiHistory, setChiHistory] = useState<{ points: CHIHistoryPoint[]; delta: number | null } | null>(null)
 
   // Fetch detailed data when modal opens
   useEffect(() => {
     if (isOpen && productArea) {
       setLoading(true)
-      fetch(`/api/dashboard/product-area/${productArea.id}`)
+      fetch(`/api/dashboard/product-area/${productArea.id}${excludeSynthetic ? '?synthetic=exclude' : ''}`)
         .then((res) => res.json())
         .then((data) => {
           setDetailData(data)
@@ -80,7 +94,23 @@ export function ProductAreaDetail({
           setLoading(false)
         })
     }
-  }, [isOpen, productArea])
+  }, [isOpen, productArea, excludeSynthetic])
+
+  // Fetch stored CHI for the last 7 days when modal opens
+  useEffect(() => {
+    if (isOpen && productArea) {
+      fetch(`/api/dashboard/chi-history?product_area_id=${productArea.id}&days=7&granularity=daily${excludeSynthetic ? '&synthetic=exclude' : ''}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.success) {
+            setChiHistory({ points: data.points, delta: data.comparison?.delta ?? null })
+          }
+        })
+        .catch((error) => {
+          console.error('Error fetching CHI history:', error)
+        })
+    }
+  }, [isOpen, productArea, excludeSynthetic])
 
   // Fetch recommended actions when modal opens and detail data is available
   useEffect(() => {
@@ -180,6 +210,7 @@ export function ProductAreaDetail({
 
   // Real top issues from API
   const topIssues = detailData?.topIssues || []
+  const aspects = detailData?.aspects || []
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -236,7 +267,17 @@ export function ProductAreaDetail({
                 </CardTitle>
               </CardHeader>
               <CardContent className="flex justify-center pb-8">
-                <CHIGauge score={productArea.chi} size="md" />
+                <CHIGauge
+                  score={productArea.chi}
+                  size="md"
+                  rawScore={productArea.rawChi}
+                  interval={productArea.chiInterval}
+                  insufficientData={productArea.insufficientData}
+                  signalCount={productArea.signalCount}
+                  history={chiHistory?.points}
+                  historyDelta={chiHistory?.delta}
+                  historyLabel="vs previous 7 days"
+                />
               </CardContent>
             </Card>
 
@@ -393,6 +434,42 @@ export function ProductAreaDetail({
             </CardContent>
           </Card>
 
+          {/* Aspect Sentiment */}
+          {aspects.length > 0 && (
+            <Card className="border-0 shadow-xl bg-gradient-to-br from-white via-white to-gray-50/50 overflow-hidden">
+              <div
+                className="h-1 w-full"
+                style={{ backgroundColor: productArea.color }}
+              />
+              <CardHeader>
+                <CardTitle className="text-lg font-bold bg-gradient-to-r from-tmobile-magenta to-purple-600 bg-clip-text text-transparent">
+                  Aspect Sentiment
+                </CardTitle>
+                <p className="text-sm text-tmobile-gray-600">
+                  Sentiment toward each aspect customers mention, scored per clause
+                </p>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  {aspects.map((aspect) => (
+                    <Badge
+                      key={aspect.aspect}
+                      className={
+                        aspect.sentiment >= 0
+                          ? 'text-green-700 bg-green-50 border border-green-200'
+                          : 'text-red-700 bg-red-50 border border-red-200'
+                      }
+                      style={aspect.inArea ? undefined : { opacity: 0.6 }}
+                    >
+                      {aspect.aspect.replace('_', ' ')} {aspect.sentiment >= 0 ? '+' : ''}
+                      {aspect.sentiment.toFixed(2)} · {aspect.mentions}
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Action Items */}
           <Card className="border-0 shadow-xl overflow-hidden relative">
             <div
@@ -0,0 +1,93 @@
+'use client'
+
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { ArrowRight, MapPin, Radio } from 'lucide-react'
+import type { AffectedRegion, IncidentStatus } from '@/lib/processing/incidents'
+import type { IncidentSeverity } from '@/lib/processing/regional-incidents'
+
+export interface IncidentSummary {
+  id: string
+  title: string
+  status: IncidentStatus
+  severity: IncidentSeverity
+  started_at: string
+  last_signal_at: string
+  confirmed_at: string | null
+  mitigating_at: string | null
+  resolved_at: string | null
+  signal_count: number
+  sources: string[]
+  affected_regions: AffectedRegion[]
+  opportunity_id: string | null
+  synthetic: boolean
+}
+
+export const STATUS_LABELS: Record<IncidentStatus, string> = {
+  suspected: 'Suspected',
+  confirmed: 'Confirmed',
+  mitigating: 'Mitigating',
+  resolved: 'Resolved',
+}
+
+export const STATUS_STYLES: Record<IncidentStatus, string> = {
+  suspected: 'bg-amber-100 text-amber-700 border-amber-200',
+  confirmed: 'bg-red-100 text-red-700 border-red-200',
+  mitigating: 'bg-blue-100 text-blue-700 border-blue-200',
+  resolved: 'bg-green-100 text-green-700 border-green-200',
+}
+
+export const SEVERITY_STYLES: Record<IncidentSeverity, string> = {
+  critical: 'bg-red-600 text-white border-red-600',
+  high: 'bg-orange-500 text-white border-orange-500',
+  medium: 'bg-yellow-400 text-gray-900 border-yellow-400',
+  low: 'bg-gray-200 text-gray-700 border-gray-200',
+}
+
+export function describeRegions(regions: AffectedRegion[], limit = 3): string {
+  if (regions.length === 0) return 'Location unknown'
+
+  const names = regions.slice(0, limit).map((region) => region.places[0] || region.state)
+  return regions.length > limit ? `${names.join(', ')} +${regions.length - limit} more` : names.join(', ')
+}
+
+interface IncidentCardProps {
+  incident: IncidentSummary
+}
+
+export function IncidentCard({ incident }: IncidentCardProps) {
+  return (
+    <Link href={`/incidents/${incident.id}`} className="block group">
+      <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-5 transition-colors group-hover:border-[#E8258E]">
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <Badge variant="outline" className={STATUS_STYLES[incident.status]}>{STATUS_LABELS[incident.status]}</Badge>
+          <Badge className={SEVERITY_STYLES[incident.severity]}>{incident.severity}</Badge>
+          {incident.synthetic && <Badge variant="outline">Synthetic</Badge>}
+          {incident.opportunity_id && <Badge variant="secondary">Opportunity</Badge>}
+          <span className="ml-auto text-xs text-tmobile-gray-500">
+            Started {formatDistanceToNow(new Date(incident.started_at), { addSuffix: true })}
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="font-bold text-gray-900">{incident.title}</h3>
+          <ArrowRight className="h-4 w-4 text-tmobile-gray-400 group-hover:text-[#E8258E] shrink-0" />
+        </div>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-sm text-tmobile-gray-600">
+          <span className="flex items-center gap-1">
+            <MapPin className="h-3.5 w-3.5" />
+            {describeRegions(incident.affected_regions)}
+          </span>
+          <span className="flex items-center gap-1">
+            <Radio className="h-3.5 w-3.5" />
+            {incident.signal_count} signals from {incident.sources.join(', ')}
+          </span>
+          <span>Last signal {formatDistanceToNow(new Date(incident.last_signal_at), { addSuffix: true })}</span>
+        </div>
+      </Card>
+    </Link>
+  )
+}
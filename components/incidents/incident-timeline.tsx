@@ -0,0 +1,37 @@
+'use client'
+
+import { format } from 'date-fns'
+import type { IncidentTimelineEntry } from '@/lib/processing/incidents'
+import { STATUS_STYLES } from './incident-card'
+
+interface IncidentTimelineProps {
+  entries: IncidentTimelineEntry[]
+}
+
+export function IncidentTimeline({ entries }: IncidentTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-tmobile-gray-600">No timeline entries yet.</p>
+  }
+
+  // Newest first
+  const ordered = [...entries].reverse()
+
+  return (
+    <ol className="relative border-l-2 border-tmobile-gray-200 ml-2 space-y-4">
+      {ordered.map((entry, index) => (
+        <li key={`${entry.at}-${index}`} className="ml-4">
+          <span
+            className={`absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full border ${
+              entry.status ? STATUS_STYLES[entry.status] : 'bg-white border-tmobile-gray-300'
+            }`}
+          />
+          <p className="text-xs text-tmobile-gray-500">
+            {format(new Date(entry.at), 'MMM d, h:mm a')}
+            {entry.by && <span> · {entry.by}</span>}
+          </p>
+          <p className="text-sm text-gray-900">{entry.message}</p>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -19,7 +19,11 @@ export function Navbar({ userEmail }: NavbarProps) {
 
   const navItems = [
     { href: '/dashboard', label: 'Dashboard' },
+    { href: '/incidents', label: 'Incidents' },
     { href: '/pm/opportunities', label: 'PM Workbench' },
+    { href: '/pm/taxonomy', label: 'Taxonomy' },
+    { href: '/pm/quality', label: 'Quality' },
+    { href: '/pm/alerts', label: 'Alerts' },
     { href: '/pipeline', label: 'Pipeline' },
     { href: '/dashboard/geo', label: 'Map View' },
   ]
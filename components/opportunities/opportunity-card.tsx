@@ -47,6 +47,7 @@ interface OpportunityCardProps {
     }
     meta?: {
       insights?: unknown
+      raw_reach?: number
       prd?: unknown
       stories?: unknown[]
       closeloop?: {
@@ -210,6 +211,11 @@ export function OpportunityCard({
             <div className="text-center">
               <div className="text-xs text-tmobile-gray-500 mb-1">Reach</div>
               <div className="text-lg font-semibold text-tmobile-black">{opportunity.reach}</div>
+              {opportunity.meta?.raw_reach !== undefined && opportunity.meta.raw_reach !== opportunity.reach && (
+                <div className="text-xs text-tmobile-gray-500" title="Reach before source credibility weighting">
+                  raw {opportunity.meta.raw_reach}
+                </div>
+              )}
             </div>
             <div className="text-center">
               <div className="text-xs text-tmobile-gray-500 mb-1">Impact</div>
@@ -0,0 +1,127 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { RotateCcw, Trash2 } from 'lucide-react'
+
+export interface PipelineFailure {
+  id: string
+  stage: 'scrape' | 'process'
+  source: string
+  raw_event_id: string | null
+  error: string
+  attempts: number
+  status: 'pending' | 'dead' | 'resolved' | 'discarded'
+  next_retry_at: string | null
+  first_failed_at: string
+  last_failed_at: string
+  resolved_at: string | null
+}
+
+export interface StuckEvent {
+  id: string
+  source: string
+  created_at: string
+  claimed_at: string | null
+  retry_after: string | null
+}
+
+export const STATUS_LABELS: Record<PipelineFailure['status'], string> = {
+  pending: 'Retrying',
+  dead: 'Dead-lettered',
+  resolved: 'Resolved',
+  discarded: 'Discarded',
+}
+
+const STATUS_VARIANTS: Record<PipelineFailure['status'], 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  pending: 'secondary',
+  dead: 'destructive',
+  resolved: 'outline',
+  discarded: 'outline',
+}
+
+interface FailureCardProps {
+  failure: PipelineFailure
+  maxAttempts: number
+  busy: boolean
+  onReplay: (failure: PipelineFailure) => void
+  onDiscard: (failure: PipelineFailure) => void
+}
+
+export function FailureCard({ failure, maxAttempts, busy, onReplay, onDiscard }: FailureCardProps) {
+  const open = failure.status === 'pending' || failure.status === 'dead'
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-tmobile-gray-600">
+          <Badge variant={STATUS_VARIANTS[failure.status]}>{STATUS_LABELS[failure.status]}</Badge>
+          <Badge variant="outline">{failure.stage === 'scrape' ? 'Scrape' : 'Process'}</Badge>
+          <Badge variant="outline">{failure.source}</Badge>
+          <span>
+            Attempt {failure.attempts} of {maxAttempts}
+          </span>
+          <span>· last failed {formatDistanceToNow(new Date(failure.last_failed_at), { addSuffix: true })}</span>
+          {failure.status === 'pending' && failure.next_retry_at && (
+            <span>· next retry {formatDistanceToNow(new Date(failure.next_retry_at), { addSuffix: true })}</span>
+          )}
+        </div>
+        {open && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => onReplay(failure)}>
+              <RotateCcw />
+              Replay
+            </Button>
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => onDiscard(failure)}>
+              <Trash2 />
+              Discard
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm font-mono text-gray-900 break-words line-clamp-3">{failure.error}</p>
+      {failure.raw_event_id && (
+        <p className="text-xs text-tmobile-gray-600 mt-2">Raw event {failure.raw_event_id}</p>
+      )}
+    </Card>
+  )
+}
+
+export function StuckEventList({ events, stuckAfterMinutes }: { events: StuckEvent[]; stuckAfterMinutes: number }) {
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-tmobile-gray-600">
+        No unprocessed events older than {stuckAfterMinutes} minutes
+      </p>
+    )
+  }
+
+  return (
+    <div className="divide-y divide-tmobile-gray-200">
+      {events.map((event) => {
+        const waiting = event.retry_after
+          ? event.retry_after === 'infinity'
+            ? 'dead-lettered'
+            : `retry ${formatDistanceToNow(new Date(event.retry_after), { addSuffix: true })}`
+          : event.claimed_at
+            ? `claimed ${formatDistanceToNow(new Date(event.claimed_at), { addSuffix: true })}`
+            : 'waiting for the next run'
+
+        return (
+          <div key={event.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{event.source}</Badge>
+              <span className="font-mono text-xs text-tmobile-gray-600">{event.id}</span>
+            </div>
+            <span className="text-tmobile-gray-600">
+              fetched {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })} · {waiting}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { ExternalLink } from 'lucide-react'
+
+export interface RejectedItemReason {
+  code: string
+  detail: string
+  penalty: number
+}
+
+export interface RejectedItem {
+  id: string
+  source: string
+  text: string
+  url: string | null
+  score: number
+  reasons: RejectedItemReason[]
+  pipeline_version: string | null
+  rejected_at: string
+}
+
+export const REASON_LABELS: Record<string, string> = {
+  link_density: 'Link density',
+  boilerplate: 'Boilerplate',
+  promotional: 'Promotional',
+  low_text_quality: 'Low text quality',
+  bot_pattern: 'Bot pattern',
+  news_voice: 'News, not customer voice',
+  repeated_text: 'Repeated text',
+}
+
+interface ReasonFilterProps {
+  reasonCounts: Record<string, number>
+  selected: string | null
+  onSelect: (reason: string | null) => void
+}
+
+export function ReasonFilter({ reasonCounts, selected, onSelect }: ReasonFilterProps) {
+  const reasons = Object.entries(reasonCounts).sort((a, b) => b[1] - a[1])
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button
+        onClick={() => onSelect(null)}
+        className={`rounded-full border px-3 py-1 text-sm font-semibold transition-colors ${
+          selected === null
+            ? 'border-[#E8258E] bg-[#E8258E] text-white'
+            : 'border-tmobile-gray-200 bg-white text-tmobile-gray-600 hover:border-[#E8258E]'
+        }`}
+      >
+        All reasons
+      </button>
+      {reasons.map(([code, count]) => (
+        <button
+          key={code}
+          onClick={() => onSelect(code)}
+          className={`rounded-full border px-3 py-1 text-sm font-semibold transition-colors ${
+            selected === code
+              ? 'border-[#E8258E] bg-[#E8258E] text-white'
+              : 'border-tmobile-gray-200 bg-white text-tmobile-gray-600 hover:border-[#E8258E]'
+          }`}
+        >
+          {REASON_LABELS[code] || code} · {count}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export function RejectedItemCard({ item }: { item: RejectedItem }) {
+  const reasons = [...item.reasons].sort((a, b) => b.penalty - a.penalty)
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-5">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="flex items-center gap-2 text-sm text-tmobile-gray-600">
+          <Badge variant="outline">{item.source}</Badge>
+          <span>{formatDistanceToNow(new Date(item.rejected_at), { addSuffix: true })}</span>
+          {item.url && (
+            <a
+              href={item.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 hover:text-[#E8258E]"
+            >
+              <ExternalLink className="h-3.5 w-3.5" />
+              Original
+            </a>
+          )}
+        </div>
+        <span className="text-sm font-semibold text-gray-900">Score {Number(item.score).toFixed(2)}</span>
+      </div>
+
+      <p className="text-sm text-gray-900 mb-3 line-clamp-4">{item.text}</p>
+
+      <div className="space-y-1">
+        {reasons.map((reason) => (
+          <div key={reason.code} className="flex items-center gap-2 text-xs">
+            <Badge variant="destructive">−{reason.penalty.toFixed(2)}</Badge>
+            <span className="font-semibold">{REASON_LABELS[reason.code] || reason.code}</span>
+            <span className="text-tmobile-gray-600">{reason.detail}</span>
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+
+interface PreviewResult {
+  language: string
+  productArea: string
+  productAreas: Array<{
+    area: string
+    score: number
+    confidence: number
+    matched: string[]
+  }>
+  topic: string
+  keywords: string[]
+  rulesEvaluated: number
+}
+
+export function ClassificationPreview() {
+  const [text, setText] = useState('')
+  const [result, setResult] = useState<PreviewResult | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handlePreview = async () => {
+    if (!text.trim()) return
+    setLoading(true)
+    try {
+      const response = await fetch('/api/taxonomy/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to classify text')
+      }
+
+      setResult(data)
+    } catch (err) {
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to classify text',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+      <h3 className="font-bold text-lg mb-1">Preview classification</h3>
+      <p className="text-sm text-tmobile-gray-600 mb-4">
+        Paste a post or review to see how the current rules rank it
+      </p>
+
+      <Textarea
+        placeholder="e.g. The app shows the wrong bill amount every month"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={4}
+        className="mb-3"
+      />
+      <Button onClick={handlePreview} disabled={loading || !text.trim()}>
+        {loading ? 'Classifying...' : 'Classify'}
+      </Button>
+
+      {result && (
+        <div className="mt-6 space-y-3">
+          <div className="text-sm text-tmobile-gray-600">
+            Primary area: <span className="font-semibold text-gray-900">{result.productArea}</span>
+            {' · '}topic: <span className="font-semibold text-gray-900">{result.topic || '—'}</span>
+            {' · '}language: <span className="font-semibold text-gray-900">{result.language}</span>
+            {' · '}{result.rulesEvaluated} rules evaluated
+          </div>
+
+          {result.productAreas.length === 0 && (
+            <p className="text-sm text-tmobile-gray-600">No area reached the confidence threshold (classified as General).</p>
+          )}
+
+          {result.productAreas.map((match) => (
+            <div key={match.area}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium">{match.area}</span>
+                <span className="text-tmobile-gray-600">
+                  score {match.score} · {Math.round(match.confidence * 100)}% confidence
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-tmobile-gray-200 overflow-hidden">
+                <div
+                  className="h-full bg-[#E8258E]"
+                  style={{ width: `${Math.round(match.confidence * 100)}%` }}
+                />
+              </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {match.matched.map((pattern) => (
+                  <Badge key={pattern} variant="secondary">{pattern}</Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="text-xs text-tmobile-gray-600">
+            Keywords: {result.keywords.join(', ') || '—'}
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
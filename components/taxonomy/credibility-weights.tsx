@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { LoadingSpinner } from '@/components/ui/loading-spinner'
+import { toast } from 'sonner'
+
+interface CredibilityData {
+  sources: Record<string, number>
+  contentTypes: Record<string, number>
+  contentTypeLabels: Record<string, string>
+}
+
+type WeightKind = 'source' | 'content_type'
+
+function WeightRow({
+  kind,
+  name,
+  label,
+  weight,
+  onSave,
+}: {
+  kind: WeightKind
+  name: string
+  label: string
+  weight: number
+  onSave: (kind: WeightKind, key: string, weight: number) => void
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2 py-1">
+      <span className="text-sm text-gray-900">{label}</span>
+      <Input
+        type="number"
+        min={0}
+        max={2}
+        step={0.1}
+        defaultValue={weight}
+        aria-label={`Weight for ${label}`}
+        className="h-7 w-16 text-xs"
+        onBlur={(e) => {
+          const value = Number(e.target.value)
+          if (e.target.value !== '' && value >= 0 && value <= 2 && value !== weight) onSave(kind, name, value)
+        }}
+      />
+    </div>
+  )
+}
+
+/**
+ * Source and content-type multipliers applied to signal intensity in CHI,
+ * product-area volume, RICE reach and early-warning velocity
+ */
+export function CredibilityWeights() {
+  const [data, setData] = useState<CredibilityData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchWeights = async () => {
+    try {
+      const response = await fetch('/api/taxonomy/credibility')
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to fetch credibility weights')
+      }
+
+      setData(result)
+    } catch (err) {
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to fetch credibility weights',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchWeights()
+  }, [])
+
+  const handleSave = async (kind: WeightKind, key: string, weight: number) => {
+    try {
+      const response = await fetch('/api/taxonomy/credibility', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kind, key, weight }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to update weight')
+      }
+
+      toast.success('Weight updated')
+      await fetchWeights()
+    } catch (err) {
+      toast.error('Error', {
+        description: err instanceof Error ? err.message : 'Failed to update weight',
+      })
+    }
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+      <h3 className="font-bold text-lg mb-1">Source credibility</h3>
+      <p className="text-sm text-tmobile-gray-600 mb-4">
+        A signal counts as intensity × source weight × content-type weight (0–2, unlisted sources count 1)
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="md" variant="gradient" />
+        </div>
+      ) : data ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-1">
+          <div>
+            <div className="text-xs-label mb-1">Sources</div>
+            {Object.entries(data.sources)
+              .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+              .map(([source, weight]) => (
+                <WeightRow key={`${source}-${weight}`} kind="source" name={source} label={source} weight={weight} onSave={handleSave} />
+              ))}
+          </div>
+          <div>
+            <div className="text-xs-label mb-1">Content types</div>
+            {Object.entries(data.contentTypes).map(([contentType, weight]) => (
+              <WeightRow
+                key={`${contentType}-${weight}`}
+                kind="content_type"
+                name={contentType}
+                label={data.contentTypeLabels[contentType] || contentType}
+                weight={weight}
+                onSave={handleSave}
+              />
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-tmobile-gray-600">Credibility weights are unavailable right now.</p>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { Plus, Trash2 } from 'lucide-react'
+import { SUPPORTED_LANGUAGES } from '@/lib/processing/language'
+
+export interface TaxonomyRule {
+  id: string
+  pattern: string
+  weight: number
+  negative: boolean
+  language: string
+}
+
+export interface TaxonomyArea {
+  id: string
+  name: string
+  color: string | null
+  rules: TaxonomyRule[]
+}
+
+interface RuleEditorProps {
+  area: TaxonomyArea
+  onCreate: (areaId: string, rule: Omit<TaxonomyRule, 'id'>) => Promise<void>
+  onUpdate: (ruleId: string, updates: Partial<Omit<TaxonomyRule, 'id'>>) => Promise<void>
+  onDelete: (ruleId: string) => Promise<void>
+}
+
+export function RuleEditor({ area, onCreate, onUpdate, onDelete }: RuleEditorProps) {
+  const [pattern, setPattern] = useState('')
+  const [weight, setWeight] = useState('1')
+  const [negative, setNegative] = useState(false)
+  const [language, setLanguage] = useState('en')
+  const [saving, setSaving] = useState(false)
+
+  const sortedRules = [...area.rules].sort((a, b) =>
+    Number(a.negative) - Number(b.negative) || b.weight - a.weight || a.pattern.localeCompare(b.pattern)
+  )
+
+  const handleAdd = async () => {
+    if (!pattern.trim()) return
+    setSaving(true)
+    try {
+      await onCreate(area.id, { pattern: pattern.trim(), weight: Number(weight) || 1, negative, language })
+      setPattern('')
+      setWeight('1')
+      setNegative(false)
+      setLanguage('en')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <span
+          className="h-3 w-3 rounded-full"
+          style={{ backgroundColor: area.color || '#6B7280' }}
+        />
+        <h3 className="font-bold text-lg">{area.name}</h3>
+        <span className="text-sm text-tmobile-gray-600">{area.rules.length} rules</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {sortedRules.length === 0 && (
+          <p className="text-sm text-tmobile-gray-600">No rules yet. Built-in defaults apply until a rule is added.</p>
+        )}
+        {sortedRules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex items-center gap-1 rounded-lg border border-tmobile-gray-200 bg-white px-2 py-1"
+          >
+            <Badge variant={rule.negative ? 'destructive' : 'secondary'}>
+              {rule.negative ? '−' : ''}{rule.pattern}
+            </Badge>
+            {rule.language !== 'en' && (
+              <span className="text-xs font-semibold uppercase text-tmobile-gray-600">{rule.language}</span>
+            )}
+            <Input
+              type="number"
+              min={0.1}
+              max={10}
+              step={0.1}
+              defaultValue={rule.weight}
+              aria-label={`Weight for ${rule.pattern}`}
+              className="h-7 w-16 text-xs"
+              onBlur={(e) => {
+                const value = Number(e.target.value)
+                if (value > 0 && value !== rule.weight) onUpdate(rule.id, { weight: value })
+              }}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onUpdate(rule.id, { negative: !rule.negative })}
+            >
+              {rule.negative ? 'Make positive' : 'Make negative'}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2"
+              aria-label={`Delete ${rule.pattern}`}
+              onClick={() => onDelete(rule.id)}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          placeholder="Keyword or phrase"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          className="max-w-xs"
+        />
+        <Input
+          type="number"
+          min={0.1}
+          max={10}
+          step={0.1}
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+          aria-label="Weight"
+          className="w-20"
+        />
+        <label className="flex items-center gap-2 text-sm text-tmobile-gray-600">
+          <input
+            type="checkbox"
+            checked={negative}
+            onChange={(e) => setNegative(e.target.checked)}
+          />
+          Negative
+        </label>
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          aria-label="Language"
+          className="h-9 rounded-md border border-tmobile-gray-200 bg-white px-2 text-sm"
+        >
+          {Object.entries(SUPPORTED_LANGUAGES).map(([code, label]) => (
+            <option key={code} value={code}>{label}</option>
+          ))}
+        </select>
+        <Button size="sm" onClick={handleAdd} disabled={saving || !pattern.trim()}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add rule
+        </Button>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { formatNumber } from '@/lib/utils/number-format'
+import type { JobSummary, PipelineJob, PipelineMetrics, PipelineRun, RunStatus } from '@/lib/processing/pipeline-runs'
+
+export const JOB_LABELS: Record<PipelineJob, string> = {
+  ingest: 'Ingest',
+  process: 'Process',
+  snapshots: 'Snapshots',
+  close_loop: 'Close-the-Loop',
+  alerts: 'Alerts',
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  scrape: 'Scrape sources',
+  claim: 'Claim events',
+  extract: 'Extract items',
+  fingerprint: 'Fingerprint',
+  quality: 'Quality gate',
+  analyze: 'Analyze',
+  dedup: 'Deduplicate',
+  write: 'Write signals',
+  incidents: 'Track incidents',
+  snapshot: 'Capture snapshots',
+  chi: 'Capture CHI',
+  monitor: 'Monitor recovery',
+  evaluate: 'Evaluate rules',
+  deliver: 'Deliver alerts',
+}
+
+const STATUS_VARIANTS: Record<RunStatus, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  succeeded: 'outline',
+  partial: 'secondary',
+  failed: 'destructive',
+  running: 'secondary',
+}
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return '–'
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+}
+
+function JobCard({ job, summary }: { job: PipelineJob; summary: JobSummary }) {
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-5">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-lg">{JOB_LABELS[job]}</h3>
+        {summary.lastStatus && <Badge variant={STATUS_VARIANTS[summary.lastStatus]}>{summary.lastStatus}</Badge>}
+      </div>
+      <dl className="grid grid-cols-2 gap-y-1 text-sm">
+        <dt className="text-tmobile-gray-600">Runs</dt>
+        <dd className="text-right font-semibold">{formatNumber(summary.runs)}</dd>
+        <dt className="text-tmobile-gray-600">Failure rate</dt>
+        <dd className={`text-right font-semibold ${summary.failureRate > 0.1 ? 'text-red-600' : ''}`}>
+          {Math.round(summary.failureRate * 100)}%
+        </dd>
+        <dt className="text-tmobile-gray-600">Avg / p95</dt>
+        <dd className="text-right font-semibold">
+          {formatMs(summary.avgDurationMs)} / {formatMs(summary.p95DurationMs)}
+        </dd>
+        <dt className="text-tmobile-gray-600">Last run</dt>
+        <dd className="text-right">
+          {summary.lastRunAt ? formatDistanceToNow(new Date(summary.lastRunAt), { addSuffix: true }) : 'never'}
+        </dd>
+      </dl>
+    </Card>
+  )
+}
+
+/**
+ * Per-job cards and a per-stage table of items in/out, throughput, drops and latency
+ */
+export function PipelineMetricsPanel({ metrics, recentRuns }: { metrics: PipelineMetrics; recentRuns: PipelineRun[] }) {
+  const jobs = Object.entries(metrics.jobs) as Array<[PipelineJob, JobSummary]>
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {jobs.map(([job, summary]) => (
+          <JobCard key={job} job={job} summary={summary} />
+        ))}
+      </div>
+
+      <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6 overflow-x-auto">
+        <h3 className="text-lg font-bold text-gray-900 mb-3">Stages · last {metrics.windowHours} hours</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-tmobile-gray-600 border-b border-tmobile-gray-200">
+              <th className="py-2 pr-4">Stage</th>
+              <th className="py-2 pr-4 text-right">In</th>
+              <th className="py-2 pr-4 text-right">Out</th>
+              <th className="py-2 pr-4 text-right">Per hour</th>
+              <th className="py-2 pr-4 text-right">Dropped</th>
+              <th className="py-2 pr-4">Drop reasons</th>
+              <th className="py-2 pr-4 text-right">Avg time</th>
+              <th className="py-2 text-right">Errors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.flatMap(([job, summary]) =>
+              Object.entries(summary.stages).map(([stage, stats]) => (
+                <tr key={`${job}-${stage}`} className="border-b border-tmobile-gray-100 last:border-0">
+                  <td className="py-2 pr-4">
+                    <span className="text-tmobile-gray-600">{JOB_LABELS[job]} · </span>
+                    <span className="font-semibold">{STAGE_LABELS[stage] || stage}</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">{formatNumber(stats.itemsIn)}</td>
+                  <td className="py-2 pr-4 text-right">{formatNumber(stats.itemsOut)}</td>
+                  <td className="py-2 pr-4 text-right">{formatNumber(stats.throughputPerHour)}</td>
+                  <td className="py-2 pr-4 text-right">{Math.round(stats.dropRate * 100)}%</td>
+                  <td className="py-2 pr-4 text-tmobile-gray-600">
+                    {Object.entries(stats.drops)
+                      .sort((a, b) => b[1] - a[1])
+                      .map(([reason, count]) => `${reason.replace(/_/g, ' ')} ${formatNumber(count)}`)
+                      .join(', ') || '–'}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{formatMs(stats.avgDurationMs)}</td>
+                  <td className={`py-2 text-right ${stats.errors > 0 ? 'text-red-600 font-semibold' : ''}`}>
+                    {formatNumber(stats.errors)}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </Card>
+
+      {recentRuns.length > 0 && (
+        <Card className="bg-white/95 backdrop-blur-sm border-2 border-tmobile-gray-200 shadow-lg p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-3">Recent runs</h3>
+          <div className="divide-y divide-tmobile-gray-200">
+            {recentRuns.map((run) => (
+              <div key={run.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[run.status]}>{run.status}</Badge>
+                  <span className="font-semibold">{JOB_LABELS[run.job]}</span>
+                  {run.error && <span className="text-red-600 line-clamp-1">{run.error}</span>}
+                </div>
+                <span className="text-tmobile-gray-600">
+                  {formatDistanceToNow(new Date(run.started_at), { addSuffix: true })} · {formatMs(run.duration_ms)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,124 @@ import { useState } from 'react'
 import { MermaidDiagram } from '@/components/ui/mermaid-diagram'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
+import { formatNumber } from '@/lib/utils/number-format'
+import type { PipelineMetrics, StageSummary } from '@/lib/processing/pipeline-runs'
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return '–'
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+}
+
+function dropCount(stage: StageSummary | undefined, reasons?: string[]): number {
+  if (!stage) return 0
+  return Object.entries(stage.drops)
+    .filter(([reason]) => !reasons || reasons.includes(reason))
+    .reduce((sum, [, count]) => sum + count, 0)
+}
+
+/**
+ * The pipeline flowchart; with run metrics, nodes show per-stage latency and
+ * edges show how many items moved between stages over the metrics window
+ */
+function pipelineChart(metrics?: PipelineMetrics | null): string {
+  const ingest = metrics?.jobs.ingest
+  const processJob = metrics?.jobs.process
+  const snapshots = metrics?.jobs.snapshots
+  const closeLoop = metrics?.jobs.close_loop
+  const stage = (name: string) => processJob?.stages[name]
+
+  // Node label with an optional metrics line
+  const node = (title: string, detail: string | null) => (detail ? `"${title}<br/><small>${detail}</small>"` : `"${title}"`)
+  const stageDetail = (name: string) => {
+    const summary = stage(name)
+    return summary && processJob?.runs ? `${formatMs(summary.avgDurationMs)} per run` : null
+  }
+  const jobDetail = (job: typeof ingest) =>
+    job?.runs ? `${job.runs} runs · ${Math.round(job.failureRate * 100)}% failed · ${formatMs(job.avgDurationMs)}` : null
+  // Edge with an optional item count
+  const edge = (from: string, to: string, count?: number, label = 'items') =>
+    metrics && count !== undefined ? `${from} -->|${formatNumber(count)} ${label}| ${to}` : `${from} --> ${to}`
+  const dropEdge = (from: string, to: string, count: number, label: string) =>
+    metrics ? `${from} -.->|${formatNumber(count)} ${label}| ${to}` : `${from} -.-> ${to}`
+
+  const unhealthy = [
+    ingest && ingest.failureRate > 0.1 ? 'Scrapers' : null,
+    processJob && processJob.failureRate > 0.1 ? 'Claim' : null,
+    snapshots && snapshots.failureRate > 0.1 ? 'Snapshots' : null,
+    closeLoop && closeLoop.failureRate > 0.1 ? 'CloseLoop' : null,
+    ...['extract', 'fingerprint', 'quality', 'analyze', 'dedup', 'write']
+      .filter(name => (stage(name)?.errors || 0) > 0)
+      .map(name => name.charAt(0).toUpperCase() + name.slice(1)),
+  ].filter(Boolean)
+
+  return `flowchart TB
+    subgraph Sources
+        Reddit[Reddit<br/>r/tmobile]
+        DD[DownDetector]
+        Community[T-Mobile Community]
+        AppReviews[App Store Reviews]
+    end
+
+    subgraph Ingestion
+        Scrapers[${node('Scrapers<br/>Every 15min', jobDetail(ingest))}]
+        RawEvents[(raw_events<br/>Table)]
+    end
+
+    subgraph Processing
+        Claim[${node('Claim Batch', jobDetail(processJob))}]
+        Extract[${node('Item Extraction', stageDetail('extract'))}]
+        Fingerprint[${node('Fingerprint<br/>Dedup', stageDetail('fingerprint'))}]
+        Quality[${node('Quality Gate', stageDetail('quality'))}]
+        Analyze[${node('Language · Sentiment<br/>Topic · Product Area', stageDetail('analyze'))}]
+        Dedup[${node('Deduplication', stageDetail('dedup'))}]
+        Write[${node('Bulk Write', stageDetail('write'))}]
+        Signals[(signals<br/>Table)]
+        Rejected[(rejected_items)]
+        Failures[(pipeline_failures)]
+    end
+
+    subgraph Intelligence
+        CHI[CHI Score<br/>Calculation]
+        Dashboard[Dashboard<br/>Charts]
+        Auto[Auto-Create<br/>Opportunities]
+        Snapshots[${node('Intensity Snapshots', jobDetail(snapshots))}]
+    end
+
+    subgraph PMWorkbench
+        Opps[(opportunity_cards<br/>Table)]
+        RICE[RICE<br/>Prioritization]
+        PRD[PRD<br/>Generation]
+        Stories[User Stories]
+        CloseLoop[${node('Close-the-Loop<br/>Monitoring', jobDetail(closeLoop))}]
+    end
+
+    Sources --> Scrapers
+    ${edge('Scrapers', 'RawEvents', ingest?.stages.scrape?.itemsOut, 'sources ok')}
+    ${edge('RawEvents', 'Claim', stage('claim')?.itemsIn, 'events')}
+    ${edge('Claim', 'Extract', stage('extract')?.itemsIn, 'events')}
+    ${edge('Extract', 'Fingerprint', stage('fingerprint')?.itemsIn)}
+    ${edge('Fingerprint', 'Quality', stage('quality')?.itemsIn)}
+    ${edge('Quality', 'Analyze', stage('analyze')?.itemsIn)}
+    ${edge('Analyze', 'Dedup', stage('dedup')?.itemsIn)}
+    ${edge('Dedup', 'Write', stage('dedup')?.itemsOut, 'new')}
+    ${edge('Write', 'Signals', stage('write')?.itemsOut, 'rows')}
+    ${dropEdge('Quality', 'Rejected', dropCount(stage('quality')), 'rejected')}
+    ${dropEdge('Claim', 'Failures', dropCount(stage('claim'), ['failed']), 'failed')}
+
+    Signals --> CHI
+    Signals --> Dashboard
+    Signals --> Auto
+    ${edge('Signals', 'Snapshots', snapshots?.stages.snapshot?.itemsIn, 'signals')}
+
+    Auto --> Opps
+    Opps --> RICE
+    RICE --> PRD
+    PRD --> Stories
+    ${edge('Opps', 'CloseLoop', closeLoop?.stages.monitor?.itemsIn, 'monitored')}
+${unhealthy.length > 0 ? `
+    classDef unhealthy fill:#FEE2E2,stroke:#DC2626,color:#991B1B
+    class ${unhealthy.join(',')} unhealthy` : ''}`
+}
 
 const diagrams = {
   journey: {
@@ -61,56 +179,7 @@ const diagrams = {
   pipeline: {
     title: 'Data Pipeline Architecture',
     description: 'End-to-end data flow from sources to PM workbench',
-    chart: `flowchart TB
-    subgraph Sources
-        Reddit[Reddit<br/>r/tmobile]
-        DD[DownDetector]
-        Community[T-Mobile Community]
-        AppReviews[App Store Reviews]
-    end
-
-    subgraph Ingestion
-        Scrapers[Scrapers<br/>Every 15min]
-        RawEvents[(raw_events<br/>Table)]
-    end
-
-    subgraph Processing
-        Sentiment[Sentiment<br/>Analysis]
-        Topic[Topic<br/>Detection]
-        Dedup[Deduplication]
-        ProductMap[Product Area<br/>Mapping]
-        Signals[(signals<br/>Table)]
-    end
-
-    subgraph Intelligence
-        CHI[CHI Score<br/>Calculation]
-        Dashboard[Dashboard<br/>Charts]
-        Auto[Auto-Create<br/>Opportunities]
-    end
-
-    subgraph PMWorkbench
-        Opps[(opportunity_cards<br/>Table)]
-        RICE[RICE<br/>Prioritization]
-        PRD[PRD<br/>Generation]
-        Stories[User Stories]
-    end
-
-    Sources --> Scrapers
-    Scrapers --> RawEvents
-    RawEvents --> Sentiment
-    Sentiment --> Topic
-    Topic --> Dedup
-    Dedup --> ProductMap
-    ProductMap --> Signals
-
-    Signals --> CHI
-    Signals --> Dashboard
-    Signals --> Auto
-
-    Auto --> Opps
-    Opps --> RICE
-    RICE --> PRD
-    PRD --> Stories`,
+    chart: pipelineChart(),
   },
   autoCreate: {
     title: 'Auto-Opportunity Creation',
@@ -150,8 +219,14 @@ const diagrams = {
 
 type DiagramKey = keyof typeof diagrams
 
-export function WorkflowDiagrams() {
-  const [activeDiagram, setActiveDiagram] = useState<DiagramKey>('journey')
+interface WorkflowDiagramsProps {
+  defaultDiagram?: DiagramKey
+  metrics?: PipelineMetrics | null // Annotates the pipeline diagram with recent runs
+}
+
+export function WorkflowDiagrams({ defaultDiagram = 'journey', metrics }: WorkflowDiagramsProps = {}) {
+  const [activeDiagram, setActiveDiagram] = useState<DiagramKey>(defaultDiagram)
+  const chart = activeDiagram === 'pipeline' && metrics ? pipelineChart(metrics) : diagrams[activeDiagram].chart
 
   const tabs: { key: DiagramKey; label: string }[] = [
     { key: 'journey', label: 'PM Journey' },
@@ -189,10 +264,13 @@ export function WorkflowDiagrams() {
             </h3>
             <p className="text-tmobile-gray-600">
               {diagrams[activeDiagram].description}
+              {activeDiagram === 'pipeline' && metrics && (
+                <> · item counts and latencies from the last {metrics.windowHours} hours of runs</>
+              )}
             </p>
           </div>
 
-          <MermaidDiagram chart={diagrams[activeDiagram].chart} />
+          <MermaidDiagram chart={chart} />
         </div>
       </Card>
     </div>
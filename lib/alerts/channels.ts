@@ -0,0 +1,344 @@
+/**
+ * Alert Channels
+ * Where fired alerts are delivered:
+ *
+ * - webhook: POSTs the alert as JSON to a URL
+ * - slack: POSTs a Slack-compatible incoming-webhook payload (text + blocks)
+ * - email: sends a plain-text email over SMTP (SMTP_HOST, SMTP_PORT,
+ *   SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM)
+ *
+ * Each kind can run against the local sink instead (sink.ts): set
+ * ALERT_DELIVERY_MODE=sink, or ALERT_DELIVERY_MODE_<KIND>=sink for one kind
+ * (e.g. ALERT_DELIVERY_MODE_EMAIL). The payload is built exactly as it would
+ * be sent, then recorded rather than delivered. Outside development the sink
+ * needs ALERT_SINK_ENABLED=true; without it sink-mode deliveries fail.
+ */
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import nodemailer from 'nodemailer';
+import { recordSinkDelivery } from './sink';
+import type { AlertSeverity } from './rules';
+
+export type ChannelKind = 'webhook' | 'slack' | 'email';
+
+export type DeliveryMode = 'live' | 'sink';
+
+export interface WebhookChannelConfig {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface SlackChannelConfig {
+  url: string;
+}
+
+export interface EmailChannelConfig {
+  to: string[];
+}
+
+export type ChannelConfig = WebhookChannelConfig | SlackChannelConfig | EmailChannelConfig;
+
+export interface AlertChannel {
+  id: string;
+  name: string;
+  kind: ChannelKind;
+  config: ChannelConfig;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertMessage {
+  id: string; // alert_events.id
+  ruleId: string;
+  ruleName: string;
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  firedAt: string;
+  payload: Record<string, unknown>;
+}
+
+export interface DeliveryResult {
+  channelId: string;
+  channelName: string;
+  kind: ChannelKind;
+  status: 'sent' | 'sink' | 'failed';
+  error?: string;
+  at: string;
+}
+
+export const CHANNEL_KIND_LABELS: Record<ChannelKind, string> = {
+  webhook: 'Webhook',
+  slack: 'Slack',
+  email: 'Email (SMTP)',
+};
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const SEVERITY_EMOJI: Record<AlertSeverity, string> = {
+  info: ':information_source:',
+  warning: ':warning:',
+  critical: ':rotating_light:',
+};
+
+/**
+ * Delivery mode for one channel kind, ALERT_DELIVERY_MODE_<KIND> first
+ */
+export function getDeliveryMode(kind: ChannelKind): DeliveryMode {
+  const mode = (process.env[`ALERT_DELIVERY_MODE_${kind.toUpperCase()}`] || process.env.ALERT_DELIVERY_MODE || 'live').toLowerCase();
+
+  return mode === 'sink' ? 'sink' : 'live';
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet
+ */
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+
+  if (isIP(address) === 6) {
+    const lower = address.toLowerCase();
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+    }
+    return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+  }
+
+  return false;
+}
+
+/**
+ * Whether a URL host points into this server's own network: localhost,
+ * *.local / *.internal names, or a private or loopback IP literal
+ * Under `next dev` nothing is private, so channels can target the local sink
+ */
+export function isPrivateHost(hostname: string): boolean {
+  if (process.env.NODE_ENV === 'development') return false;
+
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  return host === 'localhost'
+    || host.endsWith('.localhost')
+    || host.endsWith('.local')
+    || host.endsWith('.internal')
+    || isPrivateAddress(host);
+}
+
+/**
+ * Refuse to post to a URL whose host is, or resolves to, a private address,
+ * so a channel cannot be used to reach internal services
+ */
+async function assertPublicUrl(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  if (isPrivateHost(hostname)) {
+    throw new Error(`${hostname} is a private or loopback address`);
+  }
+
+  if (process.env.NODE_ENV === 'development') return;
+
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new Error(`${hostname} resolves to a private or loopback address (${blocked.address})`);
+  }
+}
+
+/**
+ * Check a channel's config; returns an error message, or null when valid
+ */
+export function validateChannelConfig(kind: ChannelKind, config: Record<string, unknown>): string | null {
+  switch (kind) {
+    case 'webhook':
+    case 'slack': {
+      if (typeof config.url !== 'string' || !/^https?:\/\//.test(config.url) || !URL.canParse(config.url)) {
+        return 'url must be an http(s) URL';
+      }
+      if (isPrivateHost(new URL(config.url).hostname)) {
+        return 'url must not point to a private or loopback address';
+      }
+      if (kind === 'webhook' && config.headers !== undefined) {
+        const headers = config.headers as Record<string, unknown>;
+        if (typeof headers !== 'object' || headers === null || Object.values(headers).some(value => typeof value !== 'string')) {
+          return 'headers must be an object of strings';
+        }
+      }
+      return null;
+    }
+    case 'email': {
+      const to = config.to;
+      if (!Array.isArray(to) || to.length === 0 || to.some(address => typeof address !== 'string' || !EMAIL_PATTERN.test(address))) {
+        return 'to must be a list of email addresses';
+      }
+      return null;
+    }
+    default:
+      return `kind must be one of: ${Object.keys(CHANNEL_KIND_LABELS).join(', ')}`;
+  }
+}
+
+/**
+ * Check a channel create/update body; returns an error message, or null when valid
+ * Updates pass the channel's current kind so a new config can be checked against it
+ */
+export function validateChannelInput(input: Record<string, unknown>, currentKind?: ChannelKind): string | null {
+  const creating = currentKind === undefined;
+
+  if (creating || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'name is required';
+  }
+  if (creating || input.kind !== undefined) {
+    if (!(typeof input.kind === 'string' && input.kind in CHANNEL_KIND_LABELS)) {
+      return `kind must be one of: ${Object.keys(CHANNEL_KIND_LABELS).join(', ')}`;
+    }
+  }
+  if (creating || input.config !== undefined || input.kind !== undefined) {
+    if (typeof input.config !== 'object' || input.config === null) return 'config is required';
+    const configError = validateChannelConfig((input.kind ?? currentKind) as ChannelKind, input.config as Record<string, unknown>);
+    if (configError) return configError;
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+
+  return null;
+}
+
+export function buildWebhookPayload(alert: AlertMessage) {
+  return {
+    type: 'alert',
+    alert: {
+      id: alert.id,
+      rule: { id: alert.ruleId, name: alert.ruleName },
+      title: alert.title,
+      message: alert.message,
+      severity: alert.severity,
+      firedAt: alert.firedAt,
+      data: alert.payload,
+    },
+  };
+}
+
+export function buildSlackPayload(alert: AlertMessage) {
+  const heading = `${SEVERITY_EMOJI[alert.severity]} ${alert.title}`;
+
+  return {
+    text: `${heading}\n${alert.message}`, // Fallback for notifications and clients without blocks
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${heading}*\n${alert.message}` } },
+      {
+        type: 'context',
+        elements: [
+          { type: 'mrkdwn', text: `Rule: ${alert.ruleName} · ${alert.severity} · <!date^${Math.floor(new Date(alert.firedAt).getTime() / 1000)}^{date_short_pretty} {time}|${alert.firedAt}>` },
+        ],
+      },
+    ],
+  };
+}
+
+export function buildEmail(alert: AlertMessage, to: string[]) {
+  return {
+    from: process.env.SMTP_FROM || 'alerts@localhost',
+    to: to.join(', '),
+    subject: `[${alert.severity.toUpperCase()}] ${alert.title}`,
+    text: [
+      alert.message,
+      '',
+      `Rule: ${alert.ruleName}`,
+      `Fired: ${alert.firedAt}`,
+      '',
+      JSON.stringify(alert.payload, null, 2),
+    ].join('\n'),
+  };
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  await assertPublicUrl(url);
+
+  // Redirects are not followed; they could lead to a private address
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    redirect: 'error',
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status} ${response.statusText}`);
+  }
+}
+
+async function sendEmail(email: ReturnType<typeof buildEmail>): Promise<void> {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST not configured');
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    connectionTimeout: DELIVERY_TIMEOUT_MS,
+  });
+
+  await transport.sendMail(email);
+}
+
+/**
+ * Deliver one alert to one channel; failures are returned, not thrown
+ */
+export async function deliverAlert(channel: AlertChannel, alert: AlertMessage): Promise<DeliveryResult> {
+  const mode = getDeliveryMode(channel.kind);
+  const result = { channelId: channel.id, channelName: channel.name, kind: channel.kind };
+
+  try {
+    switch (channel.kind) {
+      case 'webhook': {
+        const config = channel.config as WebhookChannelConfig;
+        const body = buildWebhookPayload(alert);
+        if (mode === 'sink') recordSinkDelivery({ kind: 'webhook', target: config.url, body });
+        else await postJson(config.url, body, config.headers);
+        break;
+      }
+      case 'slack': {
+        const config = channel.config as SlackChannelConfig;
+        const body = buildSlackPayload(alert);
+        if (mode === 'sink') recordSinkDelivery({ kind: 'slack', target: config.url, body });
+        else await postJson(config.url, body);
+        break;
+      }
+      case 'email': {
+        const config = channel.config as EmailChannelConfig;
+        const email = buildEmail(alert, config.to);
+        if (mode === 'sink') recordSinkDelivery({ kind: 'email', target: email.to, body: email });
+        else await sendEmail(email);
+        break;
+      }
+    }
+
+    return { ...result, status: mode === 'sink' ? 'sink' : 'sent', at: new Date().toISOString() };
+  } catch (error) {
+    return {
+      ...result,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      at: new Date().toISOString(),
+    };
+  }
+}
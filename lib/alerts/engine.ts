@@ -0,0 +1,231 @@
+/**
+ * Alert Engine
+ * Runs after each snapshot capture: evaluates every enabled rule, drops
+ * triggers already alerted within the rule's cooldown (or ever, for state
+ * changes), records the rest in alert_events and delivers them to the rule's
+ * channels. Each pass is recorded in pipeline_runs (job 'alerts').
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { startRun } from '@/lib/processing/pipeline-runs';
+import { describeError } from '@/lib/processing/failures';
+import { evaluateRule, type AlertRule, type AlertSeverity, type AlertTrigger } from './rules';
+import { deliverAlert, type AlertChannel, type AlertMessage, type DeliveryResult } from './channels';
+
+export interface AlertEvent {
+  id: string;
+  rule_id: string;
+  dedup_key: string;
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  payload: Record<string, unknown>;
+  deliveries: DeliveryResult[];
+  fired_at: string;
+}
+
+export interface AlertEvaluationSummary {
+  rulesEvaluated: number;
+  ruleErrors: number;
+  triggered: number;
+  fired: number;
+  suppressed: { cooldown: number; duplicate: number };
+  deliveries: { sent: number; sink: number; failed: number };
+}
+
+type Suppression = 'cooldown' | 'duplicate' | null;
+
+/**
+ * Whether a trigger was already alerted: ever for one-time triggers,
+ * otherwise within the rule's cooldown
+ */
+async function findSuppression(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  trigger: AlertTrigger,
+  now: Date
+): Promise<Suppression> {
+  const { data, error } = await supabase
+    .from('alert_events')
+    .select('fired_at')
+    .eq('rule_id', rule.id)
+    .eq('dedup_key', trigger.dedupKey)
+    .order('fired_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  const lastFiredAt = data?.[0]?.fired_at as string | undefined;
+  if (!lastFiredAt) return null;
+  if (trigger.once) return 'duplicate';
+
+  const cooldownEnd = new Date(lastFiredAt).getTime() + rule.cooldown_minutes * 60 * 1000;
+  return cooldownEnd > now.getTime() ? 'cooldown' : null;
+}
+
+/**
+ * Record a fired alert, deliver it to the rule's enabled channels and store
+ * the delivery results on the event
+ */
+async function fireAlert(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  trigger: AlertTrigger,
+  channels: AlertChannel[],
+  now: Date
+): Promise<DeliveryResult[]> {
+  const { data: event, error } = await supabase
+    .from('alert_events')
+    .insert({
+      rule_id: rule.id,
+      dedup_key: trigger.dedupKey,
+      title: trigger.title,
+      message: trigger.message,
+      severity: trigger.severity,
+      payload: trigger.payload,
+      fired_at: now.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const alert: AlertMessage = {
+    id: event.id,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    title: trigger.title,
+    message: trigger.message,
+    severity: trigger.severity,
+    firedAt: now.toISOString(),
+    payload: trigger.payload,
+  };
+
+  const ruleChannels = channels.filter(channel => rule.channel_ids.includes(channel.id));
+  const deliveries = await Promise.all(ruleChannels.map(channel => deliverAlert(channel, alert)));
+
+  const { error: updateError } = await supabase
+    .from('alert_events')
+    .update({ deliveries })
+    .eq('id', event.id);
+
+  if (updateError) {
+    console.error(`Error recording deliveries for alert ${event.id}:`, updateError);
+  }
+
+  return deliveries;
+}
+
+/**
+ * Evaluate every enabled rule and deliver new alerts
+ *
+ * @example
+ * ```ts
+ * const summary = await evaluateAlerts(createServiceClient());
+ * // { rulesEvaluated: 3, ruleErrors: 0, triggered: 2, fired: 1, suppressed: { cooldown: 1, duplicate: 0 },
+ * //   deliveries: { sent: 2, sink: 0, failed: 0 } }
+ * ```
+ */
+export async function evaluateAlerts(supabase: SupabaseClient, now: Date = new Date()): Promise<AlertEvaluationSummary> {
+  const run = await startRun(supabase, 'alerts');
+  const summary: AlertEvaluationSummary = {
+    rulesEvaluated: 0,
+    ruleErrors: 0,
+    triggered: 0,
+    fired: 0,
+    suppressed: { cooldown: 0, duplicate: 0 },
+    deliveries: { sent: 0, sink: 0, failed: 0 },
+  };
+
+  try {
+    const [{ data: rules, error: rulesError }, { data: channels, error: channelsError }] = await Promise.all([
+      supabase.from('alert_rules').select('*').eq('enabled', true),
+      supabase.from('alert_channels').select('*').eq('enabled', true),
+    ]);
+
+    if (rulesError || channelsError) {
+      throw rulesError || channelsError;
+    }
+
+    const evaluateStart = Date.now();
+    const pending: Array<{ rule: AlertRule; trigger: AlertTrigger }> = [];
+    const errors: string[] = [];
+
+    for (const rule of (rules || []) as AlertRule[]) {
+      try {
+        const evaluation = await evaluateRule(supabase, rule, now);
+        summary.rulesEvaluated += 1;
+        summary.triggered += evaluation.triggers.length;
+
+        if (evaluation.conditionSince !== rule.condition_since) {
+          const { error } = await supabase
+            .from('alert_rules')
+            .update({ condition_since: evaluation.conditionSince })
+            .eq('id', rule.id);
+
+          if (error) {
+            console.error(`Error updating condition for alert rule ${rule.id}:`, error);
+          }
+        }
+
+        for (const trigger of evaluation.triggers) {
+          const suppression = await findSuppression(supabase, rule, trigger, now);
+          if (suppression) summary.suppressed[suppression] += 1;
+          else pending.push({ rule, trigger });
+        }
+      } catch (error) {
+        summary.ruleErrors += 1;
+        errors.push(`${rule.name}: ${describeError(error)}`);
+        console.error(`Error evaluating alert rule ${rule.id}:`, error);
+      }
+    }
+
+    run.stage('evaluate', {
+      itemsIn: rules?.length || 0,
+      itemsOut: pending.length,
+      durationMs: Date.now() - evaluateStart,
+      drops: summary.suppressed,
+      errors: summary.ruleErrors,
+    });
+
+    const deliverStart = Date.now();
+    let deliveryErrors = 0;
+
+    for (const { rule, trigger } of pending) {
+      try {
+        const deliveries = await fireAlert(supabase, rule, trigger, (channels || []) as AlertChannel[], now);
+        summary.fired += 1;
+        for (const delivery of deliveries) {
+          summary.deliveries[delivery.status] += 1;
+          if (delivery.status === 'failed') errors.push(`${delivery.channelName}: ${delivery.error}`);
+        }
+      } catch (error) {
+        deliveryErrors += 1;
+        errors.push(`${rule.name}: ${describeError(error)}`);
+        console.error(`Error firing alert for rule ${rule.id}:`, error);
+      }
+    }
+
+    run.stage('deliver', {
+      itemsIn: pending.length,
+      itemsOut: summary.fired,
+      durationMs: Date.now() - deliverStart,
+      drops: { failed: summary.deliveries.failed },
+      errors: deliveryErrors + summary.deliveries.failed,
+    });
+
+    await run.finish(errors.length > 0 ? 'partial' : 'succeeded', {
+      summary: { ...summary },
+      error: errors.length > 0 ? errors.join('; ') : undefined,
+    });
+
+    return summary;
+  } catch (error) {
+    await run.finish('failed', { summary: { ...summary }, error });
+    throw error;
+  }
+}
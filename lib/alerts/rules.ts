@@ -0,0 +1,326 @@
+/**
+ * Alert Rules
+ * User-defined conditions checked after each snapshot capture. Each kind has
+ * its own params and evaluator; an evaluator returns the triggers that hold
+ * right now, keyed for deduplication (see engine.ts).
+ *
+ * - chi_below: CHI (overall or one product area) under a threshold for a duration;
+ *   scores flagged as insufficient data are skipped
+ * - intensity_vs_baseline: an issue's last-hour intensity this far above its
+ *   hour-of-week baseline (lib/processing/anomaly-detection.ts)
+ * - closed_loop_status: an opportunity's close-the-loop status becomes a value
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { estimateCHI } from '@/lib/utils/chi';
+import { getIssueLabel } from '@/lib/utils/dashboard-data';
+import { loadProductAreaIds } from '@/lib/processing/product-area-rules';
+import { capturedHours, detectAnomaly, loadSnapshotHistory, toHourlySamples } from '@/lib/processing/anomaly-detection';
+import type { CloseLoopData } from '@/lib/utils/close-loop';
+
+export type AlertRuleKind = 'chi_below' | 'intensity_vs_baseline' | 'closed_loop_status';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface ChiBelowParams {
+  productArea: string | null; // Product area name; null for overall CHI
+  threshold: number; // 0-100
+  forMinutes: number; // How long CHI must stay below the threshold
+  windowMinutes?: number; // Signals CHI is calculated over (default 60)
+}
+
+export interface IntensityVsBaselineParams {
+  increasePercent: number; // e.g. 200 for "up 200% vs baseline"
+  productArea: string | null; // null for every product area
+  minIntensity?: number; // Ignore issues quieter than this in the last hour (default 5)
+}
+
+export interface ClosedLoopStatusParams {
+  status: CloseLoopData['status'];
+}
+
+export type AlertRuleParams = ChiBelowParams | IntensityVsBaselineParams | ClosedLoopStatusParams;
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  params: AlertRuleParams;
+  channel_ids: string[];
+  cooldown_minutes: number;
+  enabled: boolean;
+  condition_since: string | null; // When a duration condition started holding
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertTrigger {
+  dedupKey: string; // Same key, same alert: suppressed within the cooldown
+  once?: boolean; // Fire at most once per key (state changes)
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  payload: Record<string, unknown>;
+}
+
+export interface RuleEvaluation {
+  triggers: AlertTrigger[];
+  conditionSince: string | null;
+}
+
+export const RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  chi_below: 'CHI below threshold',
+  intensity_vs_baseline: 'Intensity above baseline',
+  closed_loop_status: 'Close-the-loop status',
+};
+
+const CLOSE_LOOP_STATUSES: CloseLoopData['status'][] = ['recovered', 'monitoring', 'not-recovered'];
+const DEFAULT_CHI_WINDOW_MINUTES = 60;
+const DEFAULT_MIN_INTENSITY = 5;
+
+/**
+ * Opportunities whose status changed this long ago or more are not alerted on
+ */
+const CLOSE_LOOP_LOOKBACK_DAYS = 7;
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Check params for a rule kind; returns an error message, or null when valid
+ */
+export function validateRuleParams(kind: AlertRuleKind, params: Record<string, unknown>): string | null {
+  if (params.productArea !== undefined && params.productArea !== null && typeof params.productArea !== 'string') {
+    return 'productArea must be a product area name or null';
+  }
+
+  switch (kind) {
+    case 'chi_below':
+      if (!isNumberInRange(params.threshold, 0, 100)) return 'threshold must be a number between 0 and 100';
+      if (!isNumberInRange(params.forMinutes, 0, 24 * 60)) return 'forMinutes must be between 0 and 1440';
+      if (params.windowMinutes !== undefined && !isNumberInRange(params.windowMinutes, 5, 24 * 60)) {
+        return 'windowMinutes must be between 5 and 1440';
+      }
+      return null;
+    case 'intensity_vs_baseline':
+      if (!isNumberInRange(params.increasePercent, 1, 10000)) return 'increasePercent must be between 1 and 10000';
+      if (params.minIntensity !== undefined && !isNumberInRange(params.minIntensity, 0, 10000)) {
+        return 'minIntensity must be a non-negative number';
+      }
+      return null;
+    case 'closed_loop_status':
+      if (!CLOSE_LOOP_STATUSES.includes(params.status as CloseLoopData['status'])) {
+        return `status must be one of: ${CLOSE_LOOP_STATUSES.join(', ')}`;
+      }
+      return null;
+    default:
+      return `kind must be one of: ${Object.keys(RULE_KIND_LABELS).join(', ')}`;
+  }
+}
+
+/**
+ * Check a rule create/update body; returns an error message, or null when valid
+ * Updates pass the rule's current kind so new params can be checked against it
+ */
+export function validateRuleInput(input: Record<string, unknown>, currentKind?: AlertRuleKind): string | null {
+  const creating = currentKind === undefined;
+
+  if (creating || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'name is required';
+  }
+  if (creating || input.kind !== undefined) {
+    if (!(typeof input.kind === 'string' && input.kind in RULE_KIND_LABELS)) {
+      return `kind must be one of: ${Object.keys(RULE_KIND_LABELS).join(', ')}`;
+    }
+  }
+  if (creating || input.params !== undefined || input.kind !== undefined) {
+    if (typeof input.params !== 'object' || input.params === null) return 'params are required';
+    const paramsError = validateRuleParams((input.kind ?? currentKind) as AlertRuleKind, input.params as Record<string, unknown>);
+    if (paramsError) return paramsError;
+  }
+  if (input.channel_ids !== undefined) {
+    if (!Array.isArray(input.channel_ids) || input.channel_ids.some(id => typeof id !== 'string')) {
+      return 'channel_ids must be a list of channel ids';
+    }
+  }
+  if (input.cooldown_minutes !== undefined && !isNumberInRange(input.cooldown_minutes, 0, 7 * 24 * 60)) {
+    return 'cooldown_minutes must be between 0 and 10080';
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+
+  return null;
+}
+
+/**
+ * One-line description of a rule, e.g. "Network CHI below 40 for 30 min"
+ */
+export function describeRule(kind: AlertRuleKind, params: AlertRuleParams): string {
+  switch (kind) {
+    case 'chi_below': {
+      const { productArea, threshold, forMinutes } = params as ChiBelowParams;
+      return `${productArea || 'Overall'} CHI below ${threshold}${forMinutes > 0 ? ` for ${forMinutes} min` : ''}`;
+    }
+    case 'intensity_vs_baseline': {
+      const { productArea, increasePercent } = params as IntensityVsBaselineParams;
+      return `${productArea ? `${productArea} topic` : 'Topic'} intensity up ${increasePercent}% vs baseline`;
+    }
+    case 'closed_loop_status':
+      return `Opportunity close-the-loop status becomes ${(params as ClosedLoopStatusParams).status}`;
+  }
+}
+
+async function evaluateChiBelow(supabase: SupabaseClient, rule: AlertRule, now: Date): Promise<RuleEvaluation> {
+  const params = rule.params as ChiBelowParams;
+  const areaId = params.productArea ? (await loadProductAreaIds(supabase)).get(params.productArea) : undefined;
+
+  if (params.productArea && !areaId) {
+    throw new Error(`Unknown product area: ${params.productArea}`);
+  }
+
+  const estimate = await estimateCHI(params.windowMinutes || DEFAULT_CHI_WINDOW_MINUTES, areaId, false);
+
+  // No signals, or too few to trust: the condition neither holds nor clears
+  if (estimate === null || estimate.insufficientData) {
+    return { triggers: [], conditionSince: rule.condition_since };
+  }
+
+  const chi = estimate.score;
+
+  if (chi >= params.threshold) {
+    return { triggers: [], conditionSince: null };
+  }
+
+  const conditionSince = rule.condition_since || now.toISOString();
+  const minutesBelow = (now.getTime() - new Date(conditionSince).getTime()) / (60 * 1000);
+
+  if (minutesBelow < params.forMinutes) {
+    return { triggers: [], conditionSince };
+  }
+
+  const area = params.productArea || 'Overall';
+
+  return {
+    conditionSince,
+    triggers: [{
+      dedupKey: `chi:${area}`,
+      title: `${area} CHI is ${chi}`,
+      message: `${area} CHI has been below ${params.threshold} for ${Math.round(minutesBelow)} min (now ${chi}).`,
+      severity: chi < params.threshold / 2 ? 'critical' : 'warning',
+      payload: {
+        productArea: params.productArea,
+        chi,
+        interval: { low: estimate.low, high: estimate.high },
+        threshold: params.threshold,
+        belowSince: conditionSince,
+      },
+    }],
+  };
+}
+
+async function evaluateIntensityVsBaseline(supabase: SupabaseClient, rule: AlertRule, now: Date): Promise<RuleEvaluation> {
+  const params = rule.params as IntensityVsBaselineParams;
+  const minIntensity = params.minIntensity ?? DEFAULT_MIN_INTENSITY;
+  const areaIds = await loadProductAreaIds(supabase);
+  const areaNames = new Map([...areaIds.entries()].map(([name, id]) => [id, name]));
+  const areaId = params.productArea ? areaIds.get(params.productArea) : undefined;
+
+  if (params.productArea && !areaId) {
+    throw new Error(`Unknown product area: ${params.productArea}`);
+  }
+
+  const history = await loadSnapshotHistory(supabase, {}, now);
+  const captured = capturedHours(history);
+  const triggers: AlertTrigger[] = [];
+
+  for (const [key, snapshots] of history.entries()) {
+    const latest = snapshots[snapshots.length - 1];
+    if (areaId && latest.product_area_id !== areaId) continue;
+
+    // Only issues captured by the snapshot run that just finished
+    if (now.getTime() - new Date(latest.snapshot_at).getTime() > 60 * 60 * 1000) continue;
+
+    const [current] = toHourlySamples([latest]);
+    if (!current || current.value < minIntensity) continue;
+
+    const anomaly = detectAnomaly(toHourlySamples(snapshots.slice(0, -1), captured), current.value, {}, now);
+    if (anomaly.baseline === 'none') continue;
+
+    const increasePercent = anomaly.expected > 0
+      ? ((anomaly.observed - anomaly.expected) / anomaly.expected) * 100
+      : Infinity;
+    if (increasePercent < params.increasePercent) continue;
+
+    const topic = getIssueLabel(latest.topic, latest.topic);
+    const area = areaNames.get(latest.product_area_id) || 'Unknown';
+    const increaseLabel = Number.isFinite(increasePercent) ? `${Math.round(increasePercent)}%` : 'from zero';
+
+    triggers.push({
+      dedupKey: `intensity:${key}`,
+      title: `${topic} (${area}) up ${increaseLabel}`,
+      message: `${topic} in ${area} reached ${anomaly.observed} weighted intensity in the last hour; `
+        + `usually ${anomaly.expected} (${anomaly.expectedRange.low}–${anomaly.expectedRange.high}) at this hour.`,
+      severity: anomaly.isAnomaly ? 'critical' : 'warning',
+      payload: {
+        topic,
+        productArea: area,
+        observed: anomaly.observed,
+        expected: anomaly.expected,
+        expectedRange: anomaly.expectedRange,
+        increasePercent: Number.isFinite(increasePercent) ? Math.round(increasePercent) : null,
+        zScore: anomaly.zScore,
+        baseline: anomaly.baseline,
+      },
+    });
+  }
+
+  return { triggers, conditionSince: null };
+}
+
+async function evaluateClosedLoopStatus(supabase: SupabaseClient, rule: AlertRule, now: Date): Promise<RuleEvaluation> {
+  const { status } = rule.params as ClosedLoopStatusParams;
+  const since = new Date(now.getTime() - CLOSE_LOOP_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('opportunity_cards')
+    .select('id, title, meta, marked_done_at')
+    .eq('meta->closeloop->>status', status)
+    .gte('marked_done_at', since);
+
+  if (error) {
+    throw error;
+  }
+
+  const triggers = (data || []).map(opportunity => {
+    const closeLoop = opportunity.meta?.closeloop as CloseLoopData;
+    const metrics = closeLoop.recoveryMetrics;
+
+    return {
+      dedupKey: `closeloop:${opportunity.id}:${status}`,
+      once: true,
+      title: `"${opportunity.title}" is ${status}`,
+      message: `Close-the-loop monitoring marked "${opportunity.title}" as ${status}. `
+        + `Sentiment ${metrics.beforeSentiment.toFixed(2)} → ${(metrics.afterSentiment ?? metrics.beforeSentiment).toFixed(2)}, `
+        + `${metrics.signalCountAfter ?? 0} signals since it was marked done.`,
+      severity: (status === 'not-recovered' ? 'warning' : 'info') as AlertSeverity,
+      payload: { opportunityId: opportunity.id, status, monitoredAt: closeLoop.monitoredAt, recoveryMetrics: metrics },
+    };
+  });
+
+  return { triggers, conditionSince: null };
+}
+
+const EVALUATORS: Record<AlertRuleKind, (supabase: SupabaseClient, rule: AlertRule, now: Date) => Promise<RuleEvaluation>> = {
+  chi_below: evaluateChiBelow,
+  intensity_vs_baseline: evaluateIntensityVsBaseline,
+  closed_loop_status: evaluateClosedLoopStatus,
+};
+
+/**
+ * Triggers that hold for a rule right now, before deduplication
+ */
+export function evaluateRule(supabase: SupabaseClient, rule: AlertRule, now: Date = new Date()): Promise<RuleEvaluation> {
+  return EVALUATORS[rule.kind](supabase, rule, now);
+}
@@ -0,0 +1,69 @@
+/**
+ * Local Alert Sink
+ * Captures alert deliveries on this machine instead of sending them, for
+ * trying rules and channels without a real webhook or mail server. Channels
+ * in sink mode (see channels.ts) write here, and /api/alerts/sink accepts
+ * webhook and Slack POSTs so a channel can point at the app itself.
+ *
+ * Deliveries are appended to a JSON Lines file in the OS temp directory, so
+ * cron routes, API routes and the dev server all see the same list.
+ * The sink is for development and tests only: it is on under `next dev` and
+ * test runs, and anywhere else only with ALERT_SINK_ENABLED=true.
+ */
+
+import { appendFileSync, existsSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { ChannelKind } from './channels';
+
+export interface SinkDelivery {
+  kind: ChannelKind;
+  target: string; // Webhook URL or email recipients
+  body: unknown; // Request body, or the rendered email
+  receivedAt: string;
+}
+
+const SINK_FILE = join(tmpdir(), 't-insight-alert-sink.jsonl');
+
+/**
+ * Deliveries returned by listSinkDeliveries, newest first
+ */
+const SINK_LIST_LIMIT = 100;
+
+export function isSinkEnabled(): boolean {
+  return (
+    process.env.ALERT_SINK_ENABLED === 'true' ||
+    process.env.NODE_ENV === 'development' ||
+    process.env.NODE_ENV === 'test'
+  );
+}
+
+/**
+ * Record a delivery; throws when the sink is disabled, so a channel left in
+ * sink mode fails instead of dropping alerts
+ */
+export function recordSinkDelivery(delivery: Omit<SinkDelivery, 'receivedAt'>): SinkDelivery {
+  if (!isSinkEnabled()) {
+    throw new Error('The alert sink is disabled; set ALERT_SINK_ENABLED=true to use it outside development');
+  }
+
+  const recorded = { ...delivery, receivedAt: new Date().toISOString() };
+  appendFileSync(SINK_FILE, `${JSON.stringify(recorded)}\n`);
+  return recorded;
+}
+
+export function listSinkDeliveries(kind?: ChannelKind): SinkDelivery[] {
+  if (!existsSync(SINK_FILE)) return [];
+
+  return readFileSync(SINK_FILE, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as SinkDelivery)
+    .filter(delivery => !kind || delivery.kind === kind)
+    .reverse()
+    .slice(0, SINK_LIST_LIMIT);
+}
+
+export function clearSinkDeliveries(): void {
+  rmSync(SINK_FILE, { force: true });
+}
@@ -0,0 +1,331 @@
+/**
+ * Issue Anomaly Detection
+ * Compares each issue's credibility-weighted intensity over the last hour
+ * with an hour-of-week baseline built from signal_intensity_snapshots, so a
+ * Monday-morning billing spike is measured against previous Monday mornings.
+ *
+ * The baseline is the median and MAD (median absolute deviation) of the same
+ * hour of week, ±1 hour, over the retained weeks; deviations are robust
+ * z-scores. A CUSUM over the last few hours catches smaller shifts that last.
+ * Issues without enough seasonal history fall back to the previous 24 hours.
+ *
+ * Snapshots are only written for issues with signals in the last 24 hours, so
+ * an hour the snapshot run captured without a row for an issue is a quiet hour
+ * and counts as zero; otherwise quiet hours would drop out of the baseline and
+ * inflate it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type BaselineKind = 'hour_of_week' | 'recent' | 'none';
+
+export interface HourlySample {
+  at: string; // Snapshot time
+  value: number; // Weighted intensity of signals in the hour before `at`
+}
+
+export interface AnomalyResult {
+  observed: number;
+  expected: number; // Baseline median
+  expectedRange: { low: number; high: number }; // Values within the z threshold
+  zScore: number; // Robust z-score of the observed value
+  pValue: number; // One-sided chance of a value this high under the baseline
+  confidence: number; // 1 - pValue
+  cusum: number; // Upper CUSUM over the last few hours, in baseline deviations
+  isAnomaly: boolean;
+  baseline: BaselineKind;
+  samples: number; // Hourly values in the baseline
+}
+
+export interface AnomalyOptions {
+  zThreshold?: number; // Robust z-score at or above which the current hour is anomalous
+  slotSpreadHours?: number; // Neighbouring hours of week pooled into a slot baseline
+  minSeasonalSamples?: number; // Fewer than this and the recent baseline is used
+  minRecentSamples?: number; // Fewer than this and there is no baseline
+  cusumHours?: number; // Hours the CUSUM runs over, current hour included
+  cusumSlack?: number; // CUSUM allowance k, in baseline deviations
+  cusumThreshold?: number; // CUSUM decision interval h
+}
+
+const DEFAULT_OPTIONS: Required<AnomalyOptions> = {
+  zThreshold: 3,
+  slotSpreadHours: 1,
+  minSeasonalSamples: 3,
+  minRecentSamples: 6,
+  cusumHours: 6,
+  cusumSlack: 0.5,
+  cusumThreshold: 5,
+};
+
+/**
+ * Weeks of snapshots kept by cron/capture-snapshots for the seasonal baseline
+ */
+export const BASELINE_WEEKS = 8;
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOURS_PER_WEEK = 7 * 24;
+const MAD_TO_SD = 1.4826; // MAD of a normal distribution × this = its standard deviation
+const SNAPSHOT_PAGE_SIZE = 1000;
+
+/**
+ * Hour of the week in UTC, 0 (Sunday 00:00) to 167
+ */
+export function hourOfWeek(date: Date): number {
+  return date.getUTCDay() * 24 + date.getUTCHours();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Mean value per clock hour; snapshots run several times an hour
+ */
+function toHourlyBuckets(samples: HourlySample[]): Map<number, number> {
+  const sums = new Map<number, { total: number; count: number }>();
+
+  for (const sample of samples) {
+    const hour = Math.floor(new Date(sample.at).getTime() / HOUR_MS) * HOUR_MS;
+    const bucket = sums.get(hour) || { total: 0, count: 0 };
+    bucket.total += sample.value;
+    bucket.count += 1;
+    sums.set(hour, bucket);
+  }
+
+  return new Map([...sums.entries()].map(([hour, { total, count }]) => [hour, total / count]));
+}
+
+interface Baseline {
+  kind: BaselineKind;
+  median: number;
+  scale: number; // Robust standard deviation
+  samples: number;
+}
+
+/**
+ * Baseline for the hour starting at `hourStart`, from buckets before it
+ */
+function baselineFor(buckets: Map<number, number>, hourStart: number, settings: Required<AnomalyOptions>): Baseline {
+  const slot = hourOfWeek(new Date(hourStart));
+  const earlier = [...buckets.entries()].filter(([hour]) => hour < hourStart);
+
+  // Same hour of week in previous weeks; hours next to this one in the current week don't count
+  const seasonal = earlier
+    .filter(([hour]) => {
+      const distance = Math.abs(hourOfWeek(new Date(hour)) - slot);
+      const inSlot = Math.min(distance, HOURS_PER_WEEK - distance) <= settings.slotSpreadHours;
+      return inSlot && hourStart - hour >= (HOURS_PER_WEEK - settings.slotSpreadHours) * HOUR_MS;
+    })
+    .map(([, value]) => value);
+
+  const recent = earlier.filter(([hour]) => hourStart - hour <= 24 * HOUR_MS).map(([, value]) => value);
+
+  const [kind, values]: [BaselineKind, number[]] =
+    seasonal.length >= settings.minSeasonalSamples ? ['hour_of_week', seasonal]
+    : recent.length >= settings.minRecentSamples ? ['recent', recent]
+    : ['none', []];
+
+  if (kind === 'none') {
+    return { kind, median: 0, scale: 0, samples: 0 };
+  }
+
+  const center = median(values);
+  const mad = median(values.map(value => Math.abs(value - center)));
+  // Counts are roughly Poisson; never trust a spread tighter than that
+  const scale = Math.max(MAD_TO_SD * mad, Math.sqrt(Math.max(center, 1)));
+
+  return { kind, median: center, scale, samples: values.length };
+}
+
+/**
+ * Score the current hour's intensity for one issue against its history
+ *
+ * @example
+ * ```ts
+ * detectAnomaly(history, 42);
+ * // { observed: 42, expected: 11, expectedRange: { low: 0, high: 24.4 }, zScore: 6.9, pValue: 0,
+ * //   confidence: 1, cusum: 9.8, isAnomaly: true, baseline: 'hour_of_week', samples: 24 }
+ * ```
+ */
+export function detectAnomaly(
+  history: HourlySample[],
+  observed: number,
+  options: AnomalyOptions = {},
+  now: Date = new Date()
+): AnomalyResult {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const currentHour = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS;
+
+  // The current hour is scored from the live value, not its partial snapshots
+  const buckets = toHourlyBuckets(history);
+  buckets.set(currentHour, observed);
+
+  const baseline = baselineFor(buckets, currentHour, settings);
+
+  if (baseline.kind === 'none') {
+    return {
+      observed,
+      expected: 0,
+      expectedRange: { low: 0, high: 0 },
+      zScore: 0,
+      pValue: 1,
+      confidence: 0,
+      cusum: 0,
+      isAnomaly: false,
+      baseline: 'none',
+      samples: 0,
+    };
+  }
+
+  const zScore = (observed - baseline.median) / baseline.scale;
+  const pValue = 1 - normalCdf(zScore);
+
+  // Upper CUSUM, oldest hour first; hours without snapshots are skipped
+  let cusum = 0;
+  for (let offset = settings.cusumHours - 1; offset >= 0; offset--) {
+    const hour = currentHour - offset * HOUR_MS;
+    const value = buckets.get(hour);
+    if (value === undefined) continue;
+
+    const hourBaseline = offset === 0 ? baseline : baselineFor(buckets, hour, settings);
+    if (hourBaseline.kind === 'none') continue;
+
+    cusum = Math.max(0, cusum + (value - hourBaseline.median) / hourBaseline.scale - settings.cusumSlack);
+  }
+
+  const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+  return {
+    observed: round(observed),
+    expected: round(baseline.median),
+    expectedRange: {
+      low: round(Math.max(0, baseline.median - settings.zThreshold * baseline.scale)),
+      high: round(baseline.median + settings.zThreshold * baseline.scale),
+    },
+    zScore: round(zScore),
+    pValue: round(pValue, 4),
+    confidence: round(1 - pValue, 4),
+    cusum: round(cusum),
+    isAnomaly: zScore >= settings.zThreshold || cusum >= settings.cusumThreshold,
+    baseline: baseline.kind,
+    samples: baseline.samples,
+  };
+}
+
+export interface SnapshotRow {
+  topic: string;
+  product_area_id: string;
+  intensity: number;
+  weighted_intensity: number | null;
+  hourly_intensity: number | null;
+  hourly_weighted_intensity: number | null;
+  signal_count: number;
+  snapshot_at: string;
+}
+
+/**
+ * Snapshots the detector needs, keyed by `topic::product_area_id`: the
+ * last 24 hours, plus the hours of week around the last `cusumHours` hours
+ * over the baseline weeks. Oldest first.
+ */
+export async function loadSnapshotHistory(
+  supabase: SupabaseClient,
+  options: AnomalyOptions = {},
+  now: Date = new Date()
+): Promise<Map<string, SnapshotRow[]>> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const slots = new Set<number>();
+
+  for (let offset = 0; offset < settings.cusumHours; offset++) {
+    const slot = hourOfWeek(new Date(now.getTime() - offset * HOUR_MS));
+    for (let spread = -settings.slotSpreadHours; spread <= settings.slotSpreadHours; spread++) {
+      slots.add((slot + spread + HOURS_PER_WEEK) % HOURS_PER_WEEK);
+    }
+  }
+
+  const baselineStart = new Date(now.getTime() - BASELINE_WEEKS * HOURS_PER_WEEK * HOUR_MS).toISOString();
+  const recentStart = new Date(now.getTime() - 24 * HOUR_MS).toISOString();
+  const rows: SnapshotRow[] = [];
+
+  // More rows than one response returns; page through them
+  for (let from = 0; ; from += SNAPSHOT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('signal_intensity_snapshots')
+      .select('topic, product_area_id, intensity, weighted_intensity, hourly_intensity, hourly_weighted_intensity, signal_count, snapshot_at')
+      .gte('snapshot_at', baselineStart)
+      .or(`hour_of_week.in.(${[...slots].join(',')}),snapshot_at.gte."${recentStart}"`)
+      .order('snapshot_at', { ascending: true })
+      .range(from, from + SNAPSHOT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...((data || []) as SnapshotRow[]));
+    if (!data || data.length < SNAPSHOT_PAGE_SIZE) break;
+  }
+
+  const byIssue = new Map<string, SnapshotRow[]>();
+  for (const row of rows) {
+    const key = `${row.topic}::${row.product_area_id}`;
+    if (!byIssue.has(key)) {
+      byIssue.set(key, []);
+    }
+    byIssue.get(key)!.push(row);
+  }
+
+  return byIssue;
+}
+
+/**
+ * Clock hours (epoch ms) with hourly snapshots for any issue, i.e. hours the
+ * snapshot run covered
+ */
+export function capturedHours(history: Map<string, SnapshotRow[]>): Set<number> {
+  const hours = new Set<number>();
+
+  for (const snapshots of history.values()) {
+    for (const snapshot of snapshots) {
+      if (snapshot.hourly_intensity === null) continue;
+      hours.add(Math.floor(new Date(snapshot.snapshot_at).getTime() / HOUR_MS) * HOUR_MS);
+    }
+  }
+
+  return hours;
+}
+
+/**
+ * Hourly weighted intensity from snapshots; rows captured before hourly
+ * values existed are skipped, raw values stand in where weighting is missing
+ * With `captured` (see capturedHours), captured hours without a snapshot for
+ * this issue are quiet hours and added as zero
+ */
+export function toHourlySamples(snapshots: SnapshotRow[], captured?: Set<number>): HourlySample[] {
+  const samples = snapshots
+    .filter(snapshot => snapshot.hourly_intensity !== null)
+    .map(snapshot => ({
+      at: snapshot.snapshot_at,
+      value: Number(snapshot.hourly_weighted_intensity ?? snapshot.hourly_intensity),
+    }));
+
+  if (!captured) return samples;
+
+  const sampled = new Set(samples.map(sample => Math.floor(new Date(sample.at).getTime() / HOUR_MS) * HOUR_MS));
+  const quiet = [...captured]
+    .filter(hour => !sampled.has(hour))
+    .map(hour => ({ at: new Date(hour).toISOString(), value: 0 }));
+
+  return [...samples, ...quiet].sort((a, b) => a.at.localeCompare(b.at));
+}
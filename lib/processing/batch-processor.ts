@@ -0,0 +1,706 @@
+/**
+ * Batch Processor
+ * Runs the signal pipeline over raw_events in batches: one fingerprint lookup
+ * per source, a cached product-area map, one recent-signal query per area,
+ * in-memory dedup and bulk writes. New signals get ids derived from source +
+ * fingerprint, so a retried batch skips them instead of duplicating them.
+ * Each batch is checkpointed by marking its events processed, so a run that
+ * hits its time budget resumes where it stopped.
+ */
+
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  analyzeItem,
+  extractIndividualItems,
+  PIPELINE_VERSION,
+  type ItemAnalysis,
+  type RawEvent,
+} from './pipeline';
+import { loadProductAreaIds, loadProductAreaRules } from './product-area-rules';
+import {
+  assessItemQuality,
+  recordRejectedItems,
+  toRejectedItemRecord,
+  type QualityAssessment,
+  type QualityContext,
+  type RejectedItemRecord,
+} from './quality-gate';
+import { findExistingDuplicate, mergeSignals, type Signal } from './deduplicator';
+import {
+  computeItemFingerprint,
+  loadSeenFingerprints,
+  loadWrittenSignalIds,
+  recordFingerprints,
+  signalIdForItem,
+  type FingerprintRecord,
+} from './fingerprint';
+import { recordFailure, resolveEventFailures } from './failures';
+import { addStageMetrics, mergeRunStages, type RunStages } from './pipeline-runs';
+import { classifyContentType } from './credibility';
+import type { SourceItem } from '@/lib/scraper/types';
+
+/**
+ * Dedup window on either side of an item's detection time
+ */
+const DEDUP_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Claimed events are skipped by other runs until the lease expires, so a run
+ * killed by a serverless timeout only delays its events by this much
+ */
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Rows per bulk write / `.in()` filter
+ */
+const WRITE_CHUNK_SIZE = 500;
+const ID_CHUNK_SIZE = 100;
+
+export interface BatchOptions {
+  batchSize?: number; // Events analyzed and written together
+  timeBudgetMs?: number; // No new batch starts once this much time has passed
+  concurrency?: number; // Parallel recent-signal queries (one per product area)
+}
+
+const DEFAULT_OPTIONS: Required<BatchOptions> = {
+  batchSize: 25,
+  timeBudgetMs: 45 * 1000,
+  concurrency: 4,
+};
+
+export interface BatchRunResult {
+  eventsProcessed: number;
+  eventsFailed: number;
+  eventsRemaining: number; // Left for the next run when the time budget ran out
+  signalsCreated: number;
+  signalsMerged: number; // Items merged into an existing or same-batch signal
+  duplicatesSkipped: number; // Items whose fingerprint was already recorded
+  itemsRejected: number; // Dropped by the quality gate
+  batches: number;
+  timedOut: boolean;
+  processedEventIds: string[];
+  checkpoint: { lastEventId: string; batches: number } | null; // Last event committed
+  stages: RunStages; // Per-stage counts and timings of committed batches, for pipeline_runs
+}
+
+/**
+ * A stored signal row as loaded for dedup and written back on merge
+ */
+interface SignalRow {
+  id: string;
+  product_area_id: string | null;
+  detected_at: string;
+  sentiment: number;
+  intensity: number | null;
+  topic: string;
+  meta: Record<string, unknown> | null;
+  [column: string]: unknown;
+}
+
+/**
+ * Signal in the in-memory dedup window, tied to the row it will be written as
+ */
+interface WorkingSignal {
+  signal: Signal;
+  row: SignalRow | Record<string, unknown>;
+  isNew: boolean;
+}
+
+interface PendingItem {
+  event: RawEvent;
+  item: SourceItem;
+  analysis: ItemAnalysis;
+  quality: QualityAssessment;
+  productAreaId: string | null;
+  productAreaIds: string[];
+  detectedAt: string;
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Run an async function over values with at most `limit` in flight
+ */
+async function mapWithConcurrency<T, R>(values: T[], limit: number, fn: (value: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(values.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, values.length) }, async () => {
+    while (next < values.length) {
+      const index = next++;
+      results[index] = await fn(values[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Claim up to `limit` unprocessed raw events for this run
+ * The conditional update is atomic per row, so concurrent runs never claim the
+ * same event; claims older than the lease are taken over. Events backing off
+ * after a failure (raw_events.retry_after) wait for their retry time.
+ */
+export async function claimRawEvents(
+  supabase: SupabaseClient,
+  limit: number,
+  runId: string = randomUUID()
+): Promise<RawEvent[]> {
+  const now = new Date().toISOString();
+  const leaseCutoff = new Date(Date.now() - CLAIM_LEASE_MS).toISOString();
+
+  const { data: candidates, error: candidatesError } = await supabase
+    .from('raw_events')
+    .select('id')
+    .eq('processed', false)
+    .or(`claimed_at.is.null,claimed_at.lt.${leaseCutoff}`)
+    .or(`retry_after.is.null,retry_after.lte.${now}`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (candidatesError) {
+    throw candidatesError;
+  }
+
+  const candidateIds = (candidates || []).map(row => row.id as string);
+  const claimed: RawEvent[] = [];
+
+  for (const ids of chunk(candidateIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('raw_events')
+      .update({ claimed_at: now, claimed_by: runId })
+      .in('id', ids)
+      .eq('processed', false)
+      .or(`claimed_at.is.null,claimed_at.lt.${leaseCutoff}`)
+      .select('id, source, fetched_at, raw_payload, synthetic');
+
+    if (error) {
+      throw error;
+    }
+
+    claimed.push(...(data || []));
+  }
+
+  // Oldest first, as selected
+  return claimed.sort((a, b) => candidateIds.indexOf(a.id) - candidateIds.indexOf(b.id));
+}
+
+/**
+ * Return claimed events to the queue (e.g. when the time budget runs out)
+ */
+export async function releaseRawEvents(supabase: SupabaseClient, eventIds: string[]): Promise<void> {
+  for (const ids of chunk(eventIds, ID_CHUNK_SIZE)) {
+    const { error } = await supabase
+      .from('raw_events')
+      .update({ claimed_at: null, claimed_by: null })
+      .in('id', ids)
+      .eq('processed', false);
+
+    if (error) {
+      console.error('Error releasing raw events:', error);
+    }
+  }
+}
+
+/**
+ * Claim specific raw events for reprocessing, processed or not
+ * Resets them to unprocessed in the same conditional update, so if the
+ * reprocess run dies they go back to the queue once the lease expires. Events
+ * under another run's live claim are left alone (compare the returned IDs).
+ */
+export async function reclaimRawEvents(
+  supabase: SupabaseClient,
+  eventIds: string[],
+  runId: string = randomUUID()
+): Promise<RawEvent[]> {
+  const now = new Date().toISOString();
+  const leaseCutoff = new Date(Date.now() - CLAIM_LEASE_MS).toISOString();
+  const claimed: RawEvent[] = [];
+
+  for (const ids of chunk(eventIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('raw_events')
+      .update({ processed: false, claimed_at: now, claimed_by: runId, retry_after: null })
+      .in('id', ids)
+      .or(`claimed_at.is.null,claimed_at.lt.${leaseCutoff}`)
+      .select('id, source, fetched_at, raw_payload, synthetic');
+
+    if (error) {
+      throw error;
+    }
+
+    claimed.push(...(data || []));
+  }
+
+  // Keep the caller's order
+  return claimed.sort((a, b) => eventIds.indexOf(a.id) - eventIds.indexOf(b.id));
+}
+
+/**
+ * Recent signals for one product area, covering every pending item's dedup window
+ */
+async function loadRecentSignals(
+  supabase: SupabaseClient,
+  productAreaId: string,
+  items: PendingItem[]
+): Promise<SignalRow[]> {
+  const times = items.map(item => new Date(item.detectedAt).getTime());
+
+  const { data, error } = await supabase
+    .from('signals')
+    .select('*')
+    .eq('product_area_id', productAreaId)
+    .gte('detected_at', new Date(Math.min(...times) - DEDUP_WINDOW_MS).toISOString())
+    .lte('detected_at', new Date(Math.max(...times) + DEDUP_WINDOW_MS).toISOString());
+
+  if (error) {
+    // Fail open: items are stored as new signals instead of merged
+    console.error('Error querying recent signals:', error);
+    return [];
+  }
+
+  return (data || []) as SignalRow[];
+}
+
+/**
+ * Stored rows carry the area as an ID and keywords in meta; dedup compares
+ * area names and keyword lists
+ */
+function toWorkingSignal(row: SignalRow, areaName: string): WorkingSignal {
+  const meta = row.meta || {};
+  return {
+    signal: {
+      id: row.id,
+      topic: row.topic,
+      keywords: Array.isArray(meta.keywords) ? (meta.keywords as string[]) : [],
+      sentiment: Number(row.sentiment),
+      detected_at: row.detected_at,
+      source: String(row.source),
+      product_area: areaName,
+      intensity: row.intensity === null ? undefined : Number(row.intensity),
+      meta,
+    },
+    row,
+    isNew: false,
+  };
+}
+
+function buildSignal(pending: PendingItem, fingerprint: string): Signal {
+  const { event, item, analysis, quality } = pending;
+  const { redaction, sentiment, topic } = analysis;
+
+  return {
+    topic: topic.topic,
+    keywords: topic.keywords,
+    sentiment: sentiment.score,
+    detected_at: pending.detectedAt,
+    source: event.source,
+    product_area: topic.productArea,
+    intensity: quality.weight,
+    meta: {
+      original_text: redaction.text.substring(0, 1000),
+      redactions: redaction.counts,
+      confidence: topic.confidence,
+      sentiment_confidence: sentiment.confidence,
+      raw_event_id: event.id,
+      keywords: topic.keywords,
+      product_areas: topic.productAreas.map(({ area, score }) => ({ area, score })),
+      fingerprint,
+      external_id: item.externalId,
+      url: item.url,
+      author: item.author,
+      published_at: item.publishedAt,
+      quality: {
+        score: quality.score,
+        weight: quality.weight,
+        reasons: quality.reasons.map(reason => reason.code),
+      },
+    },
+  };
+}
+
+/**
+ * Items inherit the raw event's flag unless the adapter marked them itself
+ */
+function isSyntheticItem(pending: PendingItem): boolean {
+  return pending.item.synthetic ?? pending.event.synthetic ?? false;
+}
+
+function buildSignalRow(id: string, pending: PendingItem, signal: Signal): Record<string, unknown> {
+  const { analysis } = pending;
+
+  return {
+    id,
+    source: signal.source,
+    detected_at: signal.detected_at,
+    sentiment: signal.sentiment,
+    topic: signal.topic,
+    subtopic: analysis.subTopic?.id || null,
+    aspects: analysis.sentiment.aspects,
+    language: analysis.language,
+    content_type: classifyContentType(pending.item.text, signal.source),
+    intensity: signal.intensity,
+    product_area_id: pending.productAreaId,
+    product_area_ids: pending.productAreaIds,
+    geo: pending.item.geo || analysis.geo ? { ...pending.item.geo, resolved: analysis.geo } : null,
+    lat: analysis.geo?.lat ?? null,
+    lng: analysis.geo?.lng ?? null,
+    geo_confidence: analysis.geo?.confidence ?? null,
+    synthetic: isSyntheticItem(pending),
+    meta: signal.meta,
+    pipeline_version: PIPELINE_VERSION,
+  };
+}
+
+interface BatchOutcome {
+  signalsCreated: number;
+  signalsMerged: number;
+  duplicatesSkipped: number;
+  itemsRejected: number;
+  stages: RunStages;
+}
+
+/**
+ * Analyze and write one batch of events
+ * Throws when signals cannot be written, leaving the batch unprocessed
+ */
+async function processBatch(
+  events: RawEvent[],
+  supabase: SupabaseClient,
+  settings: Required<BatchOptions>
+): Promise<BatchOutcome> {
+  const stages: RunStages = {};
+  let stageStart = performance.now();
+
+  const [rules, areaIds] = await Promise.all([
+    loadProductAreaRules(supabase),
+    loadProductAreaIds(supabase),
+  ]);
+
+  const extracted = events.flatMap(event =>
+    extractIndividualItems(event.raw_payload, event.source).map(item => ({ event, item }))
+  );
+
+  addStageMetrics(stages, 'extract', {
+    itemsIn: events.length,
+    itemsOut: extracted.length,
+    durationMs: performance.now() - stageStart,
+  });
+  stageStart = performance.now();
+
+  // Fingerprint stage: one lookup per source, plus repeats inside the batch
+  const bySource = new Map<string, string[]>();
+  const fingerprints = extracted.map(({ event, item }) => {
+    const fingerprint = computeItemFingerprint(item);
+    bySource.set(event.source, [...(bySource.get(event.source) || []), fingerprint]);
+    return fingerprint;
+  });
+
+  const seen = new Map<string, Set<string>>();
+  for (const [source, sourceFingerprints] of bySource) {
+    seen.set(source, await loadSeenFingerprints(supabase, source, sourceFingerprints));
+  }
+
+  // Items written by an earlier attempt whose fingerprints were never recorded
+  const signalIds = extracted.map(({ event }, index) => signalIdForItem(event.source, fingerprints[index]));
+  const written = await loadWrittenSignalIds(
+    supabase,
+    signalIds.filter((_, index) => !seen.get(extracted[index].event.source)!.has(fingerprints[index]))
+  );
+
+  const fingerprintMs = performance.now() - stageStart;
+  let qualityMs = 0;
+  let analyzeMs = 0;
+  const rejectReasons: Record<string, number> = {};
+
+  const outcome: BatchOutcome = { signalsCreated: 0, signalsMerged: 0, duplicatesSkipped: 0, itemsRejected: 0, stages };
+  const fingerprintRecords: FingerprintRecord[] = [];
+  const rejected: RejectedItemRecord[] = [];
+  const pending: Array<PendingItem & { fingerprint: string }> = [];
+  const qualityContexts = new Map<string, QualityContext>();
+
+  extracted.forEach(({ event, item }, index) => {
+    const fingerprint = fingerprints[index];
+    const sourceSeen = seen.get(event.source)!;
+
+    if (sourceSeen.has(fingerprint)) {
+      outcome.duplicatesSkipped++;
+      return;
+    }
+    sourceSeen.add(fingerprint);
+
+    if (written.has(signalIds[index])) {
+      fingerprintRecords.push({ source: event.source, fingerprint, raw_event_id: event.id, signal_id: signalIds[index] });
+      outcome.duplicatesSkipped++;
+      return;
+    }
+
+    let started = performance.now();
+    if (!qualityContexts.has(event.id)) qualityContexts.set(event.id, { seenTexts: new Set() });
+    const quality = assessItemQuality(item, event.source, qualityContexts.get(event.id));
+    qualityMs += performance.now() - started;
+
+    if (quality.decision === 'reject') {
+      // Drop reason: the heaviest penalty
+      const [topReason] = [...quality.reasons].sort((a, b) => b.penalty - a.penalty);
+      const code = topReason?.code || 'low_score';
+      rejectReasons[code] = (rejectReasons[code] || 0) + 1;
+      rejected.push(toRejectedItemRecord(event.id, event.source, item, quality, PIPELINE_VERSION));
+      // Remember the item so the same rejected post is not re-scored on every fetch
+      fingerprintRecords.push({ source: event.source, fingerprint, raw_event_id: event.id, signal_id: null });
+      outcome.itemsRejected++;
+      return;
+    }
+
+    started = performance.now();
+    const analysis = analyzeItem(item, rules);
+    const productAreaId = areaIds.get(analysis.topic.productArea) || null;
+
+    // Every qualifying area, primary first, so multi-topic posts count toward each
+    const productAreaIds: string[] = productAreaId ? [productAreaId] : [];
+    for (const match of analysis.topic.productAreas.slice(1)) {
+      const id = areaIds.get(match.area);
+      if (id && !productAreaIds.includes(id)) productAreaIds.push(id);
+    }
+    analyzeMs += performance.now() - started;
+
+    pending.push({
+      event,
+      item,
+      analysis,
+      quality,
+      productAreaId,
+      productAreaIds,
+      detectedAt: event.fetched_at || new Date().toISOString(),
+      fingerprint,
+    });
+  });
+
+  const unseen = extracted.length - outcome.duplicatesSkipped;
+  addStageMetrics(stages, 'fingerprint', {
+    itemsIn: extracted.length,
+    itemsOut: unseen,
+    durationMs: fingerprintMs,
+    drops: { duplicate: outcome.duplicatesSkipped },
+  });
+  addStageMetrics(stages, 'quality', {
+    itemsIn: unseen,
+    itemsOut: pending.length,
+    durationMs: qualityMs,
+    drops: rejectReasons,
+  });
+  addStageMetrics(stages, 'analyze', { itemsIn: pending.length, itemsOut: pending.length, durationMs: analyzeMs });
+  stageStart = performance.now();
+
+  // Recent-signal window: one query per product area
+  const areaNames = new Map([...areaIds].map(([name, id]) => [id, name]));
+  const byArea = new Map<string, PendingItem[]>();
+  for (const item of pending) {
+    if (item.productAreaId) byArea.set(item.productAreaId, [...(byArea.get(item.productAreaId) || []), item]);
+  }
+
+  const windows = new Map<string, WorkingSignal[]>();
+  await mapWithConcurrency([...byArea.entries()], settings.concurrency, async ([areaId, items]) => {
+    const rows = await loadRecentSignals(supabase, areaId, items);
+    windows.set(areaId, rows.map(row => toWorkingSignal(row, areaNames.get(areaId) || 'General')));
+  });
+
+  // In-memory dedup against stored signals and signals created earlier in the batch
+  const inserts = new Map<string, Record<string, unknown>>();
+  const updates = new Map<string, Record<string, unknown>>();
+
+  for (const item of pending) {
+    const newSignal = buildSignal(item, item.fingerprint);
+    const window = item.productAreaId ? windows.get(item.productAreaId) || [] : [];
+    // Synthetic and live items are never merged, so either can be excluded later
+    const synthetic = isSyntheticItem(item);
+    const candidates = window.filter(working => Boolean(working.row.synthetic) === synthetic);
+    const duplicate = candidates.length > 0
+      ? findExistingDuplicate(newSignal, candidates.map(working => working.signal))
+      : null;
+    const match = duplicate ? window.find(working => working.signal === duplicate) : undefined;
+
+    if (duplicate?.id && match) {
+      const merged = mergeSignals(duplicate, newSignal);
+      merged.intensity = (duplicate.intensity ?? duplicate.meta?.duplicate_count ?? 1) + item.quality.weight;
+      match.signal = merged;
+      match.row = {
+        ...match.row,
+        sentiment: merged.sentiment,
+        intensity: merged.intensity,
+        meta: merged.meta,
+        pipeline_version: PIPELINE_VERSION,
+      };
+
+      if (match.isNew) inserts.set(duplicate.id, match.row);
+      else updates.set(duplicate.id, match.row);
+
+      fingerprintRecords.push({ source: item.event.source, fingerprint: item.fingerprint, raw_event_id: item.event.id, signal_id: duplicate.id });
+      outcome.signalsMerged++;
+      continue;
+    }
+
+    const id = signalIdForItem(item.event.source, item.fingerprint);
+    newSignal.id = id;
+    const row = buildSignalRow(id, item, newSignal);
+    inserts.set(id, row);
+    window.push({ signal: newSignal, row, isNew: true });
+    if (item.productAreaId) windows.set(item.productAreaId, window);
+
+    fingerprintRecords.push({ source: item.event.source, fingerprint: item.fingerprint, raw_event_id: item.event.id, signal_id: id });
+    outcome.signalsCreated++;
+  }
+
+  addStageMetrics(stages, 'dedup', {
+    itemsIn: pending.length,
+    itemsOut: outcome.signalsCreated,
+    durationMs: performance.now() - stageStart,
+    drops: { merged: outcome.signalsMerged },
+  });
+  stageStart = performance.now();
+
+  // Bulk writes: new signals first (fingerprints reference them), keyed by
+  // their derived ids so a retried batch cannot insert them twice
+  for (const rows of chunk([...inserts.values()], WRITE_CHUNK_SIZE)) {
+    const { error } = await supabase.from('signals').upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  for (const records of chunk(fingerprintRecords, WRITE_CHUNK_SIZE)) {
+    await recordFingerprints(supabase, records);
+  }
+
+  await recordRejectedItems(supabase, rejected);
+
+  // Merges into stored signals go last: once their fingerprints are recorded a
+  // retry skips them, so a failed merge is lost rather than counted twice
+  for (const rows of chunk([...updates.values()], WRITE_CHUNK_SIZE)) {
+    const { error } = await supabase.from('signals').upsert(rows, { onConflict: 'id' });
+    if (error) throw error;
+  }
+
+  addStageMetrics(stages, 'write', {
+    itemsIn: inserts.size + updates.size,
+    itemsOut: inserts.size + updates.size,
+    durationMs: performance.now() - stageStart,
+  });
+
+  return outcome;
+}
+
+/**
+ * Process one batch, mark its events processed (the checkpoint) and close
+ * any open failures for them
+ */
+async function commitBatch(
+  batch: RawEvent[],
+  supabase: SupabaseClient,
+  settings: Required<BatchOptions>,
+  result: BatchRunResult
+): Promise<void> {
+  const ids = batch.map(event => event.id);
+  const outcome = await processBatch(batch, supabase, settings);
+
+  const { error: checkpointError } = await supabase
+    .from('raw_events')
+    .update({ processed: true, pipeline_version: PIPELINE_VERSION, claimed_at: null, claimed_by: null, retry_after: null })
+    .in('id', ids);
+
+  if (checkpointError) {
+    // Signals are written and fingerprinted, so re-running the batch only skips duplicates
+    console.error('Error marking events as processed:', checkpointError);
+  }
+
+  await resolveEventFailures(supabase, ids);
+
+  result.eventsProcessed += batch.length;
+  result.signalsCreated += outcome.signalsCreated;
+  result.signalsMerged += outcome.signalsMerged;
+  result.duplicatesSkipped += outcome.duplicatesSkipped;
+  result.itemsRejected += outcome.itemsRejected;
+  result.processedEventIds.push(...ids);
+  mergeRunStages(result.stages, outcome.stages);
+  result.checkpoint = { lastEventId: ids[ids.length - 1], batches: result.batches + 1 };
+}
+
+/**
+ * Process raw events into signals, batch by batch
+ * Each committed batch marks its events processed (the checkpoint); when the
+ * time budget runs out the rest are returned to the queue for the next run.
+ * Events that fail on their own are recorded in pipeline_failures and retried
+ * with backoff.
+ *
+ * @example
+ * ```ts
+ * const events = await claimRawEvents(supabase, 500);
+ * const result = await processRawEvents(events, supabase, { timeBudgetMs: 50_000 });
+ * // { eventsProcessed: 200, eventsRemaining: 300, timedOut: true, checkpoint: { lastEventId: '...', batches: 8 }, ... }
+ * ```
+ */
+export async function processRawEvents(
+  events: RawEvent[],
+  supabase: SupabaseClient,
+  options: BatchOptions = {}
+): Promise<BatchRunResult> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const startedAt = Date.now();
+
+  const result: BatchRunResult = {
+    eventsProcessed: 0,
+    eventsFailed: 0,
+    eventsRemaining: 0,
+    signalsCreated: 0,
+    signalsMerged: 0,
+    duplicatesSkipped: 0,
+    itemsRejected: 0,
+    batches: 0,
+    timedOut: false,
+    processedEventIds: [],
+    checkpoint: null,
+    stages: {},
+  };
+
+  const batches = chunk(events, settings.batchSize);
+
+  for (let i = 0; i < batches.length; i++) {
+    if (Date.now() - startedAt > settings.timeBudgetMs) {
+      const remaining = batches.slice(i).flat();
+      result.timedOut = true;
+      result.eventsRemaining = remaining.length;
+      await releaseRawEvents(supabase, remaining.map(event => event.id));
+      break;
+    }
+
+    const batch = batches[i];
+
+    try {
+      await commitBatch(batch, supabase, settings, result);
+    } catch (error) {
+      // Retry events one at a time so a single bad payload doesn't sink the batch
+      console.error('Error processing batch, retrying events individually:', error);
+
+      for (const event of batch) {
+        try {
+          await commitBatch([event], supabase, settings, result);
+        } catch (eventError) {
+          console.error(`Error processing event ${event.id}:`, eventError);
+          result.eventsFailed++;
+          await recordFailure(supabase, { stage: 'process', source: event.source, rawEventId: event.id, error: eventError });
+          await releaseRawEvents(supabase, [event.id]);
+        }
+      }
+    }
+
+    result.batches++;
+  }
+
+  return result;
+}
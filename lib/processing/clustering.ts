@@ -0,0 +1,295 @@
+/**
+ * Topic Clustering
+ * Groups signal texts into emergent themes with TF-IDF vectors and an online
+ * (leader-follower) k-means, so new issues surface even when no keyword rule
+ * matches them. Small clusters are treated as noise, density-clustering style.
+ */
+
+import keywordExtractor from 'keyword-extractor';
+
+export interface ClusterInput {
+  id: string;
+  text: string;
+  sentiment?: number;
+  product_area_id?: string | null;
+  subtopic?: string | null;
+}
+
+export interface TopicCluster {
+  label: string; // Top terms joined, e.g. "esim activation stuck"
+  topTerms: Array<{ term: string; weight: number }>;
+  representativeQuotes: Array<{ signalId: string; text: string; similarity: number }>;
+  signalIds: string[];
+  size: number;
+  avgSentiment: number;
+  cohesion: number; // Mean cosine similarity of members to the centroid (0-1)
+  novelty: number; // Share of members no product area / sub-topic rule matched (0-1)
+}
+
+export interface ClusteringOptions {
+  similarityThreshold?: number; // Minimum cosine similarity to join an existing cluster
+  minClusterSize?: number; // Smaller clusters are dropped as noise
+  minDocumentFrequency?: number; // Terms seen in fewer documents are ignored
+  maxDocumentRatio?: number; // Terms in more than this share of documents are ignored
+  refinementPasses?: number; // Extra k-means reassignment passes after the online pass
+  topTermCount?: number;
+  quoteCount?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ClusteringOptions> = {
+  similarityThreshold: 0.25,
+  minClusterSize: 3,
+  minDocumentFrequency: 2,
+  maxDocumentRatio: 0.5,
+  refinementPasses: 2,
+  topTermCount: 6,
+  quoteCount: 3,
+};
+
+/**
+ * Sparse vector: term index -> weight
+ */
+type SparseVector = Map<number, number>;
+
+interface WorkingCluster {
+  centroid: SparseVector;
+  members: number[];
+}
+
+/**
+ * Terms that carry no signal for theme detection in this domain
+ */
+const DOMAIN_STOPWORDS = new Set([
+  't-mobile', 'tmobile', 'mobile', 'anyone', 'else', 'get', 'got', 'like', 'just', 'one', 'also', 'really', 'still',
+]);
+
+function tokenize(text: string): string[] {
+  const cleaned = text.toLowerCase().replace(/https?:\/\/\S+/g, ' ');
+
+  try {
+    const words: string[] = keywordExtractor.extract(cleaned, {
+      language: 'english',
+      remove_digits: false,
+      return_changed_case: true,
+      remove_duplicates: false,
+    }) || [];
+
+    return words
+      .map(word => word.replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, ''))
+      .filter(word => word.length > 1 && !DOMAIN_STOPWORDS.has(word));
+  } catch (error) {
+    console.error('Error tokenizing text for clustering:', error);
+    return [];
+  }
+}
+
+function normalize(vector: SparseVector): SparseVector {
+  let norm = 0;
+  for (const weight of vector.values()) norm += weight * weight;
+  norm = Math.sqrt(norm);
+
+  if (norm === 0) return vector;
+
+  const normalized: SparseVector = new Map();
+  for (const [term, weight] of vector) normalized.set(term, weight / norm);
+  return normalized;
+}
+
+/**
+ * Cosine similarity of two L2-normalized sparse vectors
+ */
+function cosine(a: SparseVector, b: SparseVector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) {
+    const other = large.get(term);
+    if (other) dot += weight * other;
+  }
+  return dot;
+}
+
+/**
+ * Build L2-normalized TF-IDF vectors for every document
+ */
+function buildTfIdf(
+  documents: string[][],
+  options: Required<ClusteringOptions>
+): { vectors: SparseVector[]; vocabulary: string[] } {
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of documents) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const maxDocuments = Math.max(options.minDocumentFrequency, documents.length * options.maxDocumentRatio);
+  const vocabulary: string[] = [];
+  const termIndex = new Map<string, number>();
+  const idf: number[] = [];
+
+  for (const [term, frequency] of documentFrequency) {
+    if (frequency < options.minDocumentFrequency || frequency > maxDocuments) continue;
+    termIndex.set(term, vocabulary.length);
+    vocabulary.push(term);
+    idf.push(Math.log((documents.length + 1) / (frequency + 1)) + 1);
+  }
+
+  const vectors = documents.map(tokens => {
+    const counts: SparseVector = new Map();
+    for (const token of tokens) {
+      const index = termIndex.get(token);
+      if (index !== undefined) counts.set(index, (counts.get(index) || 0) + 1);
+    }
+
+    const weighted: SparseVector = new Map();
+    for (const [index, count] of counts) {
+      weighted.set(index, (1 + Math.log(count)) * idf[index]);
+    }
+    return normalize(weighted);
+  });
+
+  return { vectors, vocabulary };
+}
+
+/**
+ * Mean of member vectors, re-normalized
+ */
+function computeCentroid(members: number[], vectors: SparseVector[]): SparseVector {
+  const sum: SparseVector = new Map();
+  for (const member of members) {
+    for (const [term, weight] of vectors[member]) {
+      sum.set(term, (sum.get(term) || 0) + weight);
+    }
+  }
+  return normalize(sum);
+}
+
+function nearestCluster(vector: SparseVector, clusters: WorkingCluster[]): { index: number; similarity: number } {
+  let index = -1;
+  let similarity = 0;
+  clusters.forEach((cluster, i) => {
+    const value = cosine(vector, cluster.centroid);
+    if (value > similarity) {
+      similarity = value;
+      index = i;
+    }
+  });
+  return { index, similarity };
+}
+
+/**
+ * Online pass: each document joins the nearest cluster above the threshold
+ * (updating its centroid incrementally) or starts a new one
+ */
+function onlineKMeans(vectors: SparseVector[], threshold: number): WorkingCluster[] {
+  const clusters: WorkingCluster[] = [];
+
+  vectors.forEach((vector, i) => {
+    if (vector.size === 0) return;
+
+    const { index, similarity } = nearestCluster(vector, clusters);
+
+    if (index >= 0 && similarity >= threshold) {
+      const cluster = clusters[index];
+      cluster.members.push(i);
+
+      // Incremental mean: c += (x - c) / n
+      const n = cluster.members.length;
+      const updated: SparseVector = new Map(cluster.centroid);
+      for (const [term, weight] of updated) updated.set(term, weight * (n - 1) / n);
+      for (const [term, weight] of vector) updated.set(term, (updated.get(term) || 0) + weight / n);
+      cluster.centroid = normalize(updated);
+    } else {
+      clusters.push({ centroid: vector, members: [i] });
+    }
+  });
+
+  return clusters;
+}
+
+/**
+ * Batch k-means passes that reassign every document to its nearest centroid
+ */
+function refine(clusters: WorkingCluster[], vectors: SparseVector[], threshold: number, passes: number): WorkingCluster[] {
+  let current = clusters;
+
+  for (let pass = 0; pass < passes; pass++) {
+    const next: WorkingCluster[] = current.map(cluster => ({ centroid: cluster.centroid, members: [] }));
+
+    vectors.forEach((vector, i) => {
+      if (vector.size === 0) return;
+      const { index, similarity } = nearestCluster(vector, current);
+      if (index >= 0 && similarity >= threshold) next[index].members.push(i);
+    });
+
+    current = next
+      .filter(cluster => cluster.members.length > 0)
+      .map(cluster => ({ centroid: computeCentroid(cluster.members, vectors), members: cluster.members }));
+  }
+
+  return current;
+}
+
+/**
+ * Cluster signal texts into themes
+ *
+ * @example
+ * ```ts
+ * const clusters = clusterSignals(signals.map(s => ({ id: s.id, text: s.meta.original_text })));
+ * // [{ label: 'esim activation stuck', size: 12, representativeQuotes: [...], ... }]
+ * ```
+ */
+export function clusterSignals(inputs: ClusterInput[], options: ClusteringOptions = {}): TopicCluster[] {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const documents = inputs.filter(input => input.text && input.text.trim().length > 0);
+
+  if (documents.length < settings.minClusterSize) {
+    return [];
+  }
+
+  const { vectors, vocabulary } = buildTfIdf(documents.map(doc => tokenize(doc.text)), settings);
+
+  const clusters = refine(
+    onlineKMeans(vectors, settings.similarityThreshold),
+    vectors,
+    settings.similarityThreshold,
+    settings.refinementPasses
+  ).filter(cluster => cluster.members.length >= settings.minClusterSize);
+
+  return clusters
+    .map(cluster => {
+      const topTerms = [...cluster.centroid.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, settings.topTermCount)
+        .map(([index, weight]) => ({ term: vocabulary[index], weight: Math.round(weight * 1000) / 1000 }));
+
+      const similarities = cluster.members.map(member => ({
+        member,
+        similarity: cosine(vectors[member], cluster.centroid),
+      }));
+
+      const representativeQuotes = [...similarities]
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, settings.quoteCount)
+        .map(({ member, similarity }) => ({
+          signalId: documents[member].id,
+          text: documents[member].text.substring(0, 280),
+          similarity: Math.round(similarity * 1000) / 1000,
+        }));
+
+      const members = cluster.members.map(member => documents[member]);
+      const unmatched = members.filter(doc => !doc.product_area_id || !doc.subtopic).length;
+
+      return {
+        label: topTerms.slice(0, 3).map(term => term.term).join(' '),
+        topTerms,
+        representativeQuotes,
+        signalIds: members.map(doc => doc.id),
+        size: members.length,
+        avgSentiment: members.reduce((sum, doc) => sum + (doc.sentiment || 0), 0) / members.length,
+        cohesion: Math.round((similarities.reduce((sum, s) => sum + s.similarity, 0) / similarities.length) * 1000) / 1000,
+        novelty: Math.round((unmatched / members.length) * 100) / 100,
+      };
+    })
+    .sort((a, b) => b.size - a.size);
+}
@@ -0,0 +1,164 @@
+/**
+ * Source Credibility
+ * How much one signal counts toward CHI, product-area volume, RICE reach and
+ * early-warning velocity: intensity × source weight × content-type weight.
+ * A news headline or a generated outage-tracker report counts for less than a
+ * customer describing their own problem. Weights are editable in the
+ * credibility_weights table (at /pm/taxonomy), falling back to the defaults here.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { hasFirstPersonVoice } from './quality-gate';
+
+export type ContentType = 'first_person' | 'community_answer' | 'status_page' | 'news' | 'other';
+
+export const CONTENT_TYPE_LABELS: Record<ContentType, string> = {
+  first_person: 'First-person complaint',
+  community_answer: 'Community answer',
+  status_page: 'Status / outage report',
+  news: 'News',
+  other: 'Other',
+};
+
+export const DEFAULT_CONTENT_TYPE_WEIGHTS: Record<ContentType, number> = {
+  first_person: 1,
+  community_answer: 0.6,
+  status_page: 0.7,
+  news: 0.3,
+  other: 0.8,
+};
+
+/**
+ * Sources not listed count at 1
+ * downdetector and outage-report comments are short, anonymous and unverified
+ */
+export const DEFAULT_SOURCE_WEIGHTS: Record<string, number> = {
+  reddit: 1,
+  'tmobile-community': 1,
+  'customer-feedback': 1,
+  istheservicedown: 0.8,
+  'rss-feed': 0.6,
+  'google-news': 0.5,
+  downdetector: 0.4,
+  'outage-report': 0.4,
+};
+
+/**
+ * Outage trackers: their items are status counts and report snippets
+ */
+const STATUS_SOURCES = new Set(['downdetector', 'outage-report', 'istheservicedown']);
+const EDITORIAL_SOURCES = new Set(['google-news', 'rss-feed']);
+
+/**
+ * Replies that help someone else rather than report a problem
+ */
+const ANSWER_PATTERN = /^(?:try|have you tried|you (?:can|should|need to|might)|go to|make sure|what worked for me|here'?s how)\b|\b(?:solution|workaround|fixed it by|resolved by|try resetting|try toggling)\b/i;
+
+export interface CredibilityWeights {
+  sources: Record<string, number>;
+  contentTypes: Record<ContentType, number>;
+}
+
+export const DEFAULT_CREDIBILITY_WEIGHTS: CredibilityWeights = {
+  sources: DEFAULT_SOURCE_WEIGHTS,
+  contentTypes: DEFAULT_CONTENT_TYPE_WEIGHTS,
+};
+
+/**
+ * Classify what kind of voice an item is, from its source and wording
+ *
+ * @example
+ * ```ts
+ * classifyContentType('My phone has had no signal since Monday', 'reddit'); // 'first_person'
+ * classifyContentType('Try toggling airplane mode, that fixed it for me', 'tmobile-community'); // 'community_answer'
+ * classifyContentType('T-Mobile announces new 5G plans', 'google-news'); // 'news'
+ * ```
+ */
+export function classifyContentType(text: string, source: string): ContentType {
+  if (STATUS_SOURCES.has(source)) return 'status_page';
+  if (ANSWER_PATTERN.test(text.trim())) return 'community_answer';
+  if (EDITORIAL_SOURCES.has(source)) return hasFirstPersonVoice(text) ? 'first_person' : 'news';
+  return hasFirstPersonVoice(text) ? 'first_person' : 'other';
+}
+
+/**
+ * Content type for signals stored before content_type was recorded
+ */
+export function defaultContentType(source: string): ContentType {
+  if (STATUS_SOURCES.has(source)) return 'status_page';
+  if (EDITORIAL_SOURCES.has(source)) return 'news';
+  return 'other';
+}
+
+export interface CredibilitySignal {
+  source?: string | null;
+  content_type?: string | null;
+  intensity?: number | null;
+}
+
+/**
+ * Source weight × content-type weight for one signal
+ */
+export function getCredibilityWeight(signal: CredibilitySignal, weights: CredibilityWeights): number {
+  const source = signal.source || '';
+  const contentType = (signal.content_type || defaultContentType(source)) as ContentType;
+  const sourceWeight = weights.sources[source] ?? 1;
+  const contentWeight = weights.contentTypes[contentType] ?? 1;
+
+  return sourceWeight * contentWeight;
+}
+
+/**
+ * Intensity scaled by credibility; missing intensity counts as 1
+ */
+export function getWeightedIntensity(signal: CredibilitySignal, weights: CredibilityWeights): number {
+  return (signal.intensity || 1) * getCredibilityWeight(signal, weights);
+}
+
+const CACHE_DURATION_MS = 5 * 60 * 1000;
+
+let weightsCache: { weights: CredibilityWeights; timestamp: number } | null = null;
+
+/**
+ * Load configured weights over the defaults, cached for 5 minutes
+ * Errors fall back to the defaults and are not cached
+ */
+export async function loadCredibilityWeights(
+  supabase: SupabaseClient,
+  useCache: boolean = true
+): Promise<CredibilityWeights> {
+  if (useCache && weightsCache && Date.now() - weightsCache.timestamp < CACHE_DURATION_MS) {
+    return weightsCache.weights;
+  }
+
+  const { data, error } = await supabase
+    .from('credibility_weights')
+    .select('kind, key, weight');
+
+  if (error) {
+    console.error('Error loading credibility weights, using defaults:', error);
+    return DEFAULT_CREDIBILITY_WEIGHTS;
+  }
+
+  const weights: CredibilityWeights = {
+    sources: { ...DEFAULT_SOURCE_WEIGHTS },
+    contentTypes: { ...DEFAULT_CONTENT_TYPE_WEIGHTS },
+  };
+
+  for (const row of data || []) {
+    const weight = Number(row.weight);
+    if (row.kind === 'source') {
+      weights.sources[row.key] = weight;
+    } else if (row.kind === 'content_type' && row.key in weights.contentTypes) {
+      weights.contentTypes[row.key as ContentType] = weight;
+    }
+  }
+
+  weightsCache = { weights, timestamp: Date.now() };
+
+  return weights;
+}
+
+export function clearCredibilityWeightsCache(): void {
+  weightsCache = null;
+}
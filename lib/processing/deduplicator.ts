@@ -11,6 +11,7 @@ export interface Signal {
   detected_at: Date | string;
   source: string;
   product_area?: string;
+  intensity?: number; // Stored signals only: item count scaled by quality weight
   meta?: any;
 }
 
@@ -0,0 +1,242 @@
+/**
+ * Pipeline Failures
+ * Dead-letter queue for scrapes and raw events that failed. Each failure is
+ * retried with exponential backoff; after MAX_ATTEMPTS it is dead-lettered
+ * and waits for an operator to replay or discard it on /pipeline/health.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type FailureStage = 'scrape' | 'process';
+
+/**
+ * pending: waiting for its next automatic retry
+ * dead: out of retries, needs an operator
+ * resolved: a later attempt succeeded
+ * discarded: dropped by an operator
+ */
+export type FailureStatus = 'pending' | 'dead' | 'resolved' | 'discarded';
+
+export interface PipelineFailure {
+  id: string;
+  stage: FailureStage;
+  source: string;
+  raw_event_id: string | null; // Payload reference for process failures
+  error: string;
+  attempts: number;
+  status: FailureStatus;
+  next_retry_at: string | null;
+  first_failed_at: string;
+  last_failed_at: string;
+  resolved_at: string | null;
+}
+
+export interface FailureInput {
+  stage: FailureStage;
+  source: string;
+  rawEventId?: string | null;
+  error: unknown;
+}
+
+/**
+ * Attempts before a failure is dead-lettered
+ */
+export const MAX_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+/**
+ * Stored in raw_events.retry_after for dead-lettered events, so the claim
+ * query skips them until they are replayed
+ */
+const NEVER = 'infinity';
+
+/**
+ * Delay before the next retry: 1, 2, 4, 8... minutes, capped at 6 hours
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Readable message for thrown Errors and Supabase/PostgREST error objects
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+  return typeof error === 'string' ? error : 'Unknown error';
+}
+
+/**
+ * The open (pending or dead) failure for a raw event, or for a source's scrape
+ */
+async function findOpenFailure(
+  supabase: SupabaseClient,
+  stage: FailureStage,
+  source: string,
+  rawEventId: string | null
+): Promise<PipelineFailure | null> {
+  let query = supabase
+    .from('pipeline_failures')
+    .select('*')
+    .eq('stage', stage)
+    .in('status', ['pending', 'dead'])
+    .limit(1);
+
+  query = rawEventId ? query.eq('raw_event_id', rawEventId) : query.eq('source', source).is('raw_event_id', null);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    console.error('Error loading pipeline failure:', error);
+    return null;
+  }
+
+  return data as PipelineFailure | null;
+}
+
+/**
+ * Keep raw_events.retry_after in step with a process failure, so the claim
+ * query honors the backoff
+ */
+async function setRetryAfter(supabase: SupabaseClient, rawEventId: string, retryAfter: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('raw_events')
+    .update({ retry_after: retryAfter })
+    .eq('id', rawEventId);
+
+  if (error) {
+    console.error('Error scheduling raw event retry:', error);
+  }
+}
+
+/**
+ * Record a failed attempt: opens a failure or bumps the attempt count of the
+ * open one, and schedules the next retry (or dead-letters it)
+ * Failures here are logged, never thrown, so they can't mask the original error
+ */
+export async function recordFailure(supabase: SupabaseClient, input: FailureInput): Promise<PipelineFailure | null> {
+  const rawEventId = input.rawEventId || null;
+  const message = describeError(input.error).substring(0, 2000);
+  const now = new Date();
+
+  const existing = await findOpenFailure(supabase, input.stage, input.source, rawEventId);
+  const attempts = (existing?.attempts || 0) + 1;
+  const status: FailureStatus = attempts >= MAX_ATTEMPTS ? 'dead' : 'pending';
+  const nextRetryAt = status === 'dead' ? null : new Date(now.getTime() + getRetryDelayMs(attempts)).toISOString();
+
+  const values = {
+    error: message,
+    attempts,
+    status,
+    next_retry_at: nextRetryAt,
+    last_failed_at: now.toISOString(),
+  };
+
+  const { data, error } = existing
+    ? await supabase.from('pipeline_failures').update(values).eq('id', existing.id).select().single()
+    : await supabase
+      .from('pipeline_failures')
+      .insert({ ...values, stage: input.stage, source: input.source, raw_event_id: rawEventId })
+      .select()
+      .single();
+
+  if (error) {
+    console.error('Error recording pipeline failure:', error);
+    return null;
+  }
+
+  if (rawEventId) {
+    await setRetryAfter(supabase, rawEventId, nextRetryAt || NEVER);
+  }
+
+  return data as PipelineFailure;
+}
+
+/**
+ * Close the open failure once a retry succeeds
+ */
+export async function resolveFailure(
+  supabase: SupabaseClient,
+  stage: FailureStage,
+  source: string,
+  rawEventId: string | null = null
+): Promise<void> {
+  let query = supabase
+    .from('pipeline_failures')
+    .update({ status: 'resolved', next_retry_at: null, resolved_at: new Date().toISOString() })
+    .eq('stage', stage)
+    .in('status', ['pending', 'dead']);
+
+  query = rawEventId ? query.eq('raw_event_id', rawEventId) : query.eq('source', source).is('raw_event_id', null);
+
+  const { error } = await query;
+
+  if (error) {
+    console.error('Error resolving pipeline failure:', error);
+  }
+}
+
+/**
+ * Close open process failures for events that just committed
+ */
+export async function resolveEventFailures(supabase: SupabaseClient, rawEventIds: string[]): Promise<void> {
+  if (rawEventIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('pipeline_failures')
+    .update({ status: 'resolved', next_retry_at: null, resolved_at: new Date().toISOString() })
+    .eq('stage', 'process')
+    .in('status', ['pending', 'dead'])
+    .in('raw_event_id', rawEventIds);
+
+  if (error) {
+    console.error('Error resolving pipeline failures:', error);
+  }
+}
+
+/**
+ * Sources whose scrape is backing off, mapped to when they may run again
+ */
+export async function loadScrapeBackoffs(supabase: SupabaseClient): Promise<Map<string, string | null>> {
+  const { data, error } = await supabase
+    .from('pipeline_failures')
+    .select('source, status, next_retry_at')
+    .eq('stage', 'scrape')
+    .in('status', ['pending', 'dead']);
+
+  if (error) {
+    // Fail open: every scraper runs
+    console.error('Error loading scrape backoffs:', error);
+    return new Map();
+  }
+
+  const now = Date.now();
+  return new Map(
+    (data || [])
+      .filter(row => row.status === 'dead' || (row.next_retry_at && new Date(row.next_retry_at).getTime() > now))
+      .map(row => [row.source as string, row.status === 'dead' ? null : row.next_retry_at as string])
+  );
+}
+
+/**
+ * Drop a failure; a failed raw event is marked processed so it leaves the queue
+ */
+export async function discardFailure(supabase: SupabaseClient, failure: PipelineFailure): Promise<void> {
+  const { error } = await supabase
+    .from('pipeline_failures')
+    .update({ status: 'discarded', next_retry_at: null, resolved_at: new Date().toISOString() })
+    .eq('id', failure.id);
+
+  if (error) throw error;
+
+  if (failure.raw_event_id) {
+    const { error: eventError } = await supabase
+      .from('raw_events')
+      .update({ processed: true, retry_after: null, claimed_at: null, claimed_by: null })
+      .eq('id', failure.raw_event_id);
+
+    if (eventError) throw eventError;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Item Fingerprinting
+ * Exact identity layer that runs ahead of fuzzy signal merging, so the same
+ * post, article or comment is never turned into a signal twice
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SourceItem } from '@/lib/scraper/types';
+
+/**
+ * Normalize text so trivial differences (case, punctuation, links, spacing)
+ * produce the same hash
+ */
+export function normalizeItemText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^a-z0-9áéíóúñü]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Canonical form of a permalink: lowercase host, no fragment, no trailing slash
+ */
+function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute the stable fingerprint for an item
+ * Preference order: upstream ID, permalink, normalized text hash
+ */
+export function computeItemFingerprint(item: SourceItem): string {
+  if (item.externalId) {
+    return `id:${item.externalId}`;
+  }
+
+  const url = item.url ? normalizeUrl(item.url) : null;
+  if (url) {
+    return `url:${url}`;
+  }
+
+  const hash = createHash('sha1').update(normalizeItemText(item.text)).digest('hex');
+  return `text:${hash}`;
+}
+
+/**
+ * Signal id for an item: a UUID derived from source + fingerprint, so writing
+ * the same item again (a retried batch) hits the same row instead of a new one
+ */
+export function signalIdForItem(source: string, fingerprint: string): string {
+  const hex = createHash('sha1').update(`${source}\n${fingerprint}`).digest('hex');
+  // UUID version 5 layout: version nibble 5, RFC 4122 variant
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Page size for `.in()` filters so request URLs stay short
+ */
+const FINGERPRINT_CHUNK_SIZE = 100;
+
+export interface FingerprintRecord {
+  source: string;
+  fingerprint: string;
+  raw_event_id: string;
+  signal_id: string | null; // null for items the quality gate rejected
+}
+
+/**
+ * Fingerprints of a source that were already turned into (or merged into) a signal
+ */
+export async function loadSeenFingerprints(
+  supabase: SupabaseClient,
+  source: string,
+  fingerprints: string[]
+): Promise<Set<string>> {
+  const seen = new Set<string>();
+  const unique = [...new Set(fingerprints)];
+
+  for (let i = 0; i < unique.length; i += FINGERPRINT_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('item_fingerprints')
+      .select('fingerprint')
+      .eq('source', source)
+      .in('fingerprint', unique.slice(i, i + FINGERPRINT_CHUNK_SIZE));
+
+    if (error) {
+      // Fail open: fuzzy merging still protects intensity if the lookup is down
+      console.error('Error checking item fingerprints:', error);
+      continue;
+    }
+
+    for (const row of data || []) seen.add(row.fingerprint);
+  }
+
+  return seen;
+}
+
+/**
+ * Ids among `ids` that already have a signal row, i.e. items an earlier
+ * attempt wrote before failing
+ * Throws on database errors, since guessing would write merges twice
+ */
+export async function loadWrittenSignalIds(supabase: SupabaseClient, ids: string[]): Promise<Set<string>> {
+  const written = new Set<string>();
+  const unique = [...new Set(ids)];
+
+  for (let i = 0; i < unique.length; i += FINGERPRINT_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('signals')
+      .select('id')
+      .in('id', unique.slice(i, i + FINGERPRINT_CHUNK_SIZE));
+
+    if (error) throw error;
+
+    for (const row of data || []) written.add(row.id);
+  }
+
+  return written;
+}
+
+/**
+ * Record fingerprints in bulk once their signals have been stored or merged
+ */
+export async function recordFingerprints(
+  supabase: SupabaseClient,
+  records: FingerprintRecord[]
+): Promise<void> {
+  if (records.length === 0) return;
+
+  const { error } = await supabase
+    .from('item_fingerprints')
+    .upsert(records, { onConflict: 'source,fingerprint', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Error recording item fingerprints:', error);
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * Geocoder
+ * Resolves item locations to coordinates with an offline US gazetteer
+ * (data/us-gazetteer.json: state centers, cities and ZIP prefix areas) and
+ * US ZIP centroids (data/us-zip-centroids.json).
+ * Structured city/state hints from the source are tried alongside free-text
+ * location fields and places mentioned in the text ("no service in Dallas",
+ * "Outage in Austin TX", "my zip is 98101"); the most confident match wins.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { SourceItem, SourceItemGeo } from '@/lib/scraper/types';
+
+export type GeoPrecision = 'city' | 'zip' | 'zip_prefix' | 'state';
+export type GeoMethod = 'structured' | 'location' | 'text';
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  city: string | null; // Gazetteer city (postal city for ZIP matches); null for state-level matches
+  state: string; // Two-letter code
+  zip?: string; // ZIP the match came from, if any
+  precision: GeoPrecision;
+  confidence: number; // 0 to 1
+  method: GeoMethod;
+  matched: string; // Text the location was resolved from
+}
+
+interface GazetteerState {
+  code: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+interface GazetteerCity {
+  name: string;
+  state: string;
+  lat: number;
+  lng: number;
+  population: number;
+  aliases?: string[];
+}
+
+interface Gazetteer {
+  states: GazetteerState[];
+  cities: GazetteerCity[];
+  zip_prefixes: { from: string; to: string; state: string }[];
+  zip_prefix_cities: Record<string, { city: string; state: string }>;
+}
+
+interface GazetteerIndex {
+  data: Gazetteer;
+  statesByKey: Map<string, GazetteerState>; // Lowercased code and name
+  citiesByName: Map<string, GazetteerCity[]>; // Lowercased name and aliases, most populous first
+  maxNameWords: number;
+}
+
+interface ZipCentroids {
+  places: [string, string][]; // [postal city, state]
+  zips: Record<string, [number, number, number]>; // ZIP → [lat, lng, index into places]
+}
+
+type Match = Omit<GeocodeResult, 'method' | 'matched'>;
+
+/**
+ * Base confidence per kind of match
+ */
+const CONFIDENCE = {
+  cityState: 0.95, // "Dallas, TX"
+  zip: 0.9, // ZIP centroid
+  zipCity: 0.85, // ZIP missing from the centroids, inside a known city's sectional center
+  city: 0.75, // City name with only one gazetteer entry
+  cityAmbiguous: 0.5, // Several cities share the name; the most populous is used
+  zipState: 0.5, // ZIP resolved to its state only
+  state: 0.4,
+};
+
+/**
+ * Places mentioned in a post are not always where the customer is
+ */
+const TEXT_CONFIDENCE_FACTOR = 0.85;
+
+/**
+ * A capitalized city name with no preposition or state around it may be a
+ * person or a brand ("Jackson", "Phoenix")
+ */
+const MENTION_CONFIDENCE_FACTOR = 0.7;
+
+/**
+ * City names that are also everyday words in telecom posts ("Mobile Internet")
+ * only match with a state
+ */
+const REQUIRES_STATE = new Set(['mobile']);
+
+const GAZETTEER_PATH = join(process.cwd(), 'lib/processing/data/us-gazetteer.json');
+const ZIP_CENTROIDS_PATH = join(process.cwd(), 'lib/processing/data/us-zip-centroids.json');
+
+let gazetteerIndex: GazetteerIndex | null = null;
+let zipCentroids: ZipCentroids | null = null;
+
+function loadGazetteer(): GazetteerIndex {
+  if (gazetteerIndex) return gazetteerIndex;
+
+  const data = JSON.parse(readFileSync(GAZETTEER_PATH, 'utf-8')) as Gazetteer;
+
+  const statesByKey = new Map<string, GazetteerState>();
+  for (const state of data.states) {
+    statesByKey.set(state.code.toLowerCase(), state);
+    statesByKey.set(state.name.toLowerCase(), state);
+  }
+
+  const citiesByName = new Map<string, GazetteerCity[]>();
+  let maxNameWords = 1;
+  for (const city of data.cities) {
+    for (const name of [city.name, ...(city.aliases || [])]) {
+      const key = name.toLowerCase();
+      citiesByName.set(key, [...(citiesByName.get(key) || []), city]);
+      maxNameWords = Math.max(maxNameWords, name.split(/\s+/).length);
+    }
+  }
+  for (const cities of citiesByName.values()) {
+    cities.sort((a, b) => b.population - a.population);
+  }
+
+  gazetteerIndex = { data, statesByKey, citiesByName, maxNameWords };
+  return gazetteerIndex;
+}
+
+function loadZipCentroids(): ZipCentroids {
+  if (!zipCentroids) {
+    zipCentroids = JSON.parse(readFileSync(ZIP_CENTROIDS_PATH, 'utf-8')) as ZipCentroids;
+  }
+  return zipCentroids;
+}
+
+function findState(text: string): GazetteerState | null {
+  return loadGazetteer().statesByKey.get(text.trim().replace(/\.$/, '').toLowerCase()) || null;
+}
+
+function cityMatch(city: GazetteerCity, confidence: number): Match {
+  return { lat: city.lat, lng: city.lng, city: city.name, state: city.state, precision: 'city', confidence };
+}
+
+function stateMatch(state: GazetteerState, confidence: number = CONFIDENCE.state): Match {
+  return { lat: state.lat, lng: state.lng, city: null, state: state.code, precision: 'state', confidence };
+}
+
+/**
+ * "Dallas" + "TX" (or "Texas"); falls back to the state when the city is unknown
+ */
+function resolveCityState(cityName: string, stateName: string): Match | null {
+  const state = findState(stateName);
+  if (!state) return null;
+
+  const city = loadGazetteer().citiesByName.get(cityName.trim().toLowerCase())?.find(entry => entry.state === state.code);
+  return city ? cityMatch(city, CONFIDENCE.cityState) : stateMatch(state);
+}
+
+/**
+ * City name alone; ambiguous names resolve to the most populous city
+ */
+function resolveCityName(name: string): Match | null {
+  const key = name.trim().toLowerCase();
+  if (REQUIRES_STATE.has(key)) return null;
+
+  const cities = loadGazetteer().citiesByName.get(key);
+  if (!cities) return null;
+
+  return cityMatch(cities[0], cities.length === 1 ? CONFIDENCE.city : CONFIDENCE.cityAmbiguous);
+}
+
+/**
+ * A place name that may be a state or a city
+ * State names win unless the state has a city of the same name ("New York")
+ */
+function resolvePlaceName(name: string): Match | null {
+  const state = findState(name);
+  if (state && state.code.toLowerCase() !== name.trim().toLowerCase()) {
+    const sameNameCity = loadGazetteer().citiesByName.get(name.trim().toLowerCase())?.find(city => city.state === state.code);
+    return sameNameCity ? cityMatch(sameNameCity, CONFIDENCE.cityAmbiguous) : stateMatch(state);
+  }
+
+  return resolveCityName(name);
+}
+
+/**
+ * 5-digit ZIP resolved to its centroid
+ * ZIPs missing from the centroids (new or unique ZIPs) fall back to their 3-digit prefix
+ */
+function resolveZip(zip: string): Match | null {
+  const { zips, places } = loadZipCentroids();
+  const centroid = zips[zip];
+  if (centroid) {
+    const [lat, lng, place] = centroid;
+    const [city, state] = places[place];
+    return { lat, lng, city, state, zip, precision: 'zip', confidence: CONFIDENCE.zip };
+  }
+
+  const { data, citiesByName, statesByKey } = loadGazetteer();
+  const prefix = zip.substring(0, 3);
+
+  const sectionalCenter = data.zip_prefix_cities[prefix];
+  if (sectionalCenter) {
+    const city = citiesByName.get(sectionalCenter.city.toLowerCase())?.find(entry => entry.state === sectionalCenter.state);
+    if (city) {
+      return { ...cityMatch(city, CONFIDENCE.zipCity), precision: 'zip_prefix', zip };
+    }
+  }
+
+  const range = data.zip_prefixes.find(entry => prefix >= entry.from && prefix <= entry.to);
+  const state = range ? statesByKey.get(range.state.toLowerCase()) : undefined;
+  return state ? { ...stateMatch(state, CONFIDENCE.zipState), zip } : null;
+}
+
+/**
+ * Longest run of leading words that names a place ("San Antonio area" → San Antonio)
+ */
+function resolveLeadingPlace(words: string[]): { match: Match; name: string } | null {
+  const limit = Math.min(words.length, loadGazetteer().maxNameWords);
+
+  for (let count = limit; count > 0; count--) {
+    const name = words.slice(0, count).join(' ');
+    const match = resolvePlaceName(name);
+    if (match) return { match, name };
+  }
+
+  return null;
+}
+
+/**
+ * Places in a run of capitalized words ("Outage Austin TX", "Phoenix")
+ * A city followed by its state ("Austin TX", "Austin Texas") is a city/state pair;
+ * otherwise the longest place name starting at each word counts as a bare mention
+ */
+function resolveCapitalizedRun(words: string[]): (GeocodeResult | null)[] {
+  const maxNameWords = loadGazetteer().maxNameWords;
+  const matches: (GeocodeResult | null)[] = [];
+
+  for (let start = 0; start < words.length; start++) {
+    for (let count = Math.min(maxNameWords, words.length - start); count > 0; count--) {
+      const name = words.slice(start, start + count).join(' ');
+      const next = words.slice(start + count, start + count + 2);
+      // Two-word state names first ("New Mexico")
+      const stateText = [next.join(' '), next[0]].find(candidate => candidate && findState(candidate));
+
+      const cityState = stateText ? resolveCityState(name, stateText) : null;
+      if (cityState?.precision === 'city') {
+        matches.push(withSource(cityState, 'text', `${name} ${stateText}`, TEXT_CONFIDENCE_FACTOR));
+        break;
+      }
+
+      const place = resolvePlaceName(name);
+      if (place) {
+        matches.push(withSource(place, 'text', name, TEXT_CONFIDENCE_FACTOR * MENTION_CONFIDENCE_FACTOR));
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
+
+function best(matches: (GeocodeResult | null)[]): GeocodeResult | null {
+  // Stable on ties, so earlier candidates win
+  return matches.reduce<GeocodeResult | null>(
+    (top, match) => (match && (!top || match.confidence > top.confidence) ? match : top),
+    null
+  );
+}
+
+function withSource(match: Match | null, method: GeoMethod, matched: string, factor: number = 1): GeocodeResult | null {
+  if (!match) return null;
+  return { ...match, method, matched, confidence: Math.round(match.confidence * factor * 100) / 100 };
+}
+
+const CITY_STATE_PATTERN = /\b([A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*){0,3}),\s*([A-Z]{2}|[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)\b/g;
+const ZIP_PATTERN = /\b(\d{5})(?:-\d{4})?\b/;
+const CAPITALIZED_RUN_PATTERN = /\b[A-Z][\w'-]*(?:\s+[A-Z][\w'-]*)*/g;
+const ZIP_AFTER_KEYWORD_PATTERN = /\b(?:zip(?:\s*code)?|zipcode|postal code|c[oó]digo postal)(?:\s+(?:is|of|es))?\s*[:=#]?\s*(\d{5})(?:-\d{4})?\b/gi;
+const ZIP_AFTER_STATE_PATTERN = /\b([A-Z]{2})\s+(\d{5})(?:-\d{4})?\b/g;
+const PLACE_AFTER_PREPOSITION_PATTERN = /\b(?:[Ii]n|[Nn]ear|[Aa]round|[Oo]utside(?: of)?|[Aa]cross|[Tt]hroughout|[Ff]rom|[Ee]n|[Cc]erca de)\s+((?:[A-Z][\w.'-]*|L\.A\.|D\.C\.)(?:\s+[A-Z][\w.'-]*){0,3})/g;
+
+/**
+ * Resolve a structured city/state pair or a free-text location field
+ *
+ * @example
+ * ```ts
+ * geocodeLocation({ city: 'Dallas', state: 'TX' });
+ * // { lat: 32.7767, lng: -96.797, city: 'Dallas', state: 'TX', precision: 'city', confidence: 0.95, method: 'structured', ... }
+ * geocodeLocation({ location: '98004' });
+ * // { city: 'Bellevue', state: 'WA', zip: '98004', precision: 'zip', confidence: 0.9, method: 'location', ... }
+ * ```
+ */
+export function geocodeLocation(geo: SourceItemGeo | null | undefined): GeocodeResult | null {
+  if (!geo) return null;
+
+  const structuredText = [geo.city, geo.state].filter(Boolean).join(', ');
+  const structured = structuredText ? withSource(resolveStructured(geo), 'structured', structuredText) : null;
+
+  return best([structured, geo.location ? geocodeLocationText(geo.location) : null]);
+}
+
+function resolveStructured({ city, state }: SourceItemGeo): Match | null {
+  if (city && state) return resolveCityState(city, state);
+  if (city) return resolveCityName(city);
+
+  const stateEntry = state ? findState(state) : null;
+  return stateEntry ? stateMatch(stateEntry) : null;
+}
+
+/**
+ * A location field: "Dallas, TX", "Dallas, Texas 75201", "75201", "Texas" or "Dallas"
+ */
+function geocodeLocationText(location: string): GeocodeResult | null {
+  const text = location.trim();
+  const candidates: (GeocodeResult | null)[] = [];
+
+  const cityState = text.match(/^([^,]+),\s*([A-Za-z .]+?)(?:\s+\d{5}(?:-\d{4})?)?$/);
+  if (cityState) {
+    candidates.push(withSource(resolveCityState(cityState[1], cityState[2]), 'location', text));
+  }
+
+  const zip = text.match(ZIP_PATTERN);
+  if (zip) {
+    candidates.push(withSource(resolveZip(zip[1]), 'location', text));
+  }
+
+  if (!cityState && !zip) {
+    candidates.push(withSource(resolvePlaceName(text), 'location', text));
+  }
+
+  return best(candidates);
+}
+
+/**
+ * Find the most confident place mentioned in a post
+ *
+ * @example
+ * ```ts
+ * geocodeText('No service in Dallas since this morning');
+ * // { city: 'Dallas', state: 'TX', precision: 'city', confidence: 0.64, method: 'text', matched: 'Dallas' }
+ * geocodeText('Outage in Austin TX');
+ * // { city: 'Austin', state: 'TX', precision: 'city', confidence: 0.81, method: 'text', matched: 'Austin TX' }
+ * geocodeText('My zip is 98101 and nothing loads');
+ * // { city: 'Seattle', state: 'WA', zip: '98101', precision: 'zip', confidence: 0.77, ... }
+ * ```
+ */
+export function geocodeText(text: string): GeocodeResult | null {
+  if (!text || typeof text !== 'string') return null;
+
+  const candidates: (GeocodeResult | null)[] = [];
+
+  for (const [, cityText, stateText] of text.matchAll(CITY_STATE_PATTERN)) {
+    // Drop leading words that are not part of the name ("Outage Fort Worth, TX")
+    const words = cityText.split(/\s+/);
+    for (let start = 0; start < words.length; start++) {
+      const name = words.slice(start).join(' ');
+      const match = findState(stateText) ? resolveCityState(name, stateText) : null;
+      if (match?.precision === 'city') {
+        candidates.push(withSource(match, 'text', `${name}, ${stateText}`, TEXT_CONFIDENCE_FACTOR));
+        break;
+      }
+    }
+  }
+
+  for (const [run] of text.matchAll(CAPITALIZED_RUN_PATTERN)) {
+    candidates.push(...resolveCapitalizedRun(run.split(/\s+/).map(word => word.replace(/'s$/, ''))));
+  }
+
+  for (const [matched, zip] of text.matchAll(ZIP_AFTER_KEYWORD_PATTERN)) {
+    candidates.push(withSource(resolveZip(zip), 'text', matched.trim(), TEXT_CONFIDENCE_FACTOR));
+  }
+
+  for (const [matched, stateCode, zip] of text.matchAll(ZIP_AFTER_STATE_PATTERN)) {
+    if (findState(stateCode)) {
+      candidates.push(withSource(resolveZip(zip), 'text', matched, TEXT_CONFIDENCE_FACTOR));
+    }
+  }
+
+  for (const [, phrase] of text.matchAll(PLACE_AFTER_PREPOSITION_PATTERN)) {
+    const place = resolveLeadingPlace(phrase.split(/\s+/));
+    if (place) {
+      candidates.push(withSource(place.match, 'text', place.name, TEXT_CONFIDENCE_FACTOR));
+    }
+  }
+
+  return best(candidates);
+}
+
+/**
+ * Geocode an item from its source hints and its text
+ * Text should be the redacted analysis text, so street addresses are never matched
+ */
+export function geocodeItem(item: SourceItem, text: string = item.text): GeocodeResult | null {
+  return best([geocodeLocation(item.geo), geocodeText(text)]);
+}
+
+/**
+ * City lookup for sources that report "City, ST" pairs (outage trackers)
+ */
+export function findCity(city: string, state: string): GeocodeResult | null {
+  const match = resolveCityState(city, state);
+  return match?.precision === 'city' ? withSource(match, 'structured', `${city}, ${state}`) : null;
+}
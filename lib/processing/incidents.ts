@@ -0,0 +1,822 @@
+/**
+ * Incident Lifecycle
+ * Correlates negative Network signals across sources into outage incidents.
+ * After each processing run, an incident is opened when enough weighted
+ * negative signals from several sources arrive within one window, per state
+ * or nationwide; later signals from the states it covers (or, without a
+ * location, in its time window) are linked to it, and it moves through
+ * suspected → confirmed → mitigating → resolved as its signal rate changes.
+ * Outages in different regions are tracked as concurrent incidents.
+ *
+ * The pipeline only moves an incident forward, and never re-enters a status
+ * the incident has already reached, so a status set by a PM sticks until the
+ * quiet period resolves it. An incident goes quiet once its signal rate stays
+ * below the opening threshold, so background complaints don't keep it open.
+ *
+ * Every write is a read-modify-write guarded by updated_at (writeIncident),
+ * so the pipeline, a PM and a promotion never overwrite each other's status
+ * or timeline entries.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getWeightedIntensity, loadCredibilityWeights, type CredibilityWeights } from './credibility';
+import { loadProductAreaIds } from './product-area-rules';
+import type { GeocodeResult } from './geocoder';
+import type { IncidentSeverity } from './regional-incidents';
+
+export type IncidentStatus = 'suspected' | 'confirmed' | 'mitigating' | 'resolved';
+
+export const INCIDENT_STATUSES: IncidentStatus[] = ['suspected', 'confirmed', 'mitigating', 'resolved'];
+
+export type IncidentTimelineType = 'opened' | 'status' | 'signals' | 'source' | 'region' | 'promoted';
+
+export interface IncidentTimelineEntry {
+  at: string;
+  type: IncidentTimelineType;
+  message: string;
+  status?: IncidentStatus; // Status entries: the new status
+  by?: string; // Email of the user who made a manual change; pipeline entries have none
+}
+
+export interface AffectedRegion {
+  state: string; // Two-letter code
+  signalCount: number;
+  places: string[]; // "Dallas, TX", most signals first
+}
+
+export interface Incident {
+  id: string;
+  title: string;
+  product_area_id: string;
+  region: string; // State the incident was opened for; '' for a nationwide incident
+  status: IncidentStatus;
+  severity: IncidentSeverity;
+  started_at: string;
+  last_signal_at: string;
+  confirmed_at: string | null;
+  mitigating_at: string | null;
+  resolved_at: string | null;
+  signal_ids: string[];
+  signal_count: number;
+  sources: string[];
+  peak_hourly_weight: number;
+  affected_regions: AffectedRegion[];
+  timeline: IncidentTimelineEntry[];
+  opportunity_id: string | null;
+  promotion_claimed_at: string | null; // Set while a promotion creates the opportunity card
+  synthetic: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CorrelatedSignal {
+  id: string;
+  source: string;
+  detectedAt: string;
+  weight: number; // Credibility-weighted intensity
+  location: GeocodeResult | null;
+  synthetic: boolean;
+}
+
+export interface IncidentOptions {
+  windowMinutes?: number; // Correlation window, also the rate window for mitigation
+  minWeight?: number; // Weighted signals in the window to open an incident
+  minSources?: number; // Distinct sources in the window to open an incident
+  confirmSignals?: number; // Linked signals to confirm
+  confirmSources?: number; // Distinct sources to confirm
+  mitigationRatio?: number; // Mitigating once the window rate falls below this share of its peak
+  quietMinutes?: number; // Resolved after this long without a new signal, or with the rate below minWeight
+}
+
+export interface IncidentUpdateSummary {
+  signalsLoaded: number;
+  signalsLinked: number;
+  opened: string[]; // Ids of incidents opened by this pass
+  incidentIds: string[]; // Open incidents after this pass
+  statusChanges: Array<{ incidentId: string; from: IncidentStatus; to: IncidentStatus }>;
+}
+
+const DEFAULT_OPTIONS: Required<IncidentOptions> = {
+  windowMinutes: 60,
+  minWeight: 6,
+  minSources: 2,
+  confirmSignals: 15,
+  confirmSources: 3,
+  mitigationRatio: 0.5,
+  quietMinutes: 120,
+};
+
+/**
+ * Upper bound on signals loaded per pass; newest first
+ */
+const SIGNAL_LIMIT = 2000;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Re-reads before writeIncident gives up on a row that keeps changing
+ */
+const WRITE_ATTEMPTS = 3;
+
+/**
+ * Lease on a promotion claim; an older claim belongs to a request that died
+ */
+const PROMOTION_CLAIM_MS = 5 * MINUTE_MS;
+
+/**
+ * Incident as built up during a pass; id is missing until a new one is inserted
+ */
+type IncidentDraft = Omit<Incident, 'id' | 'opportunity_id' | 'promotion_claimed_at' | 'created_at' | 'updated_at'> & { id?: string };
+
+/**
+ * Weighted signals detected in the window ending at `end`
+ */
+export function windowWeight(signals: CorrelatedSignal[], end: Date, windowMinutes: number): number {
+  const start = end.getTime() - windowMinutes * MINUTE_MS;
+
+  return signals
+    .filter(signal => {
+      const time = new Date(signal.detectedAt).getTime();
+      return time > start && time <= end.getTime();
+    })
+    .reduce((sum, signal) => sum + signal.weight, 0);
+}
+
+/**
+ * Highest window weight over the `spanMinutes` ending at `now`
+ * The weight only peaks at a signal's detection time, so those are the only ends checked
+ */
+export function peakWindowWeight(
+  signals: CorrelatedSignal[],
+  now: Date,
+  spanMinutes: number,
+  windowMinutes: number
+): number {
+  const spanStart = now.getTime() - spanMinutes * MINUTE_MS;
+  const ends = signals
+    .map(signal => new Date(signal.detectedAt).getTime())
+    .filter(time => time >= spanStart && time <= now.getTime());
+
+  return ends.reduce((peak, end) => Math.max(peak, windowWeight(signals, new Date(end), windowMinutes)), 0);
+}
+
+/**
+ * Signals in the window ending now, when they are enough to open an incident
+ */
+export function findCorrelatedBurst(
+  signals: CorrelatedSignal[],
+  options: IncidentOptions = {},
+  now = new Date()
+): CorrelatedSignal[] | null {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const start = now.getTime() - settings.windowMinutes * MINUTE_MS;
+  const burst = signals.filter(signal => new Date(signal.detectedAt).getTime() > start);
+
+  const weight = burst.reduce((sum, signal) => sum + signal.weight, 0);
+  const sources = new Set(burst.map(signal => signal.source));
+
+  return weight >= settings.minWeight && sources.size >= settings.minSources ? burst : null;
+}
+
+/**
+ * Group located signals by state, with the cities reported in each
+ */
+export function summarizeRegions(signals: CorrelatedSignal[]): AffectedRegion[] {
+  const states = new Map<string, { signalCount: number; places: Map<string, number> }>();
+
+  for (const signal of signals) {
+    if (!signal.location) continue;
+    const { state, city } = signal.location;
+    const entry = states.get(state) || { signalCount: 0, places: new Map<string, number>() };
+    entry.signalCount++;
+    if (city) {
+      const place = `${city}, ${state}`;
+      entry.places.set(place, (entry.places.get(place) || 0) + 1);
+    }
+    states.set(state, entry);
+  }
+
+  return Array.from(states.entries())
+    .map(([state, entry]) => ({
+      state,
+      signalCount: entry.signalCount,
+      places: Array.from(entry.places.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([place]) => place),
+    }))
+    .sort((a, b) => b.signalCount - a.signalCount);
+}
+
+export function getIncidentSeverity(signalCount: number, sourceCount: number, regionCount: number): IncidentSeverity {
+  if (signalCount >= 100 || regionCount >= 5) return 'critical';
+  if (signalCount >= 40 || (signalCount >= 20 && sourceCount >= 4)) return 'high';
+  if (signalCount >= 15) return 'medium';
+  return 'low';
+}
+
+function incidentTitle(regions: AffectedRegion[], sources: string[]): string {
+  const where = regions.slice(0, 2).map(region => region.places[0] || region.state);
+
+  return where.length > 0
+    ? `Network outage: ${where.join(', ')}`
+    : `Network outage reported on ${sources.length} sources`;
+}
+
+/**
+ * Linked-signal rates an incident's status is judged on
+ */
+export interface IncidentRates {
+  current: number; // Window weight ending now
+  recentPeak: number; // Highest window weight over the last quietMinutes
+}
+
+/**
+ * Next status the pipeline moves an incident to, if any
+ * Statuses already reached (confirmed_at / mitigating_at set) are skipped
+ */
+export function nextIncidentStatus(
+  incident: Pick<
+    Incident,
+    'status' | 'started_at' | 'signal_count' | 'sources' | 'last_signal_at' | 'peak_hourly_weight' | 'confirmed_at' | 'mitigating_at'
+  >,
+  rates: IncidentRates,
+  options: IncidentOptions = {},
+  now = new Date()
+): { status: IncidentStatus; message: string } | null {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const quietMinutes = (now.getTime() - new Date(incident.last_signal_at).getTime()) / MINUTE_MS;
+  const openMinutes = (now.getTime() - new Date(incident.started_at).getTime()) / MINUTE_MS;
+  const currentWeight = rates.current;
+
+  if (incident.status === 'resolved') return null;
+
+  if (quietMinutes >= settings.quietMinutes) {
+    return { status: 'resolved', message: `Resolved: no new signals for ${settings.quietMinutes} min` };
+  }
+
+  if (openMinutes >= settings.quietMinutes && rates.recentPeak < settings.minWeight) {
+    return {
+      status: 'resolved',
+      message: `Resolved: signal rate below the opening threshold for ${settings.quietMinutes} min`,
+    };
+  }
+
+  if (
+    incident.status === 'suspected' &&
+    !incident.confirmed_at &&
+    incident.signal_count >= settings.confirmSignals &&
+    incident.sources.length >= settings.confirmSources
+  ) {
+    return {
+      status: 'confirmed',
+      message: `Confirmed: ${incident.signal_count} signals from ${incident.sources.length} sources`,
+    };
+  }
+
+  if (
+    incident.status === 'confirmed' &&
+    !incident.mitigating_at &&
+    incident.peak_hourly_weight > 0 &&
+    currentWeight < incident.peak_hourly_weight * settings.mitigationRatio
+  ) {
+    const share = Math.round((currentWeight / incident.peak_hourly_weight) * 100);
+    return { status: 'mitigating', message: `Mitigating: signal rate down to ${share}% of its peak` };
+  }
+
+  return null;
+}
+
+/**
+ * Timestamp column set when an incident first reaches a status
+ */
+export function statusTimestampField(status: IncidentStatus): 'confirmed_at' | 'mitigating_at' | 'resolved_at' | null {
+  switch (status) {
+    case 'confirmed':
+      return 'confirmed_at';
+    case 'mitigating':
+      return 'mitigating_at';
+    case 'resolved':
+      return 'resolved_at';
+    default:
+      return null;
+  }
+}
+
+interface SignalRow {
+  id: string;
+  source: string;
+  content_type: string | null;
+  intensity: number | null;
+  detected_at: string;
+  geo: { resolved?: GeocodeResult | null } | null;
+  synthetic: boolean | null;
+}
+
+function toCorrelatedSignal(row: SignalRow, weights: CredibilityWeights): CorrelatedSignal {
+  return {
+    id: row.id,
+    source: row.source,
+    detectedAt: row.detected_at,
+    weight: getWeightedIntensity(row, weights),
+    location: row.geo?.resolved || null,
+    synthetic: row.synthetic === true,
+  };
+}
+
+async function loadNegativeSignals(
+  supabase: SupabaseClient,
+  productAreaId: string,
+  since: Date,
+  weights: CredibilityWeights
+): Promise<CorrelatedSignal[]> {
+  const { data, error } = await supabase
+    .from('signals')
+    .select('id, source, content_type, intensity, detected_at, geo, synthetic')
+    .contains('product_area_ids', [productAreaId])
+    .lt('sentiment', 0)
+    .gte('detected_at', since.toISOString())
+    .order('detected_at', { ascending: false })
+    .limit(SIGNAL_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load signals for incidents: ${error.message}`);
+  }
+
+  return ((data || []) as SignalRow[]).map(row => toCorrelatedSignal(row, weights));
+}
+
+/**
+ * Apply a change to an incident without overwriting a concurrent write
+ * `change` builds the columns to set from the current row (null leaves it
+ * alone); the update only lands if updated_at is still what was read, and is
+ * rebuilt from a fresh read otherwise. A missing incident returns null
+ */
+export async function writeIncident(
+  supabase: SupabaseClient,
+  id: string,
+  change: (incident: Incident) => Record<string, unknown> | null
+): Promise<{ incident: Incident | null; error: { code?: string; message: string } | null }> {
+  for (let attempt = 0; attempt < WRITE_ATTEMPTS; attempt++) {
+    const { data: current, error: readError } = await supabase
+      .from('incidents')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (readError) return { incident: null, error: readError };
+    if (!current) return { incident: null, error: null };
+
+    const fields = change(current as Incident);
+    if (!fields) return { incident: current as Incident, error: null };
+
+    const { data, error } = await supabase
+      .from('incidents')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('updated_at', current.updated_at)
+      .select()
+      .maybeSingle();
+
+    if (error) return { incident: null, error };
+    if (data) return { incident: data as Incident, error: null };
+  }
+
+  return {
+    incident: null,
+    error: { message: `Incident ${id} changed on every attempt; gave up after ${WRITE_ATTEMPTS}` },
+  };
+}
+
+/**
+ * Claim an incident for promotion before its opportunity card is created
+ * The conditional update only lands while the incident has no card and no
+ * live claim, so concurrent promotions cannot both create one. Returns
+ * whether this request holds the claim
+ */
+export async function claimIncidentPromotion(
+  supabase: SupabaseClient,
+  id: string
+): Promise<{ claimed: boolean; error: { message: string } | null }> {
+  const now = new Date().toISOString();
+  const leaseCutoff = new Date(Date.now() - PROMOTION_CLAIM_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from('incidents')
+    .update({ promotion_claimed_at: now, updated_at: now })
+    .eq('id', id)
+    .is('opportunity_id', null)
+    .or(`promotion_claimed_at.is.null,promotion_claimed_at.lt.${leaseCutoff}`)
+    .select('id');
+
+  if (error) return { claimed: false, error };
+  return { claimed: (data || []).length > 0, error: null };
+}
+
+/**
+ * Give up a promotion claim when no card was created
+ */
+export async function releaseIncidentPromotion(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('incidents')
+    .update({ promotion_claimed_at: null, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('opportunity_id', null);
+
+  if (error) {
+    console.error('Error releasing incident promotion claim:', error);
+  }
+}
+
+interface IncidentPass {
+  incident: IncidentDraft;
+  timeline: IncidentTimelineEntry[]; // Entries added by this pass
+  linked: number; // Signals linked by this pass
+  statusChanges: Array<{ from: IncidentStatus; to: IncidentStatus }>;
+}
+
+/**
+ * Link new signals to an incident and advance its status as far as the
+ * current state allows (e.g. opened and confirmed in one pass)
+ */
+function applyPass(
+  draft: IncidentDraft,
+  newSignals: CorrelatedSignal[],
+  signals: CorrelatedSignal[],
+  timeline: IncidentTimelineEntry[],
+  settings: Required<IncidentOptions>,
+  now: Date
+): IncidentPass {
+  const nowIso = now.toISOString();
+  let incident = { ...draft };
+
+  // Link new signals, noting sources and states seen for the first time
+  if (newSignals.length > 0) {
+    const knownSources = new Set(incident.sources);
+    const knownStates = new Set(incident.affected_regions.map(region => region.state));
+    const addedSources = Array.from(new Set(newSignals.map(signal => signal.source))).filter(source => !knownSources.has(source));
+    const addedRegions = summarizeRegions(newSignals).filter(region => !knownStates.has(region.state));
+
+    if (incident.id) {
+      timeline.push({ at: nowIso, type: 'signals', message: `${newSignals.length} new signals linked` });
+      for (const source of addedSources) {
+        timeline.push({ at: nowIso, type: 'source', message: `${source} started reporting` });
+      }
+      if (addedRegions.length > 0) {
+        timeline.push({
+          at: nowIso,
+          type: 'region',
+          message: `Reports from ${addedRegions.map(region => region.places[0] || region.state).join(', ')}`,
+        });
+      }
+    }
+
+    const regions = new Map(incident.affected_regions.map(region => [region.state, { ...region, places: [...region.places] }]));
+    for (const region of summarizeRegions(newSignals)) {
+      const current = regions.get(region.state);
+      regions.set(region.state, current
+        ? {
+          state: region.state,
+          signalCount: current.signalCount + region.signalCount,
+          places: Array.from(new Set([...current.places, ...region.places])),
+        }
+        : region);
+    }
+
+    const latest = newSignals.reduce((max, signal) => (signal.detectedAt > max ? signal.detectedAt : max), incident.last_signal_at);
+
+    incident = {
+      ...incident,
+      signal_ids: [...incident.signal_ids, ...newSignals.map(signal => signal.id)],
+      signal_count: incident.signal_count + newSignals.length,
+      sources: [...incident.sources, ...addedSources].sort(),
+      affected_regions: Array.from(regions.values()).sort((a, b) => b.signalCount - a.signalCount),
+      last_signal_at: latest,
+      synthetic: incident.synthetic && newSignals.every(signal => signal.synthetic),
+    };
+  }
+
+  // Rates over the window, counting only signals linked to this incident
+  const linkedIds = new Set(incident.signal_ids);
+  const linkedSignals = signals.filter(signal => linkedIds.has(signal.id));
+  const rates: IncidentRates = {
+    current: windowWeight(linkedSignals, now, settings.windowMinutes),
+    recentPeak: peakWindowWeight(linkedSignals, now, settings.quietMinutes, settings.windowMinutes),
+  };
+  incident.peak_hourly_weight = Math.max(Number(incident.peak_hourly_weight) || 0, rates.current);
+  incident.severity = getIncidentSeverity(incident.signal_count, incident.sources.length, incident.affected_regions.length);
+
+  const statusChanges: IncidentPass['statusChanges'] = [];
+  let next = nextIncidentStatus(incident, rates, settings, now);
+  while (next) {
+    statusChanges.push({ from: incident.status, to: next.status });
+    timeline.push({ at: nowIso, type: 'status', status: next.status, message: next.message });
+
+    const field = statusTimestampField(next.status);
+    incident = { ...incident, status: next.status, ...(field ? { [field]: nowIso } : {}) };
+    next = nextIncidentStatus(incident, rates, settings, now);
+  }
+
+  return { incident, timeline, linked: newSignals.length, statusChanges };
+}
+
+/**
+ * Columns a pass owns on an existing incident: links, counters and the
+ * statuses it moved to. Title and started_at are left to PMs; timeline
+ * entries are appended to the row as read
+ */
+function passFields(current: Incident, pass: IncidentPass): Record<string, unknown> {
+  const { incident } = pass;
+  const fields: Record<string, unknown> = {
+    severity: incident.severity,
+    last_signal_at: incident.last_signal_at,
+    signal_ids: incident.signal_ids,
+    signal_count: incident.signal_count,
+    sources: incident.sources,
+    peak_hourly_weight: incident.peak_hourly_weight,
+    affected_regions: incident.affected_regions,
+    timeline: [...current.timeline, ...pass.timeline],
+    synthetic: incident.synthetic,
+  };
+
+  for (const { to } of pass.statusChanges) {
+    fields.status = to;
+    const field = statusTimestampField(to);
+    if (field) fields[field] = incident[field];
+  }
+
+  return fields;
+}
+
+/**
+ * Open incidents a signal can be linked to
+ */
+type OpenIncident = Pick<Incident, 'id' | 'region' | 'started_at' | 'last_signal_at' | 'affected_regions'>;
+
+/**
+ * Whether a signal falls within an incident's span, give or take one window
+ */
+function isActiveAt(incident: OpenIncident, time: number, windowMinutes: number): boolean {
+  const slack = windowMinutes * MINUTE_MS;
+  return time >= new Date(incident.started_at).getTime() - slack
+    && time <= new Date(incident.last_signal_at).getTime() + slack;
+}
+
+function latestFirst(a: OpenIncident, b: OpenIncident): number {
+  return b.last_signal_at.localeCompare(a.last_signal_at);
+}
+
+/**
+ * Pair new signals with the open incidents they belong to
+ * A located signal joins the incident covering its state, or else a
+ * nationwide incident (region '') active at the time. A signal without a
+ * location is only linked when exactly one incident is active at the time;
+ * with concurrent outages it cannot be told apart and stays unlinked.
+ */
+export function assignSignals(
+  incidents: OpenIncident[],
+  signals: CorrelatedSignal[],
+  windowMinutes: number
+): { assigned: Map<string, CorrelatedSignal[]>; unassigned: CorrelatedSignal[] } {
+  const assigned = new Map<string, CorrelatedSignal[]>(incidents.map(incident => [incident.id, []]));
+  const unassigned: CorrelatedSignal[] = [];
+
+  for (const signal of signals) {
+    const time = new Date(signal.detectedAt).getTime();
+    const active = incidents.filter(incident => isActiveAt(incident, time, windowMinutes)).sort(latestFirst);
+    const state = signal.location?.state;
+
+    const match = state
+      ? incidents
+        .filter(incident => time >= new Date(incident.started_at).getTime() - windowMinutes * MINUTE_MS)
+        .filter(incident => incident.affected_regions.some(region => region.state === state))
+        .sort(latestFirst)[0]
+        || active.find(incident => incident.region === '')
+      : active.length === 1 ? active[0] : undefined;
+
+    if (match) {
+      assigned.get(match.id)!.push(signal);
+    } else {
+      unassigned.push(signal);
+    }
+  }
+
+  return { assigned, unassigned };
+}
+
+/**
+ * Bursts to open incidents for, from signals no open incident took
+ * Each state with a burst of its own gets a regional incident; what is left
+ * opens one nationwide incident (region '') when it is a burst on its own and
+ * no nationwide incident is open yet.
+ */
+export function findNewBursts(
+  unassigned: CorrelatedSignal[],
+  openRegions: Set<string>,
+  options: IncidentOptions = {},
+  now = new Date()
+): Array<{ region: string; signals: CorrelatedSignal[] }> {
+  const byState = new Map<string, CorrelatedSignal[]>();
+  for (const signal of unassigned) {
+    const state = signal.location?.state;
+    if (!state) continue;
+    byState.set(state, [...(byState.get(state) || []), signal]);
+  }
+
+  const bursts: Array<{ region: string; signals: CorrelatedSignal[] }> = [];
+  const taken = new Set<string>();
+
+  for (const [state, signals] of byState) {
+    if (openRegions.has(state)) continue;
+    const burst = findCorrelatedBurst(signals, options, now);
+    if (!burst) continue;
+    bursts.push({ region: state, signals: burst });
+    burst.forEach(signal => taken.add(signal.id));
+  }
+
+  if (!openRegions.has('')) {
+    const burst = findCorrelatedBurst(unassigned.filter(signal => !taken.has(signal.id)), options, now);
+    if (burst) bursts.push({ region: '', signals: burst });
+  }
+
+  return bursts;
+}
+
+/**
+ * Open a Network incident from a burst; null when an overlapping run opened
+ * the same region's incident first (it picks these signals up next pass)
+ */
+async function openIncident(
+  supabase: SupabaseClient,
+  networkAreaId: string,
+  region: string,
+  burst: CorrelatedSignal[],
+  signals: CorrelatedSignal[],
+  settings: Required<IncidentOptions>,
+  now: Date
+): Promise<{ id: string; pass: IncidentPass } | null> {
+  const nowIso = now.toISOString();
+  const sources = Array.from(new Set(burst.map(signal => signal.source))).sort();
+  const regions = summarizeRegions(burst);
+  const pass = applyPass(
+    {
+      title: incidentTitle(regions, sources),
+      product_area_id: networkAreaId,
+      region,
+      status: 'suspected',
+      started_at: burst.reduce((earliest, signal) => (signal.detectedAt < earliest ? signal.detectedAt : earliest), nowIso),
+      last_signal_at: burst[0].detectedAt,
+      confirmed_at: null,
+      mitigating_at: null,
+      resolved_at: null,
+      signal_ids: [],
+      signal_count: 0,
+      sources: [],
+      peak_hourly_weight: 0,
+      affected_regions: [],
+      timeline: [],
+      severity: 'low',
+      synthetic: burst.every(signal => signal.synthetic),
+    },
+    burst,
+    signals,
+    [{
+      at: nowIso,
+      type: 'opened',
+      status: 'suspected',
+      message: `Opened: ${burst.length} negative Network signals${region ? ` in ${region}` : ''} from ${sources.join(', ')} within ${settings.windowMinutes} min`,
+    }],
+    settings,
+    now
+  );
+
+  const { incident } = pass;
+  const { data, error } = await supabase
+    .from('incidents')
+    .insert({
+      title: incident.title,
+      product_area_id: networkAreaId,
+      region,
+      status: incident.status,
+      severity: incident.severity,
+      started_at: incident.started_at,
+      last_signal_at: incident.last_signal_at,
+      confirmed_at: incident.confirmed_at,
+      mitigating_at: incident.mitigating_at,
+      resolved_at: incident.resolved_at,
+      signal_ids: incident.signal_ids,
+      signal_count: incident.signal_count,
+      sources: incident.sources,
+      peak_hourly_weight: incident.peak_hourly_weight,
+      affected_regions: incident.affected_regions,
+      timeline: pass.timeline,
+      synthetic: incident.synthetic,
+      updated_at: nowIso,
+    })
+    .select('id')
+    .single();
+
+  // 23505: an open incident for this region already exists
+  if (error?.code === '23505') return null;
+  if (error) {
+    throw new Error(`Failed to open incident: ${error.message}`);
+  }
+
+  return { id: data.id, pass };
+}
+
+/**
+ * Open, extend and advance Network incidents from recent negative signals
+ * Several incidents can be open at once, one per region; see assignSignals
+ * for how new signals are correlated with them. Called after each processing
+ * run; throws on database errors
+ */
+export async function updateIncidents(
+  supabase: SupabaseClient,
+  options: IncidentOptions = {},
+  now = new Date()
+): Promise<IncidentUpdateSummary> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const summary: IncidentUpdateSummary = {
+    signalsLoaded: 0,
+    signalsLinked: 0,
+    opened: [],
+    incidentIds: [],
+    statusChanges: [],
+  };
+
+  const networkAreaId = (await loadProductAreaIds(supabase)).get('Network');
+  if (!networkAreaId) return summary;
+
+  const { data: openRows, error: openError } = await supabase
+    .from('incidents')
+    .select('*')
+    .eq('product_area_id', networkAreaId)
+    .neq('status', 'resolved');
+
+  if (openError) {
+    throw new Error(`Failed to load open incidents: ${openError.message}`);
+  }
+
+  const open = (openRows || []) as Incident[];
+  const weights = await loadCredibilityWeights(supabase);
+  const windowStart = new Date(now.getTime() - settings.windowMinutes * MINUTE_MS);
+  const since = open.reduce(
+    (earliest, incident) => (new Date(incident.started_at) < earliest ? new Date(incident.started_at) : earliest),
+    windowStart
+  );
+  const signals = await loadNegativeSignals(supabase, networkAreaId, since, weights);
+  summary.signalsLoaded = signals.length;
+
+  const linked = new Set(open.flatMap(incident => incident.signal_ids));
+  const { assigned, unassigned } = assignSignals(
+    open,
+    signals.filter(signal => !linked.has(signal.id)),
+    settings.windowMinutes
+  );
+
+  for (const openRow of open) {
+    // Rebuilt from each fresh read, so a PM's change in between is kept
+    let pass = null as IncidentPass | null;
+    const { incident, error } = await writeIncident(supabase, openRow.id, current => {
+      pass = null;
+      if (current.status === 'resolved') return null;
+
+      const known = new Set(current.signal_ids);
+      const newSignals = (assigned.get(openRow.id) || []).filter(signal => !known.has(signal.id));
+      pass = applyPass(current, newSignals, signals, [], settings, now);
+      return passFields(current, pass);
+    });
+
+    if (error) {
+      throw new Error(`Failed to update incident ${openRow.id}: ${error.message}`);
+    }
+
+    if (pass) {
+      summary.signalsLinked += pass.linked;
+      summary.statusChanges.push(...pass.statusChanges.map(change => ({ ...change, incidentId: openRow.id })));
+    }
+    if (incident && incident.status !== 'resolved') {
+      summary.incidentIds.push(incident.id);
+    }
+  }
+
+  const openRegions = new Set(
+    open.filter(incident => !summary.statusChanges.some(change => change.incidentId === incident.id && change.to === 'resolved'))
+      .map(incident => incident.region)
+  );
+  const recent = unassigned.filter(signal => new Date(signal.detectedAt) > windowStart);
+
+  for (const { region, signals: burst } of findNewBursts(recent, openRegions, settings, now)) {
+    const opened = await openIncident(supabase, networkAreaId, region, burst, signals, settings, now);
+    if (!opened) continue;
+
+    summary.opened.push(opened.id);
+    summary.signalsLinked += opened.pass.linked;
+    summary.statusChanges.push(...opened.pass.statusChanges.map(change => ({ ...change, incidentId: opened.id })));
+    if (opened.pass.incident.status !== 'resolved') {
+      summary.incidentIds.push(opened.id);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,76 @@
+/**
+ * Language Detection
+ * Lightweight stopword-based detection for the languages the pipeline scores
+ * (English and Spanish); anything else falls back to English
+ */
+
+export type SupportedLanguage = 'en' | 'es';
+
+export const SUPPORTED_LANGUAGES: Record<SupportedLanguage, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+export interface LanguageDetection {
+  language: SupportedLanguage;
+  confidence: number; // 0 to 1, share of stopword hits for the winning language
+}
+
+/**
+ * High-frequency function words; content words are too domain-dependent
+ */
+const STOPWORDS: Record<SupportedLanguage, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'is', 'it', 'to', 'of', 'in', 'my', 'for', 'on', 'this', 'that', 'with', 'i', 'you', 'was',
+    'have', 'has', 'not', 'are', 'be', 'at', 'but', 'no', 'they', 'just', 'what', 'so', 'can', 'from', 'been', 'any',
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'mi', 'me',
+    'se', 'lo', 'no', 'pero', 'muy', 'está', 'esta', 'hay', 'tengo', 'desde', 'como', 'ya', 'sin', 'al', 'su', 'porque',
+  ]),
+};
+
+/**
+ * Characters that only appear in Spanish text
+ */
+const SPANISH_MARKERS = /[ñ¿¡]/;
+const SPANISH_ACCENTS = /[áéíóú]/;
+
+/**
+ * Detect the language of a text
+ *
+ * @example
+ * ```ts
+ * detectLanguage('No tengo señal desde ayer'); // { language: 'es', confidence: 0.8 }
+ * detectLanguage('5G is down again');           // { language: 'en', confidence: 0.67 }
+ * ```
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  if (!text || typeof text !== 'string') {
+    return { language: 'en', confidence: 0 };
+  }
+
+  const words = text.toLowerCase().match(/[a-záéíóúüñ]+/g) || [];
+  const hits: Record<SupportedLanguage, number> = { en: 0, es: 0 };
+
+  for (const word of words) {
+    if (STOPWORDS.en.has(word)) hits.en++;
+    if (STOPWORDS.es.has(word)) hits.es++;
+  }
+
+  // Accents and ñ/¿/¡ are strong evidence in short posts with few stopwords
+  if (SPANISH_MARKERS.test(text)) hits.es += 2;
+  else if (SPANISH_ACCENTS.test(text)) hits.es += 1;
+
+  const total = hits.en + hits.es;
+  if (total === 0) {
+    return { language: 'en', confidence: 0 };
+  }
+
+  const language: SupportedLanguage = hits.es > hits.en ? 'es' : 'en';
+
+  return {
+    language,
+    confidence: Math.round((hits[language] / total) * 100) / 100,
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Pipeline Runs
+ * Records each execution of a pipeline job (ingest, process, snapshots,
+ * close-loop, alerts) with per-stage item counts, drop reasons, timings and
+ * errors, and summarizes recent runs into the throughput / latency / failure-rate
+ * figures shown on /pipeline.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describeError } from './failures';
+
+export type PipelineJob = 'ingest' | 'process' | 'snapshots' | 'close_loop' | 'alerts';
+
+/**
+ * running: not finished yet (or the function was killed mid-run)
+ * partial: finished, but some items or sources failed
+ */
+export type RunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+export interface StageMetrics {
+  itemsIn: number;
+  itemsOut: number;
+  durationMs: number;
+  drops: Record<string, number>; // Items that did not continue, by reason
+  errors: number;
+}
+
+export type RunStages = Record<string, StageMetrics>;
+
+export interface PipelineRun {
+  id: string;
+  job: PipelineJob;
+  status: RunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  stages: RunStages;
+  summary: Record<string, unknown>;
+  error: string | null;
+}
+
+/**
+ * Stages of each job, in flow order
+ */
+export const JOB_STAGES: Record<PipelineJob, string[]> = {
+  ingest: ['scrape'],
+  process: ['claim', 'extract', 'fingerprint', 'quality', 'analyze', 'dedup', 'write', 'incidents'],
+  snapshots: ['snapshot', 'chi'],
+  close_loop: ['monitor'],
+  alerts: ['evaluate', 'deliver'],
+};
+
+export function emptyStage(): StageMetrics {
+  return { itemsIn: 0, itemsOut: 0, durationMs: 0, drops: {}, errors: 0 };
+}
+
+/**
+ * Add one measurement to a stage, accumulating across batches
+ */
+export function addStageMetrics(stages: RunStages, stage: string, metrics: Partial<StageMetrics>): void {
+  const current = stages[stage] || emptyStage();
+
+  current.itemsIn += metrics.itemsIn || 0;
+  current.itemsOut += metrics.itemsOut || 0;
+  current.durationMs += metrics.durationMs || 0;
+  current.errors += metrics.errors || 0;
+  for (const [reason, count] of Object.entries(metrics.drops || {})) {
+    if (count > 0) current.drops[reason] = (current.drops[reason] || 0) + count;
+  }
+
+  stages[stage] = current;
+}
+
+/**
+ * Merge every stage of `from` into `into`
+ */
+export function mergeRunStages(into: RunStages, from: RunStages): void {
+  for (const [stage, metrics] of Object.entries(from)) {
+    addStageMetrics(into, stage, metrics);
+  }
+}
+
+export interface RunRecorder {
+  id: string | null; // null when the run row could not be created
+  stages: RunStages;
+  stage: (stage: string, metrics: Partial<StageMetrics>) => void;
+  finish: (status: Exclude<RunStatus, 'running'>, details?: { summary?: Record<string, unknown>; error?: unknown }) => Promise<void>;
+}
+
+/**
+ * Open a run for a job; call finish() when it ends
+ * Recording is best effort: errors are logged, never thrown, so a metrics
+ * outage can't fail the job itself
+ *
+ * @example
+ * ```ts
+ * const run = await startRun(supabase, 'snapshots');
+ * run.stage('snapshot', { itemsIn: signals.length, itemsOut: snapshots.length, durationMs: 120 });
+ * await run.finish('succeeded', { summary: { snapshotsCaptured: snapshots.length } });
+ * ```
+ */
+export async function startRun(supabase: SupabaseClient, job: PipelineJob): Promise<RunRecorder> {
+  const startedAt = new Date();
+  const stages: RunStages = {};
+
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .insert({ job, status: 'running', started_at: startedAt.toISOString() })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error starting pipeline run:', error);
+  }
+
+  const id = (data?.id as string | undefined) || null;
+
+  return {
+    id,
+    stages,
+    stage: (stage, metrics) => addStageMetrics(stages, stage, metrics),
+    finish: async (status, details = {}) => {
+      if (!id) return;
+
+      const finishedAt = new Date();
+      const { error: finishError } = await supabase
+        .from('pipeline_runs')
+        .update({
+          status,
+          finished_at: finishedAt.toISOString(),
+          duration_ms: finishedAt.getTime() - startedAt.getTime(),
+          stages: Object.fromEntries(
+            Object.entries(stages).map(([stage, metrics]) => [stage, { ...metrics, durationMs: Math.round(metrics.durationMs) }])
+          ),
+          summary: details.summary || {},
+          error: details.error === undefined ? null : describeError(details.error).substring(0, 2000),
+        })
+        .eq('id', id);
+
+      if (finishError) {
+        console.error('Error finishing pipeline run:', finishError);
+      }
+    },
+  };
+}
+
+export interface StageSummary extends StageMetrics {
+  throughputPerHour: number; // itemsOut per hour over the window
+  avgDurationMs: number; // Per run
+  dropRate: number; // Share of itemsIn that did not continue
+}
+
+export interface JobSummary {
+  runs: number;
+  succeeded: number;
+  partial: number;
+  failed: number;
+  running: number;
+  failureRate: number; // failed / finished runs
+  avgDurationMs: number | null;
+  p95DurationMs: number | null;
+  lastRunAt: string | null;
+  lastStatus: RunStatus | null;
+  stages: Record<string, StageSummary>;
+}
+
+export interface PipelineMetrics {
+  windowHours: number;
+  jobs: Record<PipelineJob, JobSummary>;
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+/**
+ * Roll runs from the last `windowHours` up into per-job and per-stage figures
+ * Runs are expected newest first, as returned by loadRecentRuns
+ */
+export function summarizeRuns(runs: PipelineRun[], windowHours: number): PipelineMetrics {
+  const jobs = {} as Record<PipelineJob, JobSummary>;
+
+  for (const job of Object.keys(JOB_STAGES) as PipelineJob[]) {
+    const jobRuns = runs.filter(run => run.job === job);
+    const finished = jobRuns.filter(run => run.status !== 'running');
+    const durations = finished
+      .map(run => run.duration_ms)
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+
+    const totals: RunStages = {};
+    for (const run of jobRuns) {
+      mergeRunStages(totals, run.stages || {});
+    }
+
+    const stageNames = [...JOB_STAGES[job], ...Object.keys(totals).filter(stage => !JOB_STAGES[job].includes(stage))];
+    const stages = Object.fromEntries(
+      stageNames.map(stage => {
+        const metrics = totals[stage] || emptyStage();
+        const dropped = Object.values(metrics.drops).reduce((sum, count) => sum + count, 0);
+        return [stage, {
+          ...metrics,
+          throughputPerHour: Math.round((metrics.itemsOut / windowHours) * 10) / 10,
+          avgDurationMs: jobRuns.length > 0 ? Math.round(metrics.durationMs / jobRuns.length) : 0,
+          dropRate: metrics.itemsIn > 0 ? Math.round((dropped / metrics.itemsIn) * 1000) / 1000 : 0,
+        }];
+      })
+    );
+
+    const failed = finished.filter(run => run.status === 'failed').length;
+
+    jobs[job] = {
+      runs: jobRuns.length,
+      succeeded: finished.filter(run => run.status === 'succeeded').length,
+      partial: finished.filter(run => run.status === 'partial').length,
+      failed,
+      running: jobRuns.length - finished.length,
+      failureRate: finished.length > 0 ? Math.round((failed / finished.length) * 1000) / 1000 : 0,
+      avgDurationMs: durations.length > 0
+        ? Math.round(durations.reduce((sum, value) => sum + value, 0) / durations.length)
+        : null,
+      p95DurationMs: percentile(durations, 0.95),
+      lastRunAt: jobRuns[0]?.started_at || null,
+      lastStatus: jobRuns[0]?.status || null,
+      stages,
+    };
+  }
+
+  return { windowHours, jobs };
+}
+
+/**
+ * Runs started in the last `windowHours`, newest first
+ */
+export async function loadRecentRuns(
+  supabase: SupabaseClient,
+  windowHours: number,
+  limit = 2000
+): Promise<PipelineRun[]> {
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .select('*')
+    .gte('started_at', since)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as PipelineRun[];
+}
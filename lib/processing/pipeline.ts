@@ -0,0 +1,83 @@
+/**
+ * Signal Pipeline
+ * Stages that turn raw_events into signals (extract → fingerprint → quality gate → redact → language → sentiment → topic → geocode → dedup)
+ * Orchestrated in batches by batch-processor.ts for live processing and reprocessing/backfill runs
+ */
+
+import { analyzeSentiment, type SentimentResult } from './sentiment';
+import { detectTopic, type ProductAreaRule, type TopicResult } from './topic-detector';
+import { detectLanguage, type SupportedLanguage } from './language';
+import { redactPii, stripPiiPlaceholders, type RedactionResult } from './redaction';
+import { matchSubTopic, type SubTopic } from './subtopics';
+import { computeItemFingerprint } from './fingerprint';
+import { geocodeItem, type GeocodeResult } from './geocoder';
+import { getSourceAdapter } from '@/lib/scraper/registry';
+import type { SourceItem } from '@/lib/scraper/types';
+
+/**
+ * Version tag written to every signal the pipeline produces
+ * Bump whenever sentiment boosters, product-area rules or dedup settings change,
+ * then reprocess so historical signals (and CHI) are computed the same way
+ */
+export const PIPELINE_VERSION = '2025.11.13';
+
+export interface RawEvent {
+  id: string;
+  source: string;
+  fetched_at: string | null;
+  raw_payload: unknown;
+  synthetic?: boolean; // raw_events.synthetic; missing on rows selected without it
+}
+
+export interface ItemAnalysis {
+  fingerprint: string;
+  redaction: RedactionResult; // Text as stored, with PII replaced by placeholders
+  language: SupportedLanguage;
+  sentiment: SentimentResult;
+  topic: TopicResult;
+  subTopic: SubTopic | null; // Canonical sub-topic beneath the primary product area
+  geo: GeocodeResult | null; // Source location hints or places mentioned in the text
+}
+
+/**
+ * Extract individual items from raw event for multi-signal sources
+ * Most sources should create one signal per item (post, article, event, comment)
+ */
+export function extractIndividualItems(rawPayload: unknown, source: string): SourceItem[] {
+  const adapter = getSourceAdapter(source);
+
+  if (!adapter) {
+    console.warn(`Unknown source type: ${source}`);
+    return [];
+  }
+
+  try {
+    return adapter.extractItems(rawPayload).filter(item => item.text);
+  } catch (error) {
+    console.error(`Error extracting items from ${source}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Run the pure analysis stages for an item (no database access)
+ * Analysis runs on the redacted text so keywords and topics never carry PII;
+ * only the fingerprint is computed from the original item
+ */
+export function analyzeItem(item: SourceItem, rules?: ProductAreaRule[]): ItemAnalysis {
+  const redaction = redactPii(item.text);
+  const text = stripPiiPlaceholders(redaction.text);
+
+  const { language } = detectLanguage(text);
+  const topic = detectTopic(text, rules, language);
+
+  return {
+    fingerprint: computeItemFingerprint(item),
+    redaction,
+    language,
+    sentiment: analyzeSentiment(text, { language }),
+    topic,
+    subTopic: matchSubTopic(text, topic.productArea),
+    geo: geocodeItem(item, text),
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Product Area Rules
+ * Loads the editable classification taxonomy from the product_area_rules table,
+ * falling back to the static rules in topic-detector when none are configured,
+ * plus the product area name → ID map the pipeline writes signals with
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_PRODUCT_AREA_RULES, type ProductAreaRule } from './topic-detector';
+
+const CACHE_DURATION_MS = 5 * 60 * 1000;
+
+let rulesCache: { rules: ProductAreaRule[]; timestamp: number } | null = null;
+let areaIdsCache: { ids: Map<string, string>; timestamp: number } | null = null;
+
+interface ProductAreaRuleRow {
+  pattern: string;
+  weight: number;
+  negative: boolean;
+  language: string | null;
+  product_area: { name: string } | null;
+}
+
+/**
+ * Load all rules, cached for 5 minutes
+ *
+ * @param useCache - Pass false to read the table directly (e.g. for previews after edits)
+ */
+export async function loadProductAreaRules(
+  supabase: SupabaseClient,
+  useCache: boolean = true
+): Promise<ProductAreaRule[]> {
+  if (useCache && rulesCache && Date.now() - rulesCache.timestamp < CACHE_DURATION_MS) {
+    return rulesCache.rules;
+  }
+
+  const { data, error } = await supabase
+    .from('product_area_rules')
+    .select('pattern, weight, negative, language, product_area:product_areas(name)');
+
+  if (error) {
+    console.error('Error loading product area rules, using defaults:', error);
+    return DEFAULT_PRODUCT_AREA_RULES;
+  }
+
+  const rules = ((data || []) as unknown as ProductAreaRuleRow[])
+    .filter(row => row.product_area?.name)
+    .map(row => ({
+      area: row.product_area!.name,
+      pattern: row.pattern,
+      weight: Number(row.weight),
+      negative: row.negative,
+      language: row.language || 'en',
+    }));
+
+  const resolved = rules.length > 0 ? rules : DEFAULT_PRODUCT_AREA_RULES;
+  rulesCache = { rules: resolved, timestamp: Date.now() };
+
+  return resolved;
+}
+
+/**
+ * Load the product area name → ID map, cached for 5 minutes
+ * Errors return an empty map (signals are stored without an area) and are not cached
+ */
+export async function loadProductAreaIds(
+  supabase: SupabaseClient,
+  useCache: boolean = true
+): Promise<Map<string, string>> {
+  if (useCache && areaIdsCache && Date.now() - areaIdsCache.timestamp < CACHE_DURATION_MS) {
+    return areaIdsCache.ids;
+  }
+
+  const { data, error } = await supabase
+    .from('product_areas')
+    .select('id, name');
+
+  if (error) {
+    console.error('Error loading product areas:', error);
+    return new Map();
+  }
+
+  const ids = new Map((data || []).map(area => [area.name as string, area.id as string]));
+  areaIdsCache = { ids, timestamp: Date.now() };
+
+  return ids;
+}
+
+/**
+ * Drop cached rules and area IDs so the next load reads the tables
+ */
+export function clearProductAreaRulesCache(): void {
+  rulesCache = null;
+  areaIdsCache = null;
+}
@@ -0,0 +1,248 @@
+/**
+ * Quality Gate
+ * Scores each extracted item for spam, bot and off-topic patterns before it
+ * is analyzed. Low scores are rejected (and kept in rejected_items with their
+ * reasons so the heuristics can be tuned); middling scores become signals
+ * with reduced intensity.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { assessTextQuality } from './sentiment';
+import { normalizeItemText } from './fingerprint';
+import { redactPii } from './redaction';
+import type { SourceItem } from '@/lib/scraper/types';
+
+export type QualityReasonCode =
+  | 'link_density'
+  | 'boilerplate'
+  | 'promotional'
+  | 'low_text_quality'
+  | 'bot_pattern'
+  | 'news_voice'
+  | 'repeated_text';
+
+export interface QualityReason {
+  code: QualityReasonCode;
+  detail: string;
+  penalty: number; // Subtracted from the item's score
+}
+
+export type QualityDecision = 'accept' | 'downweight' | 'reject';
+
+export interface QualityAssessment {
+  score: number; // 0 to 1, 1 = clearly a customer voice
+  decision: QualityDecision;
+  weight: number; // Intensity multiplier for stored signals (0 when rejected)
+  reasons: QualityReason[];
+}
+
+export interface QualityContext {
+  seenTexts?: Set<string>; // Normalized texts already seen in the same raw event
+}
+
+/**
+ * Items scoring below REJECT_BELOW are dropped; below FULL_WEIGHT_FROM they
+ * are stored with intensity scaled by their score
+ */
+const REJECT_BELOW = 0.4;
+const FULL_WEIGHT_FROM = 0.75;
+
+/**
+ * Sources that publish articles rather than customer posts
+ */
+const EDITORIAL_SOURCES = new Set(['google-news', 'rss-feed']);
+
+const BOILERPLATE_PHRASES = [
+  'click here', 'read more', 'learn more', 'subscribe', 'sign up', 'follow us', 'all rights reserved',
+  'terms of service', 'privacy policy', 'this post was removed', 'i am a bot', 'this action was performed automatically',
+  'view original', 'continue reading', 'newsletter',
+];
+
+const PROMOTIONAL_PATTERNS: Array<{ label: string; pattern: RegExp }> = [
+  { label: 'promo code', pattern: /\b(?:promo|coupon|discount|referral) code\b|\buse code\b/i },
+  { label: 'percent off', pattern: /\b\d{1,2}% off\b/i },
+  { label: 'limited-time offer', pattern: /\blimited[- ]time\b|\bact now\b|\bdon'?t miss\b|\bwhile supplies last\b/i },
+  { label: 'call to buy', pattern: /\bbuy now\b|\bshop now\b|\border now\b|\bget yours\b/i },
+  { label: 'giveaway', pattern: /\bgiveaway\b|\bgift card\b|\bwin a\b|\bfree iphone\b/i },
+  { label: 'sponsored', pattern: /\bsponsored\b|\baffiliate\b|#ad\b|\bpartnered with\b/i },
+  { label: 'contact solicitation', pattern: /\bdm me\b|\bmessage me for\b|\bwhatsapp\b|\btelegram\b/i },
+];
+
+/**
+ * Wording typical of news copy rather than a customer describing their own experience
+ */
+const NEWS_PATTERNS = /\b(?:announced|announces|according to|said in a statement|reported|reports that|press release|analysts?|shares (?:rose|fell)|quarter(?:ly)? (?:results|earnings)|ceo|spokesperson)\b/i;
+const FIRST_PERSON = /\b(?:i|i'm|i've|my|me|mine|we|our|us)\b/i;
+
+/**
+ * Whether the text is written by someone about their own experience
+ */
+export function hasFirstPersonVoice(text: string): boolean {
+  return FIRST_PERSON.test(text);
+}
+
+const URL_PATTERN = /https?:\/\/\S+|www\.\S+/gi;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Score an item and decide whether it becomes a signal
+ *
+ * @example
+ * ```ts
+ * assessItemQuality({ text: 'Use code SAVE20 for 20% off, click here https://x.co' }, 'reddit');
+ * // { score: 0.1, decision: 'reject', weight: 0, reasons: [{ code: 'link_density', ... }, ...] }
+ * ```
+ */
+export function assessItemQuality(
+  item: SourceItem,
+  source: string,
+  context: QualityContext = {}
+): QualityAssessment {
+  const text = item.text || '';
+  const lower = text.toLowerCase();
+  const words = text.split(/\s+/).filter(Boolean);
+  const reasons: QualityReason[] = [];
+
+  // Links crowding out the text
+  const links = text.match(URL_PATTERN) || [];
+  if (links.length >= 3 || (links.length > 0 && links.length / Math.max(words.length, 1) > 0.15)) {
+    reasons.push({
+      code: 'link_density',
+      detail: `${links.length} link(s) in ${words.length} word(s)`,
+      penalty: links.length >= 3 ? 0.4 : 0.3,
+    });
+  }
+
+  // Footer / template text and sentences repeated within the item
+  const boilerplate = BOILERPLATE_PHRASES.filter(phrase => lower.includes(phrase));
+  const sentences = lower.split(/[.!?\n]+/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 15);
+  const repeatedSentences = sentences.length - new Set(sentences).size;
+  if (boilerplate.length > 0 || repeatedSentences > 0) {
+    const parts = [
+      ...boilerplate.map(phrase => `"${phrase}"`),
+      ...(repeatedSentences > 0 ? [`${repeatedSentences} repeated sentence(s)`] : []),
+    ];
+    reasons.push({
+      code: 'boilerplate',
+      detail: parts.join(', '),
+      penalty: Math.min(0.45, boilerplate.length * 0.15 + (repeatedSentences > 0 ? 0.2 : 0)),
+    });
+  }
+
+  const promotional = PROMOTIONAL_PATTERNS.filter(({ pattern }) => pattern.test(text));
+  if (promotional.length > 0) {
+    reasons.push({
+      code: 'promotional',
+      detail: promotional.map(({ label }) => label).join(', '),
+      penalty: promotional.length >= 2 ? 0.5 : 0.25,
+    });
+  }
+
+  const letters = text.replace(/[^a-z]/gi, '');
+  if (assessTextQuality(text) === 'low') {
+    reasons.push({
+      code: 'low_text_quality',
+      detail: letters.length === 0 ? 'no words' : `${words.length} word(s), repetitive or mostly punctuation`,
+      penalty: letters.length === 0 ? 0.7 : 0.35,
+    });
+  }
+
+  // Hashtag/mention spam and all-caps shouting
+  const tags = words.filter(word => /^[#@]\w+/.test(word)).length;
+  const capsRatio = letters.length > 0 ? letters.replace(/[^A-Z]/g, '').length / letters.length : 0;
+  if (tags / Math.max(words.length, 1) > 0.3 || (words.length >= 5 && capsRatio > 0.7)) {
+    reasons.push({
+      code: 'bot_pattern',
+      detail: tags > 0 ? `${tags} hashtag(s)/mention(s) in ${words.length} word(s)` : 'mostly capital letters',
+      penalty: 0.3,
+    });
+  }
+
+  // Articles about the carrier rather than customers talking about their service
+  const firstPerson = hasFirstPersonVoice(text);
+  if (!firstPerson && (EDITORIAL_SOURCES.has(source) || NEWS_PATTERNS.test(text))) {
+    reasons.push({
+      code: 'news_voice',
+      detail: EDITORIAL_SOURCES.has(source) ? `editorial source (${source}), no first-person voice` : 'news wording, no first-person voice',
+      penalty: 0.35,
+    });
+  } else if (firstPerson && EDITORIAL_SOURCES.has(source)) {
+    reasons.push({
+      code: 'news_voice',
+      detail: `editorial source (${source})`,
+      penalty: 0.15,
+    });
+  }
+
+  // The same mention copied across an event (reposts, cross-posted social mentions)
+  if (context.seenTexts) {
+    const normalized = normalizeItemText(text);
+    if (normalized && context.seenTexts.has(normalized)) {
+      reasons.push({ code: 'repeated_text', detail: 'same text already seen in this event', penalty: 0.65 });
+    } else if (normalized) {
+      context.seenTexts.add(normalized);
+    }
+  }
+
+  const score = round(Math.max(0, 1 - reasons.reduce((sum, reason) => sum + reason.penalty, 0)));
+  const decision: QualityDecision = score < REJECT_BELOW ? 'reject' : score < FULL_WEIGHT_FROM ? 'downweight' : 'accept';
+
+  return {
+    score,
+    decision,
+    weight: decision === 'reject' ? 0 : decision === 'downweight' ? score : 1,
+    reasons,
+  };
+}
+
+export interface RejectedItemRecord {
+  raw_event_id: string;
+  source: string;
+  text: string;
+  url: string | null;
+  score: number;
+  reasons: QualityReason[];
+  pipeline_version: string;
+}
+
+/**
+ * Row for rejected_items; text is redacted like signal text
+ */
+export function toRejectedItemRecord(
+  rawEventId: string,
+  source: string,
+  item: SourceItem,
+  assessment: QualityAssessment,
+  pipelineVersion: string
+): RejectedItemRecord {
+  return {
+    raw_event_id: rawEventId,
+    source,
+    text: redactPii(item.text).text.substring(0, 1000),
+    url: item.url || null,
+    score: assessment.score,
+    reasons: assessment.reasons,
+    pipeline_version: pipelineVersion,
+  };
+}
+
+/**
+ * Store rejected items for the rejected-items view; failures are logged, not thrown
+ */
+export async function recordRejectedItems(
+  supabase: SupabaseClient,
+  records: RejectedItemRecord[]
+): Promise<void> {
+  if (records.length === 0) return;
+
+  const { error } = await supabase
+    .from('rejected_items')
+    .insert(records);
+
+  if (error) {
+    console.error('Error recording rejected items:', error);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * PII Redaction
+ * Replaces personal data in customer posts with typed placeholders before a
+ * signal is stored or any text is sent to an LLM. Detectors are tuned for
+ * telecom posts: phone numbers (MSISDN), IMEI/ICCID, account numbers, PINs,
+ * emails and street addresses.
+ */
+
+export type PiiType = 'email' | 'iccid' | 'imei' | 'account' | 'pin' | 'phone' | 'address';
+
+export interface RedactionResult {
+  text: string;
+  counts: Partial<Record<PiiType, number>>; // Audit trail: placeholders written per type
+  total: number;
+}
+
+interface PiiDetector {
+  type: PiiType;
+  placeholder: string;
+  pattern: RegExp; // Must be global
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Digits of a match with separators removed
+ */
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Luhn checksum, used by IMEIs (and ICCIDs) to reject random digit runs
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Street suffixes, in lowercase and capitalized form ("St", "street")
+ */
+const STREET_SUFFIXES = [
+  'street', 'st', 'avenue', 'ave', 'road', 'rd', 'boulevard', 'blvd', 'drive', 'dr', 'lane', 'ln', 'way', 'court', 'ct',
+  'place', 'pl', 'parkway', 'pkwy', 'highway', 'hwy', 'circle', 'cir', 'terrace', 'ter', 'trail', 'trl',
+].flatMap(suffix => [suffix, suffix[0].toUpperCase() + suffix.slice(1)]).join('|');
+
+/**
+ * Ordered so longer identifiers are claimed before the phone detector can
+ * match part of them; every detector sees the output of the previous one
+ */
+const PII_DETECTORS: PiiDetector[] = [
+  {
+    type: 'email',
+    placeholder: '[EMAIL]',
+    pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi,
+  },
+  {
+    // SIM serial: 19-20 digits starting with the telecom industry prefix 89
+    type: 'iccid',
+    placeholder: '[ICCID]',
+    pattern: /(?<!\d)89(?:[\s-]?\d){17,18}(?!\d)/g,
+  },
+  {
+    // Labeled device IDs are redacted as-is; bare 15-digit runs must pass Luhn
+    type: 'imei',
+    placeholder: '[IMEI]',
+    pattern: /\b(?:imei|meid)\s*(?:#|no\.?|number|n[úu]mero)?\s*[:=]?\s*[0-9a-f][0-9a-f\s-]{12,18}[0-9a-f]\b/gi,
+  },
+  {
+    type: 'imei',
+    placeholder: '[IMEI]',
+    pattern: /(?<!\d)\d{15}(?!\d)/g,
+    validate: match => passesLuhn(match),
+  },
+  {
+    type: 'pin',
+    placeholder: '[PIN]',
+    pattern: /\b(?:pin|passcode|pass code|security code|port(?:-out)? pin|nip|clave|c[óo]digo)\s*(?:is|es|#|number|n[úu]mero)?\s*[:=]?\s*\d{4,8}(?!\d)/gi,
+  },
+  {
+    type: 'account',
+    placeholder: '[ACCOUNT]',
+    pattern: /\b(?:account|acct|ban|cuenta)\s*(?:#|no\.?|number|num|n[úu]mero)?\s*(?:is|es|de)?\s*[:=]?\s*\d(?:[\s-]?\d){5,13}(?!\d)/gi,
+  },
+  {
+    // NANP with optional +1, or international with a leading +
+    type: 'phone',
+    placeholder: '[PHONE]',
+    pattern: /(?<![\d+])(?:\+?1[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}(?!\d)|\+\d{1,3}(?:[\s.-]?\d){7,12}(?!\d)/g,
+    validate: match => digitsOf(match).length >= 10,
+  },
+  {
+    // Any other long digit run is treated as an account or order identifier
+    type: 'account',
+    placeholder: '[ACCOUNT]',
+    pattern: /(?<![\d.,])\d{8,}(?![\d.,])/g,
+  },
+  {
+    // "1234 Main St", "55 W 5th Ave Apt 2"; street-name words must be capitalized
+    type: 'address',
+    placeholder: '[ADDRESS]',
+    pattern: new RegExp(
+      `\\b\\d{1,6}\\s+(?:(?:[NSEW]\\.?|[A-Z][a-z'.-]*|\\d+(?:st|nd|rd|th))\\s+){1,4}(?:${STREET_SUFFIXES})\\b\\.?(?:,?\\s+(?:[Aa]pt|[Uu]nit|[Ss]uite|[Ss]te|#)\\.?\\s*\\w+)?`,
+      'g'
+    ),
+  },
+  {
+    // "Calle Mayor 12", "Avenida Juárez #45"
+    type: 'address',
+    placeholder: '[ADDRESS]',
+    pattern: /\b(?:[Cc]alle|[Aa]venida|[Aa]v\.|[Cc]arrera|[Pp]aseo)\s+(?:[A-ZÁÉÍÓÚÑ][\wáéíóúñ]*\s*){1,4}(?:#|[Nn]o\.?|[Nn][úu]m\.?)?\s*\d{1,5}\b/g,
+  },
+];
+
+/**
+ * Matches any placeholder written by redactPii
+ */
+export const PII_PLACEHOLDER_PATTERN = /\[(?:EMAIL|ICCID|IMEI|ACCOUNT|PIN|PHONE|ADDRESS)\]/g;
+
+/**
+ * Replace personal data with typed placeholders
+ *
+ * @example
+ * ```ts
+ * redactPii('Call me at (425) 555-0134, IMEI 490154203237518');
+ * // { text: 'Call me at [PHONE], [IMEI]', counts: { imei: 1, phone: 1 }, total: 2 }
+ * ```
+ */
+export function redactPii(text: string): RedactionResult {
+  if (!text || typeof text !== 'string') {
+    return { text: text || '', counts: {}, total: 0 };
+  }
+
+  const counts: Partial<Record<PiiType, number>> = {};
+  let redacted = text;
+
+  for (const detector of PII_DETECTORS) {
+    redacted = redacted.replace(detector.pattern, match => {
+      if (detector.validate && !detector.validate(digitsOf(match) || match)) return match;
+      counts[detector.type] = (counts[detector.type] || 0) + 1;
+      return detector.placeholder;
+    });
+  }
+
+  const total = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+  return { text: redacted, counts, total };
+}
+
+/**
+ * Redacted text with placeholders removed, for analysis stages whose output
+ * (keywords, topics) should not contain "[phone]"-style tokens
+ */
+export function stripPiiPlaceholders(text: string): string {
+  return text.replace(PII_PLACEHOLDER_PATTERN, ' ').replace(/\s{2,}/g, ' ').trim();
+}
+
+/**
+ * Redact the free-text fields of a stored signal's meta
+ * Signals written before redaction was added still hold verbatim text, so
+ * anything that displays signal text or sends it to an LLM goes through this
+ */
+export function redactSignalText<T extends { meta?: Record<string, unknown> | null }>(signal: T): T {
+  if (!signal.meta) return signal;
+
+  const meta = { ...signal.meta };
+  for (const field of ['original_text', 'text']) {
+    if (typeof meta[field] === 'string') {
+      meta[field] = redactPii(meta[field] as string).text;
+    }
+  }
+
+  return { ...signal, meta };
+}
@@ -0,0 +1,343 @@
+/**
+ * Regional Incident Detection
+ * Clusters geocoded negative Network signals in space and time: density-based
+ * clustering (DBSCAN over great-circle distance) runs in sliding time windows,
+ * and clusters that share locations across consecutive windows are chained
+ * into one incident with a start time and growth rate.
+ *
+ * Signals geocoded to a city or ZIP area share its exact coordinates, so
+ * clustering runs over distinct locations ("sites") weighted by their signals.
+ * State-level matches are left out; a state center is not an outage location.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadProductAreaIds } from './product-area-rules';
+import { loadLocatedSignals, type LocatedSignal } from '@/lib/utils/signal-locations';
+
+export interface IncidentSignal {
+  id: string;
+  lat: number;
+  lng: number;
+  detectedAt: string;
+  place: string; // "Dallas, TX"
+  weight: number; // Geocoding confidence × quality weight, clamped to 0-1
+  source: string;
+}
+
+export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RegionalIncident {
+  id: string; // "regional-<earliest signal id>"; stable while the incident lasts
+  centroid: { lat: number; lng: number };
+  radiusKm: number;
+  polygon: Array<[number, number]>; // [lat, lng] ring around the affected area
+  affectedMetros: Array<{ name: string; signalCount: number }>;
+  startedAt: string; // Earliest signal in the chained windows
+  lastSignalAt: string;
+  signalCount: number; // Signals in the latest window
+  totalSignals: number; // Signals across every chained window
+  growthRate: number; // Change in signals per hour vs the previous window
+  severity: IncidentSeverity;
+  sources: string[];
+  signalIds: string[]; // Latest window
+}
+
+export interface RegionalIncidentOptions {
+  windowHours?: number; // Length of each clustering window
+  stepHours?: number; // How far each window slides
+  lookbackHours?: number; // Windows are placed over this period, ending now
+  epsKm?: number; // Neighbourhood radius
+  minWeight?: number; // Weighted signals within epsKm for a core location (each signal counts at most 1)
+}
+
+const DEFAULT_OPTIONS: Required<RegionalIncidentOptions> = {
+  windowHours: 3,
+  stepHours: 1,
+  lookbackHours: 24,
+  epsKm: 80,
+  minWeight: 4,
+};
+
+/**
+ * Buffer drawn around each location so single-city incidents still get an area
+ */
+const SITE_BUFFER_KM = 20;
+const MIN_RADIUS_KM = 25;
+const BUFFER_POINTS = 12;
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = 111.32;
+
+interface Site {
+  key: string;
+  lat: number;
+  lng: number;
+  place: string;
+  signals: IncidentSignal[];
+  weight: number;
+}
+
+interface WindowCluster {
+  sites: Site[];
+  signals: IncidentSignal[];
+}
+
+function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+function siteKey(lat: number, lng: number): string {
+  return `${lat.toFixed(4)},${lng.toFixed(4)}`;
+}
+
+function toSites(signals: IncidentSignal[]): Site[] {
+  const sites = new Map<string, Site>();
+
+  for (const signal of signals) {
+    const key = siteKey(signal.lat, signal.lng);
+    const site = sites.get(key) || { key, lat: signal.lat, lng: signal.lng, place: signal.place, signals: [], weight: 0 };
+    site.signals.push(signal);
+    site.weight += signal.weight;
+    sites.set(key, site);
+  }
+
+  return [...sites.values()];
+}
+
+/**
+ * DBSCAN over weighted sites; a site is core when the weight within epsKm
+ * (itself included) reaches minWeight. Border sites join the first cluster
+ * that reaches them; everything else is noise.
+ */
+function clusterSites(sites: Site[], epsKm: number, minWeight: number): Site[][] {
+  const neighbours = sites.map(site => sites.filter(other => haversineKm(site, other) <= epsKm));
+  const isCore = neighbours.map(near => near.reduce((sum, site) => sum + site.weight, 0) >= minWeight);
+  const assigned = new Set<string>();
+  const clusters: Site[][] = [];
+
+  sites.forEach((site, index) => {
+    if (!isCore[index] || assigned.has(site.key)) return;
+
+    const cluster: Site[] = [];
+    const queue = [index];
+    assigned.add(site.key);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      cluster.push(sites[current]);
+      if (!isCore[current]) continue;
+
+      for (const neighbour of neighbours[current]) {
+        if (assigned.has(neighbour.key)) continue;
+        assigned.add(neighbour.key);
+        queue.push(sites.indexOf(neighbour));
+      }
+    }
+
+    clusters.push(cluster);
+  });
+
+  return clusters;
+}
+
+/**
+ * Convex hull (monotone chain) of [lat, lng] points, treated as planar
+ */
+function convexHull(points: Array<[number, number]>): Array<[number, number]> {
+  const sorted = [...points].sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[1] - o[1]) * (b[0] - o[0]) - (a[0] - o[0]) * (b[1] - o[1]);
+
+  const lower: Array<[number, number]> = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+
+  const upper: Array<[number, number]> = [];
+  for (const point of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  }
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+/**
+ * Hull of a buffer circle around every site
+ */
+function incidentPolygon(sites: Site[]): Array<[number, number]> {
+  const points: Array<[number, number]> = [];
+
+  for (const site of sites) {
+    const latOffset = SITE_BUFFER_KM / KM_PER_DEGREE;
+    const lngOffset = SITE_BUFFER_KM / (KM_PER_DEGREE * Math.cos((site.lat * Math.PI) / 180));
+
+    for (let i = 0; i < BUFFER_POINTS; i++) {
+      const angle = (2 * Math.PI * i) / BUFFER_POINTS;
+      points.push([
+        Math.round((site.lat + latOffset * Math.sin(angle)) * 10000) / 10000,
+        Math.round((site.lng + lngOffset * Math.cos(angle)) * 10000) / 10000,
+      ]);
+    }
+  }
+
+  return convexHull(points);
+}
+
+function getSeverity(signalCount: number, metroCount: number): IncidentSeverity {
+  if (signalCount >= 50 || metroCount >= 5) return 'critical';
+  if (signalCount >= 20 || metroCount >= 3) return 'high';
+  if (signalCount >= 10) return 'medium';
+  return 'low';
+}
+
+function clustersInWindow(
+  signals: IncidentSignal[],
+  windowEnd: number,
+  settings: Required<RegionalIncidentOptions>
+): WindowCluster[] {
+  const windowStart = windowEnd - settings.windowHours * 60 * 60 * 1000;
+  const inWindow = signals.filter(signal => {
+    const time = new Date(signal.detectedAt).getTime();
+    return time > windowStart && time <= windowEnd;
+  });
+
+  return clusterSites(toSites(inWindow), settings.epsKm, settings.minWeight).map(sites => ({
+    sites,
+    signals: sites.flatMap(site => site.signals),
+  }));
+}
+
+function sharesSite(a: WindowCluster, b: WindowCluster): boolean {
+  const keys = new Set(a.sites.map(site => site.key));
+  return b.sites.some(site => keys.has(site.key));
+}
+
+/**
+ * Detect regional incidents active in the latest window
+ *
+ * @example
+ * ```ts
+ * const incidents = detectRegionalIncidents(signals);
+ * incidents[0];
+ * // { centroid: { lat: 32.77, lng: -96.94 }, radiusKm: 51, affectedMetros: [{ name: 'Dallas, TX', signalCount: 14 },
+ * //   { name: 'Fort Worth, TX', signalCount: 6 }], startedAt: '2025-11-12T13:05:00.000Z', growthRate: 4.3, ... }
+ * ```
+ */
+export function detectRegionalIncidents(
+  signals: IncidentSignal[],
+  options: RegionalIncidentOptions = {},
+  now: Date = new Date()
+): RegionalIncident[] {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const stepMs = settings.stepHours * 60 * 60 * 1000;
+  const windowCount = Math.max(1, Math.floor((settings.lookbackHours - settings.windowHours) / settings.stepHours) + 1);
+
+  // Newest window first
+  const windows = Array.from({ length: windowCount }, (_, index) =>
+    clustersInWindow(signals, now.getTime() - index * stepMs, settings)
+  );
+
+  // Windows this many steps back no longer overlap the latest one
+  const previousWindowOffset = Math.max(1, Math.round(settings.windowHours / settings.stepHours));
+
+  return windows[0]
+    .map(current => {
+      // Walk back while an earlier window has a cluster over the same locations
+      const chain: Array<WindowCluster | null> = [current];
+      let latest = current;
+      for (let index = 1; index < windows.length; index++) {
+        const previous = windows[index].find(cluster => sharesSite(latest, cluster)) || null;
+        if (!previous) break;
+        chain.push(previous);
+        latest = previous;
+      }
+
+      const allSignals = new Map(chain.flatMap(cluster => cluster?.signals || []).map(signal => [signal.id, signal]));
+      const ordered = [...allSignals.values()].sort(
+        (a, b) => new Date(a.detectedAt).getTime() - new Date(b.detectedAt).getTime()
+      );
+
+      const weight = current.sites.reduce((sum, site) => sum + site.weight, 0);
+      const centroid = {
+        lat: Math.round((current.sites.reduce((sum, site) => sum + site.lat * site.weight, 0) / weight) * 10000) / 10000,
+        lng: Math.round((current.sites.reduce((sum, site) => sum + site.lng * site.weight, 0) / weight) * 10000) / 10000,
+      };
+      const radiusKm = Math.max(MIN_RADIUS_KM, ...current.sites.map(site => haversineKm(centroid, site) + SITE_BUFFER_KM));
+
+      const previousCount = chain[previousWindowOffset]?.signals.length || 0;
+      const growthRate = (current.signals.length - previousCount) / settings.windowHours;
+
+      const affectedMetros = current.sites
+        .map(site => ({ name: site.place, signalCount: site.signals.length }))
+        .sort((a, b) => b.signalCount - a.signalCount);
+
+      return {
+        id: `regional-${ordered[0].id}`,
+        centroid,
+        radiusKm: Math.round(radiusKm),
+        polygon: incidentPolygon(current.sites),
+        affectedMetros,
+        startedAt: ordered[0].detectedAt,
+        lastSignalAt: ordered[ordered.length - 1].detectedAt,
+        signalCount: current.signals.length,
+        totalSignals: ordered.length,
+        growthRate: Math.round(growthRate * 10) / 10,
+        severity: getSeverity(current.signals.length, affectedMetros.length),
+        sources: [...new Set(current.signals.map(signal => signal.source))],
+        signalIds: current.signals.map(signal => signal.id),
+      };
+    })
+    .sort((a, b) => b.signalCount - a.signalCount);
+}
+
+/**
+ * Merged duplicates carry an intensity above 1; they count as one report here,
+ * so a single repeated post cannot make a core location on its own
+ */
+function toIncidentSignal(signal: LocatedSignal): IncidentSignal | null {
+  const resolved = signal.geo?.resolved;
+  if (!resolved || resolved.precision === 'state' || !resolved.city) return null;
+
+  return {
+    id: signal.id,
+    lat: signal.lat,
+    lng: signal.lng,
+    detectedAt: signal.detected_at,
+    place: `${resolved.city}, ${resolved.state}`,
+    weight: signal.geo_confidence * Math.min(signal.intensity ?? 1, 1),
+    source: signal.source,
+  };
+}
+
+/**
+ * Load negative Network signals from the lookback period and detect incidents
+ */
+export async function loadRegionalIncidents(
+  supabase: SupabaseClient,
+  options: RegionalIncidentOptions & { excludeSynthetic?: boolean } = {}
+): Promise<RegionalIncident[]> {
+  const { excludeSynthetic = false, ...detectOptions } = options;
+  const settings = { ...DEFAULT_OPTIONS, ...detectOptions };
+
+  const networkAreaId = (await loadProductAreaIds(supabase)).get('Network');
+  if (!networkAreaId) return [];
+
+  const signals = await loadLocatedSignals(supabase, {
+    hours: settings.lookbackHours,
+    excludeSynthetic,
+    productAreaId: networkAreaId,
+    negativeOnly: true,
+  });
+
+  return detectRegionalIncidents(
+    signals.map(toIncidentSignal).filter((signal): signal is IncidentSignal => signal !== null),
+    settings
+  );
+}
@@ -0,0 +1,450 @@
+/**
+ * Reprocessing / Backfill
+ * Re-runs the signal pipeline over a date range of raw_events after sentiment
+ * or topic rules change. Dry runs only report how existing signals would move.
+ */
+
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSentimentLabel } from './sentiment';
+import {
+  analyzeItem,
+  extractIndividualItems,
+  PIPELINE_VERSION,
+  type RawEvent,
+} from './pipeline';
+import { processRawEvents, reclaimRawEvents, releaseRawEvents } from './batch-processor';
+import { loadProductAreaRules } from './product-area-rules';
+import type { ProductAreaRule } from './topic-detector';
+import { clearCHICache } from '@/lib/utils/chi';
+
+/**
+ * Upper bound on events per run; narrow the range and run again when truncated
+ */
+const MAX_EVENTS_PER_RUN = 500;
+
+/**
+ * Page size for `.in()` filters so request URLs stay short
+ */
+const ID_CHUNK_SIZE = 100;
+
+/**
+ * Processing budget for an applied run; events left over go back to the queue
+ * and are picked up by /api/process/raw
+ */
+const REPROCESS_TIME_BUDGET_MS = 45_000;
+
+/**
+ * Sentiment shifts smaller than this are not reported as changes
+ */
+const SENTIMENT_CHANGE_THRESHOLD = 0.05;
+
+export interface ReprocessOptions {
+  from: string; // ISO timestamp, inclusive (raw_events.fetched_at)
+  to: string; // ISO timestamp, inclusive
+  source?: string;
+  dryRun: boolean;
+}
+
+export interface AreaMove {
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface ReprocessReport {
+  pipelineVersion: string;
+  dryRun: boolean;
+  range: { from: string; to: string };
+  source: string | null;
+  eventsScanned: number;
+  truncated: boolean;
+  itemsAnalyzed: number;
+  existingSignals: number;
+  existingVersions: Record<string, number>; // pipeline_version -> signal count
+  matchedItems: number;
+  newItems: number; // Items with no existing signal (e.g. merged into a signal outside the range)
+  areaMoves: AreaMove[];
+  topicChanges: number;
+  sentimentChanges: {
+    changed: number;
+    labelFlips: number;
+    avgAbsDelta: number;
+  };
+  summary: string[];
+  applied?: {
+    signalsDeleted: number;
+    signalsCreated: number;
+    duplicatesSkipped: number;
+    itemsRejected: number;
+    eventsFailed: number;
+    eventsRemaining: number; // Released to the processing queue when the budget ran out
+    contributingEvents: number; // Events outside the range whose items were merged into replaced signals
+  };
+}
+
+interface ExistingSignal {
+  id: string;
+  sentiment: number;
+  topic: string;
+  pipeline_version: string | null;
+  meta: Record<string, unknown> | null;
+  product_area: { name: string } | null;
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Load raw events fetched within the range, oldest first
+ */
+async function loadEventsInRange(
+  supabase: SupabaseClient,
+  options: ReprocessOptions
+): Promise<RawEvent[]> {
+  let query = supabase
+    .from('raw_events')
+    .select('id, source, fetched_at, raw_payload, synthetic')
+    .gte('fetched_at', options.from)
+    .lte('fetched_at', options.to)
+    .order('fetched_at', { ascending: true })
+    .limit(MAX_EVENTS_PER_RUN);
+
+  if (options.source) {
+    query = query.eq('source', options.source);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error loading raw events for reprocessing:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Load signals that were created from the given raw events
+ */
+async function loadSignalsForEvents(
+  supabase: SupabaseClient,
+  eventIds: string[]
+): Promise<ExistingSignal[]> {
+  const signals: ExistingSignal[] = [];
+
+  for (const ids of chunk(eventIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('signals')
+      .select('id, sentiment, topic, pipeline_version, meta, product_area:product_areas(name)')
+      .in('meta->>raw_event_id', ids);
+
+    if (error) {
+      console.error('Error loading signals for reprocessing:', error);
+      throw error;
+    }
+
+    signals.push(...((data || []) as unknown as ExistingSignal[]));
+  }
+
+  return signals;
+}
+
+/**
+ * Map each item fingerprint recorded for these events to the signal it landed
+ * in, including items merged into another item's signal
+ */
+async function loadFingerprintSignals(
+  supabase: SupabaseClient,
+  eventIds: string[]
+): Promise<Map<string, string>> {
+  const signalIds = new Map<string, string>();
+
+  for (const ids of chunk(eventIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('item_fingerprints')
+      .select('fingerprint, signal_id')
+      .in('raw_event_id', ids)
+      .not('signal_id', 'is', null);
+
+    if (error) {
+      console.error('Error loading item fingerprints for reprocessing:', error);
+      throw error;
+    }
+
+    for (const row of data || []) {
+      signalIds.set(row.fingerprint as string, row.signal_id as string);
+    }
+  }
+
+  return signalIds;
+}
+
+/**
+ * Raw events whose items were merged into the given signals
+ */
+async function loadContributingEventIds(
+  supabase: SupabaseClient,
+  signalIds: string[]
+): Promise<Set<string>> {
+  const eventIds = new Set<string>();
+
+  for (const ids of chunk(signalIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('item_fingerprints')
+      .select('raw_event_id')
+      .in('signal_id', ids)
+      .not('raw_event_id', 'is', null);
+
+    if (error) {
+      console.error('Error loading contributing events for reprocessing:', error);
+      throw error;
+    }
+
+    for (const row of data || []) {
+      eventIds.add(row.raw_event_id as string);
+    }
+  }
+
+  return eventIds;
+}
+
+/**
+ * Key used to pair an item with the signal it produced
+ * Signals written before fingerprinting only carry the (redacted) original text
+ */
+function textKey(rawEventId: string, text: string): string {
+  return `${rawEventId}|${text.substring(0, 1000)}`;
+}
+
+/**
+ * Compare fresh analysis of every item with its existing signal
+ */
+function diffEvents(
+  events: RawEvent[],
+  signals: ExistingSignal[],
+  fingerprintSignals: Map<string, string>,
+  rules: ProductAreaRule[]
+): Omit<ReprocessReport, 'pipelineVersion' | 'dryRun' | 'range' | 'source' | 'truncated' | 'summary'> {
+  const byId = new Map(signals.map(signal => [signal.id, signal]));
+  const byFingerprint = new Map<string, ExistingSignal>();
+  const byText = new Map<string, ExistingSignal>();
+  const existingVersions: Record<string, number> = {};
+
+  for (const signal of signals) {
+    const meta = signal.meta || {};
+    if (typeof meta.fingerprint === 'string') {
+      byFingerprint.set(meta.fingerprint, signal);
+    }
+    if (typeof meta.raw_event_id === 'string' && typeof meta.original_text === 'string') {
+      byText.set(textKey(meta.raw_event_id, meta.original_text), signal);
+    }
+
+    const version = signal.pipeline_version || 'untagged';
+    existingVersions[version] = (existingVersions[version] || 0) + 1;
+  }
+
+  const moves = new Map<string, AreaMove>();
+  let itemsAnalyzed = 0;
+  let matchedItems = 0;
+  let topicChanges = 0;
+  let sentimentChanged = 0;
+  let labelFlips = 0;
+  let totalAbsDelta = 0;
+
+  for (const event of events) {
+    for (const item of extractIndividualItems(event.raw_payload, event.source)) {
+      itemsAnalyzed++;
+
+      const analysis = analyzeItem(item, rules);
+      const mergedInto = fingerprintSignals.get(analysis.fingerprint);
+      const existing = (mergedInto && byId.get(mergedInto))
+        || byFingerprint.get(analysis.fingerprint)
+        || byText.get(textKey(event.id, analysis.redaction.text));
+      if (!existing) continue;
+
+      matchedItems++;
+
+      const previousArea = existing.product_area?.name || 'General';
+      if (previousArea !== analysis.topic.productArea) {
+        const key = `${previousArea}→${analysis.topic.productArea}`;
+        const move = moves.get(key) || { from: previousArea, to: analysis.topic.productArea, count: 0 };
+        move.count++;
+        moves.set(key, move);
+      }
+
+      if (existing.topic !== analysis.topic.topic) {
+        topicChanges++;
+      }
+
+      const delta = Math.abs(analysis.sentiment.score - existing.sentiment);
+      totalAbsDelta += delta;
+      if (delta >= SENTIMENT_CHANGE_THRESHOLD) {
+        sentimentChanged++;
+      }
+      if (getSentimentLabel(existing.sentiment) !== getSentimentLabel(analysis.sentiment.score)) {
+        labelFlips++;
+      }
+    }
+  }
+
+  return {
+    eventsScanned: events.length,
+    itemsAnalyzed,
+    existingSignals: signals.length,
+    existingVersions,
+    matchedItems,
+    newItems: itemsAnalyzed - matchedItems,
+    areaMoves: [...moves.values()].sort((a, b) => b.count - a.count),
+    topicChanges,
+    sentimentChanges: {
+      changed: sentimentChanged,
+      labelFlips,
+      avgAbsDelta: matchedItems > 0 ? Math.round((totalAbsDelta / matchedItems) * 1000) / 1000 : 0,
+    },
+  };
+}
+
+/**
+ * Human-readable lines for the report
+ */
+function summarize(report: Omit<ReprocessReport, 'summary'>): string[] {
+  const verb = report.dryRun ? 'would move' : 'moved';
+  const lines = report.areaMoves.map(move =>
+    `${move.count} signal${move.count === 1 ? '' : 's'} ${verb} from ${move.from} to ${move.to}`
+  );
+
+  lines.push(`${report.sentimentChanges.labelFlips} sentiment label flip(s), ${report.sentimentChanges.changed} score change(s) ≥ ${SENTIMENT_CHANGE_THRESHOLD}`);
+  lines.push(`${report.topicChanges} topic change(s) across ${report.matchedItems} matched item(s)`);
+
+  if (report.applied?.eventsRemaining) {
+    lines.push(`${report.applied.eventsRemaining} event(s) were returned to the processing queue and will be finished by the next processing run`);
+  }
+
+  if (report.truncated) {
+    lines.push(`Only the first ${MAX_EVENTS_PER_RUN} events were scanned; narrow the range and run again`);
+  }
+
+  return lines;
+}
+
+/**
+ * Replace the signals built from these events with freshly processed ones
+ * The events are claimed and reset to unprocessed before anything is deleted,
+ * so a crashed or timed-out run leaves them queued for /api/process/raw rather
+ * than missing their signals. Events outside the range whose items were merged
+ * into a replaced signal are reprocessed as well; their other items are still
+ * fingerprinted and are skipped as duplicates. Deleting a signal cascades to
+ * its item_fingerprints rows, so items are re-admitted. Items the quality gate
+ * rejected are cleared too, so they are scored again.
+ */
+async function applyReprocess(
+  supabase: SupabaseClient,
+  events: RawEvent[],
+  signals: ExistingSignal[]
+): Promise<NonNullable<ReprocessReport['applied']>> {
+  const signalIds = signals.map(signal => signal.id);
+  const rangeIds = events.map(event => event.id);
+  const contributingIds = [...await loadContributingEventIds(supabase, signalIds)]
+    .filter(id => !rangeIds.includes(id));
+  const eventIds = [...rangeIds, ...contributingIds];
+
+  const runId = randomUUID();
+  const claimed = await reclaimRawEvents(supabase, eventIds, runId);
+
+  if (claimed.length < eventIds.length) {
+    await releaseRawEvents(supabase, claimed.map(event => event.id));
+    throw new Error(
+      `${eventIds.length - claimed.length} event(s) are being processed by another run; try again in a few minutes`
+    );
+  }
+
+  let signalsDeleted = 0;
+
+  for (const ids of chunk(signalIds, ID_CHUNK_SIZE)) {
+    const { error } = await supabase
+      .from('signals')
+      .delete()
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error deleting signals for reprocessing:', error);
+      throw error;
+    }
+
+    signalsDeleted += ids.length;
+  }
+
+  for (const ids of chunk(rangeIds, ID_CHUNK_SIZE)) {
+    const { error: fingerprintError } = await supabase
+      .from('item_fingerprints')
+      .delete()
+      .is('signal_id', null)
+      .in('raw_event_id', ids);
+
+    const { error: rejectedError } = await supabase
+      .from('rejected_items')
+      .delete()
+      .in('raw_event_id', ids);
+
+    if (fingerprintError || rejectedError) {
+      console.error('Error clearing rejected items for reprocessing:', fingerprintError || rejectedError);
+      throw fingerprintError || rejectedError;
+    }
+  }
+
+  // Batches are checkpointed, so processed events are tagged as they commit;
+  // events left when the budget runs out are released back to the queue
+  const result = await processRawEvents(claimed, supabase, { timeBudgetMs: REPROCESS_TIME_BUDGET_MS });
+
+  clearCHICache();
+
+  return {
+    signalsDeleted,
+    signalsCreated: result.signalsCreated,
+    duplicatesSkipped: result.duplicatesSkipped,
+    itemsRejected: result.itemsRejected,
+    eventsFailed: result.eventsFailed,
+    eventsRemaining: result.eventsRemaining,
+    contributingEvents: contributingIds.length,
+  };
+}
+
+/**
+ * Reprocess raw events in a date range
+ *
+ * @example
+ * ```ts
+ * const report = await reprocessRawEvents(supabase, { from: '2025-11-01', to: '2025-11-08', dryRun: true });
+ * // report.summary → ['142 signals would move from General to Billing', ...]
+ * ```
+ */
+export async function reprocessRawEvents(
+  supabase: SupabaseClient,
+  options: ReprocessOptions
+): Promise<ReprocessReport> {
+  const events = await loadEventsInRange(supabase, options);
+  const signals = await loadSignalsForEvents(supabase, events.map(event => event.id));
+  const fingerprintSignals = await loadFingerprintSignals(supabase, events.map(event => event.id));
+  const rules = await loadProductAreaRules(supabase, false);
+
+  const report: Omit<ReprocessReport, 'summary'> = {
+    pipelineVersion: PIPELINE_VERSION,
+    dryRun: options.dryRun,
+    range: { from: options.from, to: options.to },
+    source: options.source || null,
+    truncated: events.length === MAX_EVENTS_PER_RUN,
+    ...diffEvents(events, signals, fingerprintSignals, rules),
+  };
+
+  if (!options.dryRun) {
+    report.applied = await applyReprocess(supabase, events, signals);
+  }
+
+  return { ...report, summary: summarize(report) };
+}
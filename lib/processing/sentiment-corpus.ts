@@ -0,0 +1,185 @@
+/**
+ * Sentiment Corpus
+ * Hand-labeled telecom posts for checking the scoped sentiment rules. Each
+ * example is tagged with the rules it exercises, so accuracy is reported per
+ * rule and a rule change that fixes one case but breaks others shows up.
+ */
+
+import {
+  analyzeSentiment,
+  getSentimentLabel,
+  SENTIMENT_RULES,
+  type SentimentRuleId,
+} from './sentiment';
+import type { SupportedLanguage } from './language';
+
+type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface LabeledExample {
+  text: string;
+  label: SentimentLabel;
+  rules: SentimentRuleId[]; // Rules the example is meant to exercise
+  language?: SupportedLanguage; // Default: 'en'
+}
+
+export const SENTIMENT_CORPUS: LabeledExample[] = [
+  // Telecom lexicon
+  { text: 'Massive outage in Dallas, no service since this morning', label: 'negative', rules: ['telecom_lexicon'] },
+  { text: 'Data is throttled to nothing after 10GB', label: 'negative', rules: ['telecom_lexicon'] },
+  { text: 'Home internet keeps buffering every evening', label: 'negative', rules: ['telecom_lexicon'] },
+  { text: 'Network is down again in my area', label: 'negative', rules: ['telecom_lexicon'] },
+  { text: 'Service restored, everything is working again', label: 'positive', rules: ['telecom_lexicon'] },
+  { text: '5G here is blazing, 900 Mbps downloads', label: 'positive', rules: ['telecom_lexicon'] },
+  { text: 'Connection has been stable and reliable all week', label: 'positive', rules: ['telecom_lexicon'] },
+  { text: 'Stuck on SOS only for the last hour', label: 'negative', rules: ['telecom_lexicon'] },
+  { text: 'Got overcharged on my last bill', label: 'negative', rules: ['telecom_lexicon'] },
+  { text: 'Just switched my plan to Go5G', label: 'neutral', rules: ['telecom_lexicon'] },
+
+  // Negation
+  { text: 'Not slow at all, honestly', label: 'positive', rules: ['negation'] },
+  { text: 'Never dropped a call since switching', label: 'positive', rules: ['negation'] },
+  { text: 'The app is not working and I cannot log in', label: 'negative', rules: ['negation'] },
+  { text: "Coverage isn't reliable in the valley", label: 'negative', rules: ['negation', 'telecom_lexicon'] },
+  { text: 'No problems with the gateway so far', label: 'positive', rules: ['negation'] },
+  { text: "Support wasn't helpful at all", label: 'negative', rules: ['negation'] },
+  { text: "Signal isn't bad out here", label: 'positive', rules: ['negation'] },
+  { text: 'Hardly any buffering since the update', label: 'positive', rules: ['negation', 'telecom_lexicon'] },
+  { text: 'Not a single outage this month', label: 'positive', rules: ['negation', 'telecom_lexicon'] },
+  { text: 'Not only is it fast, the price is great too', label: 'positive', rules: ['negation'] },
+
+  // Intensifiers and diminishers
+  { text: 'Super fast speeds downtown', label: 'positive', rules: ['intensifier', 'telecom_lexicon'] },
+  { text: 'Extremely slow data tonight', label: 'negative', rules: ['intensifier', 'telecom_lexicon'] },
+  { text: 'Speeds are kinda slow today', label: 'negative', rules: ['intensifier', 'telecom_lexicon'] },
+  { text: 'The new app is really good', label: 'positive', rules: ['intensifier'] },
+  { text: 'Billing is way too confusing', label: 'negative', rules: ['intensifier'] },
+  { text: 'Customer service was incredibly helpful', label: 'positive', rules: ['intensifier'] },
+  { text: 'Super annoyed with these dropped calls', label: 'negative', rules: ['intensifier'] },
+  { text: 'Reception is a bit spotty indoors', label: 'negative', rules: ['intensifier', 'telecom_lexicon'] },
+
+  // Contrast
+  { text: 'Love the 5G speed but the bill is outrageous', label: 'negative', rules: ['contrast'] },
+  { text: 'The rep was nice but my issue still is not fixed', label: 'negative', rules: ['contrast', 'negation'] },
+  { text: 'Had an outage this morning but it was fixed quickly, great job', label: 'positive', rules: ['contrast'] },
+  { text: 'Pricing went up, however the coverage is excellent now', label: 'positive', rules: ['contrast'] },
+  { text: 'Although the app crashed twice, support sorted it out and I am happy', label: 'positive', rules: ['contrast'] },
+  { text: 'Great coverage in the city, yet constantly dropped calls at home', label: 'negative', rules: ['contrast', 'telecom_lexicon'] },
+  { text: 'Everything is good except the terrible customer service', label: 'negative', rules: ['contrast'] },
+
+  // Emoji and emoticons
+  { text: 'Upgraded to the new iPhone today 😍', label: 'positive', rules: ['emoji'] },
+  { text: 'Third call dropped today 😡', label: 'negative', rules: ['emoji', 'telecom_lexicon'] },
+  { text: 'Bill came in again 🤬', label: 'negative', rules: ['emoji'] },
+  { text: 'T-Mobile Tuesday freebies this week 🎉', label: 'positive', rules: ['emoji'] },
+  { text: 'Waiting on hold for an hour :(', label: 'negative', rules: ['emoji'] },
+  { text: 'Got my refund :)', label: 'positive', rules: ['emoji'] },
+  { text: 'Store visit took 2 hours 👎', label: 'negative', rules: ['emoji'] },
+  { text: 'Network in my building 🤦‍♂️', label: 'negative', rules: ['emoji'] },
+
+  // Sarcasm
+  { text: 'Finally working again 🙄', label: 'negative', rules: ['sarcasm', 'emoji'] },
+  { text: 'Great, another outage', label: 'negative', rules: ['sarcasm'] },
+  { text: 'Oh great, the app logged me out again', label: 'negative', rules: ['sarcasm'] },
+  { text: 'Love paying for unlimited data that gets throttled /s', label: 'negative', rules: ['sarcasm'] },
+  { text: 'Yeah right, "best network in America"', label: 'negative', rules: ['sarcasm'] },
+  { text: 'Thanks for nothing T-Mobile', label: 'negative', rules: ['sarcasm'] },
+  { text: 'Amazing how my bill went up again 😒', label: 'negative', rules: ['sarcasm', 'emoji'] },
+  { text: 'Wonderful, dropped again in the middle of a meeting', label: 'negative', rules: ['sarcasm', 'telecom_lexicon'] },
+
+  // Plain text the rules should leave alone
+  { text: 'Excellent service at the store today', label: 'positive', rules: [] },
+  { text: 'Worst customer experience I have ever had', label: 'negative', rules: [] },
+  { text: 'Anyone know if eSIM works on the Pixel 9?', label: 'neutral', rules: [] },
+  { text: 'Traveling to Mexico next week, roaming included?', label: 'neutral', rules: [] },
+  { text: 'Thank you for fixing the billing issue so quickly', label: 'positive', rules: [] },
+
+  // Spanish
+  { text: 'No tengo señal desde ayer', label: 'negative', rules: ['telecom_lexicon'], language: 'es' },
+  { text: 'Me cobraron dos veces en la factura, qué estafa', label: 'negative', rules: ['telecom_lexicon'], language: 'es' },
+  { text: 'El internet en casa funciona de nuevo, gracias', label: 'positive', rules: ['telecom_lexicon'], language: 'es' },
+  { text: 'Sin problemas con la red, súper rápida', label: 'positive', rules: ['negation', 'intensifier'], language: 'es' },
+  { text: 'La aplicación no es buena', label: 'negative', rules: ['negation'], language: 'es' },
+  { text: 'La velocidad es buena pero el servicio al cliente es pésimo', label: 'negative', rules: ['contrast'], language: 'es' },
+  { text: 'Qué bien, otra caída de la red 🙄', label: 'negative', rules: ['sarcasm', 'emoji'], language: 'es' },
+  { text: 'La tarifa nueva está muy cara para lo que ofrece', label: 'negative', rules: ['telecom_lexicon'], language: 'es' },
+  { text: 'El plan es carísimo y encima subió', label: 'negative', rules: [], language: 'es' },
+  { text: 'Hice el cambio de plan cara a cara en la tienda', label: 'neutral', rules: [], language: 'es' },
+  { text: 'La app no carga desde la actualización', label: 'negative', rules: ['telecom_lexicon'], language: 'es' },
+  { text: 'El teléfono no se conecta a la red 5G', label: 'negative', rules: ['telecom_lexicon'], language: 'es' },
+  { text: 'Me quedé sin datos y el internet no sirve', label: 'negative', rules: ['telecom_lexicon'], language: 'es' },
+  { text: 'La llamada se cae cada cinco minutos', label: 'negative', rules: ['telecom_lexicon'], language: 'es' },
+  { text: '¿Alguien sabe si el plan incluye roaming en México?', label: 'neutral', rules: [], language: 'es' },
+];
+
+export interface RuleAccuracy {
+  rule: SentimentRuleId;
+  description: string;
+  examples: number; // Corpus examples tagged with the rule
+  fired: number; // Tagged examples where the rule changed the score
+  accuracy: number; // Share of tagged examples labeled correctly (0-1)
+  accuracyWithoutRule: number; // Same examples with only this rule disabled
+  corpusAccuracyWithoutRule: number; // Whole corpus with only this rule disabled
+}
+
+export interface CorpusEvaluation {
+  examples: number;
+  accuracy: number;
+  baselineAccuracy: number; // All rules disabled (plain wink-sentiment)
+  rules: RuleAccuracy[];
+  misses: Array<{ text: string; expected: SentimentLabel; actual: SentimentLabel; score: number }>;
+}
+
+function accuracyOf(examples: LabeledExample[], disabledRules: SentimentRuleId[] = []): number {
+  if (examples.length === 0) return 0;
+
+  const correct = examples.filter(example =>
+    getSentimentLabel(analyzeSentiment(example.text, { disabledRules, language: example.language }).score) === example.label
+  ).length;
+
+  return Math.round((correct / examples.length) * 1000) / 1000;
+}
+
+/**
+ * Score the corpus with all rules, without any, and with each rule ablated
+ *
+ * @example
+ * ```ts
+ * const evaluation = evaluateSentimentCorpus();
+ * // evaluation.rules → [{ rule: 'negation', examples: 10, accuracy: 1, accuracyWithoutRule: 0.4, ... }, ...]
+ * ```
+ */
+export function evaluateSentimentCorpus(corpus: LabeledExample[] = SENTIMENT_CORPUS): CorpusEvaluation {
+  const allRules = SENTIMENT_RULES.map(rule => rule.id);
+
+  const rules = SENTIMENT_RULES.map(rule => {
+    const tagged = corpus.filter(example => example.rules.includes(rule.id));
+    const fired = tagged.filter(example =>
+      analyzeSentiment(example.text, { language: example.language }).details.rulesApplied.includes(rule.id)
+    ).length;
+
+    return {
+      rule: rule.id,
+      description: rule.description,
+      examples: tagged.length,
+      fired,
+      accuracy: accuracyOf(tagged),
+      accuracyWithoutRule: accuracyOf(tagged, [rule.id]),
+      corpusAccuracyWithoutRule: accuracyOf(corpus, [rule.id]),
+    };
+  });
+
+  const misses = corpus
+    .map(example => {
+      const score = analyzeSentiment(example.text, { language: example.language }).score;
+      return { text: example.text, expected: example.label, actual: getSentimentLabel(score), score };
+    })
+    .filter(result => result.actual !== result.expected);
+
+  return {
+    examples: corpus.length,
+    accuracy: accuracyOf(corpus),
+    baselineAccuracy: accuracyOf(corpus, allRules),
+    rules,
+    misses,
+  };
+}
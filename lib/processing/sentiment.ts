@@ -1,10 +1,33 @@
 /**
  * Sentiment Analysis with wink-sentiment
  * Production-ready implementation with comprehensive error handling and telecom domain optimization
+ * wink-sentiment's token scores are re-scored by scoped rules (telecom lexicon, emoji,
+ * negation, intensifiers, sarcasm, contrast); see sentiment-corpus.ts for per-rule accuracy
  */
 
 // @ts-expect-error - wink-sentiment doesn't have type definitions
 import sentiment from 'wink-sentiment';
+import { matchesPattern } from './topic-detector';
+import type { SupportedLanguage } from './language';
+
+export type TelecomAspect =
+  | 'coverage'
+  | 'speed'
+  | 'reliability'
+  | 'price'
+  | 'billing'
+  | 'support'
+  | 'app'
+  | 'device'
+  | 'home_internet';
+
+export interface AspectSentiment {
+  aspect: TelecomAspect;
+  productArea: string | null; // Product area the aspect rolls up to, if any
+  score: number; // -1 to 1, averaged over the clauses that mention the aspect
+  mentions: string[]; // Aspect terms found in the text
+  clauses: string[]; // Clauses the score was computed from
+}
 
 export interface SentimentResult {
   score: number; // -1 (very negative) to 1 (very positive)
@@ -17,44 +40,572 @@ export interface SentimentResult {
     negationDetected: boolean;
     dominantTokens: string[]; // Top tokens that influenced sentiment
     textQuality: 'high' | 'medium' | 'low';
+    rulesApplied: SentimentRuleId[]; // Scoped rules that changed the score
   };
+  aspects: AspectSentiment[]; // Per-aspect sentiment, empty when no aspect is mentioned
+}
+
+export type SentimentRuleId = 'telecom_lexicon' | 'emoji' | 'negation' | 'intensifier' | 'sarcasm' | 'contrast';
+
+export interface SentimentOptions {
+  disabledRules?: SentimentRuleId[]; // Skip these rules, e.g. to measure what each contributes
+  language?: SupportedLanguage; // Lexicons to score with (default: 'en')
 }
 
 /**
- * Domain-specific keyword overrides for telecom/T-Mobile context
- * Applied after wink-sentiment's base analysis for better accuracy
+ * Telecom/T-Mobile terms scored on wink-sentiment's -5..5 scale
+ * Replace wink's score for the token (or the first token of a phrase), so
+ * negation and intensifiers apply to them like any other sentiment word
+ */
+const TELECOM_LEXICON: Record<string, number> = {
+  'outage': -3,
+  'outages': -3,
+  'down': -2,
+  'dropped': -2,
+  'drops': -2,
+  'disconnected': -2,
+  'disconnecting': -2,
+  'no signal': -3,
+  'no service': -3,
+  'sos only': -3,
+  'dead zone': -2,
+  'spotty': -2,
+  'slow': -2,
+  'lagging': -2,
+  'laggy': -2,
+  'buffering': -2,
+  'throttled': -2,
+  'throttling': -2,
+  'congested': -2,
+  'overcharged': -3,
+  'unusable': -3,
+  'unreliable': -3,
+  'useless': -3,
+  'pathetic': -3,
+  'garbage': -3,
+  'fixed': 2,
+  'resolved': 2,
+  'restored': 2,
+  'working again': 2,
+  'improved': 2,
+  'reliable': 2,
+  'stable': 2,
+  'fast': 2,
+  'faster': 2,
+  'blazing': 3,
+  'seamless': 2,
+  'full bars': 2,
+  'support': 0, // "customer support" is a department, not praise
+  'unlimited': 0,
+};
+
+/**
+ * Emoji and emoticon scores, overriding wink-sentiment's (which misses many)
+ */
+const EMOJI_LEXICON: Record<string, number> = {
+  '🙄': -2,
+  '😒': -2,
+  '🙃': -1,
+  '😡': -4,
+  '🤬': -4,
+  '😠': -3,
+  '😤': -3,
+  '😩': -3,
+  '😭': -2,
+  '😢': -2,
+  '😞': -2,
+  '🤦': -2,
+  '🤦‍♂️': -2,
+  '🤦‍♀️': -2,
+  '👎': -3,
+  '💩': -3,
+  '👍': 2,
+  '🙌': 2,
+  '🎉': 2,
+  '😊': 2,
+  '😀': 2,
+  '😁': 2,
+  '😍': 3,
+  '❤️': 3,
+  '❤': 3,
+  '🔥': 2,
+  '💯': 2,
+  '🙏': 1,
+  ':)': 2,
+  ':-)': 2,
+  ':d': 3,
+  ':(': -2,
+  ':-(': -2,
+  ':/': -1,
+  ':-/': -1,
+};
+
+/**
+ * Negators flip the next few sentiment words ("not slow", "never dropped a call")
+ */
+const NEGATORS = new Set([
+  'not', 'no', 'never', "n't", 'cannot', 'without', 'hardly', 'barely', 'nothing', 'nobody', 'neither', 'nor',
+  'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'wont', 'cant', 'aint',
+]);
+const NEGATION_WINDOW = 3; // Tokens after the negator
+const NEGATION_FACTOR = -0.75; // "not good" is weaker than "bad"
+
+/**
+ * Multipliers for the next sentiment word ("super fast", "kinda slow")
+ */
+const INTENSIFIERS: Record<string, number> = {
+  'super': 1.5,
+  'extremely': 1.6,
+  'incredibly': 1.6,
+  'insanely': 1.6,
+  'ridiculously': 1.5,
+  'absolutely': 1.5,
+  'totally': 1.4,
+  'completely': 1.4,
+  'very': 1.3,
+  'really': 1.3,
+  'so': 1.3,
+  'way': 1.3,
+  'too': 1.2,
+  'kinda': 0.5,
+  'kind of': 0.5,
+  'sort of': 0.5,
+  'slightly': 0.5,
+  'mildly': 0.5,
+  'somewhat': 0.6,
+  'a bit': 0.6,
+  'a little': 0.6,
+  'fairly': 0.8,
+};
+const INTENSIFIER_WINDOW = 2;
+
+/**
+ * Contrastive conjunctions: what follows "but" outweighs what precedes it
+ */
+const CONTRAST_WORDS = new Set(['but', 'however', 'yet', 'except']);
+const CONCESSION_WORDS = new Set(['although', 'though', 'despite']);
+const CONTRAST_BEFORE_WEIGHT = 0.5;
+const CONTRAST_AFTER_WEIGHT = 1.5;
+
+/**
+ * Sarcasm cues, matched against each sentence's tokens joined with spaces
+ */
+const SARCASM_MARKERS = [
+  /(^| )\/ s( |$)/,
+  /\byeah right\b/,
+  /\bthanks for nothing\b/,
+  /\bthanks a lot\b/,
+  /\b(oh|just) (great|perfect|wonderful|fantastic)\b/,
+  /\boh joy\b/,
+  /\blove that for me\b/,
+  /🙄|😒|🙃/,
+];
+const SARCASM_REPEAT_WORDS = new Set(['another', 'again']);
+
+/**
+ * Spanish sentiment words on the -5..5 scale
+ * wink-sentiment is English-only (and misreads words like "sin"), so Spanish
+ * text is scored from this list instead of wink's lexicon
+ */
+const SPANISH_SENTIMENT_WORDS: Record<string, number> = {
+  'bueno': 2,
+  'buena': 2,
+  'buenísimo': 3,
+  'excelente': 3,
+  'genial': 3,
+  'increíble': 3,
+  'perfecto': 3,
+  'maravilloso': 3,
+  'rápido': 2,
+  'rápida': 2,
+  'feliz': 3,
+  'contento': 2,
+  'contenta': 2,
+  'gracias': 2,
+  'amable': 2,
+  'encanta': 3,
+  'gusta': 2,
+  'recomiendo': 2,
+  'mejor': 2,
+  'funciona': 1,
+  'funcionando': 1,
+  'malo': -2,
+  'mala': -2,
+  'pésimo': -3,
+  'pésima': -3,
+  'terrible': -3,
+  'horrible': -3,
+  'fatal': -3,
+  'peor': -3,
+  'lento': -2,
+  'lenta': -2,
+  'molesto': -2,
+  'molesta': -2,
+  'enojado': -3,
+  'enojada': -3,
+  'harto': -3,
+  'harta': -3,
+  'frustrado': -3,
+  'frustrante': -3,
+  'decepcionado': -3,
+  'problema': -2,
+  'problemas': -2,
+  'queja': -2,
+  'error': -2,
+  'falla': -2,
+  'fallas': -2,
+  'basura': -3,
+  'robo': -3,
+  'estafa': -3,
+  'caro': -2,
+  'caros': -2,
+  'carísimo': -3,
+  'carísima': -3,
+  'inútil': -3,
+  'odio': -3,
+  'vergüenza': -3,
+  'desastre': -3,
+};
+
+/**
+ * Spanish telecom terms, alongside TELECOM_LEXICON
+ */
+const TELECOM_LEXICON_ES: Record<string, number> = {
+  'sin señal': -3,
+  'sin servicio': -3,
+  'sin internet': -3,
+  'no funciona': -3,
+  'no tengo señal': -3,
+  'no tengo servicio': -3,
+  'no hay señal': -3,
+  'no hay servicio': -3,
+  'no carga': -3,
+  'no cargan': -3,
+  'no conecta': -3,
+  'no se conecta': -3,
+  'no sirve': -3,
+  'no abre': -2,
+  'no puedo llamar': -3,
+  'sin datos': -3,
+  'se cae': -3,
+  'se traba': -2,
+  'se congela': -2,
+  'caída': -3,
+  'caídas': -3,
+  'se cayó': -3,
+  'corte': -2,
+  'cortes': -2,
+  'lentitud': -2,
+  'intermitente': -2,
+  // "cara" alone is also "face"; only price phrases count
+  'está cara': -2,
+  'están caras': -2,
+  'es cara': -2,
+  'son caras': -2,
+  'sale cara': -2,
+  'salen caras': -2,
+  'muy cara': -3,
+  'muy caras': -3,
+  'tan cara': -3,
+  'tan caras': -3,
+  'demasiado cara': -3,
+  'demasiado caras': -3,
+  'cobro indebido': -3,
+  'cobro doble': -3,
+  'me cobraron': -2,
+  'arreglado': 2,
+  'arreglaron': 2,
+  'restablecido': 2,
+  'ya funciona': 2,
+  'funciona de nuevo': 2,
+  'estable': 2,
+  'rapidísimo': 3,
+};
+
+const NEGATORS_ES = new Set(['no', 'nunca', 'jamás', 'sin', 'ni', 'tampoco', 'nada', 'nadie']);
+
+const INTENSIFIERS_ES: Record<string, number> = {
+  'súper': 1.5,
+  'super': 1.5,
+  'extremadamente': 1.6,
+  'totalmente': 1.4,
+  'demasiado': 1.4,
+  'muy': 1.3,
+  'tan': 1.3,
+  'bastante': 1.2,
+  'un poco': 0.6,
+  'algo': 0.6,
+  'medio': 0.6,
+};
+
+const SARCASM_MARKERS_ES = [
+  /(^| )\/ s( |$)/,
+  /(^| )sí ,? ?claro( |$)/,
+  /(^| )gracias por nada( |$)/,
+  /(^| )qué (bien|maravilla|suerte)( |$)/,
+  /🙄|😒|🙃/,
+];
+
+interface LanguageLexicon {
+  words: Record<string, number> | null; // General sentiment words; null uses wink-sentiment's English lexicon
+  telecom: Record<string, number>;
+  negators: Set<string>;
+  intensifiers: Record<string, number>;
+  contrast: Set<string>;
+  concession: Set<string>;
+  sarcasm: RegExp[];
+  repeatWords: Set<string>;
+}
+
+const LEXICONS: Record<SupportedLanguage, LanguageLexicon> = {
+  en: {
+    words: null,
+    telecom: TELECOM_LEXICON,
+    negators: NEGATORS,
+    intensifiers: INTENSIFIERS,
+    contrast: CONTRAST_WORDS,
+    concession: CONCESSION_WORDS,
+    sarcasm: SARCASM_MARKERS,
+    repeatWords: SARCASM_REPEAT_WORDS,
+  },
+  es: {
+    words: SPANISH_SENTIMENT_WORDS,
+    telecom: TELECOM_LEXICON_ES,
+    negators: NEGATORS_ES,
+    intensifiers: INTENSIFIERS_ES,
+    contrast: new Set(['pero', 'sino', 'embargo', 'excepto', 'salvo']), // "sin embargo"
+    concession: new Set(['aunque', 'pesar']), // "a pesar de"
+    sarcasm: SARCASM_MARKERS_ES,
+    repeatWords: new Set(['otra', 'nuevo']), // "otra vez", "de nuevo"
+  },
+};
+
+interface WinkToken {
+  value: string;
+  tag: string;
+  score?: number;
+  negation?: boolean;
+}
+
+interface RuleToken {
+  value: string; // Lowercased
+  tag: string; // wink-sentiment tag: word, emoji, emoticon, punctuation, ...
+  score: number; // Current contribution on the -5..5 scale
+  sentence: number;
+  lexicon: boolean; // Score came from a lexicon (wink, telecom or emoji)
+  phrase: boolean; // Part of a multi-word lexicon entry
+}
+
+interface SentimentRule {
+  id: SentimentRuleId;
+  description: string;
+  apply: (tokens: RuleToken[], lexicon: LanguageLexicon) => boolean; // Returns whether the rule changed anything
+}
+
+function isBoundary(token: RuleToken, lexicon: LanguageLexicon): boolean {
+  return token.tag === 'punctuation' || lexicon.contrast.has(token.value) || lexicon.concession.has(token.value);
+}
+
+/**
+ * Match multi-word lexicon keys at a position; returns the entry and its length
+ */
+function matchPhrase(tokens: RuleToken[], index: number, lexicon: Record<string, number>): { key: string; length: number } | null {
+  for (const length of [3, 2, 1]) {
+    if (index + length > tokens.length) continue;
+    const key = tokens.slice(index, index + length).map(token => token.value).join(' ');
+    if (key in lexicon) return { key, length };
+  }
+  return null;
+}
+
+/**
+ * Scoped sentiment rules, applied in order over wink-sentiment's tokens
+ */
+export const SENTIMENT_RULES: SentimentRule[] = [
+  {
+    id: 'telecom_lexicon',
+    description: 'Telecom terms ("outage", "throttled", "working again") override general-purpose scores',
+    apply: (tokens, lexicon) => {
+      let changed = false;
+      for (let i = 0; i < tokens.length; i++) {
+        const match = matchPhrase(tokens, i, lexicon.telecom);
+        if (!match) continue;
+        tokens[i].score = lexicon.telecom[match.key];
+        tokens[i].lexicon = true;
+        for (let j = i; j < i + match.length; j++) {
+          tokens[j].phrase = match.length > 1;
+          if (j > i) tokens[j].score = 0;
+        }
+        i += match.length - 1;
+        changed = true;
+      }
+      return changed;
+    },
+  },
+  {
+    id: 'emoji',
+    description: 'Emoji and emoticons carry sentiment ("🙄", "😡", ":)")',
+    apply: tokens => {
+      let changed = false;
+      for (const token of tokens) {
+        if (token.tag !== 'emoji' && token.tag !== 'emoticon') continue;
+        if (token.value in EMOJI_LEXICON) {
+          token.score = EMOJI_LEXICON[token.value];
+          token.lexicon = true;
+          changed = true;
+        }
+      }
+      return changed;
+    },
+  },
+  {
+    id: 'negation',
+    description: 'Negators flip the next few sentiment words, stopping at punctuation or "but"',
+    apply: (tokens, lexicon) => {
+      let changed = false;
+      tokens.forEach((token, i) => {
+        if (!lexicon.negators.has(token.value) || token.phrase) return;
+        if (tokens[i + 1]?.value === 'only') return; // "not only ... but also"
+
+        token.score = 0;
+        for (let j = i + 1; j < tokens.length && j <= i + NEGATION_WINDOW; j++) {
+          if (isBoundary(tokens[j], lexicon)) break;
+          if (tokens[j].score !== 0) {
+            tokens[j].score *= NEGATION_FACTOR;
+            changed = true;
+          }
+        }
+      });
+      return changed;
+    },
+  },
+  {
+    id: 'intensifier',
+    description: 'Intensifiers and diminishers scale the next sentiment word ("super fast", "kinda slow")',
+    apply: (tokens, lexicon) => {
+      let changed = false;
+      for (let i = 0; i < tokens.length; i++) {
+        const match = matchPhrase(tokens, i, lexicon.intensifiers);
+        if (!match) continue;
+
+        const start = i + match.length;
+        for (let j = start; j < tokens.length && j < start + INTENSIFIER_WINDOW; j++) {
+          if (isBoundary(tokens[j], lexicon)) break;
+          if (tokens[j].score !== 0) {
+            // The modifier itself is not a sentiment word ("super" scores +3 in wink)
+            for (let k = i; k < start; k++) tokens[k].score = 0;
+            tokens[j].score *= lexicon.intensifiers[match.key];
+            changed = true;
+            break;
+          }
+        }
+        i += match.length - 1;
+      }
+      return changed;
+    },
+  },
+  {
+    id: 'sarcasm',
+    description: 'Positive words in a sentence with sarcasm cues ("🙄", "/s", "great, another outage") count as negative',
+    apply: (tokens, lexicon) => {
+      let changed = false;
+      const sentences = new Map<number, RuleToken[]>();
+      for (const token of tokens) {
+        sentences.set(token.sentence, [...(sentences.get(token.sentence) || []), token]);
+      }
+
+      for (const sentence of sentences.values()) {
+        const joined = sentence.map(token => token.value).join(' ');
+        const marked = lexicon.sarcasm.some(marker => marker.test(joined));
+
+        // Praise followed by a repeat of a problem: "great, another outage", "love it, down again"
+        const firstPositive = sentence.findIndex(token => token.score > 0);
+        const repeatedProblem = firstPositive >= 0 &&
+          sentence.slice(firstPositive + 1).some(token => lexicon.repeatWords.has(token.value)) &&
+          sentence.slice(firstPositive + 1).some(token => token.score < 0);
+
+        if (!marked && !repeatedProblem) continue;
+
+        for (const token of sentence) {
+          if (token.score > 0) {
+            token.score = -token.score;
+            changed = true;
+          }
+        }
+      }
+      return changed;
+    },
+  },
+  {
+    id: 'contrast',
+    description: 'Words after "but"/"however" outweigh those before; "although" clauses are discounted',
+    apply: (tokens, lexicon) => {
+      let changed = false;
+
+      tokens.forEach((token, i) => {
+        if (lexicon.contrast.has(token.value)) {
+          for (let j = i - 1; j >= 0 && tokens[j].sentence === token.sentence; j--) tokens[j].score *= CONTRAST_BEFORE_WEIGHT;
+          for (let j = i + 1; j < tokens.length && tokens[j].sentence === token.sentence; j++) tokens[j].score *= CONTRAST_AFTER_WEIGHT;
+          changed = true;
+        } else if (lexicon.concession.has(token.value) && tokens[i + 1] && tokens[i + 1].sentence === token.sentence) {
+          for (let j = i + 1; j < tokens.length && tokens[j].tag !== 'punctuation'; j++) tokens[j].score *= CONTRAST_BEFORE_WEIGHT;
+          changed = true;
+        }
+      });
+
+      return changed;
+    },
+  },
+];
+
+/**
+ * Telecom aspects and the terms that signal them
+ * Terms are matched on whole words/phrases
  */
-const TELECOM_SENTIMENT_BOOSTERS: Record<string, number> = {
-  'outage': -0.3,
-  'down': -0.25,
-  'dropped': -0.25,
-  'disconnected': -0.25,
-  'no signal': -0.3,
-  'no service': -0.3,
-  'slow': -0.2,
-  'lagging': -0.2,
-  'buffering': -0.2,
-  'throttled': -0.25,
-  'congested': -0.2,
-  'terrible': -0.25,
-  'worst': -0.25,
-  'unusable': -0.3,
-  'pathetic': -0.25,
-  'garbage': -0.25,
-  'fixed': 0.3,
-  'resolved': 0.3,
-  'restored': 0.3,
-  'working again': 0.3,
-  'working': 0.2,
-  'better': 0.2,
-  'improved': 0.25,
-  'excellent': 0.25,
-  'amazing': 0.25,
-  'fantastic': 0.25,
-  'reliable': 0.2,
-  'fast': 0.2,
+export const TELECOM_ASPECTS: Record<TelecomAspect, { productArea: string | null; terms: string[] }> = {
+  coverage: {
+    productArea: 'Network',
+    terms: ['coverage', 'signal', 'bars', 'reception', 'dead zone', 'tower', '5g', 'lte', '4g', 'no service', 'roaming', 'cobertura', 'señal', 'antena', 'sin señal'],
+  },
+  speed: {
+    productArea: 'Network',
+    terms: ['speed', 'speeds', 'fast', 'slow', 'data', 'throttled', 'throttling', 'buffering', 'lag', 'latency', 'mbps', 'velocidad', 'lento', 'lenta', 'lentitud', 'datos'],
+  },
+  reliability: {
+    productArea: 'Network',
+    terms: ['outage', 'down', 'dropped', 'drops', 'disconnected', 'dropped calls', 'reliable', 'unreliable', 'stable', 'caída', 'corte', 'sin servicio', 'intermitente'],
+  },
+  price: {
+    productArea: 'Billing',
+    terms: ['price', 'prices', 'cost', 'expensive', 'cheap', 'affordable', 'plan', 'deal', 'value', 'price increase', 'precio', 'caro', 'barato', 'tarifa'],
+  },
+  billing: {
+    productArea: 'Billing',
+    terms: ['bill', 'billing', 'charge', 'charged', 'overcharged', 'fee', 'fees', 'autopay', 'payment', 'refund', 'invoice', 'factura', 'cobro', 'cobraron', 'pago', 'cargo', 'reembolso'],
+  },
+  support: {
+    productArea: null,
+    terms: ['support', 'customer service', 'customer support', 'rep', 'agent', 'chat', 'store', 'care', 'hold', 'representative', 'atención al cliente', 'servicio al cliente', 'soporte', 'tienda'],
+  },
+  app: {
+    productArea: 'Mobile App',
+    terms: ['app', 't-mobile app', 'login', 'crash', 'crashing', 'update', 'tuesdays', 'aplicación', 'contraseña'],
+  },
+  device: {
+    productArea: null,
+    terms: ['phone', 'iphone', 'android', 'pixel', 'samsung', 'device', 'sim', 'esim', 'battery', 'trade-in', 'teléfono', 'celular', 'batería'],
+  },
+  home_internet: {
+    productArea: 'Home Internet',
+    terms: ['home internet', 'gateway', 'router', 'wifi', 'wi-fi', 'modem', '5g home', 'internet en casa', 'internet de casa', 'módem'],
+  },
 };
 
+/**
+ * Words that start a new clause with its own sentiment ("great speed but awful bill")
+ */
+const CLAUSE_BOUNDARY = /[.!?;¡¿]+|\b(?:but|however|although|though|whereas|except|yet|pero|aunque|sino|excepto)\b/i;
+
 /**
  * Text preprocessing for better sentiment analysis
  */
@@ -83,7 +634,7 @@ function preprocessText(text: string): string {
 /**
  * Assess text quality for confidence calculation
  */
-function assessTextQuality(text: string): 'high' | 'medium' | 'low' {
+export function assessTextQuality(text: string): 'high' | 'medium' | 'low' {
   const length = text.length;
   const wordCount = text.split(/\s+/).length;
   const uniqueWords = new Set(text.toLowerCase().split(/\s+/)).size;
@@ -160,53 +711,180 @@ function detectNegation(winkResult: any): boolean {
 }
 
 /**
- * Apply telecom-specific sentiment adjustments
- * Uses subtle boosting to preserve wink-sentiment's base analysis
+ * Turn wink-sentiment's tokens into rule tokens with un-negated lexicon scores
+ * (negation is re-applied by the negation rule with its own scope)
+ * Words in languages with their own lexicon are scored from it; emoji keep wink's scores
+ */
+function toRuleTokens(winkResult: { tokenizedPhrase?: WinkToken[] }, lexicon: LanguageLexicon): RuleToken[] {
+  if (!winkResult.tokenizedPhrase || !Array.isArray(winkResult.tokenizedPhrase)) {
+    return [];
+  }
+
+  let sentence = 0;
+  return winkResult.tokenizedPhrase.map(token => {
+    const value = String(token.value).toLowerCase();
+    const winkScore = typeof token.score === 'number' ? (token.negation ? -token.score : token.score) : 0;
+    const score = lexicon.words && token.tag === 'word' ? lexicon.words[value] || 0 : winkScore;
+    const ruleToken: RuleToken = {
+      value,
+      tag: token.tag,
+      score,
+      sentence,
+      lexicon: score !== 0,
+      phrase: false,
+    };
+    if (token.tag === 'punctuation' && /[.!?]/.test(token.value)) sentence++;
+    return ruleToken;
+  });
+}
+
+/**
+ * Run the enabled rules over the tokens
+ * Returns the summed score (-5..5 per word) and the rules that changed it
+ */
+function applySentimentRules(
+  winkResult: { tokenizedPhrase?: WinkToken[] },
+  options: SentimentOptions
+): { total: number; rulesApplied: SentimentRuleId[] } {
+  const disabled = new Set(options.disabledRules || []);
+  const lexicon = LEXICONS[options.language || 'en'];
+  const tokens = toRuleTokens(winkResult, lexicon);
+  const rulesApplied: SentimentRuleId[] = [];
+
+  for (const rule of SENTIMENT_RULES) {
+    if (disabled.has(rule.id)) continue;
+    if (rule.apply(tokens, lexicon)) rulesApplied.push(rule.id);
+  }
+
+  return {
+    total: tokens.reduce((sum, token) => sum + token.score, 0),
+    rulesApplied,
+  };
+}
+
+/**
+ * Score already-cleaned text: wink-sentiment tokens rescored by the rule
+ * engine, normalized to -1..1
+ */
+function scoreCleanedText(cleaned: string, options: SentimentOptions = {}): {
+  winkResult: ReturnType<typeof sentiment>;
+  rawScore: number;
+  normalizedScore: number;
+  score: number;
+  rulesApplied: SentimentRuleId[];
+} {
+  const winkResult = sentiment(cleaned);
+
+  const rawScore = winkResult.score || 0;
+
+  const normalizedScore = Math.max(-1, Math.min(1, rawScore / 5));
+
+  const { total, rulesApplied } = applySentimentRules(winkResult, options);
+
+  const score = Math.max(-1, Math.min(1, total / 5));
+
+  return { winkResult, rawScore, normalizedScore, score, rulesApplied };
+}
+
+/**
+ * Split text into clauses on sentence punctuation and contrastive conjunctions
  */
-function applyTelecomBoosters(text: string, baseScore: number): number {
-  const lowerText = text.toLowerCase();
-  let totalBoost = 0;
-  let boostCount = 0;
-
-  for (const [phrase, boost] of Object.entries(TELECOM_SENTIMENT_BOOSTERS)) {
-    if (lowerText.includes(phrase)) {
-      totalBoost += boost;
-      boostCount++;
+export function segmentClauses(text: string): string[] {
+  return text
+    .split(CLAUSE_BOUNDARY)
+    .map(clause => clause.trim())
+    .filter(clause => clause.length > 0);
+}
+
+/**
+ * Score every telecom aspect mentioned in the text
+ * Each clause is scored on its own, so opposite opinions about different
+ * aspects in one sentence don't cancel out
+ *
+ * @example
+ * ```ts
+ * analyzeAspects("Love the 5G speed but the bill is outrageous");
+ * // [{ aspect: 'coverage', score: 0.6, ... }, { aspect: 'speed', score: 0.6, ... }, { aspect: 'billing', score: -0.6, ... }]
+ * ```
+ */
+export function analyzeAspects(text: string, options: SentimentOptions = {}): AspectSentiment[] {
+  if (!text || typeof text !== 'string') {
+    return [];
+  }
+
+  const byAspect = new Map<TelecomAspect, { scores: number[]; mentions: Set<string>; clauses: string[] }>();
+
+  for (const clause of segmentClauses(preprocessText(text))) {
+    const mentioned = (Object.entries(TELECOM_ASPECTS) as Array<[TelecomAspect, { terms: string[] }]>)
+      .map(([aspect, { terms }]) => ({ aspect, mentions: terms.filter(term => matchesPattern(clause, term)) }))
+      .filter(({ mentions }) => mentions.length > 0);
+
+    if (mentioned.length === 0) continue;
+
+    const { score } = scoreCleanedText(clause, options);
+
+    for (const { aspect, mentions } of mentioned) {
+      const entry = byAspect.get(aspect) || { scores: [], mentions: new Set<string>(), clauses: [] };
+      entry.scores.push(score);
+      mentions.forEach(mention => entry.mentions.add(mention));
+      entry.clauses.push(clause);
+      byAspect.set(aspect, entry);
     }
   }
 
-  if (boostCount > 0) {
-    const avgBoost = totalBoost / boostCount;
-    const boosted = baseScore + (avgBoost * 0.2);
-    return Math.max(-1, Math.min(1, boosted));
+  return [...byAspect.entries()].map(([aspect, entry]) => ({
+    aspect,
+    productArea: TELECOM_ASPECTS[aspect].productArea,
+    score: Math.round((entry.scores.reduce((sum, value) => sum + value, 0) / entry.scores.length) * 1000) / 1000,
+    mentions: [...entry.mentions],
+    clauses: entry.clauses.slice(0, 3),
+  }));
+}
+
+/**
+ * Sentiment of a text toward one product area
+ * Averages the aspects that roll up to the area, falling back to the overall
+ * score when the text doesn't mention any of them
+ */
+export function getAreaSentiment(
+  aspects: AspectSentiment[] | null | undefined,
+  productArea: string,
+  overallScore: number
+): number {
+  const relevant = (aspects || []).filter(aspect => aspect.productArea === productArea);
+
+  if (relevant.length === 0) {
+    return overallScore;
   }
 
-  return baseScore;
+  return relevant.reduce((sum, aspect) => sum + aspect.score, 0) / relevant.length;
 }
 
 /**
  * Analyze sentiment of text using wink-sentiment with telecom domain optimization
  *
  * @param text - The text to analyze (Reddit post, review, comment, etc.)
+ * @param options - Rules to disable, for evaluation against the labeled corpus
  * @returns Comprehensive SentimentResult with score, confidence, and detailed analysis
  *
  * @example
  * ```ts
  * const result = analyzeSentiment("Terrible network outage in NYC! Been down for 3 hours.");
- * console.log(result.score); // -0.85 (very negative)
+ * console.log(result.score); // -1 (very negative)
  * console.log(result.confidence); // 0.8 (high confidence)
  * console.log(result.details.negationDetected); // false
  *
  * const result2 = analyzeSentiment("Not a good experience with customer service");
- * console.log(result2.score); // -0.6 (negative)
+ * console.log(result2.score); // -0.45 (negative)
  * console.log(result2.details.negationDetected); // true
+ * console.log(result2.details.rulesApplied); // ['negation']
  *
  * const result3 = analyzeSentiment("Service is fixed and working great now!");
- * console.log(result3.score); // 0.75 (positive)
+ * console.log(result3.score); // 1 (positive)
  * console.log(result3.details.dominantTokens); // ['fixed', 'working', 'great']
  * ```
  */
-export function analyzeSentiment(text: string): SentimentResult {
+export function analyzeSentiment(text: string, options: SentimentOptions = {}): SentimentResult {
   if (!text || typeof text !== 'string' || text.trim().length === 0) {
     return {
       score: 0,
@@ -219,7 +897,9 @@ export function analyzeSentiment(text: string): SentimentResult {
         negationDetected: false,
         dominantTokens: [],
         textQuality: 'low',
+        rulesApplied: [],
       },
+      aspects: [],
     };
   }
 
@@ -228,17 +908,7 @@ export function analyzeSentiment(text: string): SentimentResult {
 
     const textQuality = assessTextQuality(cleaned);
 
-    const winkResult = sentiment(cleaned);
-
-    const rawScore = winkResult.score || 0;
-
-    let normalizedScore = rawScore / 5;
-
-    normalizedScore = Math.max(-1, Math.min(1, normalizedScore));
-
-    let finalScore = applyTelecomBoosters(cleaned, normalizedScore);
-
-    finalScore = Math.max(-1, Math.min(1, finalScore));
+    const { winkResult, rawScore, normalizedScore, score: finalScore, rulesApplied } = scoreCleanedText(cleaned, options);
 
     const confidence = calculateConfidence(winkResult, textQuality, cleaned.length);
 
@@ -246,7 +916,7 @@ export function analyzeSentiment(text: string): SentimentResult {
     const scoredTokens = winkResult.tokenizedPhrase?.filter((t: any) =>
       t.score !== undefined && t.score !== 0
     ).length || 0;
-    const negationDetected = detectNegation(winkResult);
+    const negationDetected = rulesApplied.includes('negation') || detectNegation(winkResult);
     const dominantTokens = extractDominantTokens(winkResult);
 
     return {
@@ -260,7 +930,9 @@ export function analyzeSentiment(text: string): SentimentResult {
         negationDetected,
         dominantTokens,
         textQuality,
+        rulesApplied,
       },
+      aspects: analyzeAspects(text, options),
     };
   } catch (error) {
     console.error('Error in sentiment analysis:', error);
@@ -275,7 +947,9 @@ export function analyzeSentiment(text: string): SentimentResult {
         negationDetected: false,
         dominantTokens: [],
         textQuality: 'low',
+        rulesApplied: [],
       },
+      aspects: [],
     };
   }
 }
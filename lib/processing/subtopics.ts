@@ -0,0 +1,178 @@
+/**
+ * Sub-topic Taxonomy
+ * Curated tree of canonical sub-topics beneath each product area, so free-text
+ * topics like "5g outage", "network down" and "no signal" aggregate together
+ */
+
+import { matchesPattern } from './topic-detector';
+
+export interface SubTopic {
+  id: string; // Stable key stored in signals.subtopic, e.g. 'network.outage'
+  productArea: string; // product_areas.name
+  name: string; // Display label
+  synonyms: string[]; // Keywords/phrases, matched on whole words
+}
+
+export const SUBTOPIC_TAXONOMY: SubTopic[] = [
+  // Network
+  {
+    id: 'network.outage',
+    productArea: 'Network',
+    name: 'Outage',
+    synonyms: ['outage', 'down', 'network down', 'service down', 'not working', 'no service', 'offline', 'sos only', 'went down'],
+  },
+  {
+    id: 'network.coverage',
+    productArea: 'Network',
+    name: 'Coverage',
+    synonyms: ['coverage', 'no signal', 'signal', 'bars', 'reception', 'dead zone', 'tower', 'dropped call', 'dropped'],
+  },
+  {
+    id: 'network.speed',
+    productArea: 'Network',
+    name: 'Speed',
+    synonyms: ['slow', 'speed', 'slow data', 'throttled', 'throttling', 'congested', 'congestion', 'lag', 'latency', 'buffering'],
+  },
+  {
+    id: 'network.roaming',
+    productArea: 'Network',
+    name: 'Roaming',
+    synonyms: ['roaming', 'international', 'abroad', 'travel', 'overseas'],
+  },
+
+  // Mobile App
+  {
+    id: 'mobile-app.login',
+    productArea: 'Mobile App',
+    name: 'Login & Account',
+    synonyms: ['login', 'log in', 'sign in', 'password', 'account', 'locked out', 'verification', '2fa'],
+  },
+  {
+    id: 'mobile-app.crash',
+    productArea: 'Mobile App',
+    name: 'Crashes & Bugs',
+    synonyms: ['crash', 'crashes', 'crashing', 'bug', 'glitch', 'error message', 'error', 'freezes', 'broken'],
+  },
+  {
+    id: 'mobile-app.performance',
+    productArea: 'Mobile App',
+    name: 'App Performance',
+    synonyms: ['loading', 'slow app', 'takes forever', 'spinning', 'timeout'],
+  },
+  {
+    id: 'mobile-app.features',
+    productArea: 'Mobile App',
+    name: 'Features & Usability',
+    synonyms: ['feature', 'interface', 'ui', 'ux', 'button', 'screen', 'update', 'tuesdays', 'design'],
+  },
+
+  // Billing
+  {
+    id: 'billing.overcharge',
+    productArea: 'Billing',
+    name: 'Overcharges',
+    synonyms: ['overcharge', 'overcharged', 'wrong bill', 'extra charge', 'charged twice', 'double charged', 'hidden fee', 'fee'],
+  },
+  {
+    id: 'billing.payments',
+    productArea: 'Billing',
+    name: 'Payments & Autopay',
+    synonyms: ['payment', 'autopay', 'auto pay', 'paid', 'pay bill', 'card declined', 'late payment', 'balance'],
+  },
+  {
+    id: 'billing.plans',
+    productArea: 'Billing',
+    name: 'Plans & Pricing',
+    synonyms: ['plan', 'price', 'price increase', 'cost', 'upgrade', 'promo', 'promotion', 'discount'],
+  },
+  {
+    id: 'billing.refunds',
+    productArea: 'Billing',
+    name: 'Refunds & Credits',
+    synonyms: ['refund', 'credit', 'bill credit', 'reimbursement', 'money back'],
+  },
+
+  // Home Internet
+  {
+    id: 'home-internet.connectivity',
+    productArea: 'Home Internet',
+    name: 'Connectivity',
+    synonyms: ['disconnect', 'disconnected', 'disconnecting', 'drops', 'dropping', 'no internet', 'internet down', 'outage', 'offline'],
+  },
+  {
+    id: 'home-internet.equipment',
+    productArea: 'Home Internet',
+    name: 'Gateway & Equipment',
+    synonyms: ['gateway', 'router', 'modem', 'home router', 'firmware', 'reboot', 'restart'],
+  },
+  {
+    id: 'home-internet.speed',
+    productArea: 'Home Internet',
+    name: 'Home Speed',
+    synonyms: ['slow', 'speed', 'speeds', 'latency', 'ping', 'buffering', 'mbps'],
+  },
+  {
+    id: 'home-internet.wifi',
+    productArea: 'Home Internet',
+    name: 'WiFi',
+    synonyms: ['wifi', 'wi-fi', 'wireless', 'mesh', 'range', 'band'],
+  },
+];
+
+const subTopicsById = new Map(SUBTOPIC_TAXONOMY.map(subTopic => [subTopic.id, subTopic]));
+
+/**
+ * Look up a sub-topic by its ID
+ */
+export function getSubTopic(id: string | null | undefined): SubTopic | null {
+  return id ? subTopicsById.get(id) || null : null;
+}
+
+/**
+ * Map text to the best-matching sub-topic
+ * Restricted to the given product area when one is known; the sub-topic
+ * with the most synonym hits wins, ties go to the earlier entry in the tree
+ */
+export function matchSubTopic(text: string, productArea?: string | null): SubTopic | null {
+  if (!text) return null;
+
+  const candidates = productArea
+    ? SUBTOPIC_TAXONOMY.filter(subTopic => subTopic.productArea === productArea)
+    : SUBTOPIC_TAXONOMY;
+
+  let best: SubTopic | null = null;
+  let bestHits = 0;
+
+  for (const subTopic of candidates) {
+    const hits = subTopic.synonyms.filter(synonym => matchesPattern(text, synonym)).length;
+    if (hits > bestHits) {
+      best = subTopic;
+      bestHits = hits;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Canonical sub-topic for a stored signal
+ * Uses signals.subtopic when set, otherwise maps the legacy free-text topic
+ */
+export function resolveSubTopic(signal: {
+  topic?: string | null;
+  subtopic?: string | null;
+}, productArea?: string | null): SubTopic | null {
+  return getSubTopic(signal.subtopic) || matchSubTopic(signal.topic || '', productArea);
+}
+
+/**
+ * Aggregation key for an issue: the sub-topic ID, or the lowercased topic
+ * when the text doesn't map into the tree
+ */
+export function getIssueKey(signal: {
+  topic?: string | null;
+  subtopic?: string | null;
+}, productArea?: string | null): string {
+  const subTopic = resolveSubTopic(signal, productArea);
+  return subTopic ? subTopic.id : (signal.topic || 'unknown').toLowerCase().trim();
+}
@@ -4,17 +4,37 @@
  */
 
 import keywordExtractor from 'keyword-extractor';
+import type { SupportedLanguage } from './language';
 
 export interface TopicResult {
   topic: string; // Primary topic identified
   keywords: string[]; // Extracted keywords
-  productArea: string; // Matched product area (Network, Mobile App, Billing, Home Internet)
+  productArea: string; // Top-ranked product area (Network, Mobile App, Billing, Home Internet)
+  productAreas: ProductAreaMatch[]; // Every qualifying area, highest score first
   confidence: number; // 0 to 1, based on keyword match strength
 }
 
+/**
+ * A single classification rule (keyword or multi-word phrase) for a product area
+ */
+export interface ProductAreaRule {
+  area: string; // product_areas.name
+  pattern: string;
+  weight: number;
+  negative?: boolean; // Subtracts weight instead of adding it
+  language?: string; // Rules in languages other than English only apply to text in that language
+}
+
+export interface ProductAreaMatch {
+  area: string;
+  score: number; // Sum of matched rule weights
+  confidence: number; // 0 to 1, score relative to keyword count
+  matched: string[]; // Positive patterns that matched
+}
+
 /**
  * Product area keyword mappings (from CLAUDE.md)
- * These will be the fallback if database rules aren't available
+ * Fallback when the product_area_rules table is empty or unreachable
  */
 export const PRODUCT_AREA_RULES: Record<string, string[]> = {
   'Network': [
@@ -39,17 +59,54 @@ export const PRODUCT_AREA_RULES: Record<string, string[]> = {
   ],
 };
 
+/**
+ * Spanish keyword mappings
+ * English rules also apply to Spanish text (loanwords like "app", "wifi", "5g")
+ */
+export const PRODUCT_AREA_RULES_ES: Record<string, string[]> = {
+  'Network': [
+    'red', 'señal', 'cobertura', 'antena', 'sin servicio', 'sin señal', 'caída',
+    'datos', 'velocidad', 'lento', 'lenta', 'conexión', 'llamadas', 'itinerancia',
+  ],
+  'Mobile App': [
+    'aplicación', 'iniciar sesión', 'contraseña', 'cuenta', 'pantalla', 'actualización',
+  ],
+  'Billing': [
+    'factura', 'cobro', 'cobraron', 'pago', 'precio', 'tarifa', 'cargo',
+    'reembolso', 'crédito', 'saldo', 'dinero', 'caro',
+  ],
+  'Home Internet': [
+    'internet en casa', 'internet de casa', 'internet residencial', 'internet del hogar',
+    'módem', 'enrutador',
+  ],
+};
+
+export const DEFAULT_PRODUCT_AREA_RULES: ProductAreaRule[] = [
+  ...Object.entries(PRODUCT_AREA_RULES)
+    .flatMap(([area, patterns]) => patterns.map(pattern => ({ area, pattern, weight: 1 }))),
+  ...Object.entries(PRODUCT_AREA_RULES_ES)
+    .flatMap(([area, patterns]) => patterns.map(pattern => ({ area, pattern, weight: 1, language: 'es' }))),
+];
+
+/**
+ * keyword-extractor language names
+ */
+const KEYWORD_LANGUAGES: Record<SupportedLanguage, 'english' | 'spanish'> = {
+  en: 'english',
+  es: 'spanish',
+};
+
 /**
  * Extract keywords from text using keyword-extractor
  */
-function extractKeywords(text: string): string[] {
+function extractKeywords(text: string, language: SupportedLanguage = 'en'): string[] {
   if (!text || typeof text !== 'string' || text.trim().length === 0) {
     return [];
   }
 
   try {
-    const extraction_result = keywordExtractor.extract(text, {
-      language: 'english',
+    const extraction_result = keywordExtractor.extract(text.replace(/[¡¿]/g, ' '), {
+      language: KEYWORD_LANGUAGES[language],
       remove_digits: false, // Keep numbers (5G, 4G, etc.)
       return_changed_case: true, // Return lowercase for easier matching
       remove_duplicates: true,
@@ -63,53 +120,75 @@ function extractKeywords(text: string): string[] {
 }
 
 /**
- * Match keywords against product area rules
- * Returns product area with highest match count and confidence
+ * Areas below this confidence are dropped (a text with no strong match is General)
  */
-function matchProductArea(keywords: string[]): { area: string; confidence: number } {
-  if (keywords.length === 0) {
-    return { area: 'General', confidence: 0 };
-  }
+const MIN_AREA_CONFIDENCE = 0.2;
 
-  const scores: Record<string, number> = {};
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
-  // Score each product area based on keyword matches
-  for (const [area, areaKeywords] of Object.entries(PRODUCT_AREA_RULES)) {
-    let matchCount = 0;
+/**
+ * Letters and digits, including accented Latin letters (señal, módem)
+ */
+const WORD_CHARS = 'a-z0-9\\u00c0-\\u024f';
 
-    for (const keyword of keywords) {
-      for (const areaKeyword of areaKeywords) {
-        // Check for exact match or substring match
-        if (keyword === areaKeyword || keyword.includes(areaKeyword) || areaKeyword.includes(keyword)) {
-          matchCount++;
-          break; // Don't count the same keyword multiple times
-        }
-      }
-    }
+/**
+ * Whole-word / whole-phrase match, tolerating a plural "s"/"es"
+ * ("data" matches "data" but not "database"; "mobile app" needs both words in order)
+ */
+export function matchesPattern(text: string, pattern: string): boolean {
+  const words = pattern.toLowerCase().trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return false;
 
-    scores[area] = matchCount;
-  }
+  const regex = new RegExp(`(^|[^${WORD_CHARS}])${words.join('[\\s-]+')}(?:e?s)?(?![${WORD_CHARS}])`);
+  return regex.test(text.toLowerCase());
+}
 
-  // Find area with highest score
-  let bestArea = 'General';
-  let bestScore = 0;
+/**
+ * Whether a rule applies to text in the given language
+ * English rules apply everywhere; others only to their own language
+ * (so Spanish "red" never matches English "red")
+ */
+function ruleAppliesTo(rule: ProductAreaRule, language: SupportedLanguage): boolean {
+  return !rule.language || rule.language === 'en' || rule.language === language;
+}
 
-  for (const [area, score] of Object.entries(scores)) {
-    if (score > bestScore) {
-      bestScore = score;
-      bestArea = area;
-    }
+/**
+ * Score every product area against the text and return the ranked matches
+ * Positive rules add their weight, negative rules subtract theirs; an area
+ * qualifies when its weighted score covers enough of the extracted keywords
+ */
+export function classifyProductAreas(
+  text: string,
+  keywords: string[],
+  rules: ProductAreaRule[] = DEFAULT_PRODUCT_AREA_RULES,
+  language: SupportedLanguage = 'en'
+): ProductAreaMatch[] {
+  if (!text || keywords.length === 0 || rules.length === 0) {
+    return [];
   }
 
-  // Calculate confidence (percentage of keywords that matched)
-  const confidence = bestScore > 0 ? Math.min(1, bestScore / keywords.length) : 0;
+  const byArea = new Map<string, { score: number; matched: string[] }>();
 
-  // If confidence is too low, return General
-  if (confidence < 0.2) {
-    return { area: 'General', confidence: 0 };
+  for (const rule of rules) {
+    if (!ruleAppliesTo(rule, language) || !matchesPattern(text, rule.pattern)) continue;
+
+    const entry = byArea.get(rule.area) || { score: 0, matched: [] };
+    entry.score += rule.negative ? -rule.weight : rule.weight;
+    if (!rule.negative) entry.matched.push(rule.pattern);
+    byArea.set(rule.area, entry);
   }
 
-  return { area: bestArea, confidence };
+  return [...byArea.entries()]
+    .map(([area, { score, matched }]) => ({
+      area,
+      score: Math.round(score * 100) / 100,
+      confidence: Math.max(0, Math.min(1, score / keywords.length)),
+      matched,
+    }))
+    .filter(match => match.score > 0 && match.confidence >= MIN_AREA_CONFIDENCE)
+    .sort((a, b) => b.score - a.score);
 }
 
 /**
@@ -133,32 +212,40 @@ function generateTopicString(keywords: string[], text: string): string {
  * Detect topic and product area from text
  *
  * @param text - The text to analyze (Reddit post, review, comment, etc.)
+ * @param rules - Product area rules (default: static fallback rules)
+ * @param language - Detected language of the text, for keyword extraction and localized rules
  * @returns TopicResult with topic, keywords, product area, and confidence
  *
  * @example
  * ```ts
  * const result = detectTopic("Network outage in Dallas, 5G is completely down");
  * console.log(result.productArea); // "Network"
+ * console.log(result.productAreas); // [{ area: "Network", score: 3, ... }]
  * console.log(result.topic); // "network outage dallas"
  * console.log(result.keywords); // ["network", "outage", "dallas", "5g", "down"]
  * ```
  */
-export function detectTopic(text: string): TopicResult {
+export function detectTopic(
+  text: string,
+  rules: ProductAreaRule[] = DEFAULT_PRODUCT_AREA_RULES,
+  language: SupportedLanguage = 'en'
+): TopicResult {
   // Handle empty or invalid text
   if (!text || typeof text !== 'string' || text.trim().length === 0) {
     return {
       topic: '',
       keywords: [],
       productArea: 'General',
+      productAreas: [],
       confidence: 0,
     };
   }
 
   // Extract keywords
-  const keywords = extractKeywords(text);
+  const keywords = extractKeywords(text, language);
 
-  // Match to product area
-  const { area, confidence } = matchProductArea(keywords);
+  // Rank product areas
+  const productAreas = classifyProductAreas(text, keywords, rules, language);
 
   // Generate topic string
   const topic = generateTopicString(keywords, text);
@@ -166,65 +253,18 @@ export function detectTopic(text: string): TopicResult {
   return {
     topic,
     keywords,
-    productArea: area,
-    confidence,
+    productArea: productAreas[0]?.area || 'General',
+    productAreas,
+    confidence: productAreas[0]?.confidence || 0,
   };
 }
 
 /**
  * Batch detect topics for multiple texts
  */
-export function detectTopicBatch(texts: string[]): TopicResult[] {
-  return texts.map(text => detectTopic(text));
-}
-
-/**
- * Match keywords to product area using database rules
- * This can be used when we have rules loaded from the database
- */
-export function matchWithDatabaseRules(
-  keywords: string[],
-  productAreaRules: Array<{ name: string; keywords: string[] }>
-): { area: string; confidence: number } {
-  if (keywords.length === 0 || productAreaRules.length === 0) {
-    return { area: 'General', confidence: 0 };
-  }
-
-  const scores: Record<string, number> = {};
-
-  // Score each product area based on keyword matches
-  for (const rule of productAreaRules) {
-    let matchCount = 0;
-
-    for (const keyword of keywords) {
-      for (const ruleKeyword of rule.keywords) {
-        if (keyword === ruleKeyword || keyword.includes(ruleKeyword) || ruleKeyword.includes(keyword)) {
-          matchCount++;
-          break;
-        }
-      }
-    }
-
-    scores[rule.name] = matchCount;
-  }
-
-  // Find area with highest score
-  let bestArea = 'General';
-  let bestScore = 0;
-
-  for (const [area, score] of Object.entries(scores)) {
-    if (score > bestScore) {
-      bestScore = score;
-      bestArea = area;
-    }
-  }
-
-  // Calculate confidence
-  const confidence = bestScore > 0 ? Math.min(1, bestScore / keywords.length) : 0;
-
-  if (confidence < 0.2) {
-    return { area: 'General', confidence: 0 };
-  }
-
-  return { area: bestArea, confidence };
+export function detectTopicBatch(
+  texts: string[],
+  rules: ProductAreaRule[] = DEFAULT_PRODUCT_AREA_RULES
+): TopicResult[] {
+  return texts.map(text => detectTopic(text, rules));
 }
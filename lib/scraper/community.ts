@@ -1,10 +1,14 @@
 /**
- * T-Mobile Community Mock Data Generator
- * Generates realistic sample data since T-Mobile Community requires OAuth
+ * T-Mobile Community Scraper
+ * Parses the public "Recent Discussions" listing of the T-Mobile Community
+ * forums (Khoros); reading it needs no login.
+ * Pages are fetched live or replayed from fixtures (see ./fixtures).
  */
 
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import * as cheerio from 'cheerio';
+import type { SourceAdapter } from './types';
+import { mergeSeenIds } from './cursors';
+import { commitLiveCursor, fetchSourcePages, loadLiveCursor, type SourcePage } from './fixtures';
 
 export interface CommunityDiscussion {
   id: string;
@@ -16,76 +20,130 @@ export interface CommunityDiscussion {
   timestamp: string;
   excerpt: string;
   tags: string[];
+  url?: string;
+}
+
+/**
+ * Thread IDs already ingested (newest first, bounded)
+ */
+export interface CommunityCursor {
+  seen_ids: string[];
 }
 
 export interface CommunityResult {
   discussions: CommunityDiscussion[];
   source: string;
   fetched_at: string;
+  synthetic: boolean;
 }
 
-interface CommunitySampleData {
-  categories: string[];
-  sampleDiscussions: Array<{
-    title: string;
-    category: string;
-    tags: string[];
-    excerpt: string;
-  }>;
-  authorNames: string[];
-}
+const BASE_URL = 'https://community.t-mobile.com';
+const RECENT_URL = `${BASE_URL}/t5/forums/recentpostspage`;
 
-// Load sample data from JSON file
-let sampleData: CommunitySampleData;
-try {
-  const dataPath = join(process.cwd(), 'lib/scraper/data/community-sample.json');
-  const fileContent = readFileSync(dataPath, 'utf-8');
-  sampleData = JSON.parse(fileContent);
-} catch (error) {
-  console.error('Failed to load community sample data:', error);
-  throw new Error('Sample data file not found');
+function parseCount(text: string): number {
+  const count = parseInt(text.replace(/[^\d]/g, ''), 10);
+  return Number.isNaN(count) ? 0 : count;
 }
 
-const CATEGORIES = sampleData.categories;
-const SAMPLE_DISCUSSIONS = sampleData.sampleDiscussions;
-const AUTHOR_NAMES = sampleData.authorNames;
-
 /**
- * Generate mock community discussions
+ * Parse one discussion listing page
+ *
+ * @example
+ * ```ts
+ * const discussions = parseCommunityPage(html);
+ * discussions[0]; // { id: '1234567', title: 'No service after update', category: 'Network', ... }
+ * ```
  */
-export function generateCommunityData(): CommunityResult {
-  const now = new Date();
+export function parseCommunityPage(html: string): CommunityDiscussion[] {
+  const $ = cheerio.load(html);
   const discussions: CommunityDiscussion[] = [];
 
-  // Generate 50 recent discussions
-  const count = 50;
+  $('.lia-list-row[data-message-id]').each((_, elem) => {
+    const row = $(elem);
+    const id = row.attr('data-message-id');
+    const subject = row.find('.message-subject a').first();
+    const title = subject.text().trim();
+    const timestamp = row.find('time').attr('datetime');
 
-  for (let i = 0; i < count; i++) {
-    const sample = SAMPLE_DISCUSSIONS[Math.floor(Math.random() * SAMPLE_DISCUSSIONS.length)];
+    if (!id || !title || !timestamp || Number.isNaN(Date.parse(timestamp))) return;
 
-    // Random timestamp within last 24 hours
-    const hoursAgo = Math.floor(Math.random() * 24);
-    const timestamp = new Date(now.getTime() - hoursAgo * 60 * 60 * 1000).toISOString();
+    const href = subject.attr('href');
 
     discussions.push({
-      id: `discussion-${Date.now()}-${i}`,
-      title: sample.title,
-      category: sample.category,
-      author: AUTHOR_NAMES[Math.floor(Math.random() * AUTHOR_NAMES.length)],
-      replies: Math.floor(Math.random() * 50),
-      views: Math.floor(Math.random() * 500) + 10,
-      timestamp,
-      excerpt: sample.excerpt,
-      tags: sample.tags,
+      id,
+      title,
+      category: row.find('.lia-board-link').text().trim() || 'General',
+      author: row.find('.lia-user-name-link').first().text().trim() || 'anonymous',
+      replies: parseCount(row.find('.lia-reply-count').text()),
+      views: parseCount(row.find('.lia-view-count').text()),
+      timestamp: new Date(timestamp).toISOString(),
+      excerpt: row.find('.lia-truncated-body-container').text().replace(/\s+/g, ' ').trim(),
+      tags: row.find('.lia-tag').map((_, tag) => $(tag).text().trim()).get().filter(Boolean),
+      url: href ? new URL(href, BASE_URL).toString() : undefined,
     });
+  });
+
+  return discussions;
+}
+
+function parseCommunityPages(pages: SourcePage[]): CommunityDiscussion[] {
+  const byId = new Map<string, CommunityDiscussion>();
+  for (const discussion of pages.flatMap(page => parseCommunityPage(page.html))) {
+    byId.set(discussion.id, discussion);
   }
 
-  // Sort by timestamp (newest first)
-  discussions.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  // Newest first
+  return [...byId.values()].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+/**
+ * Scrape recent T-Mobile Community discussions, or replay their fixtures
+ */
+export async function scrapeCommunity(): Promise<CommunityResult> {
+  const { pages, synthetic } = await fetchSourcePages('tmobile-community', [RECENT_URL]);
 
   return {
-    discussions,
+    discussions: parseCommunityPages(pages),
     source: 'tmobile-community',
     fetched_at: new Date().toISOString(),
+    synthetic,
   };
 }
+
+export const communityAdapter: SourceAdapter<CommunityDiscussion[]> = {
+  id: 'tmobile-community',
+  label: 'T-Mobile Community',
+  endpoint: '/api/scrape/community',
+
+  async fetch() {
+    const cursor = await loadLiveCursor<CommunityCursor>('tmobile-community');
+    const result = await scrapeCommunity();
+
+    const seen = new Set(cursor?.seen_ids || []);
+    const discussions = result.discussions.filter(discussion => !seen.has(discussion.id));
+    const nextCursor: CommunityCursor = {
+      seen_ids: mergeSeenIds(discussions.map(discussion => discussion.id), cursor?.seen_ids),
+    };
+
+    return {
+      payload: discussions,
+      fetched_at: result.fetched_at,
+      itemCount: discussions.length,
+      synthetic: result.synthetic,
+      cursor: { seen_count: nextCursor.seen_ids.length, newest_id: nextCursor.seen_ids[0] || null },
+      commit: commitLiveCursor('tmobile-community', nextCursor),
+    };
+  },
+
+  extractItems(payload) {
+    if (!Array.isArray(payload)) return [];
+
+    return (payload as CommunityDiscussion[]).map(discussion => ({
+      text: `${discussion.title} ${discussion.excerpt}`.trim(),
+      externalId: discussion.id,
+      url: discussion.url,
+      author: discussion.author,
+      publishedAt: discussion.timestamp,
+    }));
+  },
+};
@@ -0,0 +1,83 @@
+/**
+ * Scraper Cursors
+ * Persists per-source high-water marks in the scraper_cursors table so each
+ * run only emits items that were not ingested before
+ */
+
+import { createHash } from 'crypto';
+import { createServiceClient } from '@/lib/supabase/service';
+
+/**
+ * Default cap for remembered item IDs per source
+ */
+export const MAX_SEEN_IDS = 1000;
+
+/**
+ * Load the stored cursor for a source
+ * Returns null when the source has never run (or the lookup fails), which
+ * makes the scraper treat everything as unseen
+ */
+export async function loadScraperCursor<T>(source: string): Promise<T | null> {
+  try {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('scraper_cursors')
+      .select('cursor')
+      .eq('source', source)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error loading cursor for ${source}:`, error);
+      return null;
+    }
+
+    return (data?.cursor as T) || null;
+  } catch (error) {
+    console.error(`Error loading cursor for ${source}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Save the advanced cursor for a source
+ */
+export async function saveScraperCursor<T>(source: string, cursor: T): Promise<void> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from('scraper_cursors')
+    .upsert({
+      source,
+      cursor,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'source' });
+
+  if (error) {
+    console.error(`Error saving cursor for ${source}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Prepend newly seen IDs to a bounded, de-duplicated list (newest first)
+ */
+export function mergeSeenIds(newIds: string[], previous: string[] = [], max: number = MAX_SEEN_IDS): string[] {
+  return [...new Set([...newIds, ...previous])].slice(0, max);
+}
+
+/**
+ * Return the later of two ISO timestamps, ignoring missing values
+ */
+export function latestTimestamp(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a) return b || null;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+}
+
+/**
+ * Stable short hash for items that have no upstream ID
+ */
+export function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 16);
+}
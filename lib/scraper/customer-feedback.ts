@@ -7,11 +7,14 @@
  *
  * Returns combined dataset for comprehensive customer feedback analysis.
  * If scraping fails, falls back to sample data only.
+ * Sample comments are marked synthetic, and so is any raw event containing them.
  */
 
 import * as cheerio from 'cheerio';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import type { SourceAdapter } from './types';
+import { hashText, loadScraperCursor, mergeSeenIds, saveScraperCursor } from './cursors';
 
 export interface CustomerComment {
   comment: string;
@@ -19,6 +22,7 @@ export interface CustomerComment {
   state?: string;
   date?: string;
   time?: string;
+  synthetic?: boolean; // true for bundled sample comments
 }
 
 export interface CustomerFeedbackResult {
@@ -32,6 +36,21 @@ const BESTCOMPANY_URL = 'https://bestcompany.com/cell-phones/t-mobile';
 const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
 const SAMPLE_DATA_PATH = join(process.cwd(), 'lib/scraper/data/tmobile_sample_300.json');
 
+/**
+ * Keys of comments already ingested (comments carry no upstream ID)
+ */
+export interface CustomerFeedbackCursor {
+  seen_keys: string[];
+}
+
+/**
+ * Shape stored in raw_events.raw_payload for this source
+ */
+export interface CustomerFeedbackPayload {
+  comments: CustomerComment[];
+  data_source: CustomerFeedbackResult['data_source'];
+}
+
 /**
  * Attempt to scrape BestCompany.com for customer comments
  */
@@ -146,14 +165,14 @@ export async function scrapeCustomerFeedback(): Promise<CustomerFeedbackResult>
     const scrapedComments = await scrapeBestCompany();
     console.log(`Scraped ${scrapedComments.length} comments from BestCompany`);
 
-    allComments.push(...scrapedComments);
-    allComments.push(...sampleComments);
+    allComments.push(...scrapedComments.map(comment => ({ ...comment, synthetic: false })));
+    allComments.push(...sampleComments.map(comment => ({ ...comment, synthetic: true })));
     dataSource = 'combined';
 
     console.log(`Total comments: ${allComments.length} (${scrapedComments.length} scraped + ${sampleComments.length} sample)`);
   } catch (error) {
     console.log('Scraping failed, using sample data only:', error instanceof Error ? error.message : '');
-    allComments.push(...sampleComments);
+    allComments.push(...sampleComments.map(comment => ({ ...comment, synthetic: true })));
     dataSource = 'sample';
   }
 
@@ -164,3 +183,58 @@ export async function scrapeCustomerFeedback(): Promise<CustomerFeedbackResult>
     fetched_at: new Date().toISOString(),
   };
 }
+
+function commentKey(comment: CustomerComment): string {
+  return hashText(`${comment.date || ''}|${comment.time || ''}|${comment.city || ''}|${comment.comment}`);
+}
+
+/**
+ * Combine the sample date/time columns into an ISO timestamp when both parse
+ */
+function toPublishedAt(comment: CustomerComment): string | undefined {
+  if (!comment.date) return undefined;
+
+  const time = Date.parse(comment.time ? `${comment.date}T${comment.time}:00Z` : comment.date);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+export const customerFeedbackAdapter: SourceAdapter<CustomerFeedbackPayload> = {
+  id: 'customer-feedback',
+  label: 'Customer Feedback',
+  endpoint: '/api/scrape/customer-feedback',
+
+  async fetch() {
+    const cursor = await loadScraperCursor<CustomerFeedbackCursor>('customer-feedback');
+    const result = await scrapeCustomerFeedback();
+
+    const seen = new Set(cursor?.seen_keys || []);
+    const comments = result.comments.filter(comment => !seen.has(commentKey(comment)));
+    const nextCursor: CustomerFeedbackCursor = {
+      seen_keys: mergeSeenIds(comments.map(commentKey), cursor?.seen_keys),
+    };
+
+    return {
+      payload: {
+        comments,
+        data_source: result.data_source,
+      },
+      fetched_at: result.fetched_at,
+      itemCount: comments.length,
+      synthetic: comments.some(comment => comment.synthetic),
+      cursor: { seen_count: nextCursor.seen_keys.length },
+      commit: () => saveScraperCursor('customer-feedback', nextCursor),
+    };
+  },
+
+  extractItems(payload) {
+    const data = payload as Partial<CustomerFeedbackPayload> | null;
+    if (!data?.comments || !Array.isArray(data.comments)) return [];
+
+    return data.comments.map(comment => ({
+      text: comment.comment,
+      geo: comment.city && comment.state ? { city: comment.city, state: comment.state } : undefined,
+      publishedAt: toPublishedAt(comment),
+      synthetic: comment.synthetic,
+    }));
+  },
+};
@@ -1,24 +1,23 @@
 /**
- * DownDetector Data Loader
- * Loads static outage data modeled after real DownDetector JSON structure
+ * DownDetector Scraper
+ * Parses T-Mobile's DownDetector status page (report chart, most reported
+ * problems, user comments) and outage map page (most reported locations).
+ * Pages are fetched live or replayed from fixtures (see ./fixtures).
  */
 
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import * as cheerio from 'cheerio';
+import type { SourceAdapter } from './types';
+import { hashText, latestTimestamp } from './cursors';
+import { commitLiveCursor, fetchSourcePages, loadLiveCursor, type SourcePage } from './fixtures';
 
 export interface OutageLocation {
   city: string;
   state: string;
-  lat: number;
-  lng: number;
   reportCount: number;
-  problemType: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  comments: string[];
 }
 
 export interface DownDetectorReport {
-  total_reports: number;
+  total_reports: number; // Reports in the latest chart interval
   problem_types: {
     type: string;
     percentage: number;
@@ -28,46 +27,196 @@ export interface DownDetectorReport {
     timestamp: string;
     location?: string;
   }[];
-  baseline: number;
-  status: string;
+  baseline: number; // Typical reports for the latest chart interval
+  status: string; // 'issues', 'normal' or 'unknown'
   outage_locations: OutageLocation[];
 }
 
+export interface DownDetectorCursor {
+  newest_comment_at: string | null;
+}
+
 export interface DownDetectorResult {
   report_data: DownDetectorReport;
   source: string;
   fetched_at: string;
+  synthetic: boolean;
 }
 
+const STATUS_URL = 'https://downdetector.com/status/t-mobile/';
+const MAP_URL = 'https://downdetector.com/status/t-mobile/map/';
+
 /**
- * Load DownDetector data from static JSON file
- * This mimics real DownDetector data structure
+ * Chart points are embedded in a script as `{ x: '<iso time>', y: <count> }`
  */
-export function generateDownDetectorData(): DownDetectorResult {
-  try {
-    const dataPath = join(process.cwd(), 'lib/scraper/data/downdetector-data.json');
-    const fileContent = readFileSync(dataPath, 'utf-8');
-    const reportData: DownDetectorReport = JSON.parse(fileContent);
+const CHART_POINT_PATTERN = /\{\s*x:\s*['"]([^'"]+)['"],\s*y:\s*(\d+)\s*\}/g;
 
-    return {
-      report_data: reportData,
-      source: 'downdetector',
-      fetched_at: new Date().toISOString(),
+function parseChartSeries(script: string, name: string): number[] {
+  const match = script.match(new RegExp(`${name}\\s*:\\s*\\[([\\s\\S]*?)\\]`));
+  if (!match) return [];
+
+  return Array.from(match[1].matchAll(CHART_POINT_PATTERN), point => parseInt(point[2], 10));
+}
+
+/**
+ * Parse "City, ST" or "City, State" into its parts
+ */
+function parseLocation(text: string): { city: string; state: string } | null {
+  const match = text.trim().match(/^([^,]+),\s*(.+)$/);
+  return match ? { city: match[1].trim(), state: match[2].trim() } : null;
+}
+
+/**
+ * Parse one DownDetector page into the parts of a report it contains
+ * Status pages carry the chart, problems and comments; map pages carry locations
+ *
+ * @example
+ * ```ts
+ * const report = parseDownDetectorPage(html);
+ * report.status; // 'issues'
+ * report.problem_types; // [{ type: 'Mobile Internet', percentage: 47 }, ...]
+ * ```
+ */
+export function parseDownDetectorPage(html: string): Partial<DownDetectorReport> {
+  const $ = cheerio.load(html);
+  const report: Partial<DownDetectorReport> = {};
+
+  // e.g. "User reports indicate problems at T-Mobile"
+  const headline = $('.entry-title').first().text().trim().toLowerCase();
+  if (headline.includes('no current problems')) {
+    report.status = 'normal';
+  } else if (headline.includes('indicate problems') || headline.includes('possible problems')) {
+    report.status = 'issues';
+  }
+
+  $('script').each((_, elem) => {
+    const script = $(elem).html() || '';
+    if (!script.includes('chartData')) return;
+
+    const reports = parseChartSeries(script, 'reports');
+    const baseline = parseChartSeries(script, 'baseline');
+    if (reports.length > 0) report.total_reports = reports[reports.length - 1];
+    if (baseline.length > 0) report.baseline = baseline[baseline.length - 1];
+  });
+
+  const problems: DownDetectorReport['problem_types'] = [];
+  $('.indicatorChart_item').each((_, elem) => {
+    const type = $(elem).find('.indicatorChart_name').text().trim();
+    const percentage = parseInt($(elem).find('.indicatorChart_percentage').text(), 10);
+    if (type && percentage > 0 && percentage <= 100) {
+      problems.push({ type, percentage });
+    }
+  });
+  if (problems.length > 0) report.problem_types = problems;
+
+  const comments: DownDetectorReport['user_comments'] = [];
+  $('.comment').each((_, elem) => {
+    const text = $(elem).find('.comment-text').text().replace(/\s+/g, ' ').trim();
+    const timestamp = $(elem).find('time').attr('datetime');
+    const location = $(elem).find('.comment-location').text().trim();
+    if (text && timestamp && !Number.isNaN(Date.parse(timestamp))) {
+      comments.push({
+        text,
+        timestamp: new Date(timestamp).toISOString(),
+        location: location || undefined,
+      });
+    }
+  });
+  if (comments.length > 0) report.user_comments = comments;
+
+  const locations: OutageLocation[] = [];
+  $('.locations-table tbody tr').each((_, elem) => {
+    const cells = $(elem).find('td');
+    const location = parseLocation(cells.eq(0).text());
+    const reportCount = parseInt(cells.eq(1).text().replace(/[^\d]/g, ''), 10);
+    if (location && reportCount > 0) {
+      locations.push({ ...location, reportCount });
+    }
+  });
+  if (locations.length > 0) report.outage_locations = locations;
+
+  return report;
+}
+
+/**
+ * Combine the status and map pages into one report
+ */
+export function parseDownDetectorPages(pages: SourcePage[]): DownDetectorReport {
+  const report: DownDetectorReport = {
+    total_reports: 0,
+    baseline: 0,
+    status: 'unknown',
+    problem_types: [],
+    user_comments: [],
+    outage_locations: [],
+  };
+
+  for (const page of pages) {
+    const parsed = parseDownDetectorPage(page.html);
+    Object.assign(report, parsed, {
+      user_comments: [...report.user_comments, ...(parsed.user_comments || [])],
+      outage_locations: [...report.outage_locations, ...(parsed.outage_locations || [])],
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Scrape DownDetector for T-Mobile, or replay its fixtures
+ */
+export async function scrapeDownDetector(): Promise<DownDetectorResult> {
+  const { pages, synthetic } = await fetchSourcePages('downdetector', [STATUS_URL, MAP_URL]);
+
+  return {
+    report_data: parseDownDetectorPages(pages),
+    source: 'downdetector',
+    fetched_at: new Date().toISOString(),
+    synthetic,
+  };
+}
+
+export const downDetectorAdapter: SourceAdapter<DownDetectorReport> = {
+  id: 'downdetector',
+  label: 'DownDetector',
+  endpoint: '/api/scrape/downdetector',
+
+  async fetch() {
+    const cursor = await loadLiveCursor<DownDetectorCursor>('downdetector');
+    const result = await scrapeDownDetector();
+
+    const since = cursor?.newest_comment_at ? new Date(cursor.newest_comment_at).getTime() : null;
+    const userComments = result.report_data.user_comments.filter(comment =>
+      since === null || new Date(comment.timestamp).getTime() > since
+    );
+    const nextCursor: DownDetectorCursor = {
+      newest_comment_at: userComments.reduce<string | null>(
+        (latest, comment) => latestTimestamp(latest, comment.timestamp),
+        cursor?.newest_comment_at || null
+      ),
     };
-  } catch (error) {
-    console.error('Failed to load downdetector data:', error);
 
     return {
-      report_data: {
-        total_reports: 0,
-        baseline: 50,
-        status: 'normal',
-        problem_types: [],
-        user_comments: [],
-        outage_locations: [],
-      },
-      source: 'downdetector',
-      fetched_at: new Date().toISOString(),
+      payload: { ...result.report_data, user_comments: userComments },
+      fetched_at: result.fetched_at,
+      itemCount: userComments.length,
+      synthetic: result.synthetic,
+      cursor: nextCursor,
+      snapshot: result.report_data,
+      commit: commitLiveCursor('downdetector', nextCursor),
     };
-  }
-}
+  },
+
+  extractItems(payload) {
+    const data = payload as Partial<DownDetectorReport> | null;
+    if (!data?.user_comments || !Array.isArray(data.user_comments)) return [];
+
+    // Comments have no ID of their own; the same complaint posted again later is a new report
+    return data.user_comments.map(comment => ({
+      text: comment.text || '',
+      externalId: `${comment.timestamp}:${hashText(comment.text || '')}`,
+      geo: comment.location ? { location: comment.location } : undefined,
+      publishedAt: comment.timestamp,
+    }));
+  },
+};
@@ -0,0 +1,417 @@
+/**
+ * Generic Feed Scraper
+ * Fetches RSS 2.0, RSS 1.0 (RDF), Atom and JSON Feed sources configured in the
+ * feed_sources table. Uses conditional GET and per-feed cursors so items that
+ * were already ingested are never emitted again.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { createServiceClient } from '@/lib/supabase/service';
+import type { SourceAdapter } from './types';
+import { latestTimestamp, mergeSeenIds } from './cursors';
+
+export interface FeedSource {
+  id: string;
+  name: string;
+  url: string;
+  category: string | null; // e.g. carrier-blog, competitor, regulator
+  enabled: boolean;
+  etag: string | null;
+  last_modified: string | null;
+  last_item_published_at: string | null;
+  seen_item_ids: string[] | null;
+}
+
+export interface FeedItem {
+  id: string; // guid / Atom id / JSON Feed id, falling back to link or title
+  title: string;
+  link: string;
+  summary: string;
+  author?: string;
+  published?: string; // ISO timestamp
+}
+
+/**
+ * Feed item as stored in raw_events.raw_payload
+ */
+export interface FeedEntry extends FeedItem {
+  feed_id: string;
+  feed_name: string;
+  feed_category: string | null;
+}
+
+export interface FeedFetchResult {
+  feed: FeedSource;
+  items: FeedItem[]; // Unseen items only
+  notModified: boolean;
+  etag: string | null;
+  lastModified: string | null;
+  error?: string;
+}
+
+export interface FeedScraperResult {
+  entries: FeedEntry[];
+  feeds: FeedFetchResult[];
+  source: string;
+  fetched_at: string;
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; InsighT/1.0)';
+
+/**
+ * Maximum number of item IDs remembered per feed
+ * Older items are covered by the last_item_published_at high-water mark
+ */
+const MAX_SEEN_ITEM_IDS = 500;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  isArray: (_tagName, jPath) => [
+    'rss.channel.item',
+    'rdf:RDF.item',
+    'feed.entry',
+    'feed.entry.link',
+  ].includes(jPath),
+});
+
+/**
+ * Read a text node that may be a plain value or an element with attributes
+ */
+function textOf(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string' || typeof value === 'number') return String(value).trim();
+  if (typeof value === 'object' && '#text' in value) {
+    return textOf((value as Record<string, unknown>)['#text']);
+  }
+  return '';
+}
+
+/**
+ * Strip markup from HTML summaries
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toISODate(value: unknown): string | undefined {
+  const text = textOf(value);
+  if (!text) return undefined;
+
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function buildItem(fields: Omit<FeedItem, 'id'> & { id?: string }): FeedItem | null {
+  const id = fields.id || fields.link || fields.title;
+  if (!id || (!fields.title && !fields.summary)) return null;
+
+  return { ...fields, id };
+}
+
+function parseRssItems(items: Record<string, unknown>[]): FeedItem[] {
+  return items
+    .map(item => buildItem({
+      id: textOf(item.guid),
+      title: textOf(item.title),
+      link: textOf(item.link),
+      summary: stripHtml(textOf(item.description) || textOf(item['content:encoded'])),
+      author: textOf(item['dc:creator']) || textOf(item.author) || undefined,
+      published: toISODate(item.pubDate) || toISODate(item['dc:date']),
+    }))
+    .filter((item): item is FeedItem => item !== null);
+}
+
+function parseAtomEntries(entries: Record<string, unknown>[]): FeedItem[] {
+  return entries
+    .map(entry => {
+      const links = (entry.link as Array<Record<string, string>> | undefined) || [];
+      const link = links.find(l => !l['@_rel'] || l['@_rel'] === 'alternate') || links[0];
+      const author = entry.author as Record<string, unknown> | undefined;
+
+      return buildItem({
+        id: textOf(entry.id),
+        title: textOf(entry.title),
+        link: link?.['@_href'] || '',
+        summary: stripHtml(textOf(entry.summary) || textOf(entry.content)),
+        author: textOf(author?.name) || undefined,
+        published: toISODate(entry.published) || toISODate(entry.updated),
+      });
+    })
+    .filter((item): item is FeedItem => item !== null);
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  title?: string;
+  summary?: string;
+  content_text?: string;
+  content_html?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: { name?: string };
+  authors?: Array<{ name?: string }>;
+}
+
+function parseJsonFeedItems(items: JsonFeedItem[]): FeedItem[] {
+  return items
+    .map(item => buildItem({
+      id: item.id !== undefined ? String(item.id) : undefined,
+      title: item.title || '',
+      link: item.url || '',
+      summary: item.content_text || item.summary || stripHtml(item.content_html || ''),
+      author: item.authors?.[0]?.name || item.author?.name || undefined,
+      published: toISODate(item.date_published) || toISODate(item.date_modified),
+    }))
+    .filter((item): item is FeedItem => item !== null);
+}
+
+/**
+ * Parse a feed document, detecting JSON Feed, RSS 2.0, RSS 1.0 or Atom
+ *
+ * @example
+ * ```ts
+ * const items = parseFeed('<rss><channel><item><title>5G outage</title>...</item></channel></rss>');
+ * console.log(items[0].title); // "5G outage"
+ * ```
+ */
+export function parseFeed(body: string): FeedItem[] {
+  const trimmed = body.trim();
+
+  if (trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed);
+    if (!Array.isArray(json?.items)) {
+      throw new Error('JSON document is not a JSON Feed');
+    }
+    return parseJsonFeedItems(json.items);
+  }
+
+  const doc = xmlParser.parse(trimmed);
+
+  if (doc.rss?.channel) {
+    return parseRssItems(doc.rss.channel.item || []);
+  }
+  if (doc['rdf:RDF']) {
+    return parseRssItems(doc['rdf:RDF'].item || []);
+  }
+  if (doc.feed) {
+    return parseAtomEntries(doc.feed.entry || []);
+  }
+
+  throw new Error('Unrecognized feed format');
+}
+
+/**
+ * Drop items already covered by the feed's cursor
+ */
+export function filterUnseenItems(items: FeedItem[], feed: FeedSource): FeedItem[] {
+  const seen = new Set(feed.seen_item_ids || []);
+  const highWaterMark = feed.last_item_published_at
+    ? new Date(feed.last_item_published_at).getTime()
+    : null;
+
+  return items.filter(item => {
+    if (seen.has(item.id)) return false;
+
+    // Items older than the high-water mark were seen before their IDs aged out
+    if (highWaterMark !== null && item.published) {
+      return new Date(item.published).getTime() >= highWaterMark;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Fetch a single feed with conditional GET
+ */
+export async function fetchFeed(feed: FeedSource): Promise<FeedFetchResult> {
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8',
+  };
+  if (feed.etag) headers['If-None-Match'] = feed.etag;
+  if (feed.last_modified) headers['If-Modified-Since'] = feed.last_modified;
+
+  try {
+    const response = await fetch(feed.url, {
+      headers,
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (response.status === 304) {
+      return {
+        feed,
+        items: [],
+        notModified: true,
+        etag: feed.etag,
+        lastModified: feed.last_modified,
+      };
+    }
+
+    if (!response.ok) {
+      throw new Error(`Feed returned ${response.status}: ${response.statusText}`);
+    }
+
+    const items = parseFeed(await response.text());
+
+    return {
+      feed,
+      items: filterUnseenItems(items, feed),
+      notModified: false,
+      etag: response.headers.get('etag') || feed.etag,
+      lastModified: response.headers.get('last-modified') || feed.last_modified,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error fetching feed "${feed.name}" (${feed.url}):`, message);
+
+    return {
+      feed,
+      items: [],
+      notModified: false,
+      etag: feed.etag,
+      lastModified: feed.last_modified,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Load enabled feeds from the database
+ */
+export async function loadFeedSources(): Promise<FeedSource[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('feed_sources')
+    .select('*')
+    .eq('enabled', true)
+    .order('name');
+
+  if (error) {
+    console.error('Error loading feed sources:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Scrape every enabled feed and collect unseen items
+ */
+export async function scrapeFeeds(): Promise<FeedScraperResult> {
+  const feeds = await loadFeedSources();
+  const results: FeedFetchResult[] = [];
+
+  for (const feed of feeds) {
+    results.push(await fetchFeed(feed));
+  }
+
+  const entries: FeedEntry[] = results.flatMap(result =>
+    result.items.map(item => ({
+      ...item,
+      feed_id: result.feed.id,
+      feed_name: result.feed.name,
+      feed_category: result.feed.category,
+    }))
+  );
+
+  return {
+    entries,
+    feeds: results,
+    source: 'rss-feed',
+    fetched_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Persist conditional GET validators and cursors after items are stored
+ * Must run only once the raw event insert succeeded, otherwise items would be skipped
+ */
+export async function saveFeedCursors(results: FeedFetchResult[]): Promise<void> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  for (const result of results) {
+    const { feed, items } = result;
+
+    const seenIds = mergeSeenIds(
+      items.map(item => item.id),
+      feed.seen_item_ids || [],
+      MAX_SEEN_ITEM_IDS
+    );
+
+    const update = result.error
+      ? { last_fetched_at: now, last_error: result.error }
+      : {
+          etag: result.etag,
+          last_modified: result.lastModified,
+          seen_item_ids: seenIds,
+          last_item_published_at: newestPublished(result),
+          last_fetched_at: now,
+          last_error: null,
+        };
+
+    const { error } = await supabase
+      .from('feed_sources')
+      .update(update)
+      .eq('id', feed.id);
+
+    if (error) {
+      console.error(`Error saving cursor for feed "${feed.name}":`, error);
+    }
+  }
+}
+
+/**
+ * High-water mark a feed advances to once this run's items are stored
+ */
+function newestPublished(result: FeedFetchResult): string | null {
+  return result.items.reduce<string | null>(
+    (latest, item) => latestTimestamp(latest, item.published),
+    result.feed.last_item_published_at
+  );
+}
+
+export const feedAdapter: SourceAdapter<FeedEntry[]> = {
+  id: 'rss-feed',
+  label: 'News & Blog Feeds',
+  endpoint: '/api/scrape/feeds',
+
+  async fetch() {
+    const result = await scrapeFeeds();
+    return {
+      payload: result.entries,
+      fetched_at: result.fetched_at,
+      itemCount: result.entries.length,
+      synthetic: false,
+      cursor: Object.fromEntries(
+        result.feeds.map(feedResult => [feedResult.feed.name, newestPublished(feedResult)])
+      ),
+      commit: () => saveFeedCursors(result.feeds),
+    };
+  },
+
+  extractItems(payload) {
+    if (!Array.isArray(payload)) return [];
+
+    return (payload as FeedEntry[]).map(entry => ({
+      text: `${entry.title} ${entry.summary || ''}`.trim(),
+      externalId: entry.id,
+      url: entry.link || undefined,
+      author: entry.author || entry.feed_name,
+      publishedAt: entry.published,
+    }));
+  },
+};
@@ -0,0 +1,110 @@
+/**
+ * Fixture Replay
+ * HTML scrapers fetch their page live, or replay saved snapshots from
+ * lib/scraper/fixtures/<source id>/*.html so parsers can be run offline.
+ * Replayed fetches are stored with raw_events.synthetic = true.
+ *
+ * Mode is read per source from SCRAPER_MODE_<SOURCE> (e.g.
+ * SCRAPER_MODE_DOWNDETECTOR=fixture), then SCRAPER_MODE, defaulting to live.
+ *
+ * Fixtures carry fixed timestamps, so replays ignore the source's cursor and
+ * never save it (loadLiveCursor / commitLiveCursor): every replay emits the
+ * fixtures again, item fingerprints keep them from becoming duplicate
+ * signals, and the live cursor is left where live runs put it.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { loadScraperCursor, saveScraperCursor } from './cursors';
+
+export type ScraperMode = 'live' | 'fixture';
+
+export interface SourcePage {
+  name: string; // URL for live fetches, file name for fixtures
+  html: string;
+}
+
+export interface SourcePages {
+  pages: SourcePage[];
+  synthetic: boolean;
+}
+
+const FIXTURES_DIR = join(process.cwd(), 'lib/scraper/fixtures');
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/**
+ * Scraper mode for one source
+ *
+ * @example
+ * ```ts
+ * // SCRAPER_MODE=fixture, SCRAPER_MODE_REDDIT=live
+ * getScraperMode('downdetector'); // 'fixture'
+ * getScraperMode('tmobile-community'); // reads SCRAPER_MODE_TMOBILE_COMMUNITY first
+ * ```
+ */
+export function getScraperMode(sourceId: string): ScraperMode {
+  const sourceKey = `SCRAPER_MODE_${sourceId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  const mode = (process.env[sourceKey] || process.env.SCRAPER_MODE || 'live').toLowerCase();
+
+  return mode === 'fixture' ? 'fixture' : 'live';
+}
+
+/**
+ * The source's cursor for a live run; null in fixture mode
+ */
+export async function loadLiveCursor<T>(sourceId: string): Promise<T | null> {
+  return getScraperMode(sourceId) === 'fixture' ? null : loadScraperCursor<T>(sourceId);
+}
+
+/**
+ * Commit callback that saves the advanced cursor after a live run; none in fixture mode
+ */
+export function commitLiveCursor<T>(sourceId: string, cursor: T): (() => Promise<void>) | undefined {
+  return getScraperMode(sourceId) === 'fixture' ? undefined : () => saveScraperCursor(sourceId, cursor);
+}
+
+/**
+ * Saved HTML snapshots for a source, in file name order
+ */
+export function loadFixturePages(sourceId: string): SourcePage[] {
+  const dir = join(FIXTURES_DIR, sourceId);
+
+  if (!existsSync(dir)) {
+    throw new Error(`No fixtures for ${sourceId} in lib/scraper/fixtures/${sourceId}`);
+  }
+
+  return readdirSync(dir)
+    .filter(name => name.endsWith('.html'))
+    .sort()
+    .map(name => ({ name, html: readFileSync(join(dir, name), 'utf-8') }));
+}
+
+/**
+ * Fetch a source's pages live, or load its fixtures in fixture mode
+ * Live failures throw so the ingest run records them and backs off
+ */
+export async function fetchSourcePages(sourceId: string, urls: string[]): Promise<SourcePages> {
+  if (getScraperMode(sourceId) === 'fixture') {
+    return { pages: loadFixturePages(sourceId), synthetic: true };
+  }
+
+  const pages: SourcePage[] = [];
+
+  for (const url of urls) {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml',
+      },
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${url} returned ${response.status}: ${response.statusText}`);
+    }
+
+    pages.push({ name: url, html: await response.text() });
+  }
+
+  return { pages, synthetic: false };
+}
@@ -4,6 +4,8 @@
  */
 
 import * as cheerio from 'cheerio';
+import type { SourceAdapter } from './types';
+import { hashText, loadScraperCursor, mergeSeenIds, saveScraperCursor } from './cursors';
 
 export interface ServiceStatus {
   status: string;
@@ -18,6 +20,14 @@ export interface ServiceStatus {
   }[];
 }
 
+/**
+ * Last stored status plus hashes of mentions already ingested
+ */
+export interface IsTheServiceDownCursor {
+  status_message: string | null;
+  seen_mentions: string[];
+}
+
 export interface IsTheServiceDownResult {
   status_data: ServiceStatus;
   source: string;
@@ -162,3 +172,55 @@ export async function scrapeIsTheServiceDown(): Promise<IsTheServiceDownResult>
     throw error;
   }
 }
+
+export const isTheServiceDownAdapter: SourceAdapter<ServiceStatus> = {
+  id: 'istheservicedown',
+  label: 'IsTheServiceDown',
+  endpoint: '/api/scrape/istheservicedown',
+
+  async fetch() {
+    const cursor = await loadScraperCursor<IsTheServiceDownCursor>('istheservicedown');
+    const result = await scrapeIsTheServiceDown();
+
+    const seen = new Set(cursor?.seen_mentions || []);
+    const socialMentions = result.status_data.social_mentions.filter(
+      mention => !seen.has(hashText(mention.text))
+    );
+    const statusMessage = result.status_data.status_message || null;
+    const statusChanged = statusMessage !== (cursor?.status_message ?? null);
+
+    const nextCursor: IsTheServiceDownCursor = {
+      status_message: statusMessage,
+      seen_mentions: mergeSeenIds(
+        socialMentions.map(mention => hashText(mention.text)),
+        cursor?.seen_mentions,
+        200
+      ),
+    };
+
+    return {
+      payload: { ...result.status_data, social_mentions: socialMentions },
+      fetched_at: result.fetched_at,
+      itemCount: statusChanged || socialMentions.length > 0 ? 1 : 0,
+      synthetic: false,
+      cursor: { status_message: statusMessage, seen_mentions: nextCursor.seen_mentions.length },
+      commit: () => saveScraperCursor('istheservicedown', nextCursor),
+    };
+  },
+
+  /**
+   * The status page is summarized as a single item: headline plus recent mentions
+   * Every item links to the same page, so the ID comes from the content; a
+   * URL fingerprint would make every later item a duplicate of the first
+   */
+  extractItems(payload) {
+    const data = payload as Partial<ServiceStatus> | null;
+    const statusMsg = data?.status_message || '';
+    const socialMentions = data?.social_mentions
+      ?.map(mention => mention.text)
+      .join('\n\n') || '';
+    const text = `${statusMsg}\n\n${socialMentions}`.trim();
+
+    return text ? [{ text, url: URL, externalId: `status:${hashText(text)}` }] : [];
+  },
+};
@@ -1,9 +1,13 @@
 /**
  * Google News RSS Scraper
  * Fetches news articles about T-Mobile from Google News RSS feeds
+ * Only articles published after the stored per-query cursor are emitted;
+ * articles without a usable pubDate are emitted once, tracked by link hash
  */
 
 import { XMLParser } from 'fast-xml-parser';
+import type { SourceAdapter } from './types';
+import { hashText, latestTimestamp, loadScraperCursor, mergeSeenIds, saveScraperCursor } from './cursors';
 
 export interface NewsArticle {
   title: string;
@@ -13,13 +17,19 @@ export interface NewsArticle {
   source: string;
 }
 
+export interface NewsCursor {
+  published: Record<string, string>; // Latest ingested pubDate (ISO) per search query
+  undated: string[]; // Link hashes of ingested articles without a pubDate, newest first
+}
+
 export interface NewsScraperResult {
   articles: NewsArticle[];
+  cursor: NewsCursor;
   source: string;
   fetched_at: string;
 }
 
-const SEARCH_QUERIES = [
+export const SEARCH_QUERIES = [
   'T-Mobile outage',
   'T-Mobile network down',
   'T-Mobile billing issue',
@@ -72,15 +82,64 @@ async function fetchNewsForQuery(query: string): Promise<NewsArticle[]> {
 }
 
 /**
- * Scrape all configured news queries
+ * Convert an RSS pubDate to ISO, ignoring unparseable values
+ */
+function parsePubDate(pubDate: string): string | undefined {
+  const time = Date.parse(pubDate);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Identity of an undated article: its link, or its title when it has none
+ */
+function undatedKey(article: NewsArticle): string {
+  return hashText(article.link || article.title);
+}
+
+/**
+ * Read a stored cursor, including the older plain query → pubDate map
+ */
+function normalizeCursor(stored: Partial<NewsCursor> | Record<string, string> | null): NewsCursor {
+  if (!stored) return { published: {}, undated: [] };
+  if ('published' in stored && typeof stored.published === 'object') {
+    return { published: { ...stored.published }, undated: Array.isArray(stored.undated) ? stored.undated : [] };
+  }
+  return { published: { ...(stored as Record<string, string>) }, undated: [] };
+}
+
+/**
+ * Scrape all configured news queries, emitting only articles newer than the
+ * cursor and undated articles not emitted before
  */
-export async function scrapeNews(): Promise<NewsScraperResult> {
+export async function scrapeNews(cursor: NewsCursor | null = null): Promise<NewsScraperResult> {
   const allArticles: NewsArticle[] = [];
+  const current = normalizeCursor(cursor);
+  const published = { ...current.published };
+  const seenUndated = new Set(current.undated);
+  const newUndated: string[] = [];
 
   for (const query of SEARCH_QUERIES) {
     try {
       const articles = await fetchNewsForQuery(query);
-      allArticles.push(...articles);
+      const since = current.published[query] ? new Date(current.published[query]).getTime() : null;
+
+      const newArticles = articles.filter(article => {
+        const publishedAt = parsePubDate(article.pubDate);
+        if (!publishedAt) {
+          const key = undatedKey(article);
+          if (seenUndated.has(key)) return false;
+          seenUndated.add(key);
+          newUndated.push(key);
+          return true;
+        }
+        return since === null || new Date(publishedAt).getTime() > since;
+      });
+      allArticles.push(...newArticles);
+
+      for (const article of newArticles) {
+        const latest = latestTimestamp(published[query], parsePubDate(article.pubDate));
+        if (latest) published[query] = latest;
+      }
 
       // Be polite: wait 1 second between requests
       if (SEARCH_QUERIES.indexOf(query) < SEARCH_QUERIES.length - 1) {
@@ -98,7 +157,39 @@ export async function scrapeNews(): Promise<NewsScraperResult> {
 
   return {
     articles: uniqueArticles,
+    cursor: { published, undated: mergeSeenIds(newUndated, current.undated) },
     source: 'google-news',
     fetched_at: new Date().toISOString(),
   };
 }
+
+export const newsAdapter: SourceAdapter<NewsArticle[]> = {
+  id: 'google-news',
+  label: 'Google News',
+  endpoint: '/api/scrape/news',
+
+  async fetch() {
+    const cursor = await loadScraperCursor<NewsCursor>('google-news');
+    const result = await scrapeNews(cursor);
+    return {
+      payload: result.articles,
+      fetched_at: result.fetched_at,
+      itemCount: result.articles.length,
+      synthetic: false,
+      cursor: result.cursor,
+      commit: () => saveScraperCursor('google-news', result.cursor),
+    };
+  },
+
+  extractItems(payload) {
+    if (!Array.isArray(payload)) return [];
+
+    return (payload as NewsArticle[]).map(article => ({
+      text: `${article.title} ${article.description || ''}`.trim(),
+      externalId: article.link || undefined,
+      url: article.link || undefined,
+      author: article.source || undefined,
+      publishedAt: parsePubDate(article.pubDate),
+    }));
+  },
+};
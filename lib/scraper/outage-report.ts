@@ -1,144 +1,168 @@
 /**
- * Outage.report Mock Data Generator
- * Generates realistic sample data since Event API is not publicly accessible
+ * Outage.report Scraper
+ * Parses T-Mobile's Outage.report page: overall status, recent user reports
+ * with their location and problem, most affected locations and social mentions.
+ * Pages are fetched live or replayed from fixtures (see ./fixtures).
  */
 
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import * as cheerio from 'cheerio';
+import type { SourceAdapter } from './types';
+import type { OutageLocation } from './downdetector';
+import { latestTimestamp } from './cursors';
+import { commitLiveCursor, fetchSourcePages, loadLiveCursor, type SourcePage } from './fixtures';
 
 export interface OutageEvent {
   timestamp: string;
   status: string;
-  event_type?: string;
+  event_type?: string; // Reported problem, e.g. 'Mobile Internet'
   description?: string;
+  location?: string; // "City, ST" as shown on the page
   affected_count?: number;
 }
 
 export interface OutageReportData {
-  current_status: string;
+  current_status: string; // 'outage', 'ok' or 'unknown'
   events: OutageEvent[];
   social_mentions: string[];
+  outage_locations: OutageLocation[];
+}
+
+export interface OutageReportCursor {
+  newest_event_at: string | null;
 }
 
 export interface OutageReportResult {
   outage_data: OutageReportData;
   source: string;
   fetched_at: string;
+  synthetic: boolean;
 }
 
-interface OutageReportSampleData {
-  eventTypes: string[];
-  sampleEventDescriptions: string[];
-  sampleSocialMentions: string[];
-}
-
-// Load sample data from JSON file
-let sampleData: OutageReportSampleData;
-try {
-  const dataPath = join(process.cwd(), 'lib/scraper/data/outage-report-sample.json');
-  const fileContent = readFileSync(dataPath, 'utf-8');
-  sampleData = JSON.parse(fileContent);
-} catch (error) {
-  console.error('Failed to load outage-report sample data:', error);
-  throw new Error('Sample data file not found');
-}
-
-const EVENT_TYPES = sampleData.eventTypes;
-const SAMPLE_EVENT_DESCRIPTIONS = sampleData.sampleEventDescriptions;
-const SAMPLE_SOCIAL_MENTIONS = sampleData.sampleSocialMentions;
+const URL = 'https://outage.report/us/t-mobile';
 
 /**
- * Generate random outage events
+ * Parse an Outage.report page
+ *
+ * @example
+ * ```ts
+ * const data = parseOutageReportPage(html);
+ * data.events[0]; // { timestamp, status: 'reported', event_type: 'No Signal', location: 'Dallas, TX', ... }
+ * ```
  */
-function generateEvents(count: number = 5): OutageEvent[] {
-  const now = new Date();
-  const events: OutageEvent[] = [];
+export function parseOutageReportPage(html: string): OutageReportData {
+  const $ = cheerio.load(html);
 
-  for (let i = 0; i < count; i++) {
-    // Generate timestamp within last 48 hours
-    const hoursAgo = Math.floor(Math.random() * 48);
-    const timestamp = new Date(now.getTime() - hoursAgo * 60 * 60 * 1000).toISOString();
+  // e.g. "T-Mobile is having problems" / "No problems at T-Mobile"
+  const statusText = $('.status-headline').first().text().trim().toLowerCase();
+  const current_status = statusText.includes('no problems')
+    ? 'ok'
+    : statusText.includes('problems') || statusText.includes('outage')
+      ? 'outage'
+      : 'unknown';
 
-    const eventType = EVENT_TYPES[Math.floor(Math.random() * EVENT_TYPES.length)];
-    const description = SAMPLE_EVENT_DESCRIPTIONS[Math.floor(Math.random() * SAMPLE_EVENT_DESCRIPTIONS.length)];
+  const events: OutageEvent[] = [];
+  $('.report-item').each((_, elem) => {
+    const timestamp = $(elem).find('time').attr('datetime');
+    if (!timestamp || Number.isNaN(Date.parse(timestamp))) return;
+
+    const location = $(elem).find('.report-location').text().trim();
+    const problem = $(elem).find('.report-problem').text().trim();
+    const comment = $(elem).find('.report-text').text().replace(/\s+/g, ' ').trim();
 
     events.push({
-      timestamp,
-      status: eventType,
-      event_type: eventType,
-      description,
-      affected_count: Math.floor(Math.random() * 1000) + 10,
+      timestamp: new Date(timestamp).toISOString(),
+      status: 'reported',
+      event_type: problem || undefined,
+      description: comment || (problem ? `${problem} problems${location ? ` in ${location}` : ''}` : undefined),
+      location: location || undefined,
     });
-  }
-
-  // Sort by timestamp (newest first)
-  return events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  });
+
+  const outage_locations: OutageLocation[] = [];
+  $('.location-item').each((_, elem) => {
+    const match = $(elem).find('.location-name').text().trim().match(/^([^,]+),\s*(.+)$/);
+    const reportCount = parseInt($(elem).find('.location-count').text().replace(/[^\d]/g, ''), 10);
+    if (match && reportCount > 0) {
+      outage_locations.push({ city: match[1].trim(), state: match[2].trim(), reportCount });
+    }
+  });
+
+  const social_mentions: string[] = [];
+  $('.tweet-text').each((_, elem) => {
+    const text = $(elem).text().replace(/\s+/g, ' ').trim();
+    if (text.length > 20) social_mentions.push(text.substring(0, 280));
+  });
+
+  // Newest first
+  events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  return { current_status, events, social_mentions, outage_locations };
 }
 
-/**
- * Generate mock social mentions
- */
-function generateSocialMentions(count: number = 10): string[] {
-  const mentions: string[] = [];
-  const now = new Date();
-
-  for (let i = 0; i < count; i++) {
-    const randomMention = SAMPLE_SOCIAL_MENTIONS[Math.floor(Math.random() * SAMPLE_SOCIAL_MENTIONS.length)];
-    mentions.push(randomMention);
-  }
+function parseOutageReportPages(pages: SourcePage[]): OutageReportData {
+  const parsed = pages.map(page => parseOutageReportPage(page.html));
 
-  return mentions;
-}
-
-/**
- * Determine current status based on recent events
- */
-function determineCurrentStatus(events: OutageEvent[]): string {
-  if (events.length === 0) {
-    return 'ok';
-  }
-
-  const latestEvent = events[0];
-
-  // If most recent event is resolved, status is ok
-  if (latestEvent.event_type === 'resolved') {
-    return 'ok';
-  }
-
-  // If outage or investigating, status is outage
-  if (latestEvent.event_type === 'outage' || latestEvent.event_type === 'investigating') {
-    return 'outage';
-  }
-
-  // If degraded, status is degraded
-  if (latestEvent.event_type === 'degraded') {
-    return 'degraded';
-  }
-
-  return 'ok';
+  return {
+    current_status: parsed.find(data => data.current_status !== 'unknown')?.current_status || 'unknown',
+    events: parsed.flatMap(data => data.events),
+    social_mentions: parsed.flatMap(data => data.social_mentions),
+    outage_locations: parsed.flatMap(data => data.outage_locations),
+  };
 }
 
 /**
- * Generate realistic Outage.report mock data
+ * Scrape Outage.report for T-Mobile, or replay its fixtures
  */
-export function generateOutageReportData(): OutageReportResult {
-  // Generate 3-7 events
-  const eventCount = 3 + Math.floor(Math.random() * 5);
-  const events = generateEvents(eventCount);
-
-  // Determine status based on events
-  const current_status = determineCurrentStatus(events);
-
-  // Generate social mentions
-  const social_mentions = generateSocialMentions(10);
+export async function scrapeOutageReport(): Promise<OutageReportResult> {
+  const { pages, synthetic } = await fetchSourcePages('outage-report', [URL]);
 
   return {
-    outage_data: {
-      current_status,
-      events,
-      social_mentions,
-    },
+    outage_data: parseOutageReportPages(pages),
     source: 'outage-report',
     fetched_at: new Date().toISOString(),
+    synthetic,
   };
 }
+
+export const outageReportAdapter: SourceAdapter<OutageReportData> = {
+  id: 'outage-report',
+  label: 'Outage.report',
+  endpoint: '/api/scrape/outage-report',
+
+  async fetch() {
+    const cursor = await loadLiveCursor<OutageReportCursor>('outage-report');
+    const result = await scrapeOutageReport();
+
+    const since = cursor?.newest_event_at ? new Date(cursor.newest_event_at).getTime() : null;
+    const events = result.outage_data.events.filter(event =>
+      since === null || new Date(event.timestamp).getTime() > since
+    );
+    const nextCursor: OutageReportCursor = {
+      newest_event_at: events.reduce<string | null>(
+        (latest, event) => latestTimestamp(latest, event.timestamp),
+        cursor?.newest_event_at || null
+      ),
+    };
+
+    return {
+      payload: { ...result.outage_data, events },
+      fetched_at: result.fetched_at,
+      itemCount: events.length,
+      synthetic: result.synthetic,
+      cursor: nextCursor,
+      snapshot: result.outage_data,
+      commit: commitLiveCursor('outage-report', nextCursor),
+    };
+  },
+
+  extractItems(payload) {
+    const data = payload as Partial<OutageReportData> | null;
+    if (!data?.events || !Array.isArray(data.events)) return [];
+
+    return data.events.map(event => ({
+      text: event.description || '',
+      geo: event.location ? { location: event.location } : undefined,
+      publishedAt: event.timestamp,
+    }));
+  },
+};
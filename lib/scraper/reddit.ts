@@ -1,8 +1,12 @@
 /**
  * Reddit Scraper
- * Fetches posts from r/tmobile and r/tmobileisp using JSON endpoints
+ * Fetches new posts from r/tmobile and r/tmobileisp using JSON endpoints
+ * Only posts newer than the stored per-subreddit cursor are emitted
  */
 
+import type { SourceAdapter } from './types';
+import { loadScraperCursor, saveScraperCursor } from './cursors';
+
 export interface RedditPost {
   id: string;
   title: string;
@@ -16,8 +20,20 @@ export interface RedditPost {
   subreddit: string;
 }
 
+/**
+ * Per-subreddit high-water mark
+ * newest_ids holds the post IDs sharing the newest created_utc second
+ */
+export interface SubredditCursor {
+  newest_created_utc: number;
+  newest_ids: string[];
+}
+
+export type RedditCursor = Record<string, SubredditCursor>;
+
 export interface RedditScraperResult {
   posts: RedditPost[];
+  cursor: RedditCursor;
   source: string;
   fetched_at: string;
 }
@@ -29,7 +45,7 @@ const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/
  * Parse Reddit RSS feed as fallback when JSON API is blocked
  */
 async function fetchSubredditRSS(subreddit: string): Promise<RedditPost[]> {
-  const url = `https://www.reddit.com/r/${subreddit}.rss`;
+  const url = `https://www.reddit.com/r/${subreddit}/new.rss`;
 
   try {
     const response = await fetch(url, {
@@ -54,7 +70,8 @@ async function fetchSubredditRSS(subreddit: string): Promise<RedditPost[]> {
         const titleMatch = entry.match(/<title>(.*?)<\/title>/);
         const linkMatch = entry.match(/<link href="([^"]+)"/);
         const authorMatch = entry.match(/<name>(.*?)<\/name>/);
-        const updatedMatch = entry.match(/<updated>(.*?)<\/updated>/);
+        // <updated> moves on every edit; <published> is the creation time the cursor relies on
+        const publishedMatch = entry.match(/<published>(.*?)<\/published>/);
         const contentMatch = entry.match(/<content[^>]*>([\s\S]*?)<\/content>/);
         const idMatch = entry.match(/\/comments\/([^/]+)\//);
 
@@ -77,7 +94,7 @@ async function fetchSubredditRSS(subreddit: string): Promise<RedditPost[]> {
             author: authorMatch?.[1] || 'unknown',
             score: 0,
             num_comments: 0,
-            created_utc: updatedMatch ? Math.floor(new Date(updatedMatch[1]).getTime() / 1000) : 0,
+            created_utc: publishedMatch ? Math.floor(new Date(publishedMatch[1]).getTime() / 1000) : 0,
             permalink: linkMatch[1],
             url: linkMatch[1],
             subreddit,
@@ -97,7 +114,7 @@ async function fetchSubredditRSS(subreddit: string): Promise<RedditPost[]> {
 }
 
 async function fetchSubreddit(subreddit: string, retries: number = 3): Promise<RedditPost[]> {
-  const url = `https://www.reddit.com/r/${subreddit}.json?limit=100`;
+  const url = `https://www.reddit.com/r/${subreddit}/new.json?limit=100`;
 
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
@@ -174,17 +191,54 @@ async function fetchSubreddit(subreddit: string, retries: number = 3): Promise<R
 }
 
 /**
- * Scrape all configured subreddits
+ * Keep only posts newer than the subreddit cursor and compute the advanced cursor
  */
-export async function scrapeReddit(): Promise<RedditScraperResult> {
+function filterNewPosts(
+  posts: RedditPost[],
+  cursor: SubredditCursor | undefined
+): { posts: RedditPost[]; cursor: SubredditCursor | undefined } {
+  const newPosts = cursor
+    ? posts.filter(post =>
+        post.created_utc > cursor.newest_created_utc ||
+        (post.created_utc === cursor.newest_created_utc && !cursor.newest_ids.includes(post.id))
+      )
+    : posts;
+
+  if (newPosts.length === 0) {
+    return { posts: [], cursor };
+  }
+
+  const newest = Math.max(...newPosts.map(post => post.created_utc));
+  const newestIds = newPosts.filter(post => post.created_utc === newest).map(post => post.id);
+
+  return {
+    posts: newPosts,
+    cursor: {
+      newest_created_utc: newest,
+      newest_ids: cursor && cursor.newest_created_utc === newest
+        ? [...cursor.newest_ids, ...newestIds]
+        : newestIds,
+    },
+  };
+}
+
+/**
+ * Scrape all configured subreddits, emitting only posts newer than the cursor
+ */
+export async function scrapeReddit(cursor: RedditCursor = {}): Promise<RedditScraperResult> {
   const allPosts: RedditPost[] = [];
+  const nextCursor: RedditCursor = { ...cursor };
   const errors: string[] = [];
 
   for (const subreddit of SUBREDDITS) {
     try {
-      const posts = await fetchSubreddit(subreddit);
+      const fetched = await fetchSubreddit(subreddit);
+      const { posts, cursor: subredditCursor } = filterNewPosts(fetched, cursor[subreddit]);
       allPosts.push(...posts);
-      console.log(`Successfully fetched ${posts.length} posts from r/${subreddit}`);
+      if (subredditCursor) {
+        nextCursor[subreddit] = subredditCursor;
+      }
+      console.log(`Fetched ${fetched.length} posts from r/${subreddit}, ${posts.length} new`);
 
       if (SUBREDDITS.indexOf(subreddit) < SUBREDDITS.length - 1) {
         await new Promise(resolve => setTimeout(resolve, 1000));
@@ -196,15 +250,47 @@ export async function scrapeReddit(): Promise<RedditScraperResult> {
     }
   }
 
-  if (allPosts.length === 0 && errors.length > 0) {
+  if (errors.length === SUBREDDITS.length) {
     throw new Error(`Failed to fetch any Reddit posts. Errors: ${errors.join(', ')}`);
   }
 
-  console.log(`Reddit scraper completed: ${allPosts.length} posts from ${SUBREDDITS.length - errors.length}/${SUBREDDITS.length} subreddits`);
+  console.log(`Reddit scraper completed: ${allPosts.length} new posts from ${SUBREDDITS.length - errors.length}/${SUBREDDITS.length} subreddits`);
 
   return {
     posts: allPosts,
+    cursor: nextCursor,
     source: 'reddit',
     fetched_at: new Date().toISOString(),
   };
 }
+
+export const redditAdapter: SourceAdapter<RedditPost[]> = {
+  id: 'reddit',
+  label: 'Reddit',
+  endpoint: '/api/scrape/reddit',
+
+  async fetch() {
+    const cursor = await loadScraperCursor<RedditCursor>('reddit');
+    const result = await scrapeReddit(cursor || {});
+    return {
+      payload: result.posts,
+      fetched_at: result.fetched_at,
+      itemCount: result.posts.length,
+      synthetic: false,
+      cursor: result.cursor,
+      commit: () => saveScraperCursor('reddit', result.cursor),
+    };
+  },
+
+  extractItems(payload) {
+    if (!Array.isArray(payload)) return [];
+
+    return (payload as RedditPost[]).map(post => ({
+      text: `${post.title} ${post.selftext || ''}`.trim(),
+      externalId: post.id,
+      url: post.permalink,
+      author: post.author,
+      publishedAt: post.created_utc ? new Date(post.created_utc * 1000).toISOString() : undefined,
+    }));
+  },
+};
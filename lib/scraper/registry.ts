@@ -0,0 +1,52 @@
+/**
+ * Source Adapter Registry
+ * Single list of ingestion sources used by the cron orchestrator,
+ * the raw event processor and dashboard source breakdowns
+ */
+
+import type { SourceAdapter } from './types';
+import { redditAdapter } from './reddit';
+import { newsAdapter } from './news';
+import { isTheServiceDownAdapter } from './istheservicedown';
+import { outageReportAdapter } from './outage-report';
+import { downDetectorAdapter } from './downdetector';
+import { communityAdapter } from './community';
+import { customerFeedbackAdapter } from './customer-feedback';
+import { feedAdapter } from './feeds';
+
+/**
+ * Registered adapters, in the order the cron orchestrator calls them
+ */
+const SOURCE_ADAPTERS: SourceAdapter[] = [
+  redditAdapter,
+  newsAdapter,
+  isTheServiceDownAdapter,
+  outageReportAdapter,
+  downDetectorAdapter,
+  communityAdapter,
+  customerFeedbackAdapter,
+  feedAdapter,
+];
+
+const adaptersById = new Map(SOURCE_ADAPTERS.map(adapter => [adapter.id, adapter]));
+
+/**
+ * Get all registered source adapters
+ */
+export function listSourceAdapters(): SourceAdapter[] {
+  return [...SOURCE_ADAPTERS];
+}
+
+/**
+ * Look up the adapter for a raw_events/signals source value
+ */
+export function getSourceAdapter(sourceId: string): SourceAdapter | null {
+  return adaptersById.get(sourceId) || null;
+}
+
+/**
+ * Friendly display name for a source, falling back to the raw source value
+ */
+export function getSourceLabel(sourceId: string): string {
+  return adaptersById.get(sourceId)?.label || sourceId;
+}
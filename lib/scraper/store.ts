@@ -0,0 +1,64 @@
+/**
+ * Raw Event Storage
+ * Shared write path for scrape routes: stores a fetch result in raw_events
+ * and only then advances the source's cursor
+ * Snapshot sources (status pages) also replace their row in source_snapshots
+ * on every run, so dashboards reading their status don't depend on the cursor
+ */
+
+import { createServiceClient } from '@/lib/supabase/service';
+import type { SourceAdapter, SourceFetchResult } from './types';
+
+/**
+ * Store unseen items as a raw event, refresh the source snapshot and commit
+ * the source cursor
+ *
+ * @returns The raw_events row ID, or null when the run found nothing new
+ */
+export async function storeSourceFetch<TPayload>(
+  adapter: SourceAdapter<TPayload>,
+  result: SourceFetchResult<TPayload>
+): Promise<string | null> {
+  const supabase = createServiceClient();
+  let storedId: string | null = null;
+
+  if (result.itemCount > 0) {
+    const { data, error } = await supabase
+      .from('raw_events')
+      .insert({
+        source: adapter.id,
+        fetched_at: result.fetched_at,
+        raw_payload: result.payload,
+        synthetic: result.synthetic,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw error;
+    }
+
+    storedId = data.id;
+  }
+
+  if (result.snapshot) {
+    const { error } = await supabase
+      .from('source_snapshots')
+      .upsert({
+        source: adapter.id,
+        synthetic: result.synthetic,
+        payload: result.snapshot,
+        fetched_at: result.fetched_at,
+      }, { onConflict: 'source,synthetic' });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      throw error;
+    }
+  }
+
+  await result.commit?.();
+
+  return storedId;
+}
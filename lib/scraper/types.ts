@@ -0,0 +1,58 @@
+/**
+ * Source Adapter Types
+ * Shared contract every scraper module implements so ingestion, processing
+ * and dashboards can be driven from the source registry
+ */
+
+/**
+ * Location hints attached to a single item
+ * Either a structured city/state pair or a free-text location string
+ */
+export interface SourceItemGeo {
+  city?: string;
+  state?: string;
+  location?: string;
+}
+
+/**
+ * A single customer voice extracted from a raw event payload
+ * (post, article, comment, review, status message)
+ */
+export interface SourceItem {
+  text: string;
+  geo?: SourceItemGeo;
+  externalId?: string; // Stable ID from the upstream source, if it has one
+  url?: string; // Canonical permalink to the item
+  author?: string;
+  publishedAt?: string; // ISO timestamp reported by the source
+  synthetic?: boolean; // Overrides the raw event's flag, e.g. bundled sample rows in a live payload
+}
+
+/**
+ * Result of a single fetch, stored as one raw_events row
+ */
+export interface SourceFetchResult<TPayload> {
+  payload: TPayload; // Stored verbatim in raw_events.raw_payload
+  fetched_at: string;
+  itemCount: number; // Unseen items emitted by this run
+  synthetic: boolean; // Replayed fixtures or sample data rather than a live fetch; stored in raw_events.synthetic
+  cursor?: unknown; // Cursor this run advanced to, reported by the scrape route
+  snapshot?: TPayload; // Full payload before cursor filtering, kept in source_snapshots on every run (status pages)
+  /**
+   * Persist source-side state (cursors, validators) once the raw event is stored
+   * Never called when the insert fails, so the same items are fetched again next run
+   */
+  commit?: () => Promise<void>;
+}
+
+export interface SourceAdapter<TPayload = unknown> {
+  id: string; // Value stored in raw_events.source and signals.source
+  label: string; // Friendly display name for dashboards
+  endpoint: string; // Scrape route called by the cron orchestrator
+  fetch(): Promise<SourceFetchResult<TPayload>>;
+  /**
+   * Split a stored raw_payload into individual items
+   * Payloads come back from the database untyped, so adapters must validate the shape
+   */
+  extractItems(payload: unknown): SourceItem[];
+}
@@ -9,7 +9,11 @@ import { createServiceClient } from '@/lib/supabase/service';
  * Calculate signal trend (percentage change vs previous hour)
  * @returns { current, previous, percentageChange }
  */
-export async function getSignalTrend(timeWindowHours: number = 1): Promise<{
+export async function getSignalTrend(
+  timeWindowHours: number = 1,
+  language?: string | null,
+  excludeSynthetic: boolean = false
+): Promise<{
   current: number;
   previous: number;
   percentageChange: number;
@@ -22,23 +26,43 @@ export async function getSignalTrend(timeWindowHours: number = 1): Promise<{
     const previousWindowStart = new Date(currentWindowStart.getTime() - timeWindowHours * 60 * 60 * 1000);
 
     // Count signals in current window
-    const { count: currentCount, error: currentError } = await supabase
+    let currentQuery = supabase
       .from('signals')
       .select('*', { count: 'exact', head: true })
       .gte('detected_at', currentWindowStart.toISOString());
 
+    if (language) {
+      currentQuery = currentQuery.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      currentQuery = currentQuery.eq('synthetic', false);
+    }
+
+    const { count: currentCount, error: currentError } = await currentQuery;
+
     if (currentError) {
       console.error('Error counting current signals:', currentError);
       return { current: 0, previous: 0, percentageChange: 0 };
     }
 
     // Count signals in previous window
-    const { count: previousCount, error: previousError } = await supabase
+    let previousQuery = supabase
       .from('signals')
       .select('*', { count: 'exact', head: true })
       .gte('detected_at', previousWindowStart.toISOString())
       .lt('detected_at', currentWindowStart.toISOString());
 
+    if (language) {
+      previousQuery = previousQuery.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      previousQuery = previousQuery.eq('synthetic', false);
+    }
+
+    const { count: previousCount, error: previousError } = await previousQuery;
+
     if (previousError) {
       console.error('Error counting previous signals:', previousError);
       return { current: currentCount || 0, previous: 0, percentageChange: 0 };
@@ -66,7 +90,11 @@ export async function getSignalTrend(timeWindowHours: number = 1): Promise<{
  * Calculate new issues in the last hour (issues that didn't exist in the previous hour)
  * @returns { newIssuesCount, totalIssues }
  */
-export async function getNewIssuesCount(timeWindowHours: number = 1): Promise<{
+export async function getNewIssuesCount(
+  timeWindowHours: number = 1,
+  language?: string | null,
+  excludeSynthetic: boolean = false
+): Promise<{
   newIssuesCount: number;
   totalIssues: number;
 }> {
@@ -77,23 +105,43 @@ export async function getNewIssuesCount(timeWindowHours: number = 1): Promise<{
     const previousWindowStart = new Date(currentWindowStart.getTime() - timeWindowHours * 60 * 60 * 1000);
 
     // Get topics from current window
-    const { data: currentSignals, error: currentError } = await supabase
+    let currentQuery = supabase
       .from('signals')
       .select('topic, product_area_id')
       .gte('detected_at', currentWindowStart.toISOString());
 
+    if (language) {
+      currentQuery = currentQuery.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      currentQuery = currentQuery.eq('synthetic', false);
+    }
+
+    const { data: currentSignals, error: currentError } = await currentQuery;
+
     if (currentError || !currentSignals) {
       console.error('Error fetching current signals:', currentError);
       return { newIssuesCount: 0, totalIssues: 0 };
     }
 
     // Get topics from previous window
-    const { data: previousSignals, error: previousError } = await supabase
+    let previousQuery = supabase
       .from('signals')
       .select('topic, product_area_id')
       .gte('detected_at', previousWindowStart.toISOString())
       .lt('detected_at', currentWindowStart.toISOString());
 
+    if (language) {
+      previousQuery = previousQuery.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      previousQuery = previousQuery.eq('synthetic', false);
+    }
+
+    const { data: previousSignals, error: previousError } = await previousQuery;
+
     if (previousError || !previousSignals) {
       console.error('Error fetching previous signals:', previousError);
       return { newIssuesCount: 0, totalIssues: 0 };
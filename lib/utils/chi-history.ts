@@ -0,0 +1,391 @@
+/**
+ * CHI History
+ * Stores the Customer Happiness Index per product area and overall in
+ * chi_snapshots, so trends and past values ("Billing CHI last Tuesday") are
+ * read from the table instead of recomputed from signals.
+ *
+ * Each capture recomputes the current and previous UTC hour from signals,
+ * then rolls hours up into days and days into ISO weeks (starting Monday).
+ * Rows keep the weighted sentiment and weight totals behind each score, so
+ * roll-ups and range summaries are exact weighted averages.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadCredibilityWeights } from '@/lib/processing/credibility';
+import { loadProductAreaIds } from '@/lib/processing/product-area-rules';
+import { CHI_SIGNAL_COLUMNS, chiFromSums, sumCHISentiment, type CHISignal } from './chi';
+
+export type CHIGranularity = 'hourly' | 'daily' | 'weekly';
+
+/**
+ * all: every signal; live: synthetic signals left out
+ */
+export type CHIScope = 'all' | 'live';
+
+export interface CHISnapshotRow {
+  product_area_id: string | null; // null: overall
+  granularity: CHIGranularity;
+  scope: CHIScope;
+  period_start: string;
+  chi: number | null;
+  raw_chi: number | null;
+  signal_count: number;
+  sentiment_sum: number;
+  weight_sum: number;
+  raw_sentiment_sum: number;
+  raw_weight_sum: number;
+}
+
+export interface CHIHistoryPoint {
+  periodStart: string;
+  chi: number | null;
+  rawChi: number | null;
+  signalCount: number;
+}
+
+export interface CHIHistorySummary {
+  chi: number | null; // Weighted average over the whole range
+  rawChi: number | null;
+  signalCount: number;
+}
+
+export interface CHIHistory {
+  range: { from: string; to: string }; // Whole periods covered, to exclusive
+  points: CHIHistoryPoint[];
+  summary: CHIHistorySummary;
+}
+
+export interface CHIHistoryQuery {
+  productAreaId: string | null; // null: overall
+  granularity: CHIGranularity;
+  from: Date;
+  to: Date;
+  scope?: CHIScope;
+}
+
+export interface CHICaptureSummary {
+  signals: number;
+  hourly: number;
+  daily: number;
+  weekly: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Roll-ups are kept longer the coarser they are; weekly rows are never deleted
+ */
+const HOURLY_RETENTION_DAYS = 35;
+const DAILY_RETENTION_DAYS = 400;
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Most periods one history range may span
+ */
+export const MAX_CHI_POINTS = 1000;
+
+interface StoredSignal extends CHISignal {
+  product_area_ids: string[] | null;
+  synthetic: boolean | null;
+  detected_at: string;
+}
+
+/**
+ * Start of the UTC hour, day or ISO week (Monday) containing `date`
+ */
+export function periodStart(date: Date, granularity: CHIGranularity): Date {
+  const start = new Date(date);
+
+  if (granularity === 'hourly') {
+    start.setUTCMinutes(0, 0, 0);
+    return start;
+  }
+
+  start.setUTCHours(0, 0, 0, 0);
+  if (granularity === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start;
+}
+
+function periodLength(granularity: CHIGranularity): number {
+  return granularity === 'hourly' ? HOUR_MS : granularity === 'daily' ? DAY_MS : 7 * DAY_MS;
+}
+
+export function periodEnd(start: Date, granularity: CHIGranularity): Date {
+  return new Date(start.getTime() + periodLength(granularity));
+}
+
+/**
+ * Widen [from, to) to whole periods: from back to its period's start, to
+ * forward to the next period boundary (unless it is on one already)
+ */
+export function alignRange(from: Date, to: Date, granularity: CHIGranularity): { from: Date; to: Date } {
+  const lastStart = periodStart(to, granularity);
+
+  return {
+    from: periodStart(from, granularity),
+    to: lastStart.getTime() === to.getTime() ? to : periodEnd(lastStart, granularity),
+  };
+}
+
+/**
+ * Periods in [from, to) once aligned to whole periods
+ */
+export function countPeriods(from: Date, to: Date, granularity: CHIGranularity): number {
+  const aligned = alignRange(from, to, granularity);
+  return Math.round((aligned.to.getTime() - aligned.from.getTime()) / periodLength(granularity));
+}
+
+/**
+ * Finest granularity that keeps a range to a readable number of points
+ */
+export function pickGranularity(from: Date, to: Date): CHIGranularity {
+  const days = (to.getTime() - from.getTime()) / DAY_MS;
+
+  if (days <= 3) return 'hourly';
+  if (days <= 120) return 'daily';
+  return 'weekly';
+}
+
+function roundScore(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+function toRow(
+  productAreaId: string | null,
+  granularity: CHIGranularity,
+  scope: CHIScope,
+  start: Date,
+  totals: Pick<CHISnapshotRow, 'signal_count' | 'sentiment_sum' | 'weight_sum' | 'raw_sentiment_sum' | 'raw_weight_sum'>
+): CHISnapshotRow {
+  return {
+    product_area_id: productAreaId,
+    granularity,
+    scope,
+    period_start: start.toISOString(),
+    chi: roundScore(chiFromSums({ sentimentSum: totals.sentiment_sum, weightSum: totals.weight_sum })),
+    raw_chi: roundScore(chiFromSums({ sentimentSum: totals.raw_sentiment_sum, weightSum: totals.raw_weight_sum })),
+    ...totals,
+  };
+}
+
+/**
+ * Add up snapshot totals (a roll-up or a range summary)
+ */
+function sumRows(rows: CHISnapshotRow[]) {
+  return rows.reduce(
+    (totals, row) => ({
+      signal_count: totals.signal_count + row.signal_count,
+      sentiment_sum: totals.sentiment_sum + Number(row.sentiment_sum),
+      weight_sum: totals.weight_sum + Number(row.weight_sum),
+      raw_sentiment_sum: totals.raw_sentiment_sum + Number(row.raw_sentiment_sum),
+      raw_weight_sum: totals.raw_weight_sum + Number(row.raw_weight_sum),
+    }),
+    { signal_count: 0, sentiment_sum: 0, weight_sum: 0, raw_sentiment_sum: 0, raw_weight_sum: 0 }
+  );
+}
+
+async function loadSignals(supabase: SupabaseClient, since: Date): Promise<StoredSignal[]> {
+  const signals: StoredSignal[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('signals')
+      .select(`${CHI_SIGNAL_COLUMNS}, product_area_ids, synthetic, detected_at`)
+      .gte('detected_at', since.toISOString())
+      .order('detected_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load signals for CHI snapshots: ${error.message}`);
+    }
+
+    signals.push(...((data || []) as StoredSignal[]));
+    if (!data || data.length < PAGE_SIZE) return signals;
+  }
+}
+
+async function upsertRows(supabase: SupabaseClient, rows: CHISnapshotRow[]): Promise<void> {
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('chi_snapshots')
+    .upsert(
+      rows.map(row => ({ ...row, computed_at: new Date().toISOString() })),
+      { onConflict: 'granularity,scope,product_area_id,period_start' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to store CHI snapshots: ${error.message}`);
+  }
+}
+
+/**
+ * Roll the finer rows inside each period up into one row per area and scope
+ */
+async function rollUp(
+  supabase: SupabaseClient,
+  granularity: 'daily' | 'weekly',
+  periods: Date[]
+): Promise<number> {
+  const source: CHIGranularity = granularity === 'daily' ? 'hourly' : 'daily';
+  const rows: CHISnapshotRow[] = [];
+
+  for (const start of periods) {
+    const { data, error } = await supabase
+      .from('chi_snapshots')
+      .select('*')
+      .eq('granularity', source)
+      .gte('period_start', start.toISOString())
+      .lt('period_start', periodEnd(start, granularity).toISOString());
+
+    if (error) {
+      throw new Error(`Failed to load ${source} CHI snapshots: ${error.message}`);
+    }
+
+    const groups = new Map<string, CHISnapshotRow[]>();
+    for (const row of (data || []) as CHISnapshotRow[]) {
+      const key = `${row.product_area_id || 'overall'}::${row.scope}`;
+      groups.set(key, [...(groups.get(key) || []), row]);
+    }
+
+    for (const group of groups.values()) {
+      rows.push(toRow(group[0].product_area_id, granularity, group[0].scope, start, sumRows(group)));
+    }
+  }
+
+  await upsertRows(supabase, rows);
+  return rows.length;
+}
+
+/**
+ * Recompute hourly CHI for the last `hours` UTC hours (current hour included)
+ * and refresh the daily and weekly roll-ups they fall in
+ * Throws on database errors
+ */
+export async function captureCHISnapshots(
+  supabase: SupabaseClient,
+  { hours = 2 }: { hours?: number } = {},
+  now = new Date()
+): Promise<CHICaptureSummary> {
+  const currentHour = periodStart(now, 'hourly');
+  const firstHour = new Date(currentHour.getTime() - (hours - 1) * HOUR_MS);
+
+  const [areaIds, credibility, signals] = await Promise.all([
+    loadProductAreaIds(supabase),
+    loadCredibilityWeights(supabase),
+    loadSignals(supabase, firstHour),
+  ]);
+  const areas: Array<{ id: string | null; name: string | null }> = [
+    { id: null, name: null },
+    ...Array.from(areaIds.entries()).map(([name, id]) => ({ id, name })),
+  ];
+
+  const hourly: CHISnapshotRow[] = [];
+  for (let start = firstHour; start <= currentHour; start = periodEnd(start, 'hourly')) {
+    const end = periodEnd(start, 'hourly').getTime();
+    const inHour = signals.filter(signal => {
+      const time = new Date(signal.detected_at).getTime();
+      return time >= start.getTime() && time < end;
+    });
+
+    for (const scope of ['all', 'live'] as CHIScope[]) {
+      const scoped = scope === 'live' ? inHour.filter(signal => signal.synthetic !== true) : inHour;
+
+      for (const { id, name } of areas) {
+        const areaSignals = id ? scoped.filter(signal => signal.product_area_ids?.includes(id)) : scoped;
+        const area = id && name ? { id, name } : null;
+        const weighted = sumCHISentiment(areaSignals, area, credibility);
+        const raw = sumCHISentiment(areaSignals, area, null);
+
+        hourly.push(toRow(id, 'hourly', scope, start, {
+          signal_count: areaSignals.length,
+          sentiment_sum: weighted.sentimentSum,
+          weight_sum: weighted.weightSum,
+          raw_sentiment_sum: raw.sentimentSum,
+          raw_weight_sum: raw.weightSum,
+        }));
+      }
+    }
+  }
+
+  await upsertRows(supabase, hourly);
+
+  const hourStarts = Array.from(new Set(hourly.map(row => row.period_start))).map(iso => new Date(iso));
+  const days = Array.from(new Set(hourStarts.map(hour => periodStart(hour, 'daily').toISOString()))).map(iso => new Date(iso));
+  const weeks = Array.from(new Set(days.map(day => periodStart(day, 'weekly').toISOString()))).map(iso => new Date(iso));
+
+  const daily = await rollUp(supabase, 'daily', days);
+  const weekly = await rollUp(supabase, 'weekly', weeks);
+
+  // Retention; a failed cleanup is retried on the next capture
+  for (const [granularity, retentionDays] of [['hourly', HOURLY_RETENTION_DAYS], ['daily', DAILY_RETENTION_DAYS]] as const) {
+    const { error } = await supabase
+      .from('chi_snapshots')
+      .delete()
+      .eq('granularity', granularity)
+      .lt('period_start', new Date(now.getTime() - retentionDays * DAY_MS).toISOString());
+
+    if (error) {
+      console.error(`Error cleaning old ${granularity} CHI snapshots:`, error);
+    }
+  }
+
+  return { signals: signals.length, hourly: hourly.length, daily, weekly };
+}
+
+/**
+ * Stored CHI for every period overlapping [from, to), oldest first, with the
+ * weighted average over the whole range
+ * The range is widened to whole periods (alignRange), so ranges that meet
+ * share no period. Throws when it spans more than MAX_CHI_POINTS periods
+ */
+export async function loadCHIHistory(
+  supabase: SupabaseClient,
+  { productAreaId, granularity, from, to, scope = 'all' }: CHIHistoryQuery
+): Promise<CHIHistory> {
+  const range = alignRange(from, to, granularity);
+
+  if (countPeriods(range.from, range.to, granularity) > MAX_CHI_POINTS) {
+    throw new Error(`CHI history range spans more than ${MAX_CHI_POINTS} ${granularity} periods`);
+  }
+
+  let query = supabase
+    .from('chi_snapshots')
+    .select('*')
+    .eq('granularity', granularity)
+    .eq('scope', scope)
+    .gte('period_start', range.from.toISOString())
+    .lt('period_start', range.to.toISOString())
+    .order('period_start', { ascending: true });
+
+  query = productAreaId ? query.eq('product_area_id', productAreaId) : query.is('product_area_id', null);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load CHI history: ${error.message}`);
+  }
+
+  const rows = (data || []) as CHISnapshotRow[];
+  const totals = sumRows(rows);
+
+  return {
+    range: { from: range.from.toISOString(), to: range.to.toISOString() },
+    points: rows.map(row => ({
+      periodStart: row.period_start,
+      chi: row.chi === null ? null : Number(row.chi),
+      rawChi: row.raw_chi === null ? null : Number(row.raw_chi),
+      signalCount: row.signal_count,
+    })),
+    summary: {
+      chi: roundScore(chiFromSums({ sentimentSum: totals.sentiment_sum, weightSum: totals.weight_sum })),
+      rawChi: roundScore(chiFromSums({ sentimentSum: totals.raw_sentiment_sum, weightSum: totals.raw_weight_sum })),
+      signalCount: totals.signal_count,
+    },
+  };
+}
@@ -3,14 +3,96 @@
  *
  * CHI is calculated as a weighted average sentiment score (0-100):
  * - Sentiment values range from -1 (very negative) to +1 (very positive)
- * - Weights are based on signal intensity
+ * - Weights are based on signal intensity, scaled by source credibility
+ *   (lib/processing/credibility.ts) and by how confident the analysis was
+ *   (sentiment confidence, plus topic confidence in the signal's primary
+ *   product area), unless the raw figure is requested
  * - Final score is scaled to 0-100 for display
+ * - Per product area, each signal contributes its sentiment toward that area's
+ *   aspects (e.g. the billing clause of "great 5G but awful bill"), not the
+ *   sentiment of the whole post
+ * - Each score carries a 95% Bayesian credible interval, and scores
+ *   from fewer than MIN_CHI_SIGNALS signals are flagged as insufficient data
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createServiceClient } from '@/lib/supabase/service';
+import { getAreaSentiment, type AspectSentiment } from '@/lib/processing/sentiment';
+import {
+  getWeightedIntensity,
+  loadCredibilityWeights,
+  type CredibilityWeights,
+} from '@/lib/processing/credibility';
+
+/**
+ * weighted: intensity × source credibility × analysis confidence (the default everywhere)
+ * raw: intensity only, shown alongside for comparison
+ */
+export type CHIWeighting = 'weighted' | 'raw';
+
+export interface CHISignal {
+  sentiment: number | null;
+  intensity: number | null;
+  aspects?: AspectSentiment[] | null;
+  source?: string | null;
+  content_type?: string | null;
+  sentiment_confidence?: number | null; // meta.sentiment_confidence
+  topic_confidence?: number | null; // meta.confidence, for the signal's primary product area
+  product_area_id?: string | null; // Primary product area
+}
+
+/**
+ * Product area a score is for: aspects are keyed by name, the primary area by ID
+ */
+export interface CHIArea {
+  id: string;
+  name: string;
+}
+
+/**
+ * Columns a CHISignal is read from, confidences pulled out of meta
+ */
+export const CHI_SIGNAL_COLUMNS =
+  'sentiment, intensity, aspects, source, content_type, product_area_id, sentiment_confidence:meta->sentiment_confidence, topic_confidence:meta->confidence';
+
+/**
+ * Fewer signals than this and a score is flagged as insufficient data
+ */
+export const MIN_CHI_SIGNALS = 10;
+
+/**
+ * Floor for a signal's confidence weight, so low-confidence signals count
+ * for less without disappearing
+ */
+const MIN_CONFIDENCE_WEIGHT = 0.1;
+
+/**
+ * Prior on sentiment spread (scaled inverse-χ²), in signals' worth: the
+ * variance of sentiment spread evenly over -1..1. Keeps a handful of agreeing
+ * signals from producing a near-zero interval
+ */
+const PRIOR_SIGNALS = 2;
+const PRIOR_VARIANCE = 1 / 3;
+
+/**
+ * Posterior mass outside the interval on each side
+ */
+const INTERVAL_TAIL = 0.025;
+
+export interface CHIInterval {
+  low: number; // 95% credible interval, whole points
+  high: number;
+}
+
+export interface CHIEstimate extends CHIInterval {
+  score: number; // 0-100, whole points
+  signalCount: number;
+  effectiveSignals: number; // Kish effective sample size of the weights
+  insufficientData: boolean; // signalCount below MIN_CHI_SIGNALS
+}
 
 interface CHICache {
-  value: number;
+  value: CHIEstimate;
   timestamp: number;
   productAreaId?: string;
 }
@@ -19,20 +101,260 @@ const chiCache = new Map<string, CHICache>();
 const CACHE_DURATION_MS = 5 * 60 * 1000;
 
 /**
- * Calculate Customer Happiness Index from signal data
+ * Look up the product area name aspects are keyed by
+ */
+async function getProductArea(supabase: SupabaseClient, productAreaId: string): Promise<CHIArea | null> {
+  const { data, error } = await supabase
+    .from('product_areas')
+    .select('name')
+    .eq('id', productAreaId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return { id: productAreaId, name: data.name };
+}
+
+export interface CHISums {
+  sentimentSum: number; // Σ sentiment × weight
+  weightSum: number; // Σ weight
+  squaredSentimentSum: number; // Σ sentiment² × weight
+  squaredWeightSum: number; // Σ weight²
+  signalCount: number;
+}
+
+function clampConfidence(confidence: number | null | undefined): number {
+  if (typeof confidence !== 'number' || Number.isNaN(confidence)) {
+    return 1; // Signals processed before confidences were stored
+  }
+
+  return Math.max(MIN_CONFIDENCE_WEIGHT, Math.min(1, confidence));
+}
+
+/**
+ * How much to trust a signal's sentiment: sentiment confidence, times topic
+ * confidence when scoring the signal's primary product area
+ * Topic confidence is only stored for the primary area, so secondary areas
+ * are weighted by sentiment confidence alone
+ */
+export function getConfidenceWeight(signal: CHISignal, area: CHIArea | null): number {
+  const sentiment = clampConfidence(signal.sentiment_confidence);
+
+  return area && signal.product_area_id === area.id ? sentiment * clampConfidence(signal.topic_confidence) : sentiment;
+}
+
+/**
+ * Weighted sentiment and weight totals, aspect-specific when an area is given
+ * With credibility weights, each signal's intensity is scaled by its source and
+ * content type and by getConfidenceWeight
+ * Totals from separate periods can be added before converting to a score
+ */
+export function sumCHISentiment(
+  signals: CHISignal[],
+  area: CHIArea | null,
+  credibility: CredibilityWeights | null
+): CHISums {
+  const sums: CHISums = { sentimentSum: 0, weightSum: 0, squaredSentimentSum: 0, squaredWeightSum: 0, signalCount: 0 };
+
+  for (const signal of signals) {
+    const overall = signal.sentiment || 0;
+    const sentiment = area
+      ? getAreaSentiment(signal.aspects, area.name, overall)
+      : overall;
+    const weight = credibility
+      ? getWeightedIntensity(signal, credibility) * getConfidenceWeight(signal, area)
+      : signal.intensity || 1;
+
+    sums.sentimentSum += sentiment * weight;
+    sums.weightSum += weight;
+    sums.squaredSentimentSum += sentiment * sentiment * weight;
+    sums.squaredWeightSum += weight * weight;
+    sums.signalCount += 1;
+  }
+
+  return sums;
+}
+
+/**
+ * Intensity-weighted average sentiment, aspect-specific when an area is given
+ */
+function weightedAverageSentiment(
+  signals: CHISignal[],
+  area: CHIArea | null,
+  credibility: CredibilityWeights | null
+): number | null {
+  const { sentimentSum, weightSum } = sumCHISentiment(signals, area, credibility);
+
+  if (weightSum === 0) {
+    return null;
+  }
+
+  return sentimentSum / weightSum;
+}
+
+/**
+ * Scale totals to a 0-100 CHI score; null when there is no weight
+ * Unrounded; calculateCHI rounds to whole points
+ */
+export function chiFromSums({ sentimentSum, weightSum }: Pick<CHISums, 'sentimentSum' | 'weightSum'>): number | null {
+  if (weightSum === 0) {
+    return null;
+  }
+
+  return Math.max(0, Math.min(100, ((sentimentSum / weightSum + 1) / 2) * 100));
+}
+
+function sentimentToCHI(sentiment: number): number {
+  return Math.round(Math.max(0, Math.min(100, ((sentiment + 1) / 2) * 100)));
+}
+
+/**
+ * ln Γ(x), Lanczos approximation
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let series = 1.000000000190015;
+  for (let i = 0; i < coefficients.length; i++) {
+    series += coefficients[i] / (x + 1 + i);
+  }
+  const t = x + 5.5;
+  return (x + 0.5) * Math.log(t) - t + Math.log((2.5066282746310005 * series) / x);
+}
+
+/**
+ * Continued fraction for the regularized incomplete beta function (Lentz)
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 / (Math.abs(1 + even * d) < tiny ? tiny : 1 + even * d);
+    c = Math.abs(1 + even / c) < tiny ? tiny : 1 + even / c;
+    result *= d * c;
+
+    const odd = -((a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 / (Math.abs(1 + odd * d) < tiny ? tiny : 1 + odd * d);
+    c = Math.abs(1 + odd / c) < tiny ? tiny : 1 + odd / c;
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+
+  return result;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * CDF of Student's t with `dof` degrees of freedom (need not be whole)
+ */
+function studentTCdf(t: number, dof: number): number {
+  const tail = 0.5 * incompleteBeta(dof / (dof + t * t), dof / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+/**
+ * Quantile of a Student's t truncated to [lower, upper], by bisection
+ */
+function truncatedStudentTQuantile(p: number, dof: number, lower: number, upper: number): number {
+  const cdfLower = studentTCdf(lower, dof);
+  const target = cdfLower + p * (studentTCdf(upper, dof) - cdfLower);
+  let low = lower;
+  let high = upper;
+
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, dof) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Score with its 95% credible interval; null when there is no weight
+ *
+ * Conjugate model for the mean sentiment μ: signals are normal around μ with
+ * unknown variance σ², each weight scaled so the weights add up to the Kish
+ * effective signal count n = (Σw)² / Σw² (fewer when a few heavy signals
+ * dominate). With a flat prior on μ and a scaled inverse-χ² prior on σ²
+ * (PRIOR_SIGNALS degrees of freedom around PRIOR_VARIANCE), μ's posterior is a
+ * Student's t with PRIOR_SIGNALS + n degrees of freedom, centred on the
+ * weighted mean with scale² = (PRIOR_SIGNALS × PRIOR_VARIANCE + n × spread)
+ * / ((PRIOR_SIGNALS + n) × n). Sentiment is bounded, so the posterior is
+ * truncated to -1..1 and the interval runs between its 2.5% and 97.5% quantiles
+ */
+export function estimateCHIFromSums(sums: CHISums): CHIEstimate | null {
+  const { sentimentSum, weightSum, squaredSentimentSum, squaredWeightSum, signalCount } = sums;
+
+  if (weightSum === 0 || squaredWeightSum === 0) {
+    return null;
+  }
+
+  const mean = sentimentSum / weightSum;
+  const effectiveSignals = (weightSum * weightSum) / squaredWeightSum;
+  const spread = Math.max(0, squaredSentimentSum / weightSum - mean * mean);
+  const dof = PRIOR_SIGNALS + effectiveSignals;
+  const scale = Math.sqrt((PRIOR_SIGNALS * PRIOR_VARIANCE + effectiveSignals * spread) / (dof * effectiveSignals));
+  const lower = (-1 - mean) / scale;
+  const upper = (1 - mean) / scale;
+
+  return {
+    score: sentimentToCHI(mean),
+    low: sentimentToCHI(mean + scale * truncatedStudentTQuantile(INTERVAL_TAIL, dof, lower, upper)),
+    high: sentimentToCHI(mean + scale * truncatedStudentTQuantile(1 - INTERVAL_TAIL, dof, lower, upper)),
+    signalCount,
+    effectiveSignals: Math.round(effectiveSignals * 10) / 10,
+    insufficientData: signalCount < MIN_CHI_SIGNALS,
+  };
+}
+
+/**
+ * Calculate Customer Happiness Index from signal data, with its 95% credible interval
  *
  * @param timeWindowMinutes - Time window to consider (default: 60 minutes)
  * @param productAreaId - Optional product area filter
  * @param useCache - Whether to use cached values (default: true)
- * @returns CHI score (0-100) or null if no data
+ * @param language - Optional signal language filter ('en', 'es')
+ * @param weighting - 'weighted' (default) scales intensity by source credibility and analysis confidence; 'raw' uses intensity only
+ * @param excludeSynthetic - Leave out signals from replayed fixtures and sample data
+ * @returns CHI estimate or null if no data
  */
-export async function calculateCHI(
+export async function estimateCHI(
   timeWindowMinutes: number = 60,
   productAreaId?: string,
-  useCache: boolean = true
-): Promise<number | null> {
+  useCache: boolean = true,
+  language?: string | null,
+  weighting: CHIWeighting = 'weighted',
+  excludeSynthetic: boolean = false
+): Promise<CHIEstimate | null> {
   try {
-    const cacheKey = `chi_${timeWindowMinutes}_${productAreaId || 'all'}`;
+    const cacheKey = `chi_${timeWindowMinutes}_${productAreaId || 'all'}_${language || 'all'}_${weighting}_${excludeSynthetic ? 'live' : 'all'}`;
 
     if (useCache) {
       const cached = chiCache.get(cacheKey);
@@ -47,11 +369,19 @@ export async function calculateCHI(
 
     let query = supabase
       .from('signals')
-      .select('sentiment, intensity')
+      .select(CHI_SIGNAL_COLUMNS)
       .gte('detected_at', timeThreshold);
 
     if (productAreaId) {
-      query = query.eq('product_area_id', productAreaId);
+      query = query.contains('product_area_ids', [productAreaId]);
+    }
+
+    if (language) {
+      query = query.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      query = query.eq('synthetic', false);
     }
 
     const { data: signals, error } = await query;
@@ -65,53 +395,66 @@ export async function calculateCHI(
       return null;
     }
 
-    let totalWeightedSentiment = 0;
-    let totalIntensity = 0;
+    const productArea = productAreaId ? await getProductArea(supabase, productAreaId) : null;
+    const credibility = weighting === 'weighted' ? await loadCredibilityWeights(supabase) : null;
 
-    for (const signal of signals) {
-      const sentiment = signal.sentiment || 0;
-      const intensity = signal.intensity || 1;
+    const estimate = estimateCHIFromSums(sumCHISentiment(signals as CHISignal[], productArea, credibility));
 
-      totalWeightedSentiment += sentiment * intensity;
-      totalIntensity += intensity;
-    }
-
-    if (totalIntensity === 0) {
+    if (estimate === null) {
       return null;
     }
 
-    const avgSentiment = totalWeightedSentiment / totalIntensity;
-
-    const chiScore = Math.round(((avgSentiment + 1) / 2) * 100);
-
-    const clampedScore = Math.max(0, Math.min(100, chiScore));
-
     chiCache.set(cacheKey, {
-      value: clampedScore,
+      value: estimate,
       timestamp: Date.now(),
       productAreaId,
     });
 
-    return clampedScore;
+    return estimate;
   } catch (error) {
     console.error('Error calculating CHI:', error);
     return null;
   }
 }
 
+/**
+ * Calculate Customer Happiness Index from signal data
+ * Same arguments as estimateCHI
+ *
+ * @returns CHI score (0-100) or null if no data
+ */
+export async function calculateCHI(
+  timeWindowMinutes: number = 60,
+  productAreaId?: string,
+  useCache: boolean = true,
+  language?: string | null,
+  weighting: CHIWeighting = 'weighted',
+  excludeSynthetic: boolean = false
+): Promise<number | null> {
+  const estimate = await estimateCHI(timeWindowMinutes, productAreaId, useCache, language, weighting, excludeSynthetic);
+
+  return estimate ? estimate.score : null;
+}
+
 /**
  * Get CHI trend by comparing current window to previous window
  *
  * @param timeWindowMinutes - Current time window
  * @param productAreaId - Optional product area filter
+ * @param language - Optional signal language filter
+ * @param weighting - Same weighting as calculateCHI
+ * @param excludeSynthetic - Leave out signals from replayed fixtures and sample data
  * @returns Trend value (positive = improving, negative = declining)
  */
 export async function getCHITrend(
   timeWindowMinutes: number = 60,
-  productAreaId?: string
+  productAreaId?: string,
+  language?: string | null,
+  weighting: CHIWeighting = 'weighted',
+  excludeSynthetic: boolean = false
 ): Promise<number> {
   try {
-    const currentCHI = await calculateCHI(timeWindowMinutes, productAreaId, false);
+    const currentCHI = await calculateCHI(timeWindowMinutes, productAreaId, false, language, weighting, excludeSynthetic);
 
     if (currentCHI === null) {
       return 0;
@@ -124,12 +467,20 @@ export async function getCHITrend(
 
     let query = supabase
       .from('signals')
-      .select('sentiment, intensity')
+      .select(CHI_SIGNAL_COLUMNS)
       .gte('detected_at', previousWindowStart.toISOString())
       .lt('detected_at', currentWindowStart.toISOString());
 
     if (productAreaId) {
-      query = query.eq('product_area_id', productAreaId);
+      query = query.contains('product_area_ids', [productAreaId]);
+    }
+
+    if (language) {
+      query = query.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      query = query.eq('synthetic', false);
     }
 
     const { data: previousSignals, error } = await query;
@@ -138,22 +489,14 @@ export async function getCHITrend(
       return 0;
     }
 
-    let totalWeightedSentiment = 0;
-    let totalIntensity = 0;
-
-    for (const signal of previousSignals) {
-      const sentiment = signal.sentiment || 0;
-      const intensity = signal.intensity || 1;
+    const productArea = productAreaId ? await getProductArea(supabase, productAreaId) : null;
+    const credibility = weighting === 'weighted' ? await loadCredibilityWeights(supabase) : null;
 
-      totalWeightedSentiment += sentiment * intensity;
-      totalIntensity += intensity;
-    }
+    const avgSentiment = weightedAverageSentiment(previousSignals as CHISignal[], productArea, credibility);
 
-    if (totalIntensity === 0) {
+    if (avgSentiment === null) {
       return 0;
     }
-
-    const avgSentiment = totalWeightedSentiment / totalIntensity;
     const previousCHI = Math.round(((avgSentiment + 1) / 2) * 100);
 
     return currentCHI - previousCHI;
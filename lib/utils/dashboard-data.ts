@@ -5,7 +5,10 @@
  */
 
 import { createServiceClient } from '@/lib/supabase/service';
-import { calculateCHI, getCHITrend } from './chi';
+import { calculateCHI, estimateCHI, getCHITrend, type CHIInterval } from './chi';
+import { getCredibilityWeight, loadCredibilityWeights } from '@/lib/processing/credibility';
+import { getSourceLabel } from '@/lib/scraper/registry';
+import { getIssueKey, getSubTopic } from '@/lib/processing/subtopics';
 
 /**
  * Normalize topic text to proper title case with special handling
@@ -60,6 +63,14 @@ export function normalizeTopicText(topic: string): string {
   return normalizedWords.join(' ');
 }
 
+/**
+ * Display label for an issue key: the sub-topic name when the key is a
+ * canonical sub-topic, otherwise the normalized free-text topic
+ */
+export function getIssueLabel(issueKey: string, topic: string): string {
+  return getSubTopic(issueKey)?.name || normalizeTopicText(topic);
+}
+
 // Product area color mapping (from CLAUDE.md design system)
 const PRODUCT_AREA_COLORS: Record<string, string> = {
   Network: '#E8258E', // T-Mobile Magenta
@@ -68,24 +79,17 @@ const PRODUCT_AREA_COLORS: Record<string, string> = {
   'Home Internet': '#F58220', // Orange
 };
 
-// Source name mapping (internal -> friendly display names)
-const SOURCE_NAME_MAPPING: Record<string, string> = {
-  'google-news': 'Google News',
-  reddit: 'Reddit',
-  downdetector: 'DownDetector',
-  'outage-report': 'Outage.report',
-  'tmobile-community': 'T-Mobile Community',
-  'customer-feedback': 'Customer Feedback',
-  istheservicedown: 'IsTheServiceDown',
-};
-
 export interface ProductArea {
   id: string;
   name: string;
   color: string;
   chi: number;
+  rawChi: number; // CHI without source credibility weighting
+  chiInterval: CHIInterval | null; // 95% credible interval around chi; null with no data
+  insufficientData: boolean; // Too few signals for chi to mean much
   trend: number;
   signalCount: number;
+  weightedSignalCount: number; // signalCount scaled by average credibility
 }
 
 export interface EmergingIssue {
@@ -110,10 +114,18 @@ export interface SourceData {
   value: number;
 }
 
+/** Signals sampled per area to estimate the average credibility weight */
+const CREDIBILITY_SAMPLE_SIZE = 1000;
+
 /**
  * Get product area metrics with CHI, trend, and signal count
+ * CHI and signal count come both credibility-weighted and raw
  */
-export async function getProductAreaMetrics(timeWindowHours: number = 24): Promise<ProductArea[]> {
+export async function getProductAreaMetrics(
+  timeWindowHours: number = 24,
+  language?: string | null,
+  excludeSynthetic: boolean = false
+): Promise<ProductArea[]> {
   try {
     const supabase = createServiceClient();
 
@@ -131,30 +143,54 @@ export async function getProductAreaMetrics(timeWindowHours: number = 24): Promi
     // Calculate metrics for each product area
     const metrics: ProductArea[] = [];
     const timeWindowMinutes = timeWindowHours * 60;
+    const credibility = await loadCredibilityWeights(supabase);
 
     for (const area of productAreas) {
       // Calculate CHI for this product area
-      const chi = (await calculateCHI(timeWindowMinutes, area.id)) || 50; // Default to neutral 50 if no data
+      const estimate = await estimateCHI(timeWindowMinutes, area.id, true, language, 'weighted', excludeSynthetic);
+      const chi = estimate?.score || 50; // Default to neutral 50 if no data
+      const rawChi = (await calculateCHI(timeWindowMinutes, area.id, true, language, 'raw', excludeSynthetic)) || 50;
 
       // Calculate trend
-      const trend = await getCHITrend(timeWindowMinutes, area.id);
+      const trend = await getCHITrend(timeWindowMinutes, area.id, language, 'weighted', excludeSynthetic);
 
       // Count signals from time window
       const timeAgo = new Date(Date.now() - timeWindowHours * 60 * 60 * 1000).toISOString();
 
-      const { count, error: countError } = await supabase
+      let countQuery = supabase
         .from('signals')
-        .select('*', { count: 'exact', head: true })
-        .eq('product_area_id', area.id)
-        .gte('detected_at', timeAgo);
+        .select('source, content_type', { count: 'exact' })
+        .contains('product_area_ids', [area.id])
+        .gte('detected_at', timeAgo)
+        .order('detected_at', { ascending: false })
+        .limit(CREDIBILITY_SAMPLE_SIZE);
+
+      if (language) {
+        countQuery = countQuery.eq('language', language);
+      }
+
+      if (excludeSynthetic) {
+        countQuery = countQuery.eq('synthetic', false);
+      }
+
+      const { data: sample, count } = await countQuery;
+
+      // Scale the full count by the average weight of the most recent signals
+      const averageWeight = sample && sample.length > 0
+        ? sample.reduce((sum, signal) => sum + getCredibilityWeight(signal, credibility), 0) / sample.length
+        : 1;
 
       metrics.push({
         id: area.id,
         name: area.name,
         color: PRODUCT_AREA_COLORS[area.name] || '#6B7280', // Fallback to gray
         chi: Math.round(chi),
+        rawChi: Math.round(rawChi),
+        chiInterval: estimate ? { low: estimate.low, high: estimate.high } : null,
+        insufficientData: estimate?.insufficientData ?? true,
         trend: Math.round(trend),
         signalCount: count || 0,
+        weightedSignalCount: Math.round((count || 0) * averageWeight),
       });
     }
 
@@ -168,17 +204,23 @@ export async function getProductAreaMetrics(timeWindowHours: number = 24): Promi
 /**
  * Get top emerging issues from the last hour
  */
-export async function getEmergingIssues(limit: number = 10, timeWindowHours: number = 24): Promise<EmergingIssue[]> {
+export async function getEmergingIssues(
+  limit: number = 10,
+  timeWindowHours: number = 24,
+  language?: string | null,
+  excludeSynthetic: boolean = false
+): Promise<EmergingIssue[]> {
   try {
     const supabase = createServiceClient();
     const timeAgo = new Date(Date.now() - timeWindowHours * 60 * 60 * 1000).toISOString();
 
     // Query signals from time window with product area info
-    const { data: signals, error } = await supabase
+    let query = supabase
       .from('signals')
       .select(`
         id,
         topic,
+        subtopic,
         intensity,
         sentiment,
         source,
@@ -188,12 +230,22 @@ export async function getEmergingIssues(limit: number = 10, timeWindowHours: num
       .gte('detected_at', timeAgo)
       .order('intensity', { ascending: false });
 
+    if (language) {
+      query = query.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      query = query.eq('synthetic', false);
+    }
+
+    const { data: signals, error } = await query;
+
     if (error || !signals) {
       console.error('Error fetching emerging issues:', error);
       return [];
     }
 
-    // Group by topic and aggregate
+    // Group by canonical sub-topic and aggregate
     const issueMap = new Map<string, {
       topics: Set<string>;
       totalIntensity: number;
@@ -204,19 +256,21 @@ export async function getEmergingIssues(limit: number = 10, timeWindowHours: num
 
     for (const signal of signals) {
       const topic = signal.topic || 'Unknown';
-      const key = topic.toLowerCase().trim();
+      const productArea = (signal.product_areas as any)?.name || 'Other';
+      const key = getIssueKey(signal, productArea);
 
       if (!issueMap.has(key)) {
         issueMap.set(key, {
-          topics: new Set([topic]),
+          topics: new Set(),
           totalIntensity: 0,
           sentiments: [],
           sources: new Set(),
-          productArea: (signal.product_areas as any)?.name || 'Other',
+          productArea,
         });
       }
 
       const issue = issueMap.get(key)!;
+      issue.topics.add(topic);
       issue.totalIntensity += signal.intensity || 1;
       issue.sentiments.push(signal.sentiment || 0);
       issue.sources.add(signal.source);
@@ -226,7 +280,7 @@ export async function getEmergingIssues(limit: number = 10, timeWindowHours: num
     const issues: EmergingIssue[] = Array.from(issueMap.entries())
       .map(([key, issue]) => ({
         id: key,
-        topic: normalizeTopicText(Array.from(issue.topics)[0]), // Use first topic variant with proper formatting
+        topic: getIssueLabel(key, Array.from(issue.topics)[0]), // Sub-topic name, or first topic variant with proper formatting
         intensity: issue.totalIntensity,
         sentiment: issue.sentiments.reduce((sum, s) => sum + s, 0) / issue.sentiments.length,
         sourceCount: issue.sources.size,
@@ -246,7 +300,11 @@ export async function getEmergingIssues(limit: number = 10, timeWindowHours: num
  * Get sentiment timeline with configurable time range
  * Supports 24h (hourly), 7d (daily), and 30d (daily) buckets
  */
-export async function getSentimentTimeline(range: '24h' | '7d' | '30d' = '24h'): Promise<SentimentDataPoint[]> {
+export async function getSentimentTimeline(
+  range: '24h' | '7d' | '30d' = '24h',
+  language?: string | null,
+  excludeSynthetic: boolean = false
+): Promise<SentimentDataPoint[]> {
   try {
     const supabase = createServiceClient();
     
@@ -280,7 +338,7 @@ export async function getSentimentTimeline(range: '24h' | '7d' | '30d' = '24h'):
     const timeAgo = new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
 
     // Fetch signals from time window with product area
-    const { data: signals, error } = await supabase
+    let query = supabase
       .from('signals')
       .select(`
         detected_at,
@@ -291,6 +349,16 @@ export async function getSentimentTimeline(range: '24h' | '7d' | '30d' = '24h'):
       .gte('detected_at', timeAgo)
       .order('detected_at', { ascending: true });
 
+    if (language) {
+      query = query.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      query = query.eq('synthetic', false);
+    }
+
+    const { data: signals, error } = await query;
+
     if (error || !signals) {
       console.error('Error fetching sentiment timeline:', error);
       return generateEmptyTimeline(range);
@@ -396,15 +464,25 @@ export async function getSentimentTimeline(range: '24h' | '7d' | '30d' = '24h'):
 /**
  * Get source breakdown (count of signals by source) from all signals in the database
  */
-export async function getSourceBreakdown(): Promise<SourceData[]> {
+export async function getSourceBreakdown(language?: string | null, excludeSynthetic: boolean = false): Promise<SourceData[]> {
   try {
     const supabase = createServiceClient();
 
     // First, get the total count of signals
-    const { count, error: countError } = await supabase
+    let countQuery = supabase
       .from('signals')
       .select('*', { count: 'exact', head: true });
 
+    if (language) {
+      countQuery = countQuery.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      countQuery = countQuery.eq('synthetic', false);
+    }
+
+    const { count, error: countError } = await countQuery;
+
     if (countError) {
       console.error('Error counting signals for source breakdown:', countError);
       return [];
@@ -426,11 +504,21 @@ export async function getSourceBreakdown(): Promise<SourceData[]> {
 
       while (retries > 0 && !success) {
         try {
-          const { data, error } = await supabase
+          let query = supabase
             .from('signals')
             .select('source, id')
             .range(from, to);
 
+          if (language) {
+            query = query.eq('language', language);
+          }
+
+          if (excludeSynthetic) {
+            query = query.eq('synthetic', false);
+          }
+
+          const { data, error } = await query;
+
           if (error) {
             console.error(`Error fetching signals page ${page} for source breakdown (attempt ${4 - retries}/3):`, error);
             retries--;
@@ -473,7 +561,7 @@ export async function getSourceBreakdown(): Promise<SourceData[]> {
     // Convert to array with friendly names
     const breakdown: SourceData[] = Array.from(sourceCounts.entries())
       .map(([source, count]) => ({
-        name: SOURCE_NAME_MAPPING[source] || source,
+        name: getSourceLabel(source),
         value: count,
       }))
       .sort((a, b) => b.value - a.value); // Sort by count descending
@@ -5,6 +5,7 @@
 
 import { createServiceClient } from '@/lib/supabase/service';
 import { normalizeTopicText } from './dashboard-data';
+import { getIssueKey } from '@/lib/processing/subtopics';
 
 /**
  * Realtime signal for activity feed
@@ -42,14 +43,20 @@ export interface SentimentDistribution {
 /**
  * Get recent signals for realtime activity feed
  * @param limit Number of signals to fetch (default 20)
+ * @param language Optional signal language filter
+ * @param excludeSynthetic Leave out signals from replayed fixtures and sample data
  * @returns Array of recent signals with all details
  */
-export async function getRealtimeSignals(limit: number = 20): Promise<RealtimeSignal[]> {
+export async function getRealtimeSignals(
+  limit: number = 20,
+  language?: string | null,
+  excludeSynthetic: boolean = false
+): Promise<RealtimeSignal[]> {
   try {
     const supabase = createServiceClient();
 
     // Fetch most recent signals with product area info
-    const { data: signals, error } = await supabase
+    let query = supabase
       .from('signals')
       .select(`
         id,
@@ -65,6 +72,16 @@ export async function getRealtimeSignals(limit: number = 20): Promise<RealtimeSi
       .order('detected_at', { ascending: false })
       .limit(limit);
 
+    if (language) {
+      query = query.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      query = query.eq('synthetic', false);
+    }
+
+    const { data: signals, error } = await query;
+
     if (error) {
       console.error('Error fetching realtime signals:', error);
       return [];
@@ -93,9 +110,14 @@ export async function getRealtimeSignals(limit: number = 20): Promise<RealtimeSi
 /**
  * Get issue velocity data by product area
  * Categorizes issues as growing, stable, or declining based on velocity
+ * @param language Optional signal language filter
+ * @param excludeSynthetic Leave out signals from replayed fixtures and sample data
  * @returns Array of velocity data per product area
  */
-export async function getIssueVelocityByProductArea(): Promise<IssueVelocityData[]> {
+export async function getIssueVelocityByProductArea(
+  language?: string | null,
+  excludeSynthetic: boolean = false
+): Promise<IssueVelocityData[]> {
   try {
     const supabase = createServiceClient();
 
@@ -114,12 +136,22 @@ export async function getIssueVelocityByProductArea(): Promise<IssueVelocityData
     const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
     const twelveHoursAgo = new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString();
 
-    const { data: recentSignals, error: signalsError } = await supabase
+    let signalsQuery = supabase
       .from('signals')
-      .select('topic, product_area_id, intensity, detected_at')
+      .select('topic, subtopic, product_area_id, intensity, detected_at')
       .gte('detected_at', twentyFourHoursAgo)
       .order('detected_at', { ascending: true });
 
+    if (language) {
+      signalsQuery = signalsQuery.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      signalsQuery = signalsQuery.eq('synthetic', false);
+    }
+
+    const { data: recentSignals, error: signalsError } = await signalsQuery;
+
     if (signalsError || !recentSignals) {
       console.error('Error fetching signals for velocity:', signalsError);
       return [];
@@ -132,7 +164,7 @@ export async function getIssueVelocityByProductArea(): Promise<IssueVelocityData
       issueVelocityByArea.set(area.id, { growing: 0, stable: 0, declining: 0 });
     }
 
-    // Group signals by topic + product area
+    // Group signals by canonical sub-topic + product area
     const issueMap = new Map<string, {
       earlier: number[];  // intensities before 12h ago
       recent: number[];   // intensities after 12h ago
@@ -140,7 +172,7 @@ export async function getIssueVelocityByProductArea(): Promise<IssueVelocityData
     }>();
 
     for (const signal of recentSignals) {
-      const key = `${signal.topic}::${signal.product_area_id}`;
+      const key = `${getIssueKey(signal)}::${signal.product_area_id}`;
       const signalTime = new Date(signal.detected_at);
 
       if (!issueMap.has(key)) {
@@ -218,9 +250,15 @@ export async function getIssueVelocityByProductArea(): Promise<IssueVelocityData
 /**
  * Get sentiment distribution across all signals in the database
  * @param timeWindowHours Time window to analyze (default: null for all signals)
+ * @param language Optional signal language filter
+ * @param excludeSynthetic Leave out signals from replayed fixtures and sample data
  * @returns Counts of positive, neutral, and negative signals
  */
-export async function getSentimentDistribution(timeWindowHours: number | null = null): Promise<SentimentDistribution> {
+export async function getSentimentDistribution(
+  timeWindowHours: number | null = null,
+  language?: string | null,
+  excludeSynthetic: boolean = false
+): Promise<SentimentDistribution> {
   try {
     const supabase = createServiceClient();
 
@@ -237,6 +275,14 @@ export async function getSentimentDistribution(timeWindowHours: number | null =
       countQuery = countQuery.gte('detected_at', timeAgo);
     }
 
+    if (language) {
+      countQuery = countQuery.eq('language', language);
+    }
+
+    if (excludeSynthetic) {
+      countQuery = countQuery.eq('synthetic', false);
+    }
+
     const { count, error: countError } = await countQuery;
 
     if (countError) {
@@ -270,6 +316,14 @@ export async function getSentimentDistribution(timeWindowHours: number | null =
             query = query.gte('detected_at', timeAgo);
           }
 
+          if (language) {
+            query = query.eq('language', language);
+          }
+
+          if (excludeSynthetic) {
+            query = query.eq('synthetic', false);
+          }
+
           const { data, error } = await query;
 
           if (error) {
@@ -5,12 +5,16 @@
  * Used for prioritizing PM opportunities based on customer signals
  */
 
+import { getWeightedIntensity, type CredibilityWeights } from '@/lib/processing/credibility'
+
 export interface Signal {
   id: string
   intensity: number
   sentiment: number
   topic: string
   product_area_id?: string
+  source?: string
+  content_type?: string | null
 }
 
 export interface RICEComponents {
@@ -22,6 +26,7 @@ export interface RICEComponents {
 
 export interface RICEResult extends RICEComponents {
   score: number
+  rawReach: number // Reach before credibility weighting
 }
 
 /**
@@ -47,9 +52,13 @@ export function calculateRICE(
  * Calculate reach from signal intensities
  * Reach = sum of all signal intensities linked to this opportunity
  * @param signals - Array of signals
+ * @param credibility - Optional source credibility weights; scales each intensity and rounds the total
  * @returns Total reach (signal intensity sum)
  */
-export function calculateReach(signals: Signal[]): number {
+export function calculateReach(signals: Signal[], credibility?: CredibilityWeights): number {
+  if (credibility) {
+    return Math.round(signals.reduce((sum, signal) => sum + getWeightedIntensity(signal, credibility), 0))
+  }
   return signals.reduce((sum, signal) => sum + (signal.intensity || 1), 0)
 }
 
@@ -183,15 +192,18 @@ export function formatStatus(status: 'new' | 'in-progress' | 'done'): string {
  * @param productAreaName - Product area name
  * @param effort - Effort estimate (default 5)
  * @param confidence - Confidence level (default 0.7)
+ * @param credibility - Optional source credibility weights for reach
  * @returns Complete RICE result
  */
 export function calculateFullRICE(
   signals: Signal[],
   productAreaName: string,
   effort: number = 5,
-  confidence: number = 0.7
+  confidence: number = 0.7,
+  credibility?: CredibilityWeights
 ): RICEResult {
-  const reach = calculateReach(signals)
+  const reach = calculateReach(signals, credibility)
+  const rawReach = calculateReach(signals)
   const averageSentiment = signals.length > 0
     ? signals.reduce((sum, s) => sum + s.sentiment, 0) / signals.length
     : 0
@@ -204,5 +216,6 @@ export function calculateFullRICE(
     confidence,
     effort,
     score,
+    rawReach,
   }
 }
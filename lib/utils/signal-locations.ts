@@ -0,0 +1,138 @@
+/**
+ * Signal Locations
+ * Loads geocoded signals (signals.lat/lng, see lib/processing/geocoder.ts) and
+ * aggregates them into one point per resolved place for the geo heatmap
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GeocodeResult, GeoPrecision } from '@/lib/processing/geocoder';
+
+/**
+ * Upper bound on signals loaded per request; newest first
+ */
+const LOCATED_SIGNAL_LIMIT = 5000;
+
+export interface LocatedSignal {
+  id: string;
+  lat: number;
+  lng: number;
+  geo_confidence: number;
+  sentiment: number;
+  intensity: number | null;
+  source: string;
+  detected_at: string;
+  product_area_id: string | null;
+  geo: { resolved?: GeocodeResult | null } | null;
+}
+
+export interface LocatedSignalQuery {
+  hours: number;
+  minConfidence?: number; // Default 0
+  excludeSynthetic?: boolean;
+  productAreaId?: string; // Only signals tagged with this product area
+  negativeOnly?: boolean; // Only signals with negative sentiment
+}
+
+export interface SignalLocationPoint {
+  city: string; // "Dallas, TX", or the state code for state-level matches
+  lat: number;
+  lng: number;
+  sentiment: number; // Average, -1 to 1
+  intensity: number; // 0-100, negative volume relative to the busiest location
+  signalCount: number;
+  negativeCount: number;
+  confidence: number; // Average geocoding confidence
+  precision: GeoPrecision;
+}
+
+/**
+ * Geocoded signals detected in the last `hours`
+ */
+export async function loadLocatedSignals(
+  supabase: SupabaseClient,
+  { hours, minConfidence = 0, excludeSynthetic = false, productAreaId, negativeOnly = false }: LocatedSignalQuery
+): Promise<LocatedSignal[]> {
+  const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+  let query = supabase
+    .from('signals')
+    .select('id, lat, lng, geo_confidence, sentiment, intensity, source, detected_at, product_area_id, geo')
+    .not('lat', 'is', null)
+    .not('lng', 'is', null)
+    .gte('detected_at', since)
+    .gte('geo_confidence', minConfidence)
+    .order('detected_at', { ascending: false })
+    .limit(LOCATED_SIGNAL_LIMIT);
+
+  if (excludeSynthetic) {
+    query = query.eq('synthetic', false);
+  }
+
+  if (productAreaId) {
+    query = query.contains('product_area_ids', [productAreaId]);
+  }
+
+  if (negativeOnly) {
+    query = query.lt('sentiment', 0);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(row => ({
+    ...row,
+    lat: Number(row.lat),
+    lng: Number(row.lng),
+    geo_confidence: Number(row.geo_confidence),
+    sentiment: Number(row.sentiment),
+    intensity: row.intensity === null ? null : Number(row.intensity),
+  })) as LocatedSignal[];
+}
+
+/**
+ * One point per resolved place; signals resolved to the same gazetteer entry
+ * share exact coordinates
+ *
+ * @example
+ * ```ts
+ * aggregateSignalLocations(signals);
+ * // [{ city: 'Dallas, TX', lat: 32.7767, lng: -96.797, signalCount: 42, negativeCount: 31, intensity: 100, ... }, ...]
+ * ```
+ */
+export function aggregateSignalLocations(signals: LocatedSignal[]): SignalLocationPoint[] {
+  const groups = new Map<string, { signals: LocatedSignal[]; painScore: number }>();
+
+  for (const signal of signals) {
+    const key = `${signal.lat.toFixed(4)},${signal.lng.toFixed(4)}`;
+    const group = groups.get(key) || { signals: [], painScore: 0 };
+
+    group.signals.push(signal);
+    // Negative sentiment, scaled by quality weight and how sure the location is
+    group.painScore += Math.max(0, -signal.sentiment) * (signal.intensity ?? 1) * signal.geo_confidence;
+    groups.set(key, group);
+  }
+
+  const maxPain = Math.max(0, ...[...groups.values()].map(group => group.painScore));
+
+  return [...groups.values()]
+    .map(({ signals: located, painScore }) => {
+      const resolved = located[0].geo?.resolved;
+      const count = located.length;
+
+      return {
+        city: resolved?.city ? `${resolved.city}, ${resolved.state}` : resolved?.state || 'Unknown',
+        lat: located[0].lat,
+        lng: located[0].lng,
+        sentiment: Math.round((located.reduce((sum, signal) => sum + signal.sentiment, 0) / count) * 100) / 100,
+        intensity: maxPain > 0 ? Math.round((painScore / maxPain) * 100) : 0,
+        signalCount: count,
+        negativeCount: located.filter(signal => signal.sentiment < 0).length,
+        confidence: Math.round((located.reduce((sum, signal) => sum + signal.geo_confidence, 0) / count) * 100) / 100,
+        precision: resolved?.precision || 'city',
+      };
+    })
+    .sort((a, b) => b.intensity - a.intensity);
+}
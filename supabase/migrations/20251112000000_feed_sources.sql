@@ -0,0 +1,36 @@
+-- ============================================
+-- FEED SOURCES
+-- ============================================
+--
+-- RSS 2.0 / Atom / JSON Feed sources ingested by /api/scrape/feeds.
+-- Add a row to start ingesting a feed; no code change required.
+--
+-- Cursor columns are maintained by the scraper:
+-- - etag / last_modified: validators sent back as If-None-Match / If-Modified-Since
+-- - last_item_published_at: high-water mark of the newest ingested item
+-- - seen_item_ids: most recent item IDs (bounded), for items without dates
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS feed_sources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  url text NOT NULL UNIQUE,
+  category text, -- e.g. 'carrier-blog', 'competitor', 'regulator'
+  enabled boolean NOT NULL DEFAULT true,
+  etag text,
+  last_modified text,
+  last_item_published_at timestamptz,
+  seen_item_ids text[] NOT NULL DEFAULT '{}',
+  last_fetched_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS feed_sources_enabled_idx ON feed_sources (enabled);
+
+ALTER TABLE feed_sources ENABLE ROW LEVEL SECURITY;
+
+-- Example:
+-- INSERT INTO feed_sources (name, url, category)
+-- VALUES ('Carrier Blog', 'https://example.com/blog/feed.xml', 'carrier-blog');
@@ -0,0 +1,24 @@
+-- ============================================
+-- SCRAPER CURSORS
+-- ============================================
+--
+-- Per-source high-water marks so each scraper run only emits items that
+-- were not ingested before. One row per raw_events.source value; the
+-- cursor shape is owned by that source's adapter, e.g.:
+-- - reddit: { "<subreddit>": { newest_created_utc, newest_ids } }
+-- - google-news: { "<query>": "<newest pubDate>" }
+-- - tmobile-community / customer-feedback: bounded lists of seen IDs
+--
+-- Cursors are written only after the raw event insert succeeds.
+-- Delete a row to re-ingest everything for that source.
+-- RSS/Atom feeds keep their cursors on feed_sources instead.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS scraper_cursors (
+  source text PRIMARY KEY,
+  cursor jsonb NOT NULL DEFAULT '{}',
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE scraper_cursors ENABLE ROW LEVEL SECURITY;
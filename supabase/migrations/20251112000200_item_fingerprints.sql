@@ -0,0 +1,28 @@
+-- ============================================
+-- ITEM FINGERPRINTS
+-- ============================================
+--
+-- Exact identity of every item a signal was built from, keyed by source.
+-- /api/process/raw checks this table before sentiment and topic detection,
+-- so the same permalink, article or comment is never counted twice, even
+-- when it shows up in several raw_events.
+--
+-- Fingerprint formats:
+-- - id:<upstream id>      item carries a stable external ID
+-- - url:<canonical url>   item only has a permalink
+-- - text:<sha1>           hash of the normalized item text
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS item_fingerprints (
+  source text NOT NULL,
+  fingerprint text NOT NULL,
+  signal_id uuid REFERENCES signals(id) ON DELETE CASCADE,
+  raw_event_id uuid REFERENCES raw_events(id) ON DELETE SET NULL,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (source, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS item_fingerprints_signal_id_idx ON item_fingerprints (signal_id);
+
+ALTER TABLE item_fingerprints ENABLE ROW LEVEL SECURITY;
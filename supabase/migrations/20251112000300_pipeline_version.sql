@@ -0,0 +1,16 @@
+-- ============================================
+-- PIPELINE VERSION
+-- ============================================
+--
+-- Tags signals with the PIPELINE_VERSION (lib/processing/pipeline.ts) that
+-- produced them, and raw_events with the version that last processed them.
+-- POST /api/process/reprocess re-runs a date range under the current version
+-- so historical signals and CHI are computed with the same rules.
+--
+-- ============================================
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS pipeline_version text;
+ALTER TABLE raw_events ADD COLUMN IF NOT EXISTS pipeline_version text;
+
+CREATE INDEX IF NOT EXISTS signals_pipeline_version_idx ON signals (pipeline_version);
+CREATE INDEX IF NOT EXISTS signals_raw_event_id_idx ON signals ((meta->>'raw_event_id'));
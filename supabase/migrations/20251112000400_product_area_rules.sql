@@ -0,0 +1,124 @@
+-- ============================================
+-- PRODUCT AREA RULES
+-- ============================================
+--
+-- Editable classification taxonomy used by topic detection
+-- (lib/processing/topic-detector.ts, edited at /pm/taxonomy).
+--
+-- - pattern: single keyword or multi-word phrase, matched on whole words
+-- - weight: added to the area's score when the pattern matches
+-- - negative: subtracts the weight instead (e.g. 'database' under Network)
+-- - language: text language the rule applies to (see
+--   20251112000800_signal_language.sql); the same pattern can be a rule in
+--   more than one language
+--
+-- signals.product_area_ids holds every area a signal was classified into
+-- (primary first); signals.product_area_id stays the primary area.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS product_area_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_area_id uuid NOT NULL REFERENCES product_areas(id) ON DELETE CASCADE,
+  pattern text NOT NULL,
+  weight numeric NOT NULL DEFAULT 1 CHECK (weight > 0),
+  negative boolean NOT NULL DEFAULT false,
+  language text NOT NULL DEFAULT 'en',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (product_area_id, language, pattern)
+);
+
+ALTER TABLE product_area_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read product area rules"
+  ON product_area_rules FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can manage product area rules"
+  ON product_area_rules FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Seed with the static fallback rules
+INSERT INTO product_area_rules (product_area_id, pattern)
+SELECT product_areas.id, seed.pattern
+FROM (VALUES
+  ('Network', 'network'),
+  ('Network', 'outage'),
+  ('Network', 'coverage'),
+  ('Network', 'signal'),
+  ('Network', '5g'),
+  ('Network', 'lte'),
+  ('Network', '4g'),
+  ('Network', 'down'),
+  ('Network', 'slow'),
+  ('Network', 'speed'),
+  ('Network', 'data'),
+  ('Network', 'connection'),
+  ('Network', 'connectivity'),
+  ('Network', 'bars'),
+  ('Network', 'reception'),
+  ('Network', 'tower'),
+  ('Network', 'dropped'),
+  ('Network', 'disconnected'),
+  ('Network', 'roaming'),
+  ('Mobile App', 'app'),
+  ('Mobile App', 'login'),
+  ('Mobile App', 'crash'),
+  ('Mobile App', 'tuesdays'),
+  ('Mobile App', 'account'),
+  ('Mobile App', 'mobile app'),
+  ('Mobile App', 't-mobile app'),
+  ('Mobile App', 'application'),
+  ('Mobile App', 'interface'),
+  ('Mobile App', 'ui'),
+  ('Mobile App', 'ux'),
+  ('Mobile App', 'feature'),
+  ('Mobile App', 'button'),
+  ('Mobile App', 'screen'),
+  ('Mobile App', 'loading'),
+  ('Mobile App', 'error message'),
+  ('Billing', 'bill'),
+  ('Billing', 'charge'),
+  ('Billing', 'payment'),
+  ('Billing', 'price'),
+  ('Billing', 'plan'),
+  ('Billing', 'overcharge'),
+  ('Billing', 'billing'),
+  ('Billing', 'invoice'),
+  ('Billing', 'cost'),
+  ('Billing', 'fee'),
+  ('Billing', 'refund'),
+  ('Billing', 'credit'),
+  ('Billing', 'autopay'),
+  ('Billing', 'statement'),
+  ('Billing', 'balance'),
+  ('Billing', 'owe'),
+  ('Billing', 'paid'),
+  ('Billing', 'money'),
+  ('Home Internet', 'home internet'),
+  ('Home Internet', 'gateway'),
+  ('Home Internet', 'wifi'),
+  ('Home Internet', 'router'),
+  ('Home Internet', '5g home'),
+  ('Home Internet', 'home broadband'),
+  ('Home Internet', 'modem'),
+  ('Home Internet', 'wireless'),
+  ('Home Internet', 'internet service'),
+  ('Home Internet', 'home network'),
+  ('Home Internet', 'tmhi'),
+  ('Home Internet', 't-mobile home'),
+  ('Home Internet', 'home router')
+) AS seed(area, pattern)
+JOIN product_areas ON product_areas.name = seed.area
+ON CONFLICT (product_area_id, language, pattern) DO NOTHING;
+
+-- ============================================
+-- MULTI-LABEL SIGNALS
+-- ============================================
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS product_area_ids uuid[] NOT NULL DEFAULT '{}';
+
+UPDATE signals
+SET product_area_ids = ARRAY[product_area_id]
+WHERE product_area_id IS NOT NULL AND product_area_ids = '{}';
+
+CREATE INDEX IF NOT EXISTS signals_product_area_ids_idx ON signals USING GIN (product_area_ids);
@@ -0,0 +1,17 @@
+-- ============================================
+-- SIGNAL SUB-TOPICS
+-- ============================================
+--
+-- Canonical sub-topic beneath the primary product area, e.g.
+-- 'network.outage', 'billing.overcharge'. The tree and its synonyms live in
+-- lib/processing/subtopics.ts. Emerging issues, early warning, intensity
+-- snapshots and opportunity creation aggregate by this key; signals without
+-- it are mapped from their free-text topic at read time.
+--
+-- signal_intensity_snapshots.topic now stores the same issue key.
+--
+-- ============================================
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS subtopic text;
+
+CREATE INDEX IF NOT EXISTS signals_subtopic_idx ON signals (product_area_id, subtopic);
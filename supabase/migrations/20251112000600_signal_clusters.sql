@@ -0,0 +1,36 @@
+-- ============================================
+-- SIGNAL CLUSTERS
+-- ============================================
+--
+-- Emergent themes found by /api/cron/cluster-signals (TF-IDF + online
+-- k-means over signals.meta.original_text in a rolling window).
+-- One row per cluster; rows from the same run share run_id.
+--
+-- - top_terms: [{ term, weight }] from the cluster centroid
+-- - representative_quotes: [{ signalId, text, similarity }] closest to the centroid
+-- - novelty: share of member signals no product area / sub-topic rule matched
+--
+-- Runs older than 7 days are deleted by the cron job.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS signal_clusters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL,
+  window_start timestamptz NOT NULL,
+  window_end timestamptz NOT NULL,
+  label text NOT NULL,
+  top_terms jsonb NOT NULL DEFAULT '[]',
+  representative_quotes jsonb NOT NULL DEFAULT '[]',
+  signal_ids uuid[] NOT NULL DEFAULT '{}',
+  size integer NOT NULL,
+  avg_sentiment numeric NOT NULL DEFAULT 0,
+  cohesion numeric NOT NULL DEFAULT 0,
+  novelty numeric NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS signal_clusters_run_idx ON signal_clusters (run_id);
+CREATE INDEX IF NOT EXISTS signal_clusters_created_at_idx ON signal_clusters (created_at DESC);
+
+ALTER TABLE signal_clusters ENABLE ROW LEVEL SECURITY;
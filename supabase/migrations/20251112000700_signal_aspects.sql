@@ -0,0 +1,15 @@
+-- ============================================
+-- SIGNAL ASPECTS
+-- ============================================
+--
+-- Aspect-based sentiment per signal, e.g. for "love the 5G speed but the
+-- bill is outrageous":
+--   [{"aspect": "speed", "productArea": "Network", "score": 0.6, ...},
+--    {"aspect": "billing", "productArea": "Billing", "score": -0.6, ...}]
+-- The lexicon lives in lib/processing/sentiment.ts. Product-area CHI averages
+-- the aspects that roll up to the area and falls back to the overall
+-- sentiment for signals without any (including rows from before this column).
+--
+-- ============================================
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS aspects jsonb NOT NULL DEFAULT '[]'::jsonb;
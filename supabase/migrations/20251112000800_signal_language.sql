@@ -0,0 +1,72 @@
+-- ============================================
+-- SIGNAL LANGUAGE
+-- ============================================
+--
+-- Language detected for each item ('en', 'es'); Spanish posts are scored with
+-- the Spanish lexicons in lib/processing/sentiment.ts and classified with
+-- localized product-area rules. Offered as a dashboard filter.
+--
+-- product_area_rules.language: rules in languages other than English only
+-- apply to text detected in that language (Spanish 'red' never matches
+-- English 'red'); English rules apply to everything.
+--
+-- ============================================
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'en';
+
+CREATE INDEX IF NOT EXISTS signals_language_detected_at_idx ON signals (language, detected_at DESC);
+
+ALTER TABLE product_area_rules ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'en';
+
+-- Rules are unique per language ('red' can be a rule in English and in
+-- Spanish); databases created before the column keep the old key until here
+ALTER TABLE product_area_rules DROP CONSTRAINT IF EXISTS product_area_rules_product_area_id_pattern_key;
+ALTER TABLE product_area_rules DROP CONSTRAINT IF EXISTS product_area_rules_product_area_id_language_pattern_key;
+ALTER TABLE product_area_rules
+  ADD CONSTRAINT product_area_rules_product_area_id_language_pattern_key UNIQUE (product_area_id, language, pattern);
+
+-- Seed with the static Spanish rules
+INSERT INTO product_area_rules (product_area_id, pattern, language)
+SELECT product_areas.id, seed.pattern, 'es'
+FROM (VALUES
+  ('Network', 'red'),
+  ('Network', 'señal'),
+  ('Network', 'cobertura'),
+  ('Network', 'antena'),
+  ('Network', 'sin servicio'),
+  ('Network', 'sin señal'),
+  ('Network', 'caída'),
+  ('Network', 'datos'),
+  ('Network', 'velocidad'),
+  ('Network', 'lento'),
+  ('Network', 'lenta'),
+  ('Network', 'conexión'),
+  ('Network', 'llamadas'),
+  ('Network', 'itinerancia'),
+  ('Mobile App', 'aplicación'),
+  ('Mobile App', 'iniciar sesión'),
+  ('Mobile App', 'contraseña'),
+  ('Mobile App', 'cuenta'),
+  ('Mobile App', 'pantalla'),
+  ('Mobile App', 'actualización'),
+  ('Billing', 'factura'),
+  ('Billing', 'cobro'),
+  ('Billing', 'cobraron'),
+  ('Billing', 'pago'),
+  ('Billing', 'precio'),
+  ('Billing', 'tarifa'),
+  ('Billing', 'cargo'),
+  ('Billing', 'reembolso'),
+  ('Billing', 'crédito'),
+  ('Billing', 'saldo'),
+  ('Billing', 'dinero'),
+  ('Billing', 'caro'),
+  ('Home Internet', 'internet en casa'),
+  ('Home Internet', 'internet de casa'),
+  ('Home Internet', 'internet residencial'),
+  ('Home Internet', 'internet del hogar'),
+  ('Home Internet', 'módem'),
+  ('Home Internet', 'enrutador')
+) AS seed(area, pattern)
+JOIN product_areas ON product_areas.name = seed.area
+ON CONFLICT (product_area_id, language, pattern) DO NOTHING;
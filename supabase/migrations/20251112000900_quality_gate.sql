@@ -0,0 +1,33 @@
+-- ============================================
+-- QUALITY GATE
+-- ============================================
+--
+-- Items scored by lib/processing/quality-gate.ts before analysis (link
+-- density, boilerplate, promotional language, text quality, bot patterns,
+-- news vs customer voice, repeated text within an event).
+--
+-- - Rejected items are kept in rejected_items with the reasons and penalties
+--   that sank them, for the rejected-items view at /pm/quality.
+-- - Down-weighted items become signals whose intensity is scaled by their
+--   score, so signals.intensity becomes fractional.
+--
+-- ============================================
+
+ALTER TABLE signals ALTER COLUMN intensity TYPE numeric;
+
+CREATE TABLE IF NOT EXISTS rejected_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  raw_event_id uuid REFERENCES raw_events(id) ON DELETE CASCADE,
+  source text NOT NULL,
+  text text NOT NULL,
+  url text,
+  score numeric NOT NULL,
+  reasons jsonb NOT NULL DEFAULT '[]',
+  pipeline_version text,
+  rejected_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS rejected_items_rejected_at_idx ON rejected_items (rejected_at DESC);
+CREATE INDEX IF NOT EXISTS rejected_items_raw_event_id_idx ON rejected_items (raw_event_id);
+
+ALTER TABLE rejected_items ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,20 @@
+-- ============================================
+-- RAW EVENT CLAIMS
+-- ============================================
+--
+-- /api/process/raw runs the batch processor (lib/processing/batch-processor.ts)
+-- over claimed raw events. A run claims events by stamping claimed_at and
+-- claimed_by; other runs skip them until the 5 minute lease expires, so
+-- overlapping cron invocations never process the same event twice.
+--
+-- Each committed batch sets processed = true and clears the claim (the
+-- checkpoint). Events left when a run hits its time budget are released
+-- immediately; events of a run killed mid-batch come back when the lease
+-- expires, and item_fingerprints make the retried batch idempotent.
+--
+-- ============================================
+
+ALTER TABLE raw_events ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+ALTER TABLE raw_events ADD COLUMN IF NOT EXISTS claimed_by uuid;
+
+CREATE INDEX IF NOT EXISTS raw_events_unprocessed_idx ON raw_events (created_at) WHERE processed = false;
@@ -0,0 +1,39 @@
+-- ============================================
+-- PIPELINE FAILURES
+-- ============================================
+--
+-- Dead-letter queue for failed scrapes (stage 'scrape', one open row per
+-- source) and failed raw events (stage 'process', raw_event_id points at the
+-- payload). Managed by lib/processing/failures.ts.
+--
+-- - attempts: failed attempts so far; retries back off exponentially
+--   (1, 2, 4, 8 minutes... capped at 6 hours)
+-- - status: pending (waiting for next_retry_at), dead (out of retries, waits
+--   for an operator on /pipeline/health), resolved, discarded
+--
+-- raw_events.retry_after mirrors next_retry_at for process failures so the
+-- claim query in /api/process/raw honors the backoff; dead-lettered events
+-- get 'infinity' until they are replayed or discarded.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS pipeline_failures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stage text NOT NULL CHECK (stage IN ('scrape', 'process')),
+  source text NOT NULL,
+  raw_event_id uuid REFERENCES raw_events(id) ON DELETE CASCADE,
+  error text NOT NULL,
+  attempts integer NOT NULL DEFAULT 1,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dead', 'resolved', 'discarded')),
+  next_retry_at timestamptz,
+  first_failed_at timestamptz NOT NULL DEFAULT now(),
+  last_failed_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS pipeline_failures_open_idx ON pipeline_failures (stage, status) WHERE status IN ('pending', 'dead');
+CREATE INDEX IF NOT EXISTS pipeline_failures_raw_event_id_idx ON pipeline_failures (raw_event_id);
+
+ALTER TABLE pipeline_failures ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE raw_events ADD COLUMN IF NOT EXISTS retry_after timestamptz;
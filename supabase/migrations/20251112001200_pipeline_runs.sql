@@ -0,0 +1,34 @@
+-- ============================================
+-- PIPELINE RUNS
+-- ============================================
+--
+-- One row per execution of a pipeline job, written by
+-- lib/processing/pipeline-runs.ts:
+--
+-- - job: ingest (/api/cron/ingest), process (/api/process/raw),
+--   snapshots (/api/cron/capture-snapshots), close_loop (/api/process/close-loop)
+-- - status: running until the job finishes; partial when some sources or
+--   events failed; a row stuck in running means the function was killed
+-- - stages: { "<stage>": { itemsIn, itemsOut, durationMs, drops: { reason: n }, errors } }
+-- - summary: the job's own result counters
+--
+-- Summarized by /api/process/runs for the /pipeline page.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job text NOT NULL CHECK (job IN ('ingest', 'process', 'snapshots', 'close_loop')),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'partial', 'failed')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  duration_ms integer,
+  stages jsonb NOT NULL DEFAULT '{}'::jsonb,
+  summary jsonb NOT NULL DEFAULT '{}'::jsonb,
+  error text
+);
+
+CREATE INDEX IF NOT EXISTS pipeline_runs_started_at_idx ON pipeline_runs (started_at DESC);
+CREATE INDEX IF NOT EXISTS pipeline_runs_job_started_at_idx ON pipeline_runs (job, started_at DESC);
+
+ALTER TABLE pipeline_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,61 @@
+-- ============================================
+-- SOURCE CREDIBILITY WEIGHTS
+-- ============================================
+--
+-- How much a signal counts toward CHI, product-area volume, RICE reach and
+-- early-warning velocity (lib/processing/credibility.ts, edited at /pm/taxonomy):
+--
+--   weighted intensity = intensity × source weight × content-type weight
+--
+-- - kind 'source': key is signals.source (reddit, google-news, ...)
+-- - kind 'content_type': key is first_person, community_answer,
+--   status_page, news or other
+--
+-- Missing rows fall back to the defaults in credibility.ts.
+--
+-- signals.content_type is classified by the pipeline; older rows stay NULL
+-- and are treated by source (outage trackers as status_page, news sources as
+-- news, everything else as other).
+--
+-- signal_intensity_snapshots.weighted_intensity backs the weighted
+-- early-warning velocity.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS credibility_weights (
+  kind text NOT NULL CHECK (kind IN ('source', 'content_type')),
+  key text NOT NULL,
+  weight numeric NOT NULL CHECK (weight >= 0 AND weight <= 2),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (kind, key)
+);
+
+ALTER TABLE credibility_weights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read credibility weights"
+  ON credibility_weights FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can manage credibility weights"
+  ON credibility_weights FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Seed with the defaults
+INSERT INTO credibility_weights (kind, key, weight)
+VALUES
+  ('source', 'reddit', 1),
+  ('source', 'tmobile-community', 1),
+  ('source', 'customer-feedback', 1),
+  ('source', 'istheservicedown', 0.8),
+  ('source', 'rss-feed', 0.6),
+  ('source', 'google-news', 0.5),
+  ('source', 'downdetector', 0.4),
+  ('source', 'outage-report', 0.4),
+  ('content_type', 'first_person', 1),
+  ('content_type', 'community_answer', 0.6),
+  ('content_type', 'status_page', 0.7),
+  ('content_type', 'news', 0.3),
+  ('content_type', 'other', 0.8)
+ON CONFLICT (kind, key) DO NOTHING;
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS content_type text;
+
+ALTER TABLE signal_intensity_snapshots ADD COLUMN IF NOT EXISTS weighted_intensity numeric;
@@ -0,0 +1,35 @@
+-- ============================================
+-- SYNTHETIC DATA FLAG
+-- ============================================
+--
+-- Marks data that was not fetched live from its source:
+--
+-- - raw_events.synthetic: the fetch replayed saved HTML fixtures
+--   (SCRAPER_MODE=fixture, lib/scraper/fixtures.ts) or contains bundled
+--   sample data
+-- - signals.synthetic: copied from the item or raw event the signal came
+--   from. Dedup never merges synthetic and live items into one signal.
+--
+-- Dashboards pass ?synthetic=exclude to leave synthetic signals out.
+--
+-- Existing DownDetector, Outage.report and T-Mobile Community rows came from
+-- the old sample-data generators, as did customer-feedback rows that
+-- include the bundled sample comments, so they are backfilled as synthetic.
+--
+-- ============================================
+
+ALTER TABLE raw_events ADD COLUMN IF NOT EXISTS synthetic boolean NOT NULL DEFAULT false;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS synthetic boolean NOT NULL DEFAULT false;
+
+UPDATE raw_events
+SET synthetic = true
+WHERE source IN ('downdetector', 'outage-report', 'tmobile-community')
+   OR (source = 'customer-feedback' AND raw_payload->>'data_source' IN ('sample', 'combined'));
+
+UPDATE signals
+SET synthetic = true
+WHERE meta->>'raw_event_id' IN (
+  SELECT id::text FROM raw_events WHERE synthetic = true
+);
+
+CREATE INDEX IF NOT EXISTS signals_live_detected_at_idx ON signals (detected_at) WHERE synthetic = false;
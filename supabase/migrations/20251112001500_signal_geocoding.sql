@@ -0,0 +1,22 @@
+-- ============================================
+-- SIGNAL GEOCODING
+-- ============================================
+--
+-- Coordinates resolved by the pipeline's offline gazetteer geocoder
+-- (lib/processing/geocoder.ts) from the source's city/state or location
+-- hints, or from places mentioned in the text:
+--
+-- - signals.lat / signals.lng: city center, ZIP prefix area or state center
+-- - signals.geo_confidence: 0-1; text mentions and ambiguous names score lower
+-- - signals.geo.resolved: full match (city, state, precision, method, matched text)
+--
+-- /api/geo/feedback aggregates these for the geo heatmap. Signals created
+-- before pipeline version 2025.11.11 stay NULL until reprocessed.
+--
+-- ============================================
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS lat double precision;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS lng double precision;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS geo_confidence numeric CHECK (geo_confidence >= 0 AND geo_confidence <= 1);
+
+CREATE INDEX IF NOT EXISTS signals_located_detected_at_idx ON signals (detected_at) WHERE lat IS NOT NULL;
@@ -0,0 +1,25 @@
+-- ============================================
+-- HOURLY SNAPSHOT VALUES FOR ANOMALY DETECTION
+-- ============================================
+--
+-- Early warning scores each issue's last hour against an hour-of-week
+-- baseline (lib/processing/anomaly-detection.ts). cron/capture-snapshots now
+-- records, next to the rolling 24-hour totals:
+--
+-- - hourly_intensity / hourly_weighted_intensity / hourly_signal_count:
+--   signals detected in the hour before snapshot_at
+-- - hour_of_week: 0 (Sunday 00:00 UTC) to 167, for loading one slot's history
+--
+-- Snapshots are kept for 8 weeks instead of 7 days so every hour of the week
+-- has a history. Rows captured earlier have NULL hourly values and are left
+-- out of the baseline.
+--
+-- ============================================
+
+ALTER TABLE signal_intensity_snapshots ADD COLUMN IF NOT EXISTS hourly_intensity numeric;
+ALTER TABLE signal_intensity_snapshots ADD COLUMN IF NOT EXISTS hourly_weighted_intensity numeric;
+ALTER TABLE signal_intensity_snapshots ADD COLUMN IF NOT EXISTS hourly_signal_count integer;
+ALTER TABLE signal_intensity_snapshots ADD COLUMN IF NOT EXISTS hour_of_week smallint CHECK (hour_of_week >= 0 AND hour_of_week < 168);
+
+CREATE INDEX IF NOT EXISTS signal_intensity_snapshots_hour_of_week_idx
+  ON signal_intensity_snapshots (hour_of_week, snapshot_at);
@@ -0,0 +1,76 @@
+-- ============================================
+-- ALERT RULES AND CHANNELS
+-- ============================================
+--
+-- User-defined alerts, evaluated by lib/alerts/engine.ts after each
+-- /api/cron/capture-snapshots run and managed at /pm/alerts:
+--
+-- - alert_channels: where alerts go. kind webhook ({ url, headers? }),
+--   slack ({ url }, Slack-compatible incoming webhook) or email ({ to: [] },
+--   sent over the SMTP_* server)
+-- - alert_rules: kind chi_below, intensity_vs_baseline or closed_loop_status,
+--   with kind-specific params (lib/alerts/rules.ts). condition_since tracks how
+--   long a duration condition ("CHI below 40 for 30 min") has held.
+-- - alert_events: every fired alert with its per-channel delivery results.
+--   A trigger with the same rule_id and dedup_key is not fired again within
+--   the rule's cooldown_minutes (state changes fire once per key).
+--
+-- Evaluation passes are recorded in pipeline_runs as job 'alerts'.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS alert_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('webhook', 'slack', 'email')),
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('chi_below', 'intensity_vs_baseline', 'closed_loop_status')),
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  channel_ids uuid[] NOT NULL DEFAULT '{}',
+  cooldown_minutes integer NOT NULL DEFAULT 60 CHECK (cooldown_minutes >= 0),
+  enabled boolean NOT NULL DEFAULT true,
+  condition_since timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS alert_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+  dedup_key text NOT NULL,
+  title text NOT NULL,
+  message text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  deliveries jsonb NOT NULL DEFAULT '[]'::jsonb,
+  fired_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS alert_events_dedup_idx ON alert_events (rule_id, dedup_key, fired_at DESC);
+CREATE INDEX IF NOT EXISTS alert_events_fired_at_idx ON alert_events (fired_at DESC);
+
+ALTER TABLE alert_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage alert channels"
+  ON alert_channels FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage alert rules"
+  ON alert_rules FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can read alert events"
+  ON alert_events FOR SELECT TO authenticated USING (true);
+
+-- Alert evaluation passes are a pipeline job
+ALTER TABLE pipeline_runs DROP CONSTRAINT IF EXISTS pipeline_runs_job_check;
+ALTER TABLE pipeline_runs ADD CONSTRAINT pipeline_runs_job_check
+  CHECK (job IN ('ingest', 'process', 'snapshots', 'close_loop', 'alerts'));
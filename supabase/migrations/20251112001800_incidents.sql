@@ -0,0 +1,58 @@
+-- ============================================
+-- INCIDENTS
+-- ============================================
+--
+-- Outage incidents tracked across sources (lib/processing/incidents.ts).
+-- After each /api/process/raw run, negative Network signals from the last
+-- hour are correlated; when enough of them arrive from several sources, an
+-- incident is opened and every later matching signal is linked to it:
+--
+-- - status: suspected -> confirmed -> mitigating -> resolved. The pipeline
+--   only moves an incident forward (confirmed once the signal count and source
+--   count pass their thresholds, mitigating once the hourly rate falls well
+--   below its peak, resolved after a quiet period); PMs can set any status at
+--   /incidents/<id>.
+-- - timeline: [{ at, type, message, status? }] entries for opening, status
+--   changes, new sources, new regions and promotion
+-- - affected_regions: [{ state, signalCount, places: [] }] from geocoded signals
+-- - opportunity_id: the opportunity card the incident was promoted into
+--
+-- At most one incident per product area is open at a time.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS incidents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  product_area_id uuid NOT NULL REFERENCES product_areas(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'suspected'
+    CHECK (status IN ('suspected', 'confirmed', 'mitigating', 'resolved')),
+  severity text NOT NULL DEFAULT 'low' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  started_at timestamptz NOT NULL,
+  last_signal_at timestamptz NOT NULL,
+  confirmed_at timestamptz,
+  mitigating_at timestamptz,
+  resolved_at timestamptz,
+  signal_ids uuid[] NOT NULL DEFAULT '{}',
+  signal_count integer NOT NULL DEFAULT 0,
+  sources text[] NOT NULL DEFAULT '{}',
+  peak_hourly_weight numeric NOT NULL DEFAULT 0,
+  affected_regions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  timeline jsonb NOT NULL DEFAULT '[]'::jsonb,
+  opportunity_id uuid REFERENCES opportunity_cards(id) ON DELETE SET NULL,
+  synthetic boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS incidents_one_open_per_area_idx
+  ON incidents (product_area_id) WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS incidents_started_at_idx ON incidents (started_at DESC);
+
+ALTER TABLE incidents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read incidents"
+  ON incidents FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can update incidents"
+  ON incidents FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
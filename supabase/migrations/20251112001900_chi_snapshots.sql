@@ -0,0 +1,46 @@
+-- ============================================
+-- CHI SNAPSHOTS
+-- ============================================
+--
+-- Customer Happiness Index history (lib/utils/chi-history.ts), written by
+-- /api/cron/capture-snapshots and read by /api/dashboard/chi-history:
+--
+-- - granularity hourly: recomputed from signals for the current and previous
+--   UTC hour on every capture, so late-arriving signals are counted
+-- - granularity daily / weekly: rolled up from hourly / daily rows
+--   (UTC days, ISO weeks starting Monday)
+-- - product_area_id NULL is the overall CHI
+-- - scope 'all' counts every signal; 'live' leaves out synthetic signals
+--   (the dashboard's "Live only" toggle)
+--
+-- sentiment_sum / weight_sum (credibility-weighted) and raw_sentiment_sum /
+-- raw_weight_sum (intensity only) are kept so roll-ups and range totals are
+-- exact weighted averages rather than averages of scores.
+--
+-- Hourly rows are kept 35 days, daily rows 400 days, weekly rows indefinitely.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS chi_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_area_id uuid REFERENCES product_areas(id) ON DELETE CASCADE,
+  granularity text NOT NULL CHECK (granularity IN ('hourly', 'daily', 'weekly')),
+  scope text NOT NULL DEFAULT 'all' CHECK (scope IN ('all', 'live')),
+  period_start timestamptz NOT NULL,
+  chi numeric CHECK (chi >= 0 AND chi <= 100),
+  raw_chi numeric CHECK (raw_chi >= 0 AND raw_chi <= 100),
+  signal_count integer NOT NULL DEFAULT 0,
+  sentiment_sum double precision NOT NULL DEFAULT 0,
+  weight_sum double precision NOT NULL DEFAULT 0,
+  raw_sentiment_sum double precision NOT NULL DEFAULT 0,
+  raw_weight_sum double precision NOT NULL DEFAULT 0,
+  computed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS chi_snapshots_period_idx
+  ON chi_snapshots (granularity, scope, product_area_id, period_start) NULLS NOT DISTINCT;
+
+ALTER TABLE chi_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read CHI snapshots"
+  ON chi_snapshots FOR SELECT TO authenticated USING (true);
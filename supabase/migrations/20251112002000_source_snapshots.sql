@@ -0,0 +1,32 @@
+-- ============================================
+-- SOURCE SNAPSHOTS
+-- ============================================
+--
+-- Latest full payload (before cursor filtering) of status-page sources
+-- (DownDetector, Outage.report), written by lib/scraper/store.ts on every
+-- successful scrape, with or without new items. raw_events only gets a row
+-- when the cursor lets new comments through, so the outage map and status
+-- fields (/api/dashboard/outages) read from here instead.
+--
+-- One row per source and synthetic flag, so "Live only" views still find
+-- the latest live scrape after a fixture replay.
+--
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS source_snapshots (
+  source text NOT NULL,
+  synthetic boolean NOT NULL DEFAULT false,
+  payload jsonb NOT NULL,
+  fetched_at timestamptz NOT NULL,
+  PRIMARY KEY (source, synthetic)
+);
+
+ALTER TABLE source_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Seed from the latest stored scrapes
+INSERT INTO source_snapshots (source, synthetic, payload, fetched_at)
+SELECT DISTINCT ON (source, synthetic) source, synthetic, raw_payload, fetched_at
+FROM raw_events
+WHERE source IN ('downdetector', 'outage-report')
+ORDER BY source, synthetic, fetched_at DESC
+ON CONFLICT (source, synthetic) DO NOTHING;
@@ -0,0 +1,23 @@
+-- ============================================
+-- CONCURRENT INCIDENTS PER REGION
+-- ============================================
+--
+-- Incidents are correlated by region (lib/processing/incidents.ts), so
+-- outages in different states are tracked as separate, concurrent
+-- incidents instead of every negative Network signal joining the one open
+-- incident of the product area.
+--
+-- - region: two-letter state the incident was opened for; '' for a
+--   nationwide incident (signals without a usable location). Incidents open
+--   before this migration become nationwide.
+--
+-- At most one incident per product area and region is open at a time.
+--
+-- ============================================
+
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS region text NOT NULL DEFAULT '';
+
+DROP INDEX IF EXISTS incidents_one_open_per_area_idx;
+
+CREATE UNIQUE INDEX IF NOT EXISTS incidents_one_open_per_region_idx
+  ON incidents (product_area_id, region) WHERE status <> 'resolved';
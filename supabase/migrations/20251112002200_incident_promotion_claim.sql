@@ -0,0 +1,16 @@
+-- ============================================
+-- INCIDENT PROMOTION CLAIM
+-- ============================================
+--
+-- Promoting an incident (POST /api/opportunities with incidentId) first
+-- claims it with a conditional update (opportunity_id IS NULL and no live
+-- claim), and only then creates the opportunity card, so two concurrent
+-- promotions cannot both create a card. opportunity_id can only be set once
+-- the card exists, hence the separate claim column.
+--
+-- - promotion_claimed_at: when a promotion claimed the incident; a claim
+--   older than a few minutes is taken over (the request died)
+--
+-- ============================================
+
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS promotion_claimed_at timestamptz;